@@ -15,6 +15,18 @@ echo "Deploying Edge Functions to Supabase..."
 echo "Deploying generate-insights function..."
 supabase functions deploy generate-insights --no-verify-jwt
 
+# Deploy the generate-action-plan function
+echo "Deploying generate-action-plan function..."
+supabase functions deploy generate-action-plan --no-verify-jwt
+
+# Deploy the check-achievements function
+echo "Deploying check-achievements function..."
+supabase functions deploy check-achievements
+
+# Deploy the coach-chat function
+echo "Deploying coach-chat function..."
+supabase functions deploy coach-chat
+
 # Copy the shared CORS module to the functions directory
 echo "Setting up shared modules..."
 mkdir -p .supabase/functions/_shared
@@ -22,6 +34,8 @@ cp -r supabase/functions/_shared/* .supabase/functions/_shared/
 
 echo "Edge Functions deployment completed!"
 echo ""
-echo "Important: Make sure to set the OPENAI_API_KEY secret for the Edge Function to work properly."
-echo "You can set it using the Supabase dashboard or with the following command:"
-echo "supabase secrets set OPENAI_API_KEY=your_openai_key" 
\ No newline at end of file
+echo "Important: Choose the LLM the AI Edge Functions use with the LLM_PROVIDER secret"
+echo "(openai, anthropic, ollama, llamacpp or mock) and set its API key if it needs one."
+echo "You can set them using the Supabase dashboard or with the following commands:"
+echo "supabase secrets set LLM_PROVIDER=openai OPENAI_API_KEY=your_openai_key"
+echo "supabase secrets set LLM_PROVIDER=ollama LLM_BASE_URL=http://your-ollama-host:11434 LLM_MODEL=llama3.1" 
\ No newline at end of file
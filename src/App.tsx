@@ -4,6 +4,8 @@ import { Toaster } from 'sonner'
 import HomePage from '@/pages/HomePage'
 import LoginPage from '@/pages/LoginPage'
 import DashboardPage from '@/pages/DashboardPage'
+import ReportPage from '@/pages/ReportPage'
+import StudyAnalyticsPage from '@/pages/StudyAnalyticsPage'
 import { AlertCircle, DatabaseIcon, ExternalLink } from 'lucide-react'
 import { DirectLogin } from '@/components/dashboard/direct-login'
 import { useEffect } from 'react'
@@ -169,7 +171,9 @@ function App() {
     <ThemeProvider>
       <AuthProvider>
         {/* Global floating timer that persists across all routes */}
-        <GlobalFloatingTimer />
+        <div className="print:hidden">
+          <GlobalFloatingTimer />
+        </div>
         
         <Routes>
           <Route path="/" element={<HomePage />} />
@@ -183,6 +187,16 @@ function App() {
               <DashboardPage />
             </ProtectedRoute>
           } />
+          <Route path="/report" element={
+            <ProtectedRoute>
+              <ReportPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/analytics" element={
+            <ProtectedRoute>
+              <StudyAnalyticsPage />
+            </ProtectedRoute>
+          } />
           <Route path="/direct-login" element={<DirectLogin />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -1,8 +1,11 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Trophy, Star, Target, Award, TrendingUp, BookOpen, CheckCircle, Flame } from "lucide-react";
-import { supabase } from '@/lib/supabase';
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Trophy, Star, Target, Award, TrendingUp, BookOpen, CheckCircle, Flame, Settings2 } from "lucide-react";
+import { getAchievementProgress, isAchievementAdmin } from '@/lib/achievements';
+import { ManageAchievementsDialog } from "./manage-achievements-dialog";
 
 interface Achievement {
   id: string;
@@ -12,8 +15,10 @@ interface Achievement {
   category: string;
   points: number;
   rarity: string;
-  earned_at?: string;
+  earned_at?: string | null;
   progress: number;
+  // Progress in words; empty when the criteria can't be measured
+  summary: string;
 }
 
 interface AchievementsWidgetProps {
@@ -24,55 +29,42 @@ export function AchievementsWidget({ userId }: AchievementsWidgetProps) {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [totalPoints, setTotalPoints] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [showManageDialog, setShowManageDialog] = useState(false);
 
   useEffect(() => {
     loadAchievements();
+    isAchievementAdmin(userId).then(setIsAdmin);
+
+    const handleRefresh = () => loadAchievements();
+    window.addEventListener('refresh-achievements', handleRefresh);
+    return () => window.removeEventListener('refresh-achievements', handleRefresh);
   }, [userId]);
 
   const loadAchievements = async () => {
     try {
-      // Get user's earned achievements
-      const { data: userAchievements, error: userError } = await supabase
-        .from('user_achievements')
-        .select(`
-          *,
-          achievements (*)
-        `)
-        .eq('user_id', userId)
-        .order('earned_at', { ascending: false });
-
-      if (userError) {
-        console.error("Error loading user achievements:", userError);
-        return;
-      }
-
-      // Get all available achievements to show progress
-      const { data: allAchievements, error: allError } = await supabase
-        .from('achievements')
-        .select('*')
-        .eq('is_active', true)
-        .order('points', { ascending: false });
+      const { achievements: allAchievements, progress } = await getAchievementProgress(userId);
 
-      if (allError) {
-        console.error("Error loading all achievements:", allError);
-        return;
-      }
-
-      // Merge earned and available achievements
-      const earnedIds = new Set(userAchievements?.map(ua => ua.achievement_id) || []);
-      const mergedAchievements = allAchievements?.map(achievement => {
-        const userAchievement = userAchievements?.find(ua => ua.achievement_id === achievement.id);
+      const mergedAchievements = allAchievements.map(achievement => {
+        const status = progress.find(p => p.achievementId === achievement.id);
         return {
           ...achievement,
-          earned_at: userAchievement?.earned_at,
-          progress: userAchievement?.progress || 0
+          points: achievement.points || 0,
+          rarity: achievement.rarity || 'common',
+          earned_at: status?.earnedAt,
+          progress: status?.progress || 0,
+          summary: status?.summary || ''
         };
-      }) || [];
+      });
 
+      // Unlocked first, then the locked ones closest to unlocking
+      mergedAchievements.sort((a, b) =>
+        Number(!!b.earned_at) - Number(!!a.earned_at) || b.progress - a.progress || b.points - a.points
+      );
       setAchievements(mergedAchievements.slice(0, 6)); // Show top 6
-      
+
       // Calculate total points
-      const points = userAchievements?.reduce((sum, ua) => sum + (ua.achievements?.points || 0), 0) || 0;
+      const points = mergedAchievements.reduce((sum, achievement) => sum + (achievement.earned_at ? achievement.points : 0), 0);
       setTotalPoints(points);
 
     } catch (error) {
@@ -134,6 +126,12 @@ export function AchievementsWidget({ userId }: AchievementsWidgetProps) {
               {totalPoints} points earned • {achievements.filter(a => a.earned_at).length} unlocked
             </CardDescription>
           </div>
+          {isAdmin && (
+            <Button variant="outline" size="sm" onClick={() => setShowManageDialog(true)}>
+              <Settings2 className="h-4 w-4 mr-1" />
+              Manage
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -168,6 +166,12 @@ export function AchievementsWidget({ userId }: AchievementsWidgetProps) {
                       {achievement.points}pts
                     </span>
                   </div>
+                  {!achievement.earned_at && achievement.summary && (
+                    <div className="mt-2 space-y-1">
+                      <Progress value={achievement.progress} className="h-1.5" />
+                      <p className="text-[11px] text-gray-500">{achievement.summary}</p>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -182,6 +186,13 @@ export function AchievementsWidget({ userId }: AchievementsWidgetProps) {
           ))}
         </div>
       </CardContent>
+      {isAdmin && (
+        <ManageAchievementsDialog
+          open={showManageDialog}
+          onOpenChange={setShowManageDialog}
+          onSuccess={() => window.dispatchEvent(new Event('achievements-changed'))}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -35,19 +35,37 @@ import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
 import { Calendar as CalendarIcon, Loader2 } from "lucide-react";
 import { format } from "date-fns";
+import { GOAL_METRICS, getGoalMetric, syncGoalProgress, TrackedGoal } from "@/lib/goal-progress";
 
 const goalSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().optional(),
   subject_id: z.string().optional(),
   target_date: z.date({ required_error: "Target date is required" }),
-  target_score: z.coerce.number().min(0).max(100).optional(),
+  target_score: z.coerce.number().min(0).optional(),
   priority: z.enum(["low", "medium", "high"]),
   category: z.enum(["exam", "subject", "assignment", "skill"]),
+  metric: z.enum(["manual", "subject_average", "test_score", "study_hours", "streak"]),
+  metric_test_type: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.metric !== "manual" && !values.target_score) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["target_score"], message: "Set a target to track" });
+  }
+  if (getGoalMetric(values.metric).unit === "%" && (values.target_score || 0) > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["target_score"], message: "Target can't be more than 100%" });
+  }
+  if (values.metric === "subject_average" && !values.subject_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["subject_id"], message: "Pick the subject to average" });
+  }
 });
 
 type GoalFormValues = z.infer<typeof goalSchema>;
 
+// A saved goal, as it's loaded for editing
+export type EditableGoal = TrackedGoal & Pick<GoalFormValues, "priority" | "category"> & {
+  description?: string | null;
+};
+
 interface Subject {
   id: string;
   name: string;
@@ -58,7 +76,7 @@ interface AddGoalDialogProps {
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
   userId: string;
-  goal?: GoalFormValues & { id: string }; // For editing
+  goal?: EditableGoal; // For editing
 }
 
 export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: AddGoalDialogProps) {
@@ -67,13 +85,15 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
 
   const form = useForm<GoalFormValues>({
     resolver: zodResolver(goalSchema),
-    defaultValues: goal || {
+    defaultValues: {
       title: "",
       description: "",
       priority: "medium",
       category: "subject",
+      metric: "manual",
     },
   });
+  const metric = getGoalMetric(form.watch("metric"));
 
   useEffect(() => {
     async function fetchSubjects() {
@@ -86,8 +106,15 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
   useEffect(() => {
     if (goal) {
       form.reset({
-        ...goal,
+        title: goal.title,
+        description: goal.description || "",
+        subject_id: goal.subject_id || undefined,
         target_date: new Date(goal.target_date),
+        target_score: goal.target_score ?? undefined,
+        priority: goal.priority,
+        category: goal.category,
+        metric: goal.metric || "manual",
+        metric_test_type: goal.metric_test_type || undefined,
       });
     } else {
       form.reset({
@@ -95,6 +122,8 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
         description: "",
         priority: "medium",
         category: "subject",
+        metric: "manual",
+        metric_test_type: undefined,
         target_score: undefined,
         subject_id: undefined,
         target_date: undefined,
@@ -109,6 +138,7 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
         ...values,
         user_id: userId,
         target_date: format(values.target_date, "yyyy-MM-dd"),
+        metric_test_type: values.metric === "test_score" ? values.metric_test_type?.trim() || null : null,
         status: 'active',
         progress: 0, // Initial progress
       };
@@ -119,6 +149,15 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
 
       if (error) throw error;
 
+      // Measurable goals start from what's already been achieved
+      if (values.metric !== "manual") {
+        const completed = await syncGoalProgress(userId).catch(syncError => {
+          console.error("Error syncing goal progress:", syncError);
+          return [];
+        });
+        completed.forEach(reached => toast.success(`Goal reached: ${reached.title} 🎉`));
+      }
+
       toast.success(goal ? "Goal updated successfully!" : "Goal created successfully!");
       onSuccess();
       onOpenChange(false);
@@ -213,6 +252,45 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
                 )}
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="metric"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Track</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {GOAL_METRICS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {metric.value === "test_score" && (
+                <FormField
+                  control={form.control}
+                  name="metric_test_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Test Type (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., exam" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
             <div className="grid grid-cols-2 gap-4">
                <FormField
                 control={form.control}
@@ -239,9 +317,12 @@ export function AddGoalDialog({ open, onOpenChange, onSuccess, userId, goal }: A
                 name="target_score"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Target Score (Optional)</FormLabel>
+                    <FormLabel>
+                      {metric.value === "study_hours" ? "Target Hours" : metric.value === "streak" ? "Target Days" : "Target Score"}
+                      {metric.value === "manual" && " (Optional)"}
+                    </FormLabel>
                     <FormControl>
-                      <Input type="number" placeholder="e.g., 90" {...field} />
+                      <Input type="number" placeholder={metric.unit === "%" ? "e.g., 90" : "e.g., 20"} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -11,10 +11,14 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Sparkles, Trophy, BookOpen, Plus, X, CheckCircle2, Star, Award, Lightbulb, TrendingUp, TrendingDown, Settings, Save } from "lucide-react";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertCircle, Sparkles, Trophy, BookOpen, Plus, X, CheckCircle2, Star, Award, Lightbulb, TrendingUp, TrendingDown, Settings } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Switch } from "@/components/ui/switch";
+import { GradeScaleDialog } from "./grade-scale-dialog";
+import { getGradeLetter, getGradeTier } from "@/lib/grading";
+import { getTermForDate } from "@/lib/terms";
+import { syncMarkPredictions } from "@/lib/grade-prediction";
+import { useGradeScales, useGradeScaleStore } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
 
 interface Subject {
   id: string;
@@ -23,17 +27,6 @@ interface Subject {
   color?: string;
 }
 
-interface GradeScale {
-  id: string;
-  name: string;
-  A: string;
-  B: string;
-  C: string;
-  D: string;
-  E: string;
-  F: string;
-}
-
 interface AddMarkDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -55,6 +48,7 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
     subjectId: "",
     semester: "",
     customTestType: "",
+    difficulty: "",
   });
   const [recentTests, setRecentTests] = useState<any[]>([]);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
@@ -63,20 +57,9 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
   const [subjectAverage, setSubjectAverage] = useState<number | null>(null);
   const [testTypeAverage, setTestTypeAverage] = useState<number | null>(null);
   const [showGradeConfig, setShowGradeConfig] = useState(false);
-  const [customGradeScale, setCustomGradeScale] = useState<GradeScale>({
-    id: "default",
-    name: "Default",
-    A: "90",
-    B: "80",
-    C: "70",
-    D: "60",
-    E: "50",
-    F: "0"
-  });
-  const [savedGradeScales, setSavedGradeScales] = useState<GradeScale[]>([]);
-  const [selectedGradeScaleId, setSelectedGradeScaleId] = useState<string>("default");
-  const [newGradeScaleName, setNewGradeScaleName] = useState<string>("");
-  const [useCustomGradeScale, setUseCustomGradeScale] = useState(false);
+  const { getScale } = useGradeScales();
+  const { terms } = useTerms();
+  const gradeScale = getScale(formData.subjectId || null);
   
   // New states for adding subjects inline
   const [isAddingSubject, setIsAddingSubject] = useState(false);
@@ -102,7 +85,6 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
       loadSubjects();
       loadRecentTests();
       loadCustomTestTypes();
-      loadGradeScaleSettings();
       // Set default date to today
       const today = new Date().toISOString().split('T')[0];
       setFormData(prev => ({ ...prev, date: today }));
@@ -144,15 +126,6 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
     }
   }, [formData.testType, formData.customTestType, isAddingCustomType]);
 
-  // Save custom grade scale settings when they change
-  useEffect(() => {
-    if (useCustomGradeScale) {
-      saveGradeScaleSettings();
-    } else {
-      localStorage.setItem('useCustomGradeScale', 'false');
-    }
-  }, [customGradeScale, useCustomGradeScale, selectedGradeScaleId]);
-
   const loadSubjects = async () => {
     try {
       const { data: subjects, error } = await supabase
@@ -292,89 +265,6 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
     }
   };
 
-  const loadGradeScaleSettings = () => {
-    try {
-      const savedScalesStr = localStorage.getItem('savedGradeScales');
-      const useCustomScale = localStorage.getItem('useCustomGradeScale');
-      const selectedScaleId = localStorage.getItem('selectedGradeScaleId');
-      
-      if (savedScalesStr) {
-        const savedScales = JSON.parse(savedScalesStr) as GradeScale[];
-        setSavedGradeScales(savedScales);
-        
-        if (selectedScaleId) {
-          setSelectedGradeScaleId(selectedScaleId);
-          const selectedScale = savedScales.find(scale => scale.id === selectedScaleId);
-          if (selectedScale) {
-            setCustomGradeScale(selectedScale);
-          }
-        } else if (savedScales.length > 0) {
-          setCustomGradeScale(savedScales[0]);
-          setSelectedGradeScaleId(savedScales[0].id);
-        }
-      } else {
-        // Initialize with default grade scale
-        const defaultScale: GradeScale = {
-          id: "default",
-          name: "Default",
-          A: "90",
-          B: "80",
-          C: "70",
-          D: "60",
-          E: "50",
-          F: "0"
-        };
-        setSavedGradeScales([defaultScale]);
-        setCustomGradeScale(defaultScale);
-        setSelectedGradeScaleId("default");
-      }
-      
-      if (useCustomScale === 'true') {
-        setUseCustomGradeScale(true);
-      } else {
-        setUseCustomGradeScale(false);
-      }
-    } catch (error) {
-      console.error('Error loading grade scale settings:', error);
-    }
-  };
-  
-  const saveGradeScaleSettings = () => {
-    localStorage.setItem('savedGradeScales', JSON.stringify(savedGradeScales));
-    localStorage.setItem('useCustomGradeScale', 'true');
-    localStorage.setItem('selectedGradeScaleId', selectedGradeScaleId);
-  };
-  
-  const saveNewGradeScale = () => {
-    if (!newGradeScaleName.trim()) {
-      toast.error("Please enter a name for the grade scale");
-      return;
-    }
-    
-    const newScale: GradeScale = {
-      ...customGradeScale,
-      id: Date.now().toString(),
-      name: newGradeScaleName
-    };
-    
-    const updatedScales = [...savedGradeScales, newScale];
-    setSavedGradeScales(updatedScales);
-    setSelectedGradeScaleId(newScale.id);
-    setCustomGradeScale(newScale);
-    setNewGradeScaleName("");
-    
-    localStorage.setItem('savedGradeScales', JSON.stringify(updatedScales));
-    toast.success(`Grade scale "${newGradeScaleName}" saved`);
-  };
-  
-  const handleGradeScaleSelect = (scaleId: string) => {
-    const selectedScale = savedGradeScales.find(scale => scale.id === scaleId);
-    if (selectedScale) {
-      setCustomGradeScale(selectedScale);
-      setSelectedGradeScaleId(scaleId);
-    }
-  };
-
   const validateForm = () => {
     const errors: Record<string, string> = {};
     
@@ -477,6 +367,9 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
       // Always convert to lowercase to avoid potential issues
       const normalizedTestType = testType.toLowerCase();
 
+      // File the mark under the term covering its date
+      const term = getTermForDate(terms, formData.date);
+
       const { error } = await supabase
         .from('marks')
         .insert({
@@ -487,7 +380,9 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
           date: formData.date,
           subject_id: formData.subjectId,
           user_id: userId,
-          semester: formData.semester || null,
+          semester: formData.semester || term?.name || null,
+          term_id: term?.id ?? null,
+          difficulty_rating: formData.difficulty ? parseInt(formData.difficulty) : null,
         });
 
       if (error) {
@@ -496,6 +391,11 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
         return;
       }
 
+      // Keep the subject's stored letter grade in step with its new average
+      useGradeScaleStore.getState().syncCurrentGrades([formData.subjectId]);
+      await syncMarkPredictions(userId, [formData.subjectId], getScale);
+      window.dispatchEvent(new Event('refresh-marks'));
+
       // If we used a custom type that's not in our list, add it
       if (isAddingCustomType && !customTypes.includes(formData.customTestType)) {
         setCustomTypes(prev => [...prev, formData.customTestType]);
@@ -517,6 +417,7 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
         subjectId: "",
         semester: "",
         customTestType: "",
+        difficulty: "",
       });
       setIsAddingCustomType(false);
     } catch (error) {
@@ -624,74 +525,35 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
   };
 
   const getGradeColor = (percentage: number) => {
-    if (useCustomGradeScale) {
-      if (percentage >= parseFloat(customGradeScale.A)) return "bg-green-100 text-green-800 border-green-200";
-      if (percentage >= parseFloat(customGradeScale.B)) return "bg-blue-100 text-blue-800 border-blue-200";
-      if (percentage >= parseFloat(customGradeScale.C)) return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      if (percentage >= parseFloat(customGradeScale.D)) return "bg-orange-100 text-orange-800 border-orange-200";
-      if (percentage >= parseFloat(customGradeScale.E)) return "bg-purple-100 text-purple-800 border-purple-200";
-      return "bg-red-100 text-red-800 border-red-200";
-    } else {
-      if (percentage >= 90) return "bg-green-100 text-green-800 border-green-200";
-      if (percentage >= 80) return "bg-blue-100 text-blue-800 border-blue-200";
-      if (percentage >= 70) return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      if (percentage >= 60) return "bg-orange-100 text-orange-800 border-orange-200";
-      if (percentage >= 50) return "bg-purple-100 text-purple-800 border-purple-200";
-      return "bg-red-100 text-red-800 border-red-200";
+    switch (getGradeTier(percentage, gradeScale)) {
+      case 0: return "bg-green-100 text-green-800 border-green-200";
+      case 1: return "bg-blue-100 text-blue-800 border-blue-200";
+      case 2: return "bg-yellow-100 text-yellow-800 border-yellow-200";
+      case 3: return "bg-orange-100 text-orange-800 border-orange-200";
+      case 4: return "bg-purple-100 text-purple-800 border-purple-200";
+      default: return "bg-red-100 text-red-800 border-red-200";
     }
   };
 
   const getProgressColor = (percentage: number) => {
-    if (useCustomGradeScale) {
-      if (percentage >= parseFloat(customGradeScale.A)) return "bg-green-500";
-      if (percentage >= parseFloat(customGradeScale.B)) return "bg-blue-500";
-      if (percentage >= parseFloat(customGradeScale.C)) return "bg-yellow-500";
-      if (percentage >= parseFloat(customGradeScale.D)) return "bg-orange-500";
-      if (percentage >= parseFloat(customGradeScale.E)) return "bg-purple-500";
-      return "bg-red-500";
-    } else {
-      if (percentage >= 90) return "bg-green-500";
-      if (percentage >= 80) return "bg-blue-500";
-      if (percentage >= 70) return "bg-yellow-500";
-      if (percentage >= 60) return "bg-orange-500";
-      if (percentage >= 50) return "bg-purple-500";
-      return "bg-red-500";
-    }
-  };
-
-  const getGradeLetter = (percentage: number) => {
-    if (useCustomGradeScale) {
-      if (percentage >= parseFloat(customGradeScale.A)) return "A";
-      if (percentage >= parseFloat(customGradeScale.B)) return "B";
-      if (percentage >= parseFloat(customGradeScale.C)) return "C";
-      if (percentage >= parseFloat(customGradeScale.D)) return "D";
-      if (percentage >= parseFloat(customGradeScale.E)) return "E";
-      return "F";
-    } else {
-      if (percentage >= 90) return "A";
-      if (percentage >= 80) return "B";
-      if (percentage >= 70) return "C";
-      if (percentage >= 60) return "D";
-      if (percentage >= 50) return "E";
-      return "F";
+    switch (getGradeTier(percentage, gradeScale)) {
+      case 0: return "bg-green-500";
+      case 1: return "bg-blue-500";
+      case 2: return "bg-yellow-500";
+      case 3: return "bg-orange-500";
+      case 4: return "bg-purple-500";
+      default: return "bg-red-500";
     }
   };
 
   const getGradeMessage = (percentage: number) => {
-    if (useCustomGradeScale) {
-      if (percentage >= parseFloat(customGradeScale.A)) return "Excellent work!";
-      if (percentage >= parseFloat(customGradeScale.B)) return "Good job!";
-      if (percentage >= parseFloat(customGradeScale.C)) return "Satisfactory result.";
-      if (percentage >= parseFloat(customGradeScale.D)) return "Passing, but needs improvement.";
-      if (percentage >= parseFloat(customGradeScale.E)) return "Barely passing, needs significant improvement.";
-      return "Not passing, serious improvement needed.";
-    } else {
-      if (percentage >= 90) return "Excellent work!";
-      if (percentage >= 80) return "Good job!";
-      if (percentage >= 70) return "Satisfactory result.";
-      if (percentage >= 60) return "Passing, but needs improvement.";
-      if (percentage >= 50) return "Barely passing, needs significant improvement.";
-      return "Not passing, serious improvement needed.";
+    switch (getGradeTier(percentage, gradeScale)) {
+      case 0: return "Excellent work!";
+      case 1: return "Good job!";
+      case 2: return "Satisfactory result.";
+      case 3: return "Passing, but needs improvement.";
+      case 4: return "Barely passing, needs significant improvement.";
+      default: return "Not passing, serious improvement needed.";
     }
   };
 
@@ -952,7 +814,7 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
                 </div>
                 
                 {/* Bottom row - Scores */}
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                   <div>
                     <Label htmlFor="score">Your Score</Label>
                     <Input
@@ -977,6 +839,21 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
                     />
                     {formErrors.maxScore && <p className="text-red-500 text-sm mt-1">{formErrors.maxScore}</p>}
                   </div>
+                  <div>
+                    <Label htmlFor="difficulty">Difficulty</Label>
+                    <Select value={formData.difficulty} onValueChange={(value) => handleInputChange("difficulty", value)}>
+                      <SelectTrigger id="difficulty">
+                        <SelectValue placeholder="Optional" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 - Very easy</SelectItem>
+                        <SelectItem value="2">2 - Easy</SelectItem>
+                        <SelectItem value="3">3 - Average</SelectItem>
+                        <SelectItem value="4">4 - Hard</SelectItem>
+                        <SelectItem value="5">5 - Very hard</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 
                 {/* Grade preview - Always visible with skeleton state if no scores */}
@@ -987,7 +864,7 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
                         {formData.score && formData.maxScore && parseFloat(formData.maxScore) > 0 ? (
                           <>
                             Grade: <span className={getGradeColor(percentage).replace('bg-', 'text-').replace('-100', '-500').replace(' border-green-200', '')}>
-                              {getGradeLetter(percentage)}
+                              {getGradeLetter(percentage, gradeScale)}
                             </span>
                           </>
                         ) : (
@@ -1006,184 +883,17 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
                           <div className="w-16 h-6 bg-gray-200 animate-pulse rounded"></div>
                         )}
                         
-                        <Popover open={showGradeConfig} onOpenChange={setShowGradeConfig}>
-                          <PopoverTrigger asChild>
-                            <Button 
-                              variant="outline" 
-                              size="icon" 
-                              className="h-7 w-7 rounded-full"
-                              aria-label="Configure grading scale"
-                            >
-                              <Settings className="h-3.5 w-3.5" />
-                            </Button>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-80">
-                            <div className="space-y-4">
-                              <h3 className="font-medium text-sm">Grading Scale Configuration</h3>
-                              
-                              <div className="flex items-center justify-between">
-                                <span className="text-sm">Use Custom Grading Scale</span>
-                                <Switch 
-                                  checked={useCustomGradeScale} 
-                                  onCheckedChange={setUseCustomGradeScale}
-                                />
-                              </div>
-                              
-                              {useCustomGradeScale && (
-                                <div className="space-y-3 pt-2">
-                                  <div>
-                                    <Label htmlFor="gradeScaleSelect" className="text-xs">Select Grade Scale</Label>
-                                    <Select 
-                                      value={selectedGradeScaleId} 
-                                      onValueChange={handleGradeScaleSelect}
-                                    >
-                                      <SelectTrigger id="gradeScaleSelect">
-                                        <SelectValue placeholder="Select a grade scale" />
-                                      </SelectTrigger>
-                                      <SelectContent>
-                                        {savedGradeScales.map(scale => (
-                                          <SelectItem key={scale.id} value={scale.id}>
-                                            {scale.name}
-                                          </SelectItem>
-                                        ))}
-                                      </SelectContent>
-                                    </Select>
-                                  </div>
-                                  
-                                  <div className="grid grid-cols-2 gap-2">
-                                    <div>
-                                      <Label htmlFor="gradeA" className="text-xs">A Grade (≥)</Label>
-                                      <Input
-                                        id="gradeA"
-                                        type="number"
-                                        min="0"
-                                        max="100"
-                                        value={customGradeScale.A}
-                                        onChange={(e) => setCustomGradeScale({
-                                          ...customGradeScale,
-                                          A: e.target.value
-                                        })}
-                                        className="h-7 text-sm"
-                                      />
-                                    </div>
-                                    <div>
-                                      <Label htmlFor="gradeB" className="text-xs">B Grade (≥)</Label>
-                                      <Input
-                                        id="gradeB"
-                                        type="number"
-                                        min="0"
-                                        max="100"
-                                        value={customGradeScale.B}
-                                        onChange={(e) => setCustomGradeScale({
-                                          ...customGradeScale,
-                                          B: e.target.value
-                                        })}
-                                        className="h-7 text-sm"
-                                      />
-                                    </div>
-                                  </div>
-                                  <div className="grid grid-cols-2 gap-2">
-                                    <div>
-                                      <Label htmlFor="gradeC" className="text-xs">C Grade (≥)</Label>
-                                      <Input
-                                        id="gradeC"
-                                        type="number"
-                                        min="0"
-                                        max="100"
-                                        value={customGradeScale.C}
-                                        onChange={(e) => setCustomGradeScale({
-                                          ...customGradeScale,
-                                          C: e.target.value
-                                        })}
-                                        className="h-7 text-sm"
-                                      />
-                                    </div>
-                                    <div>
-                                      <Label htmlFor="gradeD" className="text-xs">D Grade (≥)</Label>
-                                      <Input
-                                        id="gradeD"
-                                        type="number"
-                                        min="0"
-                                        max="100"
-                                        value={customGradeScale.D}
-                                        onChange={(e) => setCustomGradeScale({
-                                          ...customGradeScale,
-                                          D: e.target.value
-                                        })}
-                                        className="h-7 text-sm"
-                                      />
-                                    </div>
-                                  </div>
-                                  <div className="grid grid-cols-2 gap-2">
-                                    <div>
-                                      <Label htmlFor="gradeE" className="text-xs">E Grade (≥)</Label>
-                                      <Input
-                                        id="gradeE"
-                                        type="number"
-                                        min="0"
-                                        max="100"
-                                        value={customGradeScale.E}
-                                        onChange={(e) => setCustomGradeScale({
-                                          ...customGradeScale,
-                                          E: e.target.value
-                                        })}
-                                        className="h-7 text-sm"
-                                      />
-                                    </div>
-                                    <div className="flex items-end">
-                                      <div className="text-xs text-gray-500 mb-2">
-                                        F Grade: &lt; {customGradeScale.E}
-                                      </div>
-                                    </div>
-                                  </div>
-                                  
-                                  <div className="mt-2 space-y-2">
-                                    <div>
-                                      <Label htmlFor="newGradeScaleName" className="text-xs">Save Current Configuration As</Label>
-                                      <div className="flex gap-2 mt-1">
-                                        <Input
-                                          id="newGradeScaleName"
-                                          value={newGradeScaleName}
-                                          onChange={(e) => setNewGradeScaleName(e.target.value)}
-                                          placeholder="New grade scale name"
-                                          className="h-7 text-sm"
-                                        />
-                                        <Button 
-                                          onClick={saveNewGradeScale} 
-                                          size="sm" 
-                                          className="shrink-0 h-7 bg-emerald-600 hover:bg-emerald-700"
-                                        >
-                                          <Save className="h-3.5 w-3.5 mr-1" /> Save
-                                        </Button>
-                                      </div>
-                                    </div>
-                                    
-                                    <Button 
-                                      size="sm" 
-                                      variant="outline" 
-                                      className="w-full"
-                                      onClick={() => {
-                                        const defaultScale: GradeScale = {
-                                          id: "default",
-                                          name: "Default",
-                                          A: "90",
-                                          B: "80",
-                                          C: "70",
-                                          D: "60",
-                                          E: "50",
-                                          F: "0"
-                                        };
-                                        setCustomGradeScale(defaultScale);
-                                      }}
-                                    >
-                                      Reset to Default
-                                    </Button>
-                                  </div>
-                                </div>
-                              )}
-                            </div>
-                          </PopoverContent>
-                        </Popover>
+                        <Button 
+                          type="button"
+                          variant="outline" 
+                          size="icon" 
+                          className="h-7 w-7 rounded-full"
+                          aria-label="Configure grading scale"
+                          title={`Grading scale: ${gradeScale.name}`}
+                          onClick={() => setShowGradeConfig(true)}
+                        >
+                          <Settings className="h-3.5 w-3.5" />
+                        </Button>
                       </div>
                     </div>
                     
@@ -1222,35 +932,19 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
                             </div>
                           )}
                           
-                          {useCustomGradeScale ? 
-                            (percentage >= parseFloat(customGradeScale.A) && (
-                              <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 p-2 rounded-md mt-2">
-                                <Trophy className="h-4 w-4" />
-                                <span>Excellent! This is one of your highest scores.</span>
-                              </div>
-                            )) : 
-                            (percentage >= 90 && (
-                              <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 p-2 rounded-md mt-2">
-                                <Trophy className="h-4 w-4" />
-                                <span>Excellent! This is one of your highest scores.</span>
-                              </div>
-                            ))
-                          }
+                          {getGradeTier(percentage, gradeScale) === 0 && (
+                            <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 p-2 rounded-md mt-2">
+                              <Trophy className="h-4 w-4" />
+                              <span>Excellent! This is one of your highest scores.</span>
+                            </div>
+                          )}
                           
-                          {useCustomGradeScale ?
-                            (percentage < parseFloat(customGradeScale.E) && (
-                              <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 p-2 rounded-md mt-2">
-                                <AlertCircle className="h-4 w-4" />
-                                <span>This score needs significant improvement. Consider getting help in this subject.</span>
-                              </div>
-                            )) :
-                            (percentage < 50 && (
-                              <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 p-2 rounded-md mt-2">
-                                <AlertCircle className="h-4 w-4" />
-                                <span>This score needs significant improvement. Consider getting help in this subject.</span>
-                              </div>
-                            ))
-                          }
+                          {getGradeTier(percentage, gradeScale) === 5 && (
+                            <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 p-2 rounded-md mt-2">
+                              <AlertCircle className="h-4 w-4" />
+                              <span>This score needs significant improvement. Consider getting help in this subject.</span>
+                            </div>
+                          )}
                         </div>
                       </>
                     ) : (
@@ -1363,6 +1057,13 @@ export function AddMarkDialog({ open, onOpenChange, onSuccess, userId }: AddMark
             {isLoading ? "Adding..." : "Add Assessment"}
           </Button>
         </DialogFooter>
+
+        <GradeScaleDialog
+          open={showGradeConfig}
+          onOpenChange={setShowGradeConfig}
+          subjectId={formData.subjectId || undefined}
+          subjectName={selectedSubject?.name}
+        />
       </DialogContent>
     </Dialog>
   );
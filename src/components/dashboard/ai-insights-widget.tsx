@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Brain, TrendingUp, AlertCircle, CheckCircle, X, Lightbulb, Loader2, Sparkles } from "lucide-react";
 import { supabase } from '@/lib/supabase';
+import { aiService, GenerationStatus } from "@/lib/ai-service";
 import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
 interface AIInsight {
@@ -30,10 +32,24 @@ export function AIInsightsWidget({ userId }: AIInsightsWidgetProps) {
   const [insights, setInsights] = useState<AIInsight[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationStatus, setGenerationStatus] = useState<GenerationStatus | null>(null);
+
+  const loadGenerationStatus = useCallback(async () => {
+    setGenerationStatus(await aiService.getGenerationStatus(userId));
+  }, [userId]);
 
   useEffect(() => {
     loadInsights();
-  }, [userId]);
+    loadGenerationStatus();
+  }, [userId, loadGenerationStatus]);
+
+  // A spent budget frees up at nextAllowedAt, so fetch the new count then
+  const nextAllowedAt = generationStatus?.nextAllowedAt;
+  useEffect(() => {
+    if (!nextAllowedAt) return;
+    const timer = setTimeout(loadGenerationStatus, Math.max(0, new Date(nextAllowedAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextAllowedAt, loadGenerationStatus]);
 
   const loadInsights = async () => {
     try {
@@ -87,12 +103,20 @@ export function AIInsightsWidget({ userId }: AIInsightsWidgetProps) {
     toast.info("Requesting new insights from AI... This may take a moment.");
 
     try {
-      const { error } = await supabase.functions.invoke('generate-insights', {
+      const { data, error } = await supabase.functions.invoke('generate-insights', {
         body: { userId },
       });
 
       if (error) throw error;
 
+      if (data?.status) setGenerationStatus(data.status);
+
+      // Unchanged data or a spent budget means no new insights
+      if (data?.skipped) {
+        toast.info(data.message);
+        return;
+      }
+
       toast.success("New insights generated! Refreshing...");
       loadInsights();
     } catch (error) {
@@ -102,6 +126,8 @@ export function AIInsightsWidget({ userId }: AIInsightsWidgetProps) {
     }
   };
 
+  const budgetSpent = generationStatus?.remaining === 0;
+
   const getInsightIcon = (type: string) => {
     switch (type) {
       case 'performance': return <TrendingUp className="h-4 w-4" />;
@@ -163,10 +189,24 @@ export function AIInsightsWidget({ userId }: AIInsightsWidgetProps) {
             {insights.length} new
           </Badge>
         </div>
-        <Button size="sm" onClick={generateNewInsights} disabled={isGenerating}>
-          {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
-          Generate
-        </Button>
+        <div className="flex items-center justify-between gap-3">
+          <Button size="sm" onClick={generateNewInsights} disabled={isGenerating || budgetSpent}>
+            {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+            Generate
+          </Button>
+          {generationStatus && (
+            <div className="text-xs text-blue-600 text-right">
+              {generationStatus.lastGeneratedAt && (
+                <p>Last generated {formatDistanceToNow(new Date(generationStatus.lastGeneratedAt), { addSuffix: true })}</p>
+              )}
+              <p>
+                {budgetSpent && generationStatus.nextAllowedAt
+                  ? `Next allowed ${formatDistanceToNow(new Date(generationStatus.nextAllowedAt), { addSuffix: true })}`
+                  : `${generationStatus.remaining} of ${generationStatus.budget} left today`}
+              </p>
+            </div>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {insights.length === 0 ? (
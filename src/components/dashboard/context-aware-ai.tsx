@@ -91,7 +91,7 @@ export function ContextAwareAI({ userId, updateCounter = 0 }: ContextAwareAIProp
       
       // Try to use the serverless Edge Function first
       try {
-        const { error } = await supabase.functions.invoke('generate-insights', {
+        const { data, error } = await supabase.functions.invoke('generate-insights', {
           body: { userId }
         });
 
@@ -100,6 +100,13 @@ export function ContextAwareAI({ userId, updateCounter = 0 }: ContextAwareAIProp
           throw error;
         }
 
+        // Unchanged data or a spent budget isn't a failure, so don't fall back
+        if (data?.skipped) {
+          toast.info(data.message);
+          setIsAnalyzing(false);
+          return;
+        }
+
         toast.success("New AI insights and suggestions generated!");
         // Reload the AI content to display the new items
         await loadAIContent();
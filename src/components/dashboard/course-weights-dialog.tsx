@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, Plus, Save, X } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_CREDIT_HOURS, GpaSubject, parseTestTypeWeights } from "@/lib/gpa";
+import { useGradeScaleStore } from "@/hooks/use-grade-scales";
+
+interface CourseWeightsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject: GpaSubject | null;
+  // Test types this subject already has marks for, offered as starting rows
+  testTypes: string[];
+  onSuccess: () => void;
+}
+
+interface WeightRow {
+  testType: string;
+  weight: string;
+}
+
+export function CourseWeightsDialog({ open, onOpenChange, subject, testTypes, onSuccess }: CourseWeightsDialogProps) {
+  const [credits, setCredits] = useState(String(DEFAULT_CREDIT_HOURS));
+  const [rows, setRows] = useState<WeightRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !subject) return;
+
+    const weights = parseTestTypeWeights(subject.test_type_weights);
+    const missingTypes = testTypes.filter(type => !(type.toLowerCase() in weights));
+
+    setCredits(String(subject.credit_hours ?? DEFAULT_CREDIT_HOURS));
+    setRows([
+      ...Object.entries(weights).map(([testType, weight]) => ({ testType, weight: String(weight) })),
+      ...missingTypes.map(testType => ({ testType: testType.toLowerCase(), weight: "" }))
+    ]);
+  }, [open, subject, testTypes]);
+
+  const updateRow = (index: number, field: keyof WeightRow, value: string) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const totalWeight = rows.reduce((sum, row) => sum + (parseFloat(row.weight) || 0), 0);
+
+  const handleSave = async () => {
+    if (!subject) return;
+
+    const creditHours = parseFloat(credits);
+    if (!creditHours || creditHours <= 0) {
+      toast.error("Credit hours must be greater than 0");
+      return;
+    }
+
+    const weighted = rows.filter(row => row.testType.trim() && row.weight.trim());
+    if (weighted.some(row => isNaN(parseFloat(row.weight)) || parseFloat(row.weight) < 0)) {
+      toast.error("Weights must be positive percentages");
+      return;
+    }
+    if (totalWeight > 100) {
+      toast.error("Weights cannot add up to more than 100%");
+      return;
+    }
+
+    const testTypeWeights = parseTestTypeWeights(
+      Object.fromEntries(weighted.map(row => [row.testType, parseFloat(row.weight)]))
+    );
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('subjects')
+        .update({
+          credit_hours: creditHours,
+          test_type_weights: testTypeWeights,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', subject.id);
+
+      if (error) throw error;
+
+      // The subject's letter grade depends on its weighted average
+      await useGradeScaleStore.getState().syncCurrentGrades([subject.id]);
+
+      toast.success(`Grading rules updated for ${subject.name}`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving grading rules:", error);
+      toast.error("Failed to save grading rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Grading Rules{subject ? ` - ${subject.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Weight each assessment type as a share of the course grade. Types left blank split whatever remains of 100%.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="creditHours" className="text-xs">Credit hours</Label>
+            <Input
+              id="creditHours"
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={credits}
+              onChange={(e) => setCredits(e.target.value)}
+              className="h-8 text-sm"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-gray-500 px-1">
+              <span>Assessment type</span>
+              <span>Weight %</span>
+              <span className="w-7"></span>
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  value={row.testType}
+                  onChange={(e) => updateRow(index, 'testType', e.target.value)}
+                  placeholder="e.g. exam"
+                  className="h-7 text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={row.weight}
+                  onChange={(e) => updateRow(index, 'weight', e.target.value)}
+                  placeholder="Unweighted"
+                  className="h-7 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove assessment type"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-7 mt-1"
+              onClick={() => setRows(prev => [...prev, { testType: '', weight: '' }])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" /> Add assessment type
+            </Button>
+            <p className={`text-xs text-right ${totalWeight > 100 ? 'text-red-600' : 'text-gray-500'}`}>
+              Total: {totalWeight}%
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button size="sm" onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+            {isSaving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
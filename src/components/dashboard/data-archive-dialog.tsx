@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { CheckCircle2, Download, Loader2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  ArchiveImportResult,
+  DataArchive,
+  downloadArchive,
+  exportUserData,
+  importUserData,
+  parseArchive,
+} from "@/lib/data-archive";
+import { supabase } from "@/lib/supabase";
+import { syncMarkPredictions } from "@/lib/grade-prediction";
+import { useGradeScales, useGradeScaleStore } from "@/hooks/use-grade-scales";
+
+interface DataArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+  userId: string;
+}
+
+const formatTableName = (table: string) => table.replace(/_/g, ' ').replace(/^./, letter => letter.toUpperCase());
+
+export function DataArchiveDialog({ open, onOpenChange, onImported, userId }: DataArchiveDialogProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [archive, setArchive] = useState<DataArchive | null>(null);
+  const [results, setResults] = useState<ArchiveImportResult[]>([]);
+  const { getScale } = useGradeScales();
+
+  useEffect(() => {
+    if (!open) return;
+    setArchive(null);
+    setResults([]);
+  }, [open]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await exportUserData(userId);
+      downloadArchive(data);
+      const rowCount = Object.values(data.tables).reduce((total, rows) => total + rows.length, 0);
+      toast.success(`Exported ${rowCount} records`);
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setArchive(parseArchive(await file.text()));
+      setResults([]);
+    } catch (error) {
+      console.error("Error reading data export:", error);
+      toast.error(error instanceof Error ? error.message : "Couldn't read that file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+
+    setIsImporting(true);
+    setResults([]);
+    try {
+      const imported = await importUserData(userId, archive);
+      setResults(imported);
+
+      // Imported marks change the averages and the predictions on upcoming marks
+      if (imported.some(result => result.table === 'marks' && result.inserted > 0)) {
+        const { data: subjects } = await supabase.from('subjects').select('id').eq('user_id', userId);
+        useGradeScaleStore.getState().syncCurrentGrades();
+        await syncMarkPredictions(userId, (subjects || []).map(subject => subject.id), getScale);
+      }
+      const inserted = imported.reduce((total, result) => total + result.inserted, 0);
+      const renamed = Object.entries(imported.find(result => result.table === 'subjects')?.renamedCodes || {});
+      toast.success(`Imported ${inserted} records`, {
+        description: renamed.length > 0
+          ? `Subject codes already used by another account were renamed: ${renamed.map(([from, to]) => `${from} → ${to}`).join(', ')}`
+          : undefined
+      });
+      setArchive(null);
+      window.dispatchEvent(new Event('refresh-marks'));
+      onImported();
+    } catch (error) {
+      console.error("Error importing data:", error);
+      toast.error("Import failed, nothing was changed", {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Your Data</DialogTitle>
+          <DialogDescription>
+            Download everything in your account as a JSON file, or restore a file exported from another account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button onClick={handleExport} disabled={isExporting} className="w-full" variant="outline">
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export my data
+          </Button>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isImporting}
+            />
+            {archive && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <p className="text-gray-600">
+                  Exported {format(parseISO(archive.exported_at), 'MMM d, yyyy HH:mm')}
+                  {archive.user?.name ? ` from ${archive.user.name}'s account` : ''}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {Object.entries(archive.tables)
+                    .filter(([, rows]) => rows.length > 0)
+                    .map(([table, rows]) => `${rows.length} ${formatTableName(table).toLowerCase()}`)
+                    .join(', ') || 'No records'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Records you already have are skipped, so importing the same file twice won't create duplicates.
+                </p>
+              </div>
+            )}
+            <Button
+              onClick={handleImport}
+              disabled={!archive || isImporting}
+              className="w-full bg-emerald-600 hover:bg-emerald-700"
+            >
+              {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import into this account
+            </Button>
+          </div>
+
+          {results.length > 0 && (
+            <div className="space-y-1 text-xs">
+              {results.map(result => (
+                <div key={result.table} className="flex items-center justify-between">
+                  <span className="flex items-center gap-1">
+                    <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                    {formatTableName(result.table)}
+                  </span>
+                  <span className="text-gray-500">
+                    {result.inserted} added{result.skipped > 0 ? `, ${result.skipped} skipped` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
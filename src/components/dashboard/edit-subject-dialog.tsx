@@ -31,6 +31,8 @@ import { Textarea } from "@/components/ui/textarea"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
 import { useState, useEffect } from "react"
+import { useTerms } from "@/hooks/use-terms"
+import { useGradeScales } from "@/hooks/use-grade-scales"
 
 const subjectSchema = z.object({
   name: z.string().min(2, { message: "Subject name must be at least 2 characters." }),
@@ -38,6 +40,11 @@ const subjectSchema = z.object({
   color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: "Must be a valid hex color code." }),
   description: z.string().optional(),
   category: z.string().optional(),
+  exam_date: z.string().optional(),
+  difficulty_level: z.enum(["easy", "medium", "hard"]),
+  study_priority: z.coerce.number().int().min(1).max(5),
+  term_id: z.string(),
+  target_grade: z.string(),
 })
 
 interface Subject {
@@ -47,6 +54,11 @@ interface Subject {
   color?: string;
   description?: string;
   category?: string;
+  exam_date?: string | null;
+  difficulty_level?: string;
+  study_priority?: number;
+  term_id?: string | null;
+  target_grade?: string | null;
 }
 
 interface Category {
@@ -54,6 +66,10 @@ interface Category {
   label: string;
 }
 
+// Select items can't have an empty value
+const NO_TERM = "none"
+const NO_TARGET = "none"
+
 interface EditSubjectDialogProps {
   userId: string;
   subjectId: string;
@@ -63,6 +79,9 @@ interface EditSubjectDialogProps {
 
 export function EditSubjectDialog({ userId, subjectId, onSubjectUpdated, children }: EditSubjectDialogProps) {
   const [isOpen, setIsOpen] = useState(false)
+  const { terms } = useTerms()
+  const { getScale } = useGradeScales()
+  const targetLetters = [...getScale(subjectId).bands].sort((a, b) => b.min - a.min).map(band => band.letter)
   const [loading, setLoading] = useState(false)
   const [subject, setSubject] = useState<Subject | null>(null)
   const [categories, setCategories] = useState<Category[]>([
@@ -83,6 +102,11 @@ export function EditSubjectDialog({ userId, subjectId, onSubjectUpdated, childre
       color: "#3b82f6",
       description: "",
       category: "",
+      exam_date: "",
+      difficulty_level: "medium",
+      study_priority: 3,
+      term_id: NO_TERM,
+      target_grade: NO_TARGET,
     },
   })
 
@@ -158,6 +182,11 @@ export function EditSubjectDialog({ userId, subjectId, onSubjectUpdated, childre
           color: data.color || "#3b82f6",
           description: data.description || "",
           category: data.category || "",
+          exam_date: data.exam_date || "",
+          difficulty_level: data.difficulty_level || "medium",
+          study_priority: data.study_priority || 3,
+          term_id: data.term_id || NO_TERM,
+          target_grade: data.target_grade || NO_TARGET,
         });
       }
     } catch (error) {
@@ -173,7 +202,12 @@ export function EditSubjectDialog({ userId, subjectId, onSubjectUpdated, childre
     try {
       const { error } = await supabase
         .from("subjects")
-        .update({ ...values })
+        .update({
+          ...values,
+          exam_date: values.exam_date || null,
+          term_id: values.term_id === NO_TERM ? null : values.term_id,
+          target_grade: values.target_grade === NO_TARGET ? null : values.target_grade
+        })
         .eq("id", subjectId);
 
       if (error) {
@@ -283,6 +317,119 @@ export function EditSubjectDialog({ userId, subjectId, onSubjectUpdated, childre
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="exam_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exam Date (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="difficulty_level"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Difficulty</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="study_priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Study Priority</FormLabel>
+                      <Select onValueChange={field.onChange} value={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="1">1 - Lowest</SelectItem>
+                          <SelectItem value="2">2</SelectItem>
+                          <SelectItem value="3">3 - Normal</SelectItem>
+                          <SelectItem value="4">4</SelectItem>
+                          <SelectItem value="5">5 - Highest</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="term_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Term</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TERM}>Not tied to a term</SelectItem>
+                        {terms.map(term => (
+                          <SelectItem key={term.id} value={term.id}>
+                            {term.name}{term.is_archived ? " (archived)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="target_grade"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Grade</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TARGET}>No target</SelectItem>
+                        {/* Keep a target set as a percentage, or on a scale since changed */}
+                        {field.value !== NO_TARGET && !targetLetters.includes(field.value) && (
+                          <SelectItem value={field.value}>{field.value}</SelectItem>
+                        )}
+                        {targetLetters.map(letter => (
+                          <SelectItem key={letter} value={letter}>{letter}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="description"
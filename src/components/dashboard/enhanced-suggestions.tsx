@@ -29,6 +29,7 @@ import { supabase } from '@/lib/supabase';
 import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { aiService, type ActionPlanStep } from "@/lib/ai-service";
 
 interface EnhancedSuggestion {
   id: string;
@@ -44,6 +45,7 @@ interface EnhancedSuggestion {
   confidence_score: number;
   interaction_count: number;
   effectiveness_rating: number;
+  subject_id?: string | null;
   subjects?: {
     name: string;
     color?: string;
@@ -63,7 +65,7 @@ export function EnhancedSuggestions({ userId, onAction }: EnhancedSuggestionsPro
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [isAnyExpanded, setIsAnyExpanded] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [actionPlans, setActionPlans] = useState<Record<string, string[]>>({});
+  const [actionPlans, setActionPlans] = useState<Record<string, ActionPlanStep[]>>({});
   const [isGeneratingPlan, setIsGeneratingPlan] = useState<string | null>(null);
 
   useEffect(() => {
@@ -264,25 +266,52 @@ export function EnhancedSuggestions({ userId, onAction }: EnhancedSuggestionsPro
 
   const generateActionPlan = async (suggestion: EnhancedSuggestion) => {
     setIsGeneratingPlan(suggestion.id);
+    const planSuggestion = {
+      id: suggestion.id,
+      title: suggestion.title,
+      description: suggestion.description,
+      type: suggestion.type,
+      category: suggestion.category,
+      estimatedTime: suggestion.estimated_time || undefined,
+      subjectId: suggestion.subject_id || undefined,
+    };
+
     try {
-      const { data, error } = await supabase.functions.invoke('generate-action-plan', {
-        body: {
-          title: suggestion.title,
-          description: suggestion.description,
-        },
-      });
+      // Try to use the serverless Edge Function first
+      try {
+        const { data, error } = await supabase.functions.invoke('generate-action-plan', {
+          body: { userId, suggestion: planSuggestion },
+        });
+
+        if (error) throw error;
+        if (!data?.plan?.length) throw new Error("Empty action plan");
+
+        setActionPlans(prev => ({ ...prev, [suggestion.id]: data.plan }));
+        toast.success("Action plan created!");
+      } catch (edgeFunctionError) {
+        console.error("Edge function failed, falling back to local action plan:", edgeFunctionError);
 
-      if (error) throw error;
+        // Fallback to the deterministic local generator
+        const studentData = await aiService.prepareStudentData(userId);
+        const plan = await aiService.generateActionPlan(studentData, planSuggestion);
 
-      setActionPlans(prev => ({ ...prev, [suggestion.id]: data.plan }));
-      toast.success("Action plan created!");
+        setActionPlans(prev => ({ ...prev, [suggestion.id]: plan }));
+        toast.success("Action plan created!", {
+          description: "Advanced AI unavailable, using a basic plan",
+        });
+      }
     } catch (error) {
+      console.error("Error generating action plan:", error);
       toast.error("Failed to generate action plan.");
     } finally {
       setIsGeneratingPlan(null);
     }
   };
 
+  const formatPlanDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -491,13 +520,32 @@ export function EnhancedSuggestions({ userId, onAction }: EnhancedSuggestionsPro
                             {actionPlans[suggestion.id] ? (
                               <div className="space-y-2">
                                 <h4 className="font-semibold text-sm">Your Action Plan:</h4>
-                                <ul className="list-decimal list-inside space-y-1 text-sm">
-                                  {actionPlans[suggestion.id].map((step, i) => <li key={i}>{step}</li>)}
-                                </ul>
+                                <ol className="space-y-2 text-sm">
+                                  {actionPlans[suggestion.id].map((step) => (
+                                    <li key={step.order} className="flex gap-3">
+                                      <span className="flex-shrink-0 w-5 h-5 rounded-full bg-white text-xs font-semibold flex items-center justify-center shadow-sm">
+                                        {step.order}
+                                      </span>
+                                      <div className="flex-1">
+                                        <div className="flex items-center justify-between gap-2">
+                                          <span className="font-medium">{step.title}</span>
+                                          <span className="text-xs text-gray-500 flex items-center whitespace-nowrap">
+                                            <Calendar className="h-3 w-3 mr-1" />
+                                            {formatPlanDate(step.date)} · {step.durationMinutes} min
+                                          </span>
+                                        </div>
+                                        <p className="text-xs text-gray-600">{step.description}</p>
+                                      </div>
+                                    </li>
+                                  ))}
+                                </ol>
                               </div>
                             ) : (
                                <Button
-                                  onClick={() => generateActionPlan(suggestion)}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    generateActionPlan(suggestion);
+                                  }}
                                   disabled={isGeneratingPlan === suggestion.id}
                                   size="sm"
                                 >
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { CalendarClock, Loader2, Sparkles } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { buildRevisionPlan, getDaysUntilExam, RevisionSubject } from "@/lib/revision-planner";
+import { calculateWeightedAverage } from "@/lib/gpa";
+
+interface ExamSubject extends RevisionSubject {
+  color?: string;
+  exam_date: string;
+}
+
+interface ExamCalendarProps {
+  userId: string;
+}
+
+export function ExamCalendar({ userId }: ExamCalendarProps) {
+  const [exams, setExams] = useState<ExamSubject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [hoursPerDay, setHoursPerDay] = useState("2");
+  const [month, setMonth] = useState<Date>(new Date());
+
+  const loadExams = useCallback(async () => {
+    try {
+      const { data: subjectsData, error: subjectsError } = await supabase
+        .from('subjects')
+        .select('id, name, color, exam_date, difficulty_level, study_priority, test_type_weights')
+        .eq('user_id', userId)
+        .not('exam_date', 'is', null)
+        .order('exam_date', { ascending: true });
+
+      if (subjectsError) {
+        console.error("Error loading exam dates:", subjectsError);
+        return;
+      }
+
+      const { data: marksData, error: marksError } = await supabase
+        .from('marks')
+        .select('subject_id, percentage, test_type')
+        .eq('user_id', userId);
+
+      if (marksError) {
+        console.error("Error loading marks for exam planning:", marksError);
+      }
+
+      setExams((subjectsData || []).map(subject => ({
+        ...subject,
+        averageScore: calculateWeightedAverage(
+          (marksData || []).filter(mark => mark.subject_id === subject.id),
+          subject.test_type_weights
+        )
+      })));
+    } catch (error) {
+      console.error("Error loading exam dates:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadExams();
+  }, [loadExams]);
+
+  const buildPlan = async () => {
+    const hours = parseFloat(hoursPerDay);
+    if (!hours || hours <= 0 || hours > 16) {
+      toast.error("Enter between 0 and 16 study hours per day");
+      return;
+    }
+
+    const allocations = buildRevisionPlan(exams, hours);
+    if (allocations.length === 0) {
+      toast.error("There are no upcoming exams to plan for");
+      return;
+    }
+
+    setIsBuilding(true);
+    try {
+      // Replace any revision plans built earlier for these subjects
+      const { error: cancelError } = await supabase
+        .from('study_plans')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('plan_type', 'exam_prep')
+        .eq('status', 'active')
+        .in('subject_id', allocations.map(a => a.subjectId));
+
+      if (cancelError) throw cancelError;
+
+      const { error } = await supabase
+        .from('study_plans')
+        .insert(allocations.map(allocation => ({
+          title: `Revise ${allocation.subjectName}`,
+          description: `${allocation.totalHours}h of revision before the exam on ${format(parseISO(allocation.examDate), 'MMM d')}.`,
+          start_date: allocation.startDate,
+          end_date: allocation.endDate,
+          total_hours: allocation.totalHours,
+          difficulty_level: allocation.difficultyLevel,
+          plan_type: 'exam_prep',
+          milestones: allocation.milestones,
+          user_id: userId,
+          subject_id: allocation.subjectId
+        })));
+
+      if (error) throw error;
+
+      window.dispatchEvent(new Event('refresh-study-plans'));
+      toast.success(`Revision plan created for ${allocations.length} exam${allocations.length === 1 ? '' : 's'}!`);
+    } catch (error) {
+      console.error("Error building revision plan:", error);
+      toast.error("Failed to build revision plan");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const getCountdownColor = (days: number) => {
+    if (days < 0) return 'bg-gray-100 text-gray-600';
+    if (days <= 7) return 'bg-red-100 text-red-800';
+    if (days <= 21) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-green-100 text-green-800';
+  };
+
+  const formatCountdown = (days: number) => {
+    if (days < 0) return 'Done';
+    if (days === 0) return 'Today';
+    if (days === 1) return 'Tomorrow';
+    return `${days} days`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="animate-pulse">
+            <div className="h-10 bg-gray-200 rounded-lg"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (exams.length === 0) {
+    return (
+      <div className="text-center py-8 space-y-3">
+        <CalendarClock className="h-8 w-8 text-gray-400 mx-auto" />
+        <p className="text-gray-500">No exam dates yet</p>
+        <p className="text-sm text-gray-400">Edit a subject to add its exam date, difficulty and priority.</p>
+      </div>
+    );
+  }
+
+  const examDays = exams.map(exam => parseISO(exam.exam_date));
+  const upcomingCount = exams.filter(exam => getDaysUntilExam(exam.exam_date) > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Calendar
+          mode="multiple"
+          selected={examDays}
+          month={month}
+          onMonthChange={setMonth}
+          className="rounded-md border mx-auto"
+        />
+
+        <div className="space-y-2">
+          {exams.map((exam) => {
+            const days = getDaysUntilExam(exam.exam_date);
+            return (
+              <button
+                key={exam.id}
+                type="button"
+                onClick={() => setMonth(parseISO(exam.exam_date))}
+                className="w-full flex items-center justify-between rounded-lg border p-3 text-left hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-center space-x-2">
+                  <div
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: exam.color || '#3B82F6' }}
+                  ></div>
+                  <div>
+                    <p className="font-medium text-sm text-gray-900">{exam.name}</p>
+                    <p className="text-xs text-gray-500">{format(parseISO(exam.exam_date), 'EEE, MMM d yyyy')}</p>
+                  </div>
+                </div>
+                <Badge className={`text-xs ${getCountdownColor(days)}`}>
+                  {formatCountdown(days)}
+                </Badge>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {upcomingCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <span className="text-sm text-gray-600">Study</span>
+          <Input
+            type="number"
+            min="0.5"
+            max="16"
+            step="0.5"
+            value={hoursPerDay}
+            onChange={(e) => setHoursPerDay(e.target.value)}
+            className="w-20 h-8"
+          />
+          <span className="text-sm text-gray-600">hours a day</span>
+          <Button size="sm" onClick={buildPlan} disabled={isBuilding} className="ml-auto">
+            {isBuilding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+            Build revision plan
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
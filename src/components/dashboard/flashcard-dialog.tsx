@@ -22,15 +22,28 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 
 const flashcardSchema = z.object({
   front_text: z.string().min(1, "Front text cannot be empty."),
   back_text: z.string().min(1, "Back text cannot be empty."),
+  subject_id: z.string().nullable().optional(),
 });
 
 type FlashcardFormValues = z.infer<typeof flashcardSchema>;
 
+interface Subject {
+  id: string;
+  name: string;
+}
+
 interface FlashcardDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -41,14 +54,25 @@ interface FlashcardDialogProps {
 
 export function FlashcardDialog({ open, onOpenChange, onSuccess, userId, flashcard }: FlashcardDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
 
   const form = useForm<FlashcardFormValues>({
     resolver: zodResolver(flashcardSchema),
-    defaultValues: flashcard || { front_text: "", back_text: "" },
+    defaultValues: flashcard || { front_text: "", back_text: "", subject_id: null },
   });
 
   useEffect(() => {
-    form.reset(flashcard || { front_text: "", back_text: "" });
+    async function fetchSubjects() {
+      const { data } = await supabase.from("subjects").select("id, name").eq("user_id", userId);
+      setSubjects(data || []);
+    }
+    fetchSubjects();
+  }, [userId]);
+
+  useEffect(() => {
+    form.reset(flashcard
+      ? { front_text: flashcard.front_text, back_text: flashcard.back_text, subject_id: flashcard.subject_id ?? null }
+      : { front_text: "", back_text: "", subject_id: null });
   }, [flashcard, form]);
 
   const onSubmit = async (values: FlashcardFormValues) => {
@@ -56,6 +80,7 @@ export function FlashcardDialog({ open, onOpenChange, onSuccess, userId, flashca
     try {
       const cardData = {
         ...values,
+        subject_id: values.subject_id || null,
         user_id: userId,
       };
 
@@ -109,6 +134,30 @@ export function FlashcardDialog({ open, onOpenChange, onSuccess, userId, flashca
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="subject_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject (Optional)</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                    value={field.value || "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a subject" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">General</SelectItem>
+                      {subjects.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
@@ -4,11 +4,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, Plus, RotateCcw, Star, Brain, Edit, Trash2, ArrowLeft } from "lucide-react";
+import { BookOpen, Plus, RotateCcw, Star, Brain, Edit, Trash2, ArrowLeft, CalendarClock } from "lucide-react";
 import { supabase } from '@/lib/supabase';
 import { toast } from "sonner";
 import { FlashcardDialog } from './flashcard-dialog';
 import { cn } from "@/lib/utils";
+import { isCardDue, previewInterval, REVIEW_GRADES, scheduleReview, type ReviewGrade } from "@/lib/spaced-repetition";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 interface Flashcard {
@@ -19,12 +20,24 @@ interface Flashcard {
   review_count: number;
   success_rate: number;
   is_favorite: boolean;
+  subject_id: string | null;
+  last_reviewed: string | null;
+  next_review: string | null;
+  ease_factor: number | null;
+  interval_days: number | null;
   subjects?: {
     name: string;
     color?: string;
   };
 }
 
+interface DueGroup {
+  key: string;
+  name: string;
+  color?: string;
+  cards: Flashcard[];
+}
+
 interface FlashcardsWidgetProps {
   userId: string;
 }
@@ -33,6 +46,9 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [isCreating, setIsCreating] = useState(false);
   const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<Flashcard[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isGrading, setIsGrading] = useState(false);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,8 +78,7 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
           )
         `)
         .eq('user_id', userId)
-        .order('last_reviewed', { ascending: true, nullsFirst: true })
-        .limit(10);
+        .order('next_review', { ascending: true, nullsFirst: true });
 
       if (error) {
         console.error("Error loading flashcards:", error);
@@ -109,22 +124,70 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
     }
   };
 
-  const startReview = () => {
-    if (flashcards.length === 0) {
-      toast.error("No flashcards to review!");
+  const dueCards = flashcards.filter(card => isCardDue(card));
+
+  // Group today's due cards by subject so each deck can be reviewed on its own
+  const dueGroups = Object.values(
+    dueCards.reduce<Record<string, DueGroup>>((groups, card) => {
+      const key = card.subject_id || 'general';
+      if (!groups[key]) {
+        groups[key] = {
+          key,
+          name: card.subjects?.name || 'General',
+          color: card.subjects?.color,
+          cards: []
+        };
+      }
+      groups[key].cards.push(card);
+      return groups;
+    }, {})
+  ).sort((a, b) => b.cards.length - a.cards.length);
+
+  const startReview = (group?: DueGroup) => {
+    const queue = group ? group.cards : dueCards;
+    if (queue.length === 0) {
+      toast.info("Nothing due today. Come back tomorrow!");
       return;
     }
+    setReviewQueue(queue);
+    setReviewedCount(0);
     setCurrentCardIndex(0);
     setIsFlipped(false);
     setIsReviewing(true);
   };
 
-  const handleNextCard = (correct: boolean) => {
-    // Logic to update card stats
-    // ...
+  const handleGrade = async (grade: ReviewGrade) => {
+    const card = reviewQueue[currentCardIndex];
+    if (!card || isGrading) return;
+
+    setIsGrading(true);
+    const schedule = scheduleReview(card, grade);
+
+    try {
+      const { error } = await supabase
+        .from('flashcards')
+        .update(schedule)
+        .eq('id', card.id);
+
+      if (error) throw error;
+    } catch (error) {
+      // Keep the card up so the grade can be given again
+      console.error("Error saving flashcard review:", error);
+      toast.error("Failed to save review");
+      return;
+    } finally {
+      setIsGrading(false);
+    }
+
+    // Lapsed cards go back to the end of the queue for another pass today
+    const updatedCard = { ...card, ...schedule };
+    const nextQueue = grade === 'again' ? [...reviewQueue, updatedCard] : reviewQueue;
+    setReviewQueue(nextQueue);
+    setReviewedCount(prev => prev + 1);
+
     setIsFlipped(false);
     setTimeout(() => {
-        if (currentCardIndex < flashcards.length - 1) {
+        if (currentCardIndex < nextQueue.length - 1) {
             setCurrentCardIndex(currentCardIndex + 1);
         } else {
             setIsReviewing(false);
@@ -134,7 +197,17 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
     }, 200); // Allow flip back animation to be seen
   };
 
-  const currentCard = isReviewing ? flashcards[currentCardIndex] : null;
+  const exitReview = () => {
+    setIsReviewing(false);
+    loadFlashcards();
+  };
+
+  const formatNextReview = (card: Flashcard) => {
+    if (isCardDue(card)) return 'Due today';
+    return `Next: ${new Date(card.next_review!).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  };
+
+  const currentCard = isReviewing ? reviewQueue[currentCardIndex] : null;
 
   const getDifficultyColor = (rating: number) => {
     if (rating <= 2) return 'bg-green-100 text-green-800';
@@ -191,7 +264,7 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
     return (
       <Card className="flex flex-col">
         <CardHeader>
-          <Button variant="ghost" size="sm" onClick={() => setIsReviewing(false)} className="self-start">
+          <Button variant="ghost" size="sm" onClick={exitReview} className="self-start">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to List
           </Button>
@@ -216,11 +289,25 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
                 </div>
             </div>
             
-            <div className="flex space-x-4">
-              <Button onClick={() => handleNextCard(false)} variant="outline" className="w-32">Incorrect</Button>
-              <Button onClick={() => handleNextCard(true)} className="w-32">Correct</Button>
-            </div>
-             <p className="text-sm text-gray-500">Card {currentCardIndex + 1} of {flashcards.length}</p>
+            {isFlipped ? (
+              <div className="grid grid-cols-4 gap-2 w-full max-w-sm">
+                {REVIEW_GRADES.map(({ grade, label }) => (
+                  <Button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    variant={grade === 'again' ? 'outline' : 'default'}
+                    disabled={isGrading}
+                    className="flex flex-col h-auto py-2"
+                  >
+                    <span>{label}</span>
+                    <span className="text-[10px] opacity-70">{previewInterval(currentCard, grade)}</span>
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Button variant="outline" onClick={() => setIsFlipped(true)} className="w-32">Show Answer</Button>
+            )}
+             <p className="text-sm text-gray-500">Card {currentCardIndex + 1} of {reviewQueue.length} · {reviewedCount} reviewed</p>
         </CardContent>
       </Card>
     );
@@ -235,9 +322,9 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
               <span>Flashcards</span>
             </CardTitle>
             <div className="flex gap-2">
-                 <Button size="sm" variant="outline" onClick={startReview} disabled={flashcards.length === 0}>
+                 <Button size="sm" variant="outline" onClick={() => startReview()} disabled={dueCards.length === 0}>
                     <Brain className="h-4 w-4 mr-2" />
-                    Review
+                    Review ({dueCards.length})
                 </Button>
                 <Button size="sm" onClick={() => { setEditingCard(undefined); setShowDialog(true); }}>
                     <Plus className="h-4 w-4 mr-2" />
@@ -247,11 +334,48 @@ export function FlashcardsWidget({ userId }: FlashcardsWidgetProps) {
           </div>
         </CardHeader>
         <CardContent>
+            {dueGroups.length > 0 && (
+                <div className="mb-4 space-y-2">
+                    <p className="text-xs font-medium text-gray-500 uppercase flex items-center gap-1">
+                        <CalendarClock className="h-3 w-3" />
+                        Due today
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {dueGroups.map(group => (
+                            <Button
+                                key={group.key}
+                                size="sm"
+                                variant="secondary"
+                                onClick={() => startReview(group)}
+                                className="h-7"
+                            >
+                                <span
+                                    className="inline-block w-2 h-2 rounded-full mr-2"
+                                    style={{ backgroundColor: group.color || '#10B981' }}
+                                />
+                                {group.name}
+                                <Badge variant="outline" className="ml-2 px-1.5">{group.cards.length}</Badge>
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            )}
             {flashcards.length > 0 ? (
                 <ul className="space-y-2">
                     {flashcards.map(card => (
                         <li key={card.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
-                            <p className="font-medium">{card.front_text}</p>
+                            <div>
+                                <p className="font-medium">{card.front_text}</p>
+                                <p className="text-xs text-gray-500">
+                                    {card.subjects?.name && <span>{card.subjects.name} · </span>}
+                                    {formatNextReview(card)}
+                                    {card.review_count > 0 && (
+                                        <span className={cn("ml-1", getSuccessRateColor(card.success_rate))}>
+                                            · {Math.round(card.success_rate)}% recall
+                                        </span>
+                                    )}
+                                </p>
+                            </div>
                             <div>
                                 <Button variant="ghost" size="icon" onClick={() => { setEditingCard(card); setShowDialog(true); }}>
                                     <Edit className="h-4 w-4" />
@@ -5,17 +5,69 @@ import { Maximize, X, Pause, Play } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { createPortal } from "react-dom";
 import { toast } from "sonner";
-import { supabase } from "@/lib/supabase";
 import { sendNotification } from "@/lib/notifications";
+import { useAuth } from "@/components/providers/auth-provider";
+import {
+  claimTimerEvent,
+  checkpointTimerSession,
+  closeOrphanedSessions,
+  advanceStudyTimer,
+  getSessionProgress,
+  openTimerSession,
+  stopStudyTimer,
+  TIMER_CHECKPOINT_MS
+} from "@/lib/study-timer";
+
+// Handle timer completion: record the phase and move on to the next one in the cycle
+const handleTimerComplete = async () => {
+  const state = useGlobalTimerStore.getState();
+  // Only one tab moves the cycle on; the others pick up the new phase from it
+  if (!claimTimerEvent(`complete:${state.runStartedAt}`)) return;
+
+  // When the countdown actually ran out, which is earlier than now if the tab was asleep
+  const endTime = new Date((state.startedAt ?? Date.now()) + (state.duration - state.elapsed) * 1000);
+  const finishedWhileAway = Date.now() - endTime.getTime() > 60 * 1000;
+  const { next } = await advanceStudyTimer(true);
+  const autoStarted = useGlobalTimerStore.getState().isRunning;
+
+  if (state.mode === 'pomodoro') {
+    const breakLabel = next === 'long_break' ? 'long break' : 'break';
+    toast.success(finishedWhileAway
+      ? `Your pomodoro finished at ${endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} while you were away.`
+      : `Pomodoro complete! ${autoStarted ? `Your ${breakLabel} has started.` : `Time for a ${breakLabel}.`}`);
+    sendNotification(
+      "Pomodoro Complete! ✅", 
+      `Great job! You've completed your focus session. Time for a ${breakLabel}.`
+    );
+  } else {
+    toast.info(autoStarted ? "Break's over! Next pomodoro started." : "Break's over! Back to work.");
+    sendNotification(
+      "Break Time Over ⏰", 
+      "Your break has ended. Time to get back to work!"
+    );
+  }
+};
+
+// Recompute the countdown from its wall-clock anchors, finishing it if it has run out
+const tick = () => {
+  const state = useGlobalTimerStore.getState();
+  const remaining = state.sync();
+  if (state.isRunning && remaining <= 0) {
+    handleTimerComplete();
+  }
+};
 
 /**
  * Global floating timer component that persists across all pages
- * This gets rendered directly into the document body using a portal
+ * This gets rendered directly into the document body using a portal. It also
+ * drives the timer: ticking, finishing countdowns and saving the study session,
+ * whether or not it is visible.
  */
 export function GlobalFloatingTimer() {
+  const { user } = useAuth();
   const {
-    isVisible, isRunning, mode, time, progress, userId, subjectId, sessionId,
-    theme, position, setVisible, setRunning, setTime, setProgress, setSessionId, reset
+    isVisible, isRunning, mode, time, progress, userId, subjectId, sessionId, runStartedAt,
+    cycle, completedPomodoros, theme, position, setVisible, setRunning, setSessionId
   } = useGlobalTimerStore();
   
   const [isDragging, setIsDragging] = useState(false);
@@ -29,114 +81,97 @@ export function GlobalFloatingTimer() {
     if (typeof window === 'undefined') return;
     
     try {
-      // Create a blob with the worker code
+      // The worker only keeps time; background tabs throttle timers on the main thread
       const workerCode = `
         let timer = null;
-        let remainingTime = 0;
         
         self.onmessage = (e) => {
-          const { action, time } = e.data;
-          
-          if (action === 'start') {
-            remainingTime = time;
-            clearInterval(timer);
-            timer = setInterval(() => {
-              remainingTime--;
-              self.postMessage({ type: 'tick', time: remainingTime });
-              
-              if (remainingTime <= 0) {
-                clearInterval(timer);
-                self.postMessage({ type: 'complete' });
-              }
-            }, 1000);
-          }
-          else if (action === 'pause') {
-            clearInterval(timer);
-          }
-          else if (action === 'reset') {
-            clearInterval(timer);
-            remainingTime = time;
-            self.postMessage({ type: 'tick', time: remainingTime });
-          }
-          else if (action === 'sync') {
-            self.postMessage({ type: 'tick', time: remainingTime });
+          clearInterval(timer);
+          if (e.data.action === 'start') {
+            timer = setInterval(() => self.postMessage({ type: 'tick' }), 1000);
           }
         };
       `;
       
       const blob = new Blob([workerCode], { type: 'text/javascript' });
       workerRef.current = new Worker(URL.createObjectURL(blob));
-      
-      // Set up message handler
-      workerRef.current.onmessage = (e) => {
-        const { type, time } = e.data;
-        
-        if (type === 'tick') {
-          setTime(time);
-          // Calculate progress percentage
-          const totalTime = getModeTime(mode);
-          if (totalTime > 0) {
-            const newProgress = ((totalTime - time) / totalTime) * 100;
-            setProgress(newProgress);
-          }
-        } else if (type === 'complete') {
-          handleTimerComplete();
-        }
-      };
+      workerRef.current.onmessage = () => tick();
+      if (useGlobalTimerStore.getState().isRunning) {
+        workerRef.current.postMessage({ action: 'start' });
+      }
     } catch (err) {
       console.error("Error creating Web Worker:", err);
     }
+
+    // A laptop waking from sleep shows the right time straight away
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
     
     // Clean up
     return () => {
       workerRef.current?.terminate();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, []);
-  
-  // Handle timer completion
-  const handleTimerComplete = async () => {
-    setRunning(false);
-    
-    if (mode === 'pomodoro') {
-      toast.success("Pomodoro complete! Time for a break.");
-      sendNotification(
-        "Pomodoro Complete! ✅", 
-        "Great job! You've completed your focus session. Time for a break."
-      );
-      
-      // End session if we have one
-      if (sessionId && userId) {
-        try {
-          await supabase
-            .from('study_sessions')
-            .update({
-              end_time: new Date().toISOString(),
-              is_completed: true
-            })
-            .eq('id', sessionId);
-        } catch (err) {
-          console.error("Error ending session:", err);
-        }
-      }
-    } else {
-      toast.info("Break's over! Back to work.");
-      sendNotification(
-        "Break Time Over ⏰", 
-        "Your break has ended. Time to get back to work!"
-      );
+
+  // Tick while running, whichever tab or component started the timer
+  useEffect(() => {
+    if (workerRef.current) {
+      workerRef.current.postMessage({ action: isRunning ? 'start' : 'stop' });
+      return;
     }
-  };
-  
-  // Get time for specific mode
-  const getModeTime = (currentMode: string): number => {
-    switch (currentMode) {
-      case 'pomodoro': return 25 * 60; // 25 minutes
-      case 'short_break': return 5 * 60; // 5 minutes
-      case 'long_break': return 15 * 60; // 15 minutes
-      default: return 25 * 60;
+    if (!isRunning) return;
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  // Pick up a timer restored from a previous page load and tidy up sessions it left behind
+  const authUserId = user?.id;
+  useEffect(() => {
+    if (!authUserId) return;
+
+    const state = useGlobalTimerStore.getState();
+    if (state.userId && state.userId !== authUserId) {
+      // Restored from another account's sign-in
+      state.reset();
+      state.setUserId(authUserId);
+    } else if (state.isRunning) {
+      tick();
     }
-  };
 
+    closeOrphanedSessions(authUserId, useGlobalTimerStore.getState().sessionId).then(closed => {
+      if (closed > 0) {
+        toast.info(`Closed ${closed} unfinished study session${closed === 1 ? '' : 's'} from an earlier visit`);
+      }
+    });
+  }, [authUserId]);
+
+  // Open a session for a focus countdown; the claim stops every open tab creating one
+  useEffect(() => {
+    if (!isRunning || mode !== 'pomodoro' || sessionId || !userId || !runStartedAt) return;
+    if (!claimTimerEvent(`open:${runStartedAt}`)) return;
+
+    openTimerSession(userId, subjectId, new Date(runStartedAt)).then(id => {
+      // Only attach it if the same countdown is still going
+      if (id && useGlobalTimerStore.getState().runStartedAt === runStartedAt) setSessionId(id);
+    });
+  }, [isRunning, mode, sessionId, userId, subjectId, runStartedAt, setSessionId]);
+
+  // Save the focused time while running, and once more on pausing
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const checkpoint = () => checkpointTimerSession(sessionId, getSessionProgress(useGlobalTimerStore.getState()));
+    if (!isRunning) {
+      checkpoint();
+      return;
+    }
+    const interval = setInterval(checkpoint, TIMER_CHECKPOINT_MS);
+    return () => clearInterval(interval);
+  }, [isRunning, sessionId]);
+  
   // Format time display
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -144,74 +179,14 @@ export function GlobalFloatingTimer() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
   
-  // Toggle timer running state
-  const handleToggleRunning = async () => {
-    if (isRunning) {
-      // Pause timer
-      setRunning(false);
-      if (workerRef.current) {
-        workerRef.current.postMessage({ action: 'pause' });
-      }
-    } else {
-      // Start timer
-      setRunning(true);
-      if (workerRef.current) {
-        workerRef.current.postMessage({ 
-          action: 'start',
-          time: time 
-        });
-      }
-      
-      // Create session if we don't have one and it's a pomodoro
-      if (!sessionId && userId && mode === 'pomodoro') {
-        try {
-          const { data, error } = await supabase
-            .from('study_sessions')
-            .insert({
-              user_id: userId,
-              start_time: new Date().toISOString(),
-              subject_id: subjectId || null,
-              title: "Study Session",
-              test_type: "study"
-            })
-            .select()
-            .single();
-
-          if (!error && data) {
-            setSessionId(data.id);
-          }
-        } catch (err) {
-          console.error("Error creating study session:", err);
-        }
-      }
-    }
+  // Toggle timer running state; the session is opened by the effect above
+  const handleToggleRunning = () => {
+    setRunning(!isRunning);
   };
   
   // End the timer session
   const handleEndTimer = async () => {
-    // Reset the worker
-    if (workerRef.current) {
-      workerRef.current.postMessage({ action: 'pause' });
-    }
-    
-    // If we have an active session, close it
-    if (sessionId && userId && isRunning) {
-      try {
-        await supabase
-          .from('study_sessions')
-          .update({
-            end_time: new Date().toISOString(),
-            is_completed: true
-          })
-          .eq('id', sessionId);
-      } catch (err) {
-        console.error("Error ending session:", err);
-      }
-    }
-    
-    // Reset the timer state
-    reset();
-    
+    await stopStudyTimer();
     toast.info("Timer stopped");
   };
   
@@ -290,6 +265,11 @@ export function GlobalFloatingTimer() {
         <span className="text-sm font-medium truncate">
           {mode === 'pomodoro' ? 'Focus Time' : 
            mode === 'short_break' ? 'Short Break' : 'Long Break'}
+          {mode === 'pomodoro' && (
+            <span className="ml-1 text-xs opacity-70">
+              {(completedPomodoros % cycle.longBreakInterval) + 1}/{cycle.longBreakInterval}
+            </span>
+          )}
         </span>
         <div className="flex items-center">
           <button 
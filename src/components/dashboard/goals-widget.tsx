@@ -3,11 +3,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Plus, Target, Calendar, TrendingUp, CheckCircle, MoreHorizontal, Edit, Trash2 } from "lucide-react";
+import { Plus, Target, Calendar, TrendingUp, CheckCircle, MoreHorizontal, Edit, Trash2, AlertTriangle } from "lucide-react";
 import { supabase } from '@/lib/supabase';
 import { toast } from "sonner";
 import { format, formatDistanceToNow } from "date-fns";
-import { AddGoalDialog } from "./add-goal-dialog";
+import { AddGoalDialog, EditableGoal } from "./add-goal-dialog";
+import { getGoalMetric } from "@/lib/goal-progress";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,16 +26,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-interface Goal {
-  id: string;
-  title: string;
+interface Goal extends EditableGoal {
   description: string;
-  target_score: number;
   current_score: number;
-  target_date: string;
   status: string;
-  priority: string;
-  category: string;
   progress: number;
   subjects?: {
     name: string;
@@ -56,6 +51,11 @@ export function GoalsWidget({ userId }: GoalsWidgetProps) {
 
   useEffect(() => {
     loadGoals();
+
+    // Measured goals are recomputed in the background as marks and sessions change
+    const handleRefresh = () => loadGoals();
+    window.addEventListener('refresh-goals', handleRefresh);
+    return () => window.removeEventListener('refresh-goals', handleRefresh);
   }, [userId]);
 
   const loadGoals = async () => {
@@ -92,6 +92,7 @@ export function GoalsWidget({ userId }: GoalsWidgetProps) {
   
   const calculateProgress = (goal: Goal) => {
     if (goal.status === 'completed') return 100;
+    if (goal.metric && goal.metric !== 'manual') return goal.progress || 0;
     if (!goal.target_score || !goal.current_score) return 0;
     return Math.min((goal.current_score / goal.target_score) * 100, 100);
   }
@@ -238,6 +239,12 @@ export function GoalsWidget({ userId }: GoalsWidgetProps) {
                          {goal.priority} priority
                        </Badge>
                        <span>Due {formatDistanceToNow(new Date(goal.target_date), { addSuffix: true })}</span>
+                       {goal.at_risk && (
+                         <Badge variant="outline" className="border-0 bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                           <AlertTriangle className="h-3 w-3 mr-1" />
+                           At risk
+                         </Badge>
+                       )}
                        {goal.subjects && (
                          <span className="flex items-center space-x-1.5">
                            <div 
@@ -276,9 +283,11 @@ export function GoalsWidget({ userId }: GoalsWidgetProps) {
                 </div>
                 <div className="space-y-1 pt-2">
                    <div className="flex justify-between text-xs font-medium text-gray-600 dark:text-gray-300">
-                    <span className="text-gray-500 dark:text-gray-400">Progress</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {goal.metric && goal.metric !== 'manual' ? getGoalMetric(goal.metric).label : 'Progress'}
+                    </span>
                      <span>
-                      {goal.current_score || 0}% / <span className="text-gray-500">{goal.target_score || 100}%</span>
+                      {goal.current_score || 0}{getGoalMetric(goal.metric).unit} / <span className="text-gray-500">{goal.target_score || 100}{getGoalMetric(goal.metric).unit}</span>
                     </span>
                   </div>
                   <Progress value={goal.progress} className="h-2" />
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calculator, Loader2, Settings2 } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { calculateGpaSummary, GpaMark, GpaSubject, GpaSummary as GpaSummaryData } from "@/lib/gpa";
+import { getMarkTerm } from "@/lib/terms";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
+import { CourseWeightsDialog } from "./course-weights-dialog";
+import { GradeSimulatorDialog } from "./grade-simulator-dialog";
+
+interface GpaSummaryProps {
+  userId: string;
+  // Called after a subject's grading rules change, so other averages can reload
+  onRulesChanged?: () => void;
+}
+
+export function GpaSummary({ userId, onRulesChanged }: GpaSummaryProps) {
+  const { getScale } = useGradeScales();
+  const { terms } = useTerms();
+  const [subjects, setSubjects] = useState<Array<GpaSubject & { target_grade?: string | null }>>([]);
+  const [marks, setMarks] = useState<Array<GpaMark & { term_id?: string | null; date: string }>>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingSubject, setEditingSubject] = useState<GpaSubject | null>(null);
+  const [isSimulatorOpen, setIsSimulatorOpen] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [{ data: subjectsData, error: subjectsError }, { data: marksData, error: marksError }] = await Promise.all([
+        supabase.from('subjects').select('id, name, credit_hours, test_type_weights, target_grade').eq('user_id', userId),
+        supabase.from('marks').select('subject_id, percentage, test_type, semester, date, term_id').eq('user_id', userId)
+      ]);
+
+      if (subjectsError) throw subjectsError;
+      if (marksError) throw marksError;
+
+      setSubjects(subjectsData || []);
+      setMarks(marksData || []);
+    } catch (error) {
+      console.error("Error loading GPA data:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadData();
+
+    const handleRefresh = () => loadData();
+    window.addEventListener('refresh-marks', handleRefresh);
+    return () => window.removeEventListener('refresh-marks', handleRefresh);
+  }, [loadData]);
+
+  // Test types the subject being edited already has marks for
+  const editingTestTypes = useMemo(() => [...new Set(
+    marks
+      .filter(mark => mark.subject_id === editingSubject?.id && mark.test_type)
+      .map(mark => mark.test_type as string)
+  )], [marks, editingSubject]);
+
+  if (isLoading) {
+    return (
+      <div className="h-40 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (marks.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Add marks to see your GPA</div>;
+  }
+
+  // Marks are grouped by their term, falling back to the free-text semester they were saved with
+  const termMarks = marks.map(mark => ({ ...mark, semester: getMarkTerm(terms, mark)?.name || mark.semester }));
+  const summary: GpaSummaryData = calculateGpaSummary(subjects, termMarks, getScale);
+  const maxPoints = Math.max(...getScale().bands.map(band => band.points));
+  const latestSemester = summary.semesters.filter(s => s.courses.length > 0).slice(-1)[0];
+
+  const handleEdit = (subjectId: string) => {
+    setEditingSubject(subjects.find(subject => subject.id === subjectId) || null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setIsSimulatorOpen(true)}>
+          <Calculator className="h-3.5 w-3.5 mr-1" /> What if?
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-lg bg-blue-50 p-3 text-center">
+          <div className="text-xs text-gray-500">Cumulative GPA</div>
+          <div className="text-2xl font-bold text-blue-700">
+            {summary.cumulativeGpa !== null ? summary.cumulativeGpa.toFixed(2) : '-'}
+          </div>
+          <div className="text-xs text-gray-400">out of {maxPoints.toFixed(1)}</div>
+        </div>
+        <div className="rounded-lg bg-emerald-50 p-3 text-center">
+          <div className="text-xs text-gray-500 truncate">{latestSemester?.semester || 'Semester'}</div>
+          <div className="text-2xl font-bold text-emerald-700">
+            {latestSemester ? latestSemester.gpa.toFixed(2) : '-'}
+          </div>
+          <div className="text-xs text-gray-400">semester GPA</div>
+        </div>
+        <div className="rounded-lg bg-purple-50 p-3 text-center">
+          <div className="text-xs text-gray-500">Credits</div>
+          <div className="text-2xl font-bold text-purple-700">{summary.totalCredits}</div>
+          <div className="text-xs text-gray-400">attempted</div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {summary.semesters.map(semester => (
+          <div key={semester.semester} className="rounded-lg border border-gray-100">
+            <div className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-t-lg">
+              <span className="text-sm font-medium">{semester.semester}</span>
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>{semester.credits} credits</span>
+                <Badge variant="outline">GPA {semester.gpa.toFixed(2)}</Badge>
+              </div>
+            </div>
+            <div className="divide-y">
+              {semester.courses.map(course => (
+                <div key={course.subjectId} className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-3 px-3 py-1.5 text-sm">
+                  <span className="truncate">{course.subjectName}</span>
+                  <span className="text-gray-600">{course.average.toFixed(1)}%</span>
+                  <Badge variant="secondary" className="justify-center min-w-[2.5rem]">{course.letter}</Badge>
+                  <span className="text-xs text-gray-500 w-20 text-right">
+                    {course.points.toFixed(1)} × {course.credits}cr
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => handleEdit(course.subjectId)}
+                    aria-label={`Edit grading rules for ${course.subjectName}`}
+                  >
+                    <Settings2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <CourseWeightsDialog
+        open={!!editingSubject}
+        onOpenChange={(open) => !open && setEditingSubject(null)}
+        subject={editingSubject}
+        testTypes={editingTestTypes}
+        onSuccess={() => {
+          loadData();
+          onRulesChanged?.();
+        }}
+      />
+
+      <GradeSimulatorDialog
+        open={isSimulatorOpen}
+        onOpenChange={setIsSimulatorOpen}
+        subjects={subjects}
+        marks={termMarks}
+        summary={summary}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, Save, Star, Trash2, X } from "lucide-react";
+import { GradeBand, PRESET_GRADE_SCALES, STANDARD_GRADE_SCALE, validateGradeBands } from "@/lib/grading";
+import { useGradeScaleStore, useGradeScales } from "@/hooks/use-grade-scales";
+
+interface GradeScaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjectId?: string;
+  subjectName?: string;
+}
+
+// Select items can't have an empty value
+const USE_DEFAULT = "default";
+const NEW_SCALE = "new";
+
+export function GradeScaleDialog({ open, onOpenChange, subjectId, subjectName }: GradeScaleDialogProps) {
+  const { scales, defaultScale } = useGradeScales();
+  const { subjectScaleIds, saveScale, deleteScale, setDefaultScale, assignSubjectScale } = useGradeScaleStore();
+  const [editingId, setEditingId] = useState<string>(NEW_SCALE);
+  const [name, setName] = useState("");
+  const [bands, setBands] = useState<GradeBand[]>(STANDARD_GRADE_SCALE.bands);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const subjectScaleId = subjectId ? subjectScaleIds[subjectId] ?? null : null;
+
+  const selectScale = useCallback((scaleId: string) => {
+    const scale = scales.find(s => s.id === scaleId);
+    if (!scale) return;
+    setEditingId(scale.id);
+    setName(scale.name);
+    setBands(scale.bands.map(band => ({ ...band })));
+  }, [scales]);
+
+  const startFromPreset = useCallback((presetId: string) => {
+    const preset = PRESET_GRADE_SCALES.find(p => p.id === presetId) || STANDARD_GRADE_SCALE;
+    setEditingId(NEW_SCALE);
+    setName(`My ${preset.name}`);
+    setBands(preset.bands.map(band => ({ ...band })));
+  }, []);
+
+  // Only when the dialog opens; saving changes the scales, and that mustn't reset the form
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    const opening = open && !wasOpen.current;
+    wasOpen.current = open;
+    if (!opening) return;
+    // Start on the scale currently in use, or a blank copy of the standard scale
+    const current = scales.find(s => s.id === (subjectScaleId || defaultScale.id));
+    if (current) {
+      selectScale(current.id);
+    } else {
+      startFromPreset(STANDARD_GRADE_SCALE.id);
+    }
+  }, [open, scales, subjectScaleId, defaultScale.id, selectScale, startFromPreset]);
+
+  const updateBand = (index: number, field: keyof GradeBand, value: string) => {
+    setBands(prev => prev.map((band, i) => i !== index ? band : {
+      ...band,
+      [field]: field === 'letter' ? value : parseFloat(value)
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name for the grade scale");
+      return;
+    }
+
+    const validationError = validateGradeBands(bands);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveScale({
+        id: editingId === NEW_SCALE ? undefined : editingId,
+        name: name.trim(),
+        bands: [...bands].sort((a, b) => b.min - a.min)
+      });
+      setEditingId(saved.id);
+      toast.success(`Grade scale "${saved.name}" saved`);
+    } catch (error) {
+      console.error("Error saving grade scale:", error);
+      toast.error("Failed to save grade scale");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (editingId === NEW_SCALE) return;
+    try {
+      await deleteScale(editingId);
+      startFromPreset(STANDARD_GRADE_SCALE.id);
+      toast.success("Grade scale deleted");
+    } catch (error) {
+      console.error("Error deleting grade scale:", error);
+      toast.error("Failed to delete grade scale");
+    }
+  };
+
+  const handleSetDefault = async (scaleId: string | null) => {
+    try {
+      await setDefaultScale(scaleId);
+      toast.success(scaleId ? "Default grade scale updated" : "Using the standard A-F scale by default");
+    } catch (error) {
+      console.error("Error setting default grade scale:", error);
+      toast.error("Failed to update default grade scale");
+    }
+  };
+
+  const handleAssign = async (value: string) => {
+    if (!subjectId) return;
+    try {
+      await assignSubjectScale(subjectId, value === USE_DEFAULT ? null : value);
+      toast.success(`Grade scale updated for ${subjectName || 'subject'}`);
+    } catch (error) {
+      console.error("Error assigning grade scale:", error);
+      toast.error("Failed to assign grade scale");
+    }
+  };
+
+  const isSavedScale = editingId !== NEW_SCALE;
+  const isDefault = isSavedScale && scales.find(s => s.id === editingId)?.is_default;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Grade Scales</DialogTitle>
+          <DialogDescription>
+            Scales are saved to your account. Your default scale applies to every subject without its own scale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {subjectId && (
+            <div className="rounded-md border p-3 space-y-2">
+              <Label className="text-xs">Scale for {subjectName || 'this subject'}</Label>
+              <Select value={subjectScaleId || USE_DEFAULT} onValueChange={handleAssign}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={USE_DEFAULT}>Use default ({defaultScale.name})</SelectItem>
+                  {scales.map(scale => (
+                    <SelectItem key={scale.id} value={scale.id}>{scale.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Edit a saved scale</Label>
+              <Select value={isSavedScale ? editingId : undefined} onValueChange={selectScale}>
+                <SelectTrigger>
+                  <SelectValue placeholder={scales.length ? "Select a scale" : "No saved scales"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scales.map(scale => (
+                    <SelectItem key={scale.id} value={scale.id}>
+                      {scale.name}{scale.is_default ? ' (default)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Or start a new one from</Label>
+              <Select value="" onValueChange={startFromPreset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESET_GRADE_SCALES.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Grade scale name"
+              className="h-8 text-sm"
+            />
+            {isDefault && <Badge variant="outline" className="shrink-0">Default</Badge>}
+          </div>
+
+          <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-gray-500 px-1">
+              <span>Letter</span>
+              <span>Min %</span>
+              <span>GPA points</span>
+              <span className="w-7"></span>
+            </div>
+            {bands.map((band, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                <Input
+                  value={band.letter}
+                  onChange={(e) => updateBand(index, 'letter', e.target.value)}
+                  className="h-7 text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={isNaN(band.min) ? '' : band.min}
+                  onChange={(e) => updateBand(index, 'min', e.target.value)}
+                  className="h-7 text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={isNaN(band.points) ? '' : band.points}
+                  onChange={(e) => updateBand(index, 'points', e.target.value)}
+                  className="h-7 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setBands(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove grade"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-7 mt-1"
+              onClick={() => setBands(prev => [...prev, { letter: '', min: 0, points: 0 }])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" /> Add grade
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          {isSavedScale && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleDelete} className="text-red-600">
+                <Trash2 className="h-3.5 w-3.5 mr-1" /> Delete
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleSetDefault(isDefault ? null : editingId)}
+              >
+                <Star className="h-3.5 w-3.5 mr-1" /> {isDefault ? 'Unset default' : 'Make default'}
+              </Button>
+            </>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+            {isSaving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+            {isSavedScale ? 'Save changes' : 'Save scale'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
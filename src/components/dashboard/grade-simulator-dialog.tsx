@@ -0,0 +1,262 @@
+import { useState, useEffect, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Plus, Target, X } from "lucide-react";
+import { calculateWeightedAverage, GpaMark, GpaSubject, GpaSummary, UNASSIGNED_SEMESTER } from "@/lib/gpa";
+import { getGradeLetter } from "@/lib/grading";
+import { FINAL_TEST_TYPE, resolveTargetPercentage } from "@/lib/grade-prediction";
+import { HypotheticalAssessment, projectGpa, projectSubjectAverage, solveForScore } from "@/lib/grade-simulator";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+
+const DEFAULT_TEST_TYPES = ['quiz', 'assignment', 'project', 'exam'];
+
+interface GradeSimulatorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: Array<GpaSubject & { target_grade?: string | null }>;
+  // Marks with the semester they count towards in the GPA summary
+  marks: GpaMark[];
+  summary: GpaSummary;
+}
+
+export function GradeSimulatorDialog({ open, onOpenChange, subjects, marks, summary }: GradeSimulatorDialogProps) {
+  const { getScale } = useGradeScales();
+  const [subjectId, setSubjectId] = useState<string>("");
+  const [assessments, setAssessments] = useState<HypotheticalAssessment[]>([]);
+  const nextId = useRef(0);
+
+  const newAssessment = (testType: string = FINAL_TEST_TYPE): HypotheticalAssessment => ({
+    id: String(nextId.current++),
+    name: testType === FINAL_TEST_TYPE ? 'Final exam' : '',
+    test_type: testType,
+    score: 70,
+    weight: null
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setAssessments([newAssessment()]);
+  }, [open]);
+
+  // Keep the chosen subject while it still exists, e.g. after marks are reloaded
+  useEffect(() => {
+    if (!open) return;
+    setSubjectId(prev => subjects.some(subject => subject.id === prev) ? prev : subjects[0]?.id || "");
+  }, [open, subjects]);
+
+  const subject = subjects.find(s => s.id === subjectId);
+  const scale = getScale(subjectId);
+
+  // Only the subject's latest course is simulated, so earlier semesters keep their grades
+  const course = summary.semesters
+    .flatMap(semester => semester.courses)
+    .filter(c => c.subjectId === subjectId)
+    .slice(-1)[0];
+  const courseMarks = marks.filter(mark =>
+    mark.subject_id === subjectId && (mark.semester?.trim() || UNASSIGNED_SEMESTER) === course?.semester
+  );
+
+  const weights = subject?.test_type_weights;
+  const currentAverage = calculateWeightedAverage(courseMarks, weights);
+  const projectedAverage = projectSubjectAverage(courseMarks, weights, assessments);
+  const projection = subject && projectedAverage !== null ? projectGpa(summary, subject, projectedAverage, scale) : null;
+  const currentSemester = summary.semesters.find(semester => semester.semester === projection?.semester);
+  const target = resolveTargetPercentage(subject?.target_grade, scale);
+
+  const testTypes = Array.from(new Set([
+    ...DEFAULT_TEST_TYPES,
+    ...courseMarks.map(mark => (mark.test_type || '').toLowerCase()).filter(Boolean),
+    ...Object.keys(weights || {})
+  ]));
+
+  const updateAssessment = (id: string, changes: Partial<HypotheticalAssessment>) => {
+    setAssessments(prev => prev.map(assessment => assessment.id === id ? { ...assessment, ...changes } : assessment));
+  };
+
+  const formatGpa = (gpa: number | null | undefined) => gpa !== null && gpa !== undefined ? gpa.toFixed(2) : '-';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>What-if Simulator</DialogTitle>
+          <DialogDescription>
+            Add assessments you haven't sat yet to see where your grade and GPA would land.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[180px]">
+              <Label className="text-xs">Subject</Label>
+              <Select value={subjectId} onValueChange={setSubjectId}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-sm text-gray-500 pb-1.5">
+              {target !== null
+                ? <>Target <Badge variant="outline">{subject?.target_grade}</Badge> ({target}%)</>
+                : 'No target grade set'}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="rounded-lg bg-blue-50 p-3 text-center">
+              <div className="text-xs text-gray-500">Subject average</div>
+              <div className="flex items-center justify-center gap-1.5 text-lg font-bold text-blue-700">
+                <span className="text-gray-400 font-medium">
+                  {currentAverage !== null ? `${currentAverage.toFixed(1)}%` : '-'}
+                </span>
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <span>{projectedAverage !== null ? `${projectedAverage.toFixed(1)}%` : '-'}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {currentAverage !== null ? getGradeLetter(currentAverage, scale) : '-'}
+                {' → '}
+                <span className={target !== null && projectedAverage !== null
+                  ? projectedAverage >= target ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'
+                  : 'font-semibold'}>
+                  {projectedAverage !== null ? getGradeLetter(projectedAverage, scale) : '-'}
+                </span>
+              </div>
+            </div>
+            <div className="rounded-lg bg-emerald-50 p-3 text-center">
+              <div className="text-xs text-gray-500 truncate">{projection?.semester || 'Semester'} GPA</div>
+              <div className="flex items-center justify-center gap-1.5 text-lg font-bold text-emerald-700">
+                <span className="text-gray-400 font-medium">{formatGpa(currentSemester?.gpa)}</span>
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <span>{formatGpa(projection?.semesterGpa)}</span>
+              </div>
+            </div>
+            <div className="rounded-lg bg-purple-50 p-3 text-center">
+              <div className="text-xs text-gray-500">Cumulative GPA</div>
+              <div className="flex items-center justify-center gap-1.5 text-lg font-bold text-purple-700">
+                <span className="text-gray-400 font-medium">{formatGpa(summary.cumulativeGpa)}</span>
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <span>{formatGpa(projection?.cumulativeGpa)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_110px_1.5fr_80px_auto] gap-2 text-xs text-gray-500 px-1">
+              <span>Assessment</span>
+              <span>Type</span>
+              <span>Score</span>
+              <span>Weight %</span>
+              <span className="w-7"></span>
+            </div>
+            {assessments.map(assessment => {
+              const needed = target !== null
+                ? solveForScore(courseMarks, weights, assessments, assessment.id, target)
+                : undefined;
+
+              return (
+                <div key={assessment.id} className="rounded-md border p-2 space-y-1">
+                  <div className="grid grid-cols-[1fr_110px_1.5fr_80px_auto] items-center gap-2">
+                    <Input
+                      value={assessment.name}
+                      onChange={(e) => updateAssessment(assessment.id, { name: e.target.value })}
+                      placeholder="e.g. Unit 5 quiz"
+                      className="h-7 text-sm"
+                    />
+                    <Select
+                      value={assessment.test_type}
+                      onValueChange={(value) => updateAssessment(assessment.id, { test_type: value })}
+                    >
+                      <SelectTrigger className="h-7 text-sm capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {testTypes.map(type => (
+                          <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-2">
+                      <Slider
+                        value={[assessment.score]}
+                        min={0}
+                        max={100}
+                        step={1}
+                        onValueChange={([value]) => updateAssessment(assessment.id, { score: value })}
+                        aria-label={`Score for ${assessment.name || 'assessment'}`}
+                      />
+                      <span className="text-sm w-10 text-right">{assessment.score}%</span>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={assessment.weight ?? ""}
+                      onChange={(e) => {
+                        const weight = parseFloat(e.target.value);
+                        updateAssessment(assessment.id, { weight: isNaN(weight) ? null : Math.min(100, Math.max(0, weight)) });
+                      }}
+                      placeholder="By type"
+                      className="h-7 text-sm"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setAssessments(prev => prev.filter(a => a.id !== assessment.id))}
+                      aria-label="Remove assessment"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  {needed !== undefined && (
+                    <div className="flex items-center justify-between text-xs text-gray-500 px-1">
+                      <span className="flex items-center gap-1">
+                        <Target className="h-3 w-3" />
+                        {needed === null
+                          ? `${subject?.target_grade} is out of reach even with 100% here`
+                          : needed === 0
+                            ? `${subject?.target_grade} is secured whatever you score here`
+                            : `Needs at least ${needed}% here for ${subject?.target_grade}`}
+                      </span>
+                      {needed !== null && needed > 0 && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => updateAssessment(assessment.id, { score: Math.ceil(needed) })}
+                        >
+                          Use {Math.ceil(needed)}%
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-7"
+              onClick={() => setAssessments(prev => [...prev, newAssessment('quiz')])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" /> Add assessment
+            </Button>
+            <p className="text-xs text-gray-500">
+              Leave the weight blank to count an assessment like the other marks of its type, or give it a share of the final grade.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
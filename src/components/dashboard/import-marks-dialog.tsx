@@ -0,0 +1,379 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { AlertCircle, ArrowLeft, CheckCircle2, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { cn } from "@/lib/utils";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportRow,
+  ImportSubject,
+  guessColumnMapping,
+  readSpreadsheet,
+  validateImportRows,
+} from "@/lib/marks-import";
+import { getTermForDate } from "@/lib/terms";
+import { syncMarkPredictions } from "@/lib/grade-prediction";
+import { useGradeScales, useGradeScaleStore } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
+
+interface ImportMarksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  userId: string;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+// Select items can't have an empty value
+const NOT_MAPPED = "-1";
+
+// Colours for subjects created by the import, in the order they're created
+const SUBJECT_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316'];
+
+export function ImportMarksDialog({ open, onOpenChange, onSuccess, userId }: ImportMarksDialogProps) {
+  const { terms } = useTerms();
+  const { getScale } = useGradeScales();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [subjects, setSubjects] = useState<ImportSubject[]>([]);
+  const [takenCodes, setTakenCodes] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ImportRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadSubjects = useCallback(async () => {
+    // Codes are unique across every account, so new subjects are checked against all of them
+    const [own, all] = await Promise.all([
+      supabase.from('subjects').select('id, code, name').eq('user_id', userId),
+      supabase.from('subjects').select('code')
+    ]);
+
+    const error = own.error || all.error;
+    if (error) {
+      console.error("Error loading subjects for import:", error);
+      return;
+    }
+    setSubjects(own.data || []);
+    setTakenCodes((all.data || []).map(subject => subject.code));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('upload');
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setPreview([]);
+    loadSubjects();
+  }, [open, loadSubjects]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) {
+        toast.error("The file needs a header row and at least one row of marks");
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0].map((header, index) => header.trim() || `Column ${index + 1}`));
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('map');
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(error instanceof Error ? error.message : "Couldn't read that file");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const missingFields = mapping
+    ? IMPORT_FIELDS.filter(field => field.required && mapping[field.key] < 0)
+    : [];
+
+  const handlePreview = () => {
+    if (!mapping) return;
+    if (missingFields.length > 0) {
+      toast.error(`Choose a column for ${missingFields.map(field => field.label).join(', ')}`);
+      return;
+    }
+    setPreview(validateImportRows(dataRows, mapping, subjects, takenCodes));
+    setStep('preview');
+  };
+
+  const validRows = preview.filter(row => row.errors.length === 0);
+  const invalidRows = preview.filter(row => row.errors.length > 0);
+  const newSubjectCodes = [...new Set(validRows.flatMap(row => row.newSubjectCode ? [row.newSubjectCode] : []))];
+  const renamedCodes = [...new Set(
+    validRows.filter(row => row.newSubjectCode && row.newSubjectCode !== row.subjectCode).map(row => row.subjectCode)
+  )];
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setIsImporting(true);
+    let createdSubjects: ImportSubject[] = [];
+    try {
+      if (newSubjectCodes.length > 0) {
+        const { data, error } = await supabase
+          .from('subjects')
+          .insert(newSubjectCodes.map((code, index) => ({
+            code,
+            name: validRows.find(row => row.newSubjectCode === code)?.subjectName || code,
+            color: SUBJECT_COLORS[index % SUBJECT_COLORS.length],
+            user_id: userId
+          })))
+          .select('id, code, name');
+
+        if (error) throw error;
+        createdSubjects = data || [];
+      }
+
+      const subjectIds = new Map(
+        [...subjects, ...createdSubjects].map(subject => [subject.code.trim().toUpperCase(), subject.id])
+      );
+
+      const { error } = await supabase
+        .from('marks')
+        .insert(validRows.map(row => {
+          const term = getTermForDate(terms, row.date);
+          return {
+            score: row.score,
+            max_score: row.maxScore,
+            test_type: row.testType,
+            test_name: row.testName,
+            date: row.date,
+            subject_id: row.subjectId || subjectIds.get(row.newSubjectCode || row.subjectCode),
+            user_id: userId,
+            semester: term?.name || null,
+            term_id: term?.id ?? null
+          };
+        }));
+
+      if (error) {
+        // Don't leave behind subjects that only existed for a failed import
+        if (createdSubjects.length > 0) {
+          await supabase.from('subjects').delete().in('id', createdSubjects.map(subject => subject.id));
+        }
+        throw error;
+      }
+
+      const touchedSubjectIds = [...new Set(validRows.map(row => row.subjectId || subjectIds.get(row.newSubjectCode || row.subjectCode)))]
+        .filter((id): id is string => !!id);
+      useGradeScaleStore.getState().syncCurrentGrades(touchedSubjectIds);
+      await syncMarkPredictions(userId, touchedSubjectIds, getScale);
+      window.dispatchEvent(new Event('refresh-marks'));
+
+      toast.success(`Imported ${validRows.length} mark${validRows.length === 1 ? '' : 's'}`, {
+        description: createdSubjects.length > 0
+          ? `Created ${createdSubjects.length} new subject${createdSubjects.length === 1 ? '' : 's'}`
+          : undefined
+      });
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing marks:", error);
+      toast.error("Import failed, no marks were added", {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-emerald-600" />
+            Import Marks
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && "Upload a gradebook export as CSV or Excel (.xlsx). The first row should be column headings."}
+            {step === 'map' && `Match the columns in ${fileName} to mark fields.`}
+            {step === 'preview' && "Check the rows below. Nothing is saved until you import."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label
+            htmlFor="import-file"
+            className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-200 py-10 cursor-pointer hover:border-blue-300 hover:bg-blue-50/50 transition-colors"
+          >
+            {isReading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+            ) : (
+              <Upload className="h-8 w-8 text-gray-400" />
+            )}
+            <span className="text-sm text-gray-600">Choose a .csv or .xlsx file</span>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <Label className="text-xs">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={String(mapping[field.key])}
+                    onValueChange={(value) => setMapping(prev => prev && { ...prev, [field.key]: parseInt(value) })}
+                  >
+                    <SelectTrigger className={cn("h-8 text-sm", field.required && mapping[field.key] < 0 && "border-red-500")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>
+                        {field.key === 'max_score' ? `Not in file (out of 100)` : field.key === 'subject_name' ? 'Not in file (use code)' : 'Not in file'}
+                      </SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {dataRows.length} row{dataRows.length === 1 ? '' : 's'} found. Subjects are matched by code; unknown codes become new subjects.
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                <CheckCircle2 className="h-3 w-3 mr-1" /> {validRows.length} ready
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+                  <AlertCircle className="h-3 w-3 mr-1" /> {invalidRows.length} with errors
+                </Badge>
+              )}
+              {newSubjectCodes.length > 0 && (
+                <Badge variant="outline">New subjects: {newSubjectCodes.join(', ')}</Badge>
+              )}
+            </div>
+
+            {renamedCodes.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {renamedCodes.join(', ')} {renamedCodes.length === 1 ? 'is' : 'are'} already used by another account, so the new subject{renamedCodes.length === 1 ? ' gets' : 's get'} a numbered code.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {invalidRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Rows with errors will be skipped. Fix them in the file and import again to include them.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ScrollArea className="h-72 rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="text-left text-gray-500">
+                    <th className="p-2 font-medium">Row</th>
+                    <th className="p-2 font-medium">Subject</th>
+                    <th className="p-2 font-medium">Assessment</th>
+                    <th className="p-2 font-medium">Score</th>
+                    <th className="p-2 font-medium">Date</th>
+                    <th className="p-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(row => (
+                    <tr key={row.rowNumber} className={cn("border-t", row.errors.length > 0 && "bg-red-50")}>
+                      <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="p-2">
+                        {row.subjectCode || '-'}
+                        {row.newSubjectCode && row.newSubjectCode !== row.subjectCode && (
+                          <span className="text-gray-500"> as {row.newSubjectCode}</span>
+                        )}
+                        {row.subjectCode && !row.subjectId && (
+                          <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0">new</Badge>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {row.testName || '-'}
+                        {row.testType && <span className="text-gray-500"> ({row.testType})</span>}
+                      </td>
+                      <td className="p-2">{isNaN(row.score) ? '-' : `${row.score}/${isNaN(row.maxScore) ? '?' : row.maxScore}`}</td>
+                      <td className="p-2">{row.date || '-'}</td>
+                      <td className="p-2">
+                        {row.errors.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <span className="text-red-700">{row.errors.join('; ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <DialogFooter className="flex-row justify-between sm:justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+              disabled={isImporting}
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" /> Back
+            </Button>
+            {step === 'map' ? (
+              <Button size="sm" onClick={handlePreview}>Preview import</Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={isImporting || validRows.length === 0}
+                className="bg-emerald-600 hover:bg-emerald-700"
+              >
+                {isImporting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Import {validRows.length} mark{validRows.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Pencil, Plus, Save } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import {
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_RARITIES,
+  AchievementInput,
+  CRITERIA_TEMPLATES,
+  saveAchievement,
+} from "@/lib/achievements";
+import { AchievementRecord, validateCriteria } from "@shared/achievement-criteria";
+
+interface ManageAchievementsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after the catalogue changes, so achievements can be re-checked
+  onSuccess: () => void;
+}
+
+type CatalogueEntry = AchievementRecord & { is_active: boolean };
+
+type AchievementForm = Omit<AchievementInput, 'criteria'> & { criteriaText: string };
+
+const emptyForm = (): AchievementForm => ({
+  name: "",
+  description: "",
+  icon: "Trophy",
+  category: "milestone",
+  rarity: "common",
+  points: 25,
+  is_active: true,
+  criteriaText: JSON.stringify(CRITERIA_TEMPLATES[0].criteria, null, 2)
+});
+
+const parseCriteriaText = (text: string): { criteria?: unknown; error: string | null } => {
+  try {
+    const criteria = JSON.parse(text);
+    return { criteria, error: validateCriteria(criteria) };
+  } catch {
+    return { error: "Criteria must be valid JSON" };
+  }
+};
+
+export function ManageAchievementsDialog({ open, onOpenChange, onSuccess }: ManageAchievementsDialogProps) {
+  const [catalogue, setCatalogue] = useState<CatalogueEntry[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AchievementForm>(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEditingId(null);
+    setForm(emptyForm());
+    loadCatalogue();
+  }, [open]);
+
+  const loadCatalogue = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('achievements')
+        .select('id, name, description, icon, category, criteria, points, rarity, is_active')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setCatalogue(data || []);
+    } catch (error) {
+      console.error("Error loading achievements:", error);
+      toast.error("Failed to load achievements");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (achievement: CatalogueEntry) => {
+    setEditingId(achievement.id);
+    setForm({
+      name: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon,
+      category: achievement.category,
+      rarity: achievement.rarity || "common",
+      points: achievement.points || 0,
+      is_active: achievement.is_active,
+      criteriaText: JSON.stringify(achievement.criteria, null, 2)
+    });
+  };
+
+  const { criteria, error: criteriaError } = parseCriteriaText(form.criteriaText);
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.description.trim()) {
+      toast.error("Name and description are required");
+      return;
+    }
+    if (criteriaError) {
+      toast.error(criteriaError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { criteriaText: _criteriaText, ...input } = form;
+      await saveAchievement({ ...input, name: input.name.trim(), description: input.description.trim(), criteria }, editingId || undefined);
+
+      toast.success(editingId ? `${form.name} updated` : `${form.name} added`);
+      setEditingId(null);
+      setForm(emptyForm());
+      loadCatalogue();
+      onSuccess();
+    } catch (error) {
+      console.error("Error saving achievement:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save achievement");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Achievements</DialogTitle>
+          <DialogDescription>
+            Add or edit achievements. Criteria are checked for every student as their marks, study and goals change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Catalogue</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm());
+                }}
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" /> New
+              </Button>
+            </div>
+            {isLoading ? (
+              <div className="h-40 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+              </div>
+            ) : (
+              <div className="divide-y rounded-md border max-h-[420px] overflow-y-auto">
+                {catalogue.map(achievement => (
+                  <div
+                    key={achievement.id}
+                    className={`flex items-center gap-2 px-3 py-2 text-sm ${editingId === achievement.id ? 'bg-blue-50/50' : ''}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`truncate ${achievement.is_active ? '' : 'text-gray-400 line-through'}`}>{achievement.name}</span>
+                        <Badge variant="outline" className="text-xs">{achievement.rarity}</Badge>
+                      </div>
+                      {validateCriteria(achievement.criteria) && (
+                        <p className="text-xs text-amber-600">Criteria can't be tracked; edit to fix</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleEdit(achievement)}
+                      aria-label={`Edit ${achievement.name}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <Label htmlFor="achievementName" className="text-xs">Name</Label>
+                <Input
+                  id="achievementName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="achievementDescription" className="text-xs">Description</Label>
+                <Input
+                  id="achievementDescription"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Category</Label>
+                <Select value={form.category} onValueChange={(value) => setForm(prev => ({ ...prev, category: value }))}>
+                  <SelectTrigger className="h-8 text-sm capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACHIEVEMENT_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">Rarity</Label>
+                <Select value={form.rarity || "common"} onValueChange={(value) => setForm(prev => ({ ...prev, rarity: value }))}>
+                  <SelectTrigger className="h-8 text-sm capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACHIEVEMENT_RARITIES.map(rarity => (
+                      <SelectItem key={rarity} value={rarity} className="capitalize">{rarity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="achievementIcon" className="text-xs">Icon</Label>
+                <Input
+                  id="achievementIcon"
+                  value={form.icon}
+                  onChange={(e) => setForm(prev => ({ ...prev, icon: e.target.value }))}
+                  placeholder="e.g. Trophy"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="achievementPoints" className="text-xs">Points</Label>
+                <Input
+                  id="achievementPoints"
+                  type="number"
+                  min="0"
+                  value={form.points ?? 0}
+                  onChange={(e) => setForm(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <Label htmlFor="achievementCriteria" className="text-xs">Criteria</Label>
+                <Select
+                  value=""
+                  onValueChange={(value) => {
+                    const template = CRITERIA_TEMPLATES[Number(value)];
+                    setForm(prev => ({ ...prev, criteriaText: JSON.stringify(template.criteria, null, 2) }));
+                  }}
+                >
+                  <SelectTrigger className="h-7 w-[200px] text-xs">
+                    <SelectValue placeholder="Start from a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CRITERIA_TEMPLATES.map((template, index) => (
+                      <SelectItem key={template.label} value={String(index)}>{template.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Textarea
+                id="achievementCriteria"
+                value={form.criteriaText}
+                onChange={(e) => setForm(prev => ({ ...prev, criteriaText: e.target.value }))}
+                rows={8}
+                className="font-mono text-xs"
+              />
+              <p className={`text-xs mt-1 ${criteriaError ? 'text-red-600' : 'text-green-600'}`}>
+                {criteriaError || "Criteria are valid"}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="achievementActive"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="achievementActive" className="text-sm">Active</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !!criteriaError} className="bg-emerald-600 hover:bg-emerald-700">
+            {isSaving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+            {editingId ? "Save Changes" : "Add Achievement"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import { format } from "date-fns";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { useGradeScales } from "@/hooks/use-grade-scales";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -21,6 +22,7 @@ interface Mark {
   score: number;
   max_score: number;
   percentage: number;
+  subject_id?: string;
   test_name: string;
   test_type: string;
   date: string;
@@ -40,6 +42,7 @@ export function RecentMarks({ marks }: RecentMarksProps) {
   const [filterSubject, setFilterSubject] = useState<string | null>(null);
   const [filterTestType, setFilterTestType] = useState<string | null>(null);
   const [visibleMarks, setVisibleMarks] = useState(8);
+  const { getLetter } = useGradeScales();
 
   const getGradeColor = (percentage: number) => {
     if (percentage >= 90) return "bg-green-100 text-green-800";
@@ -59,14 +62,7 @@ export function RecentMarks({ marks }: RecentMarksProps) {
     return "bg-red-500";
   };
 
-  const getGradeLetter = (percentage: number) => {
-    if (percentage >= 90) return "A";
-    if (percentage >= 80) return "B";
-    if (percentage >= 70) return "C";
-    if (percentage >= 60) return "D";
-    if (percentage >= 50) return "E";
-    return "F";
-  };
+  const getGradeLetter = (percentage: number, subjectId?: string) => getLetter(percentage, subjectId);
 
   const getGradeIcon = (percentage: number, prevPercentage?: number) => {
     if (!prevPercentage) return null;
@@ -298,7 +294,7 @@ export function RecentMarks({ marks }: RecentMarksProps) {
                       />
                     </div>
                     <Badge className={`text-xs ${getGradeColor(mark.percentage)}`}>
-                      {getGradeLetter(mark.percentage)} ({mark.percentage.toFixed(1)}%)
+                      {getGradeLetter(mark.percentage, mark.subject_id)} ({mark.percentage.toFixed(1)}%)
                     </Badge>
                   </div>
                 </div>
@@ -323,7 +319,7 @@ export function RecentMarks({ marks }: RecentMarksProps) {
                         <div className="text-xs flex items-center justify-between">
                           <span className="text-gray-500">Previous {mark.subjects.name} mark:</span>
                           <Badge className={`${getGradeColor(prevMark.percentage)}`}>
-                            {prevMark.percentage.toFixed(1)}% ({getGradeLetter(prevMark.percentage)})
+                            {prevMark.percentage.toFixed(1)}% ({getGradeLetter(prevMark.percentage, prevMark.subject_id)})
                           </Badge>
                         </div>
                       )}
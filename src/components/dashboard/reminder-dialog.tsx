@@ -0,0 +1,427 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { cn } from "@/lib/utils";
+import { RECURRENCE_PATTERNS } from "@/lib/reminders";
+import { Calendar as CalendarIcon, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+const reminderSchema = z.object({
+  title: z.string().min(1, "Title cannot be empty."),
+  description: z.string().optional(),
+  date: z.date({ required_error: "Date is required" }),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Enter a valid time"),
+  reminder_type: z.enum(["study", "exam", "assignment", "goal", "general"]),
+  priority: z.enum(["low", "medium", "high"]),
+  subject_id: z.string().optional(),
+  goal_id: z.string().optional(),
+  is_recurring: z.boolean(),
+  recurrence_pattern: z.enum(["daily", "weekly", "monthly"]).optional(),
+}).refine(values => !values.is_recurring || values.recurrence_pattern, {
+  message: "Choose how often the reminder repeats",
+  path: ["recurrence_pattern"],
+});
+
+type ReminderFormValues = z.infer<typeof reminderSchema>;
+
+export interface EditableReminder {
+  id: string;
+  title: string;
+  description?: string | null;
+  reminder_date: string;
+  reminder_type: string;
+  priority: string;
+  subject_id?: string | null;
+  goal_id?: string | null;
+  is_recurring?: boolean | null;
+  recurrence_pattern?: string | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface ReminderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  userId: string;
+  reminder?: EditableReminder;
+}
+
+// Select items can't have an empty value, so "none" stands in for no link
+const NONE = "none";
+
+const getDefaultValues = (reminder?: EditableReminder): ReminderFormValues => {
+  if (!reminder) {
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000);
+    return {
+      title: "",
+      description: "",
+      date: inAnHour,
+      time: format(inAnHour, "HH:mm"),
+      reminder_type: "study",
+      priority: "medium",
+      subject_id: NONE,
+      goal_id: NONE,
+      is_recurring: false,
+      recurrence_pattern: undefined,
+    };
+  }
+
+  const date = new Date(reminder.reminder_date);
+  return {
+    title: reminder.title,
+    description: reminder.description || "",
+    date,
+    time: format(date, "HH:mm"),
+    reminder_type: reminder.reminder_type as ReminderFormValues["reminder_type"],
+    priority: reminder.priority as ReminderFormValues["priority"],
+    subject_id: reminder.subject_id || NONE,
+    goal_id: reminder.goal_id || NONE,
+    is_recurring: !!reminder.is_recurring,
+    recurrence_pattern: (reminder.recurrence_pattern || undefined) as ReminderFormValues["recurrence_pattern"],
+  };
+};
+
+export function ReminderDialog({ open, onOpenChange, onSuccess, userId, reminder }: ReminderDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [subjects, setSubjects] = useState<Option[]>([]);
+  const [goals, setGoals] = useState<Option[]>([]);
+
+  const form = useForm<ReminderFormValues>({
+    resolver: zodResolver(reminderSchema),
+    defaultValues: getDefaultValues(reminder),
+  });
+
+  const isRecurring = form.watch("is_recurring");
+
+  useEffect(() => {
+    async function fetchOptions() {
+      const [{ data: subjectsData }, { data: goalsData }] = await Promise.all([
+        supabase.from("subjects").select("id, name").eq("user_id", userId),
+        supabase.from("goals").select("id, title").eq("user_id", userId).eq("status", "active"),
+      ]);
+      setSubjects(subjectsData || []);
+      setGoals((goalsData || []).map(g => ({ id: g.id, name: g.title })));
+    }
+    fetchOptions();
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(reminder));
+    }
+  }, [reminder, open, form]);
+
+  const onSubmit = async (values: ReminderFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const [hours, minutes] = values.time.split(":").map(Number);
+      const reminderDate = new Date(values.date);
+      reminderDate.setHours(hours, minutes, 0, 0);
+
+      const reminderData = {
+        title: values.title,
+        description: values.description || null,
+        reminder_date: reminderDate.toISOString(),
+        reminder_type: values.reminder_type,
+        priority: values.priority,
+        subject_id: values.subject_id && values.subject_id !== NONE ? values.subject_id : null,
+        goal_id: values.goal_id && values.goal_id !== NONE ? values.goal_id : null,
+        is_recurring: values.is_recurring,
+        recurrence_pattern: values.is_recurring ? values.recurrence_pattern : null,
+        user_id: userId,
+        updated_at: new Date().toISOString(),
+      };
+
+      // A new schedule starts over, so occurrences marked done under the old one don't carry across
+      const scheduleChanged = !!reminder && (
+        new Date(reminder.reminder_date).getTime() !== reminderDate.getTime() ||
+        (reminder.is_recurring ? reminder.recurrence_pattern : null) !== reminderData.recurrence_pattern
+      );
+
+      const { error } = reminder
+        ? await supabase
+            .from("reminders")
+            .update(scheduleChanged ? { ...reminderData, last_completed_occurrence: null } : reminderData)
+            .eq("id", reminder.id)
+        : await supabase.from("reminders").insert({ ...reminderData, is_completed: false });
+
+      if (error) throw error;
+
+      toast.success(reminder ? "Reminder updated!" : "Reminder created!");
+      window.dispatchEvent(new Event("refresh-reminders"));
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Error: ${error instanceof Error ? error.message : "Could not save reminder"}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{reminder ? "Edit Reminder" : "Create Reminder"}</DialogTitle>
+          <DialogDescription>
+            You'll get a browser notification when the reminder is due while the app is open.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Review chemistry notes" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Add any details..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant={"outline"}
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value ? format(field.value, "PP") : <span>Pick a date</span>}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="time"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="reminder_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="study">Study</SelectItem>
+                        <SelectItem value="exam">Exam</SelectItem>
+                        <SelectItem value="assignment">Assignment</SelectItem>
+                        <SelectItem value="goal">Goal</SelectItem>
+                        <SelectItem value="general">General</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a priority" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="subject_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subject (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a subject" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {subjects.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="goal_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Goal (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a goal" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {goals.map(g => <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <FormField
+                control={form.control}
+                name="is_recurring"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <FormLabel className="mt-0">Repeat</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {isRecurring && (
+                <FormField
+                  control={form.control}
+                  name="recurrence_pattern"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeats</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="How often?" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RECURRENCE_PATTERNS.map(({ pattern, label }) => (
+                            <SelectItem key={pattern} value={pattern}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {reminder ? "Save Changes" : "Create Reminder"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
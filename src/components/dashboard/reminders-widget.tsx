@@ -0,0 +1,397 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Plus, Bell, BellRing, BookOpen, Calendar, ClipboardList, Target,
+  CheckCircle, MoreHorizontal, Edit, Trash2, Repeat
+} from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { toast } from "sonner";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import { requestNotificationPermission } from "@/lib/notifications";
+import { expandOccurrences, getNextOccurrence, getPendingOccurrence, getRecurrencePattern } from "@/lib/reminders";
+import { ReminderDialog } from "./reminder-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface Reminder {
+  id: string;
+  title: string;
+  description: string | null;
+  reminder_date: string;
+  reminder_type: string;
+  priority: string;
+  is_completed: boolean;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+  last_completed_occurrence: string | null;
+  subject_id: string | null;
+  goal_id: string | null;
+  subjects?: {
+    name: string;
+    color?: string;
+  };
+  goals?: {
+    title: string;
+  };
+}
+
+// Order reminders by the occurrence each is waiting on, not their first date
+const sortByPending = (reminders: Reminder[]): Reminder[] =>
+  reminders
+    .map(reminder => ({ reminder, pending: (getPendingOccurrence(reminder) || new Date(reminder.reminder_date)).getTime() }))
+    .sort((a, b) => a.pending - b.pending)
+    .map(({ reminder }) => reminder);
+
+interface RemindersWidgetProps {
+  userId: string;
+}
+
+export function RemindersWidget({ userId }: RemindersWidgetProps) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingReminder, setEditingReminder] = useState<Reminder | undefined>(undefined);
+  const [isAlertOpen, setIsAlertOpen] = useState(false);
+  const [reminderToDelete, setReminderToDelete] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(
+    "Notification" in window ? Notification.permission : "denied"
+  );
+
+  const loadReminders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('reminders')
+        .select(`
+          *,
+          subjects (
+            name,
+            color
+          ),
+          goals (
+            title
+          )
+        `)
+        .eq('user_id', userId)
+        .eq('is_completed', false)
+        .order('reminder_date', { ascending: true });
+
+      if (error) {
+        console.error("Error loading reminders:", error);
+        toast.error("Failed to load reminders.");
+        return;
+      }
+
+      setReminders(sortByPending(data || []));
+    } catch (error) {
+      console.error("Error loading reminders:", error);
+      toast.error("An unexpected error occurred while loading reminders.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadReminders();
+  }, [loadReminders]);
+
+  const handleEnableNotifications = async () => {
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    if (permission === "granted") {
+      toast.success("Reminder notifications enabled.");
+    } else {
+      toast.error("Notifications are blocked. Enable them in your browser settings.");
+    }
+  };
+
+  const handleAddNew = () => {
+    setEditingReminder(undefined);
+    setShowDialog(true);
+  };
+
+  const handleEdit = (reminder: Reminder) => {
+    setEditingReminder(reminder);
+    setShowDialog(true);
+  };
+
+  const handleComplete = async (reminder: Reminder) => {
+    // Recurring reminders mark the pending occurrence done and move on to the one after it,
+    // keeping reminder_date as the anchor so month-end dates don't drift
+    const occurrence = getRecurrencePattern(reminder) ? getPendingOccurrence(reminder) : null;
+    const nextOccurrence = occurrence ? getNextOccurrence(reminder, occurrence) : null;
+    const update = occurrence
+      ? { last_completed_occurrence: occurrence.toISOString(), updated_at: new Date().toISOString() }
+      : { is_completed: true, updated_at: new Date().toISOString() };
+
+    const originalReminders = [...reminders];
+    setReminders(occurrence
+      ? sortByPending(reminders.map(r =>
+          r.id === reminder.id ? { ...r, last_completed_occurrence: occurrence.toISOString() } : r
+        ))
+      : reminders.filter(r => r.id !== reminder.id));
+
+    const { error } = await supabase
+      .from('reminders')
+      .update(update)
+      .eq('id', reminder.id);
+
+    if (error) {
+      toast.error("Failed to complete reminder.");
+      setReminders(originalReminders);
+      return;
+    }
+
+    window.dispatchEvent(new Event('refresh-reminders'));
+    toast.success(nextOccurrence
+      ? `Done! Next reminder ${format(nextOccurrence, "EEE, MMM d 'at' p")}.`
+      : "Reminder completed!");
+  };
+
+  const handleDelete = async () => {
+    if (!reminderToDelete) return;
+
+    const originalReminders = [...reminders];
+    setReminders(reminders.filter(r => r.id !== reminderToDelete));
+
+    const { error } = await supabase
+      .from('reminders')
+      .delete()
+      .eq('id', reminderToDelete);
+
+    if (error) {
+      toast.error("Failed to delete reminder.");
+      setReminders(originalReminders);
+    } else {
+      window.dispatchEvent(new Event('refresh-reminders'));
+      toast.success("Reminder deleted.");
+    }
+
+    setReminderToDelete(null);
+    setIsAlertOpen(false);
+  };
+
+  const openDeleteConfirm = (reminderId: string) => {
+    setReminderToDelete(reminderId);
+    setIsAlertOpen(true);
+  };
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'high': return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+      case 'medium': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+      case 'low': return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+    }
+  };
+
+  const getTypeIcon = (type: string) => {
+    switch (type) {
+      case 'study': return <BookOpen className="h-4 w-4" />;
+      case 'exam': return <Calendar className="h-4 w-4" />;
+      case 'assignment': return <ClipboardList className="h-4 w-4" />;
+      case 'goal': return <Target className="h-4 w-4" />;
+      default: return <Bell className="h-4 w-4" />;
+    }
+  };
+
+  // Upcoming occurrences of a recurring reminder over the next week, after the pending one
+  const getUpcomingThisWeek = (reminder: Reminder): Date[] => {
+    const pending = getPendingOccurrence(reminder) || new Date(reminder.reminder_date);
+    const from = new Date(Math.max(Date.now(), pending.getTime() + 1));
+    return expandOccurrences(reminder, from, addDays(new Date(), 7)).slice(0, 3);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="h-5 w-5" />
+            <span>Reminders</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Bell className="h-5 w-5" />
+              <span>Reminders</span>
+            </CardTitle>
+            <CardDescription>Never miss a study session, exam or deadline</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {notificationPermission !== "granted" && (
+              <Button size="sm" variant="outline" onClick={handleEnableNotifications}>
+                <BellRing className="h-4 w-4 mr-1" />
+                Enable
+              </Button>
+            )}
+            <Button size="sm" onClick={handleAddNew}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Reminder
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {reminders.length === 0 ? (
+          <div className="text-center py-8 space-y-3">
+            <Bell className="h-8 w-8 text-gray-400 mx-auto" />
+            <p className="text-gray-500 dark:text-gray-400">No upcoming reminders</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500">Set a reminder so you don't miss what matters.</p>
+            <Button size="sm" onClick={handleAddNew} className="mt-4">
+              <Plus className="h-4 w-4 mr-1" />
+              Create First Reminder
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reminders.map((reminder) => {
+              const reminderDate = getPendingOccurrence(reminder) || new Date(reminder.reminder_date);
+              const isOverdue = reminderDate < new Date();
+              const pattern = getRecurrencePattern(reminder);
+              const upcoming = pattern ? getUpcomingThisWeek(reminder) : [];
+
+              return (
+                <div
+                  key={reminder.id}
+                  className={`border dark:border-gray-700 rounded-lg p-4 space-y-2 transition-all hover:shadow-md ${
+                    isOverdue ? 'border-red-300 dark:border-red-800' : 'hover:border-blue-500/50 dark:hover:border-blue-500/50'
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <div className="p-1.5 rounded-full" style={{ backgroundColor: `${reminder.subjects?.color || '#cccccc'}20` }}>
+                          {getTypeIcon(reminder.reminder_type)}
+                        </div>
+                        <h4 className="font-semibold text-gray-900 dark:text-gray-100">{reminder.title}</h4>
+                      </div>
+                      {reminder.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 ml-9 mb-2">{reminder.description}</p>
+                      )}
+                      <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400 ml-9">
+                        <Badge variant="outline" className={`${getPriorityColor(reminder.priority)} border-0`}>
+                          {reminder.priority} priority
+                        </Badge>
+                        <span className={isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : ''}>
+                          {isOverdue ? 'Overdue · ' : ''}
+                          {format(reminderDate, "EEE, MMM d 'at' p")} ({formatDistanceToNow(reminderDate, { addSuffix: true })})
+                        </span>
+                        {pattern && (
+                          <span className="flex items-center space-x-1">
+                            <Repeat className="h-3 w-3" />
+                            <span className="capitalize">{pattern}</span>
+                          </span>
+                        )}
+                        {reminder.subjects && (
+                          <span className="flex items-center space-x-1.5">
+                            <div
+                              className="w-2 h-2 rounded-full"
+                              style={{ backgroundColor: reminder.subjects.color || '#3B82F6' }}
+                            ></div>
+                            <span>{reminder.subjects.name}</span>
+                          </span>
+                        )}
+                        {reminder.goals && (
+                          <span className="flex items-center space-x-1">
+                            <Target className="h-3 w-3" />
+                            <span>{reminder.goals.title}</span>
+                          </span>
+                        )}
+                      </div>
+                      {upcoming.length > 0 && (
+                        <p className="text-xs text-gray-400 dark:text-gray-500 ml-9 mt-1">
+                          Then: {upcoming.map(date => format(date, "EEE d MMM")).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleEdit(reminder)}>
+                          <Edit className="mr-2 h-4 w-4" />
+                          <span>Edit</span>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleComplete(reminder)}>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          <span>{pattern ? 'Done for now' : 'Mark as Complete'}</span>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-red-500"
+                          onClick={() => openDeleteConfirm(reminder.id)}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          <span>Delete</span>
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <ReminderDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSuccess={loadReminders}
+        userId={userId}
+        reminder={editingReminder}
+      />
+      <AlertDialog open={isAlertOpen} onOpenChange={setIsAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the reminder
+              {reminders.find(r => r.id === reminderToDelete)?.is_recurring ? ' and all of its future occurrences' : ''}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Continue</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { Flame, Loader2, Snowflake } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  FREEZE_EVERY_DAYS,
+  MAX_STREAK_FREEZES,
+  StreakDayStatus,
+  StreakHistory,
+  getDeviceTimezone,
+  getStreakHistory,
+  isValidTimezone,
+  updateStreakSettings,
+} from "@/lib/streaks";
+
+interface StreakCalendarProps {
+  userId: string;
+  currentStreak: number;
+  // Called with the recounted streak so the header stays in step
+  onStreakChange?: (streak: number) => void;
+}
+
+const STATUS_STYLES: Record<StreakDayStatus, { className: string; label: string }> = {
+  studied: { className: "bg-orange-500 text-white", label: "Studied" },
+  frozen: { className: "bg-sky-200 text-sky-800", label: "Freeze used" },
+  short: { className: "bg-orange-100 text-orange-700", label: "Under daily minimum" },
+  missed: { className: "bg-gray-100 text-gray-400", label: "Missed" },
+  today: { className: "border border-dashed border-orange-400 text-orange-600", label: "Today" },
+};
+
+export function StreakCalendar({ userId, currentStreak, onStreakChange }: StreakCalendarProps) {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<StreakHistory | null>(null);
+  const [timezone, setTimezone] = useState("");
+  const [minMinutes, setMinMinutes] = useState("1");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The latest callback, so a new one each render doesn't reload the history
+  const onStreakChangeRef = useRef(onStreakChange);
+  useEffect(() => {
+    onStreakChangeRef.current = onStreakChange;
+  }, [onStreakChange]);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getStreakHistory(userId);
+      setHistory(data);
+      setTimezone(data.timezone);
+      setMinMinutes(String(data.streak_min_minutes));
+      onStreakChangeRef.current?.(data.currentStreak);
+    } catch (error) {
+      console.error("Error loading streak history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadHistory();
+    window.addEventListener('refresh-study-sessions', loadHistory);
+    window.addEventListener('study-session-completed', loadHistory);
+    return () => {
+      window.removeEventListener('refresh-study-sessions', loadHistory);
+      window.removeEventListener('study-session-completed', loadHistory);
+    };
+  }, [loadHistory]);
+
+  const deviceTimezone = getDeviceTimezone();
+  const parsedMinutes = parseInt(minMinutes);
+  const settingsChanged = !!history &&
+    (timezone.trim() !== history.timezone || parsedMinutes !== history.streak_min_minutes);
+
+  const handleSave = async () => {
+    if (!isValidTimezone(timezone.trim())) {
+      toast.error(`"${timezone}" isn't a timezone, e.g. Europe/London`);
+      return;
+    }
+    if (!parsedMinutes || parsedMinutes < 1 || parsedMinutes > 1440) {
+      toast.error("Daily minimum must be between 1 and 1440 minutes");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateStreakSettings(userId, { timezone: timezone.trim(), streak_min_minutes: parsedMinutes });
+      toast.success("Streak settings saved");
+      await loadHistory();
+    } catch (error) {
+      console.error("Error saving streak settings:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save streak settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Pad the first week so days line up under their weekday
+  const leadingBlanks = history?.days.length ? parseISO(history.days[0].date).getDay() : 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-2 rounded-md hover:bg-orange-50 px-1 -mx-1 transition-colors">
+          <Flame className="h-4 w-4 text-orange-500" />
+          <span className="text-sm text-gray-600">Streak: <span className="font-medium">{currentStreak} days</span></span>
+          {!!history?.freezes && (
+            <span className="flex items-center text-xs text-sky-600" title={`${history.freezes} streak freeze${history.freezes === 1 ? '' : 's'}`}>
+              <Snowflake className="h-3 w-3 mr-0.5" />{history.freezes}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        {isLoading && !history ? (
+          <div className="h-40 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-orange-500" />
+          </div>
+        ) : history ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="text-lg font-bold text-orange-600">{history.currentStreak}</div>
+                <div className="text-xs text-gray-500">Current</div>
+              </div>
+              <div>
+                <div className="text-lg font-bold">{history.longestStreak}</div>
+                <div className="text-xs text-gray-500">Longest</div>
+              </div>
+              <div>
+                <div className="text-lg font-bold text-sky-600 flex items-center justify-center gap-1">
+                  <Snowflake className="h-4 w-4" />{history.freezes}/{MAX_STREAK_FREEZES}
+                </div>
+                <div className="text-xs text-gray-500">Freezes</div>
+              </div>
+            </div>
+
+            <div>
+              <div className="grid grid-cols-7 gap-1 text-center text-[10px] text-gray-400 mb-1">
+                {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => <span key={index}>{day}</span>)}
+              </div>
+              <div className="grid grid-cols-7 gap-1">
+                {Array.from({ length: leadingBlanks }, (_, index) => <span key={`blank-${index}`} />)}
+                {history.days.map(day => (
+                  <div
+                    key={day.date}
+                    title={`${format(parseISO(day.date), 'EEE d MMM')}: ${STATUS_STYLES[day.status].label}${day.minutes > 0 ? ` (${day.minutes} min)` : ''}`}
+                    className={cn(
+                      "h-8 rounded flex items-center justify-center text-xs",
+                      STATUS_STYLES[day.status].className
+                    )}
+                  >
+                    {day.status === 'frozen' ? <Snowflake className="h-3 w-3" /> : parseISO(day.date).getDate()}
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                {(['studied', 'frozen', 'short', 'missed'] as StreakDayStatus[]).map(status => (
+                  <span key={status} className="flex items-center gap-1 text-[10px] text-gray-500">
+                    <span className={cn("h-2.5 w-2.5 rounded-sm", STATUS_STYLES[status].className)} />
+                    {STATUS_STYLES[status].label}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Every {FREEZE_EVERY_DAYS} days studied earns a freeze, which covers a missed day automatically.
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <div>
+                <Label htmlFor="streakTimezone" className="text-xs">Timezone</Label>
+                <Input
+                  id="streakTimezone"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="e.g. Europe/London"
+                  className="h-8 text-sm"
+                />
+                {timezone.trim() !== deviceTimezone && (
+                  <button className="text-xs text-blue-600 hover:underline mt-1" onClick={() => setTimezone(deviceTimezone)}>
+                    Use this device's timezone ({deviceTimezone})
+                  </button>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="streakMinMinutes" className="text-xs">Minutes per day to count</Label>
+                <Input
+                  id="streakMinMinutes"
+                  type="number"
+                  min="1"
+                  max="1440"
+                  value={minMinutes}
+                  onChange={(e) => setMinMinutes(e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <Button size="sm" className="w-full" onClick={handleSave} disabled={isSaving || !settingsChanged}>
+                {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Streak history isn't available right now.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
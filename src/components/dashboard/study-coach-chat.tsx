@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { toast } from "sonner";
+import { AlertCircle, Bot, CheckCircle, ChevronRight, Loader2, MessageSquarePlus, Send, Trash2, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  COACH_TOOL_LABELS,
+  CoachConversation,
+  CoachMessage,
+  CoachToolCall,
+  applyCoachEvent,
+  deleteCoachConversation,
+  getCoachConversations,
+  getCoachMessages,
+  streamCoachReply,
+} from "@/lib/coach-chat";
+
+interface StudyCoachChatProps {
+  userId: string;
+}
+
+const STARTER_QUESTIONS = [
+  "Why are my marks dropping?",
+  "Plan my study for this week",
+  "Which subject should I focus on?",
+  "Am I on track for my goals?",
+];
+
+// Shows what the coach looked up, with the raw result on demand
+function ToolCallRow({ call }: { call: CoachToolCall }) {
+  const args = Object.entries(call.arguments)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 text-xs text-gray-500 hover:text-gray-700">
+        <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]:rotate-90" />
+        <Wrench className="h-3 w-3" />
+        <span>{COACH_TOOL_LABELS[call.name] || call.name}</span>
+        {args && <span className="text-gray-400 truncate">({args})</span>}
+        {!call.done ? (
+          <Loader2 className="h-3 w-3 animate-spin ml-auto" />
+        ) : call.error ? (
+          <AlertCircle className="h-3 w-3 text-red-500 ml-auto" />
+        ) : (
+          <CheckCircle className="h-3 w-3 text-green-500 ml-auto" />
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-[10px] text-gray-600">
+          {call.error || JSON.stringify(call.result, null, 2) || "Waiting for result…"}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function StudyCoachChat({ userId }: StudyCoachChatProps) {
+  const [conversations, setConversations] = useState<CoachConversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<CoachMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setConversations(await getCoachConversations(userId));
+    } catch (error) {
+      console.error("Error loading coach conversations:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages]);
+
+  const openConversation = async (id: string) => {
+    setConversationId(id);
+    setIsLoading(true);
+    try {
+      setMessages(await getCoachMessages(id));
+    } catch (error) {
+      console.error("Error loading coach conversation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load conversation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setInput("");
+  };
+
+  const handleDelete = async () => {
+    if (!conversationId || !confirm("Delete this conversation?")) return;
+    try {
+      await deleteCoachConversation(conversationId);
+      startNewConversation();
+      loadConversations();
+    } catch (error) {
+      console.error("Error deleting coach conversation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete conversation");
+    }
+  };
+
+  const sendMessage = async (text: string) => {
+    const message = text.trim();
+    if (!message || isStreaming) return;
+
+    setInput("");
+    setIsStreaming(true);
+    setMessages(prev => [...prev, { role: "user", content: message, toolCalls: [] }]);
+
+    try {
+      await streamCoachReply(message, conversationId, (event) => {
+        if (event.type === "conversation") setConversationId(event.conversationId);
+        else setMessages(prev => applyCoachEvent(prev, event));
+      });
+    } catch (error) {
+      console.error("Error chatting with coach:", error);
+      toast.error(error instanceof Error ? error.message : "The coach couldn't answer");
+    } finally {
+      setIsStreaming(false);
+      loadConversations();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage(input);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={conversationId ?? ""} onValueChange={openConversation} disabled={isStreaming}>
+          <SelectTrigger className="h-8 flex-1 text-sm">
+            <SelectValue placeholder={conversations.length ? "Past conversations" : "No conversations yet"} />
+          </SelectTrigger>
+          <SelectContent>
+            {conversations.map(conversation => (
+              <SelectItem key={conversation.id} value={conversation.id}>{conversation.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={startNewConversation} disabled={isStreaming}>
+          <MessageSquarePlus className="h-4 w-4 mr-1" />
+          New chat
+        </Button>
+        {conversationId && (
+          <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isStreaming} title="Delete conversation">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="h-[420px] overflow-y-auto rounded-lg border bg-gray-50/50 p-3 space-y-3">
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-500" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center space-y-3">
+            <Bot className="h-8 w-8 text-indigo-400" />
+            <p className="text-sm text-gray-600">
+              Ask about your marks, study habits or goals. The coach looks up your own data to answer.
+            </p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {STARTER_QUESTIONS.map(question => (
+                <Button key={question} variant="outline" size="sm" className="text-xs" onClick={() => sendMessage(question)}>
+                  {question}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map((message, index) => (
+            <div key={index} className={cn("flex", message.role === "user" ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+                  message.role === "user" ? "bg-indigo-600 text-white" : "bg-white border shadow-sm text-gray-800"
+                )}
+              >
+                {message.toolCalls.length > 0 && (
+                  <div className={cn("space-y-1", message.content && "mb-2 pb-2 border-b")}>
+                    {message.toolCalls.map(call => <ToolCallRow key={call.id} call={call} />)}
+                  </div>
+                )}
+                {message.content ? (
+                  <p className="whitespace-pre-wrap">{message.content}</p>
+                ) : (
+                  isStreaming && index === messages.length - 1 && (
+                    <Loader2 className="h-4 w-4 animate-spin text-indigo-500" />
+                  )
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        {isStreaming && messages[messages.length - 1]?.role === "user" && (
+          <div className="flex justify-start">
+            <div className="rounded-lg border bg-white px-3 py-2 shadow-sm">
+              <Loader2 className="h-4 w-4 animate-spin text-indigo-500" />
+            </div>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder='Ask the coach, e.g. "Why is my chemistry dropping?"'
+          className="min-h-[44px] resize-none text-sm"
+          rows={2}
+          disabled={isStreaming}
+        />
+        <Button onClick={() => sendMessage(input)} disabled={isStreaming || !input.trim()}>
+          {isStreaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
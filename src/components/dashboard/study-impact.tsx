@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from "react";
+import { Scatter, Line, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import {
+  analyzeStudyImpact,
+  DEFAULT_STUDY_WINDOW_DAYS,
+  ImpactMark,
+  ImpactSession,
+  ImpactSubject,
+  pairStudyWithMarks,
+  STUDY_WINDOW_OPTIONS,
+} from "@/lib/study-impact";
+
+interface StudyImpactProps {
+  userId: string;
+}
+
+export function StudyImpact({ userId }: StudyImpactProps) {
+  const [subjects, setSubjects] = useState<ImpactSubject[]>([]);
+  const [marks, setMarks] = useState<ImpactMark[]>([]);
+  const [sessions, setSessions] = useState<ImpactSession[]>([]);
+  const [windowDays, setWindowDays] = useState(DEFAULT_STUDY_WINDOW_DAYS);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [subjectsRes, marksRes, sessionsRes] = await Promise.all([
+        supabase.from('subjects').select('id, name').eq('user_id', userId),
+        supabase.from('marks').select('subject_id, percentage, test_type, date').eq('user_id', userId),
+        supabase.from('study_sessions').select('subject_id, start_time, duration_minutes').eq('user_id', userId)
+      ]);
+
+      if (subjectsRes.error) throw subjectsRes.error;
+      if (marksRes.error) throw marksRes.error;
+      if (sessionsRes.error) throw sessionsRes.error;
+
+      setSubjects(subjectsRes.data || []);
+      setMarks(marksRes.data || []);
+      setSessions(sessionsRes.data || []);
+    } catch (error) {
+      console.error("Error loading study impact:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadData();
+
+    const handleRefresh = () => loadData();
+    window.addEventListener('refresh-marks', handleRefresh);
+    window.addEventListener('refresh-study-sessions', handleRefresh);
+    return () => {
+      window.removeEventListener('refresh-marks', handleRefresh);
+      window.removeEventListener('refresh-study-sessions', handleRefresh);
+    };
+  }, [loadData]);
+
+  const impacts = analyzeStudyImpact(subjects, sessions, marks, windowDays);
+  const subjectImpacts = impacts.filter(impact => impact.testType === null);
+  const current = subjectImpacts.find(impact => impact.subjectId === selected) || subjectImpacts[0];
+
+  if (isLoading) {
+    return (
+      <div className="h-40 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const points = current
+    ? pairStudyWithMarks(sessions, marks, current.subjectId, windowDays).map(pair => ({
+        hours: Math.round(pair.hours * 10) / 10,
+        percentage: pair.percentage
+      }))
+    : [];
+  const maxHours = Math.max(1, ...points.map(point => point.hours));
+  const fitLine = current
+    ? [0, maxHours].map(hours => ({
+        hours,
+        fit: Math.max(0, Math.min(100, current.fit.intercept + current.fit.slope * hours))
+      }))
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <span className="text-sm text-gray-500">Study counted</span>
+        <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+          <SelectTrigger className="h-8 w-[150px]" aria-label="Days before each assessment">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STUDY_WINDOW_OPTIONS.map(days => (
+              <SelectItem key={days} value={String(days)}>{days} days before</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {impacts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Log study sessions against your subjects and add a few more marks to see how study time pays off
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            {impacts.slice(0, 6).map(impact => (
+              <button
+                key={`${impact.subjectId}-${impact.testType}`}
+                className={`w-full text-left rounded-md border p-3 text-sm hover:bg-gray-50 ${
+                  impact.subjectId === current?.subjectId ? 'border-blue-300 bg-blue-50/50' : ''
+                }`}
+                onClick={() => setSelected(impact.subjectId)}
+              >
+                <div className="flex items-start gap-2">
+                  {!impact.isMeaningful ? (
+                    <Minus className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                  ) : impact.percentPerHour > 0 ? (
+                    <TrendingUp className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <TrendingDown className="h-4 w-4 mt-0.5 text-amber-600 flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <p>{impact.finding}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {impact.fit.count} assessments · correlation {impact.fit.correlation.toFixed(2)}
+                    </p>
+                  </div>
+                  {impact.testType && <Badge variant="outline" className="text-xs capitalize">{impact.testType}</Badge>}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {current && (
+            <div>
+              <p className="text-sm font-medium mb-2">{current.subjectName}</p>
+              <div className="h-[240px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="hours"
+                      domain={[0, 'auto']}
+                      tick={{ fontSize: 12 }}
+                      label={{ value: `Hours in the ${windowDays} days before`, position: 'insideBottom', offset: -10, fontSize: 12 }}
+                    />
+                    <YAxis type="number" domain={[0, 100]} tick={{ fontSize: 12 }} />
+                    <Tooltip />
+                    <Scatter data={points} dataKey="percentage" name="Mark" fill="#3B82F6" />
+                    <Line data={fitLine} dataKey="fit" name="Trend" stroke="#10B981" dot={false} strokeWidth={2} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
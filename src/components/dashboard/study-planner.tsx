@@ -56,6 +56,11 @@ export function StudyPlanner({ userId, subjects }: StudyPlannerProps) {
 
   useEffect(() => {
     loadPlans();
+
+    // Plans can also be generated elsewhere, e.g. by the exam calendar
+    const handleRefresh = () => loadPlans();
+    window.addEventListener('refresh-study-plans', handleRefresh);
+    return () => window.removeEventListener('refresh-study-plans', handleRefresh);
   }, [userId]);
 
   const loadPlans = async () => {
@@ -71,8 +76,8 @@ export function StudyPlanner({ userId, subjects }: StudyPlannerProps) {
         `)
         .eq('user_id', userId)
         .eq('status', 'active')
-        .order('start_date', { ascending: true })
-        .limit(5);
+        .order('end_date', { ascending: true })
+        .limit(10);
 
       if (error) {
         console.error("Error loading study plans:", error);
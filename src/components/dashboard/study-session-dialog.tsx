@@ -0,0 +1,265 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import {
+  deleteStudySession,
+  OverlappingSession,
+  saveStudySession,
+  SESSION_TYPES,
+  SessionType,
+  validateSessionTimes,
+} from "@/lib/study-sessions";
+
+export interface EditableStudySession {
+  id: string;
+  start_time: string;
+  end_time?: string | null;
+  subject_id?: string | null;
+  session_type?: string | null;
+  notes?: string | null;
+}
+
+interface StudySessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  // The session to edit; a new one is logged when missing
+  session?: EditableStudySession | null;
+}
+
+const NO_SUBJECT = "none";
+
+// datetime-local inputs work in local time without a zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function StudySessionDialog({ open, onOpenChange, userId, session }: StudySessionDialogProps) {
+  const [subjects, setSubjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [formData, setFormData] = useState({
+    start: "",
+    end: "",
+    subjectId: NO_SUBJECT,
+    sessionType: "study" as SessionType,
+    notes: "",
+  });
+  const [overlapping, setOverlapping] = useState<OverlappingSession[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const end = session?.end_time ? new Date(session.end_time) : new Date();
+    const start = session ? new Date(session.start_time) : new Date(end.getTime() - 60 * 60 * 1000);
+    setFormData({
+      start: toInputValue(start),
+      end: toInputValue(end),
+      subjectId: session?.subject_id || NO_SUBJECT,
+      sessionType: (SESSION_TYPES.some(t => t.value === session?.session_type) ? session!.session_type : "study") as SessionType,
+      notes: session?.notes || "",
+    });
+    setOverlapping([]);
+    setFormError(null);
+    setConfirmDelete(false);
+
+    const loadSubjects = async () => {
+      const { data, error } = await supabase
+        .from('subjects')
+        .select('id, name')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+      if (error) {
+        console.error("Error loading subjects:", error);
+        return;
+      }
+      setSubjects(data || []);
+    };
+    loadSubjects();
+  }, [open, session, userId]);
+
+  const updateField = <K extends keyof typeof formData>(key: K, value: typeof formData[K]) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+    setOverlapping([]);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const start = new Date(formData.start);
+    const end = new Date(formData.end);
+    const invalid = validateSessionTimes(start, end);
+    if (invalid) {
+      setFormError(invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const conflicts = await saveStudySession(userId, {
+        start,
+        end,
+        subject_id: formData.subjectId === NO_SUBJECT ? null : formData.subjectId,
+        session_type: formData.sessionType,
+        notes: formData.notes,
+      }, session?.id);
+
+      if (conflicts.length > 0) {
+        setOverlapping(conflicts);
+        return;
+      }
+      toast.success(session ? "Study session updated" : "Study session logged");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving study session:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save study session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!session) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await deleteStudySession(userId, session.id);
+      toast.success("Study session deleted");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error deleting study session:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete study session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatRange = (item: OverlappingSession) =>
+    `${format(new Date(item.start_time), 'MMM d, HH:mm')} – ${item.end_time ? format(new Date(item.end_time), 'HH:mm') : 'still running'}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{session ? "Edit Study Session" : "Log Study Session"}</DialogTitle>
+          <DialogDescription>
+            {session
+              ? "Correct when this session happened or what it was for."
+              : "Record time you studied without the timer running."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="session-start">Start</Label>
+              <Input
+                id="session-start"
+                type="datetime-local"
+                value={formData.start}
+                max={toInputValue(new Date())}
+                onChange={(e) => updateField('start', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-end">End</Label>
+              <Input
+                id="session-end"
+                type="datetime-local"
+                value={formData.end}
+                max={toInputValue(new Date())}
+                onChange={(e) => updateField('end', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Select value={formData.subjectId} onValueChange={(value) => updateField('subjectId', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SUBJECT}>General study</SelectItem>
+                  {subjects.map(subject => (
+                    <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={formData.sessionType} onValueChange={(value) => updateField('sessionType', value as SessionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SESSION_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-notes">Notes</Label>
+            <Textarea
+              id="session-notes"
+              value={formData.notes}
+              placeholder="What did you work on?"
+              rows={3}
+              onChange={(e) => updateField('notes', e.target.value)}
+            />
+          </div>
+
+          {formError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{formError}</AlertDescription>
+            </Alert>
+          )}
+
+          {overlapping.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <p>This overlaps {overlapping.length === 1 ? "another session" : `${overlapping.length} other sessions`}:</p>
+                <ul className="mt-1 list-disc pl-4 text-xs">
+                  {overlapping.map(item => (
+                    <li key={item.id}>{item.title || "Study Session"}, {formatRange(item)}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {session ? (
+            <Button variant="outline" onClick={handleDelete} disabled={isSaving} className="text-red-600 hover:text-red-700">
+              <Trash2 className="h-4 w-4 mr-2" />
+              {confirmDelete ? "Confirm delete" : "Delete"}
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {session ? "Save changes" : "Log session"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
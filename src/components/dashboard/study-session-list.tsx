@@ -1,9 +1,12 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Clock, BookOpen, Pencil, Plus } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { getSessionTypeLabel } from "@/lib/study-sessions";
 import { formatDistanceToNow, format } from "date-fns";
+import { StudySessionDialog } from "./study-session-dialog";
 
 interface StudySessionListProps {
   userId: string;
@@ -21,6 +24,7 @@ interface StudySession {
   subject_id?: string | null;
   title?: string;
   session_type?: string;
+  notes?: string | null;
   points_earned?: number;
   is_completed?: boolean;
   pomodoro_count?: number;
@@ -41,6 +45,8 @@ export function StudySessionList({
   const [totalStudyTime, setTotalStudyTime] = useState(0);
   const [sortBy, setSortBy] = useState<'date' | 'duration'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingSession, setEditingSession] = useState<StudySession | null>(null);
 
   useEffect(() => {
     loadSessions();
@@ -65,7 +71,7 @@ export function StudySessionList({
       // Use all the new fields from the schema
       const { data, error } = await supabase
         .from('study_sessions')
-        .select('id, title, start_time, end_time, duration_minutes, subject_id, session_type, points_earned, is_completed, pomodoro_count')
+        .select('id, title, start_time, end_time, duration_minutes, subject_id, session_type, notes, points_earned, is_completed, pomodoro_count')
         .eq('user_id', userId)
         .order('start_time', { ascending: false })
         .limit(limit);
@@ -153,6 +159,11 @@ export function StudySessionList({
     }
   };
 
+  const openDialog = (session: StudySession | null) => {
+    setEditingSession(session);
+    setShowDialog(true);
+  };
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -239,6 +250,10 @@ export function StudySessionList({
               <Clock className="h-5 w-5 text-blue-600" />
               <span className="font-medium">Study Sessions</span>
             </div>
+            <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Log session
+            </Button>
           </div>
           <div className="flex justify-between items-center mt-2">
             <div className="flex items-center space-x-2">
@@ -276,7 +291,7 @@ export function StudySessionList({
           <div className="text-center py-6 text-gray-500">
             <Clock className="h-12 w-12 mx-auto mb-2 opacity-20" />
             <p>No study sessions recorded yet.</p>
-            <p className="text-sm mt-1">Start a timer to track your study time!</p>
+            <p className="text-sm mt-1">Start a timer to track your study time, or log a session you've already done.</p>
           </div>
         ) : (
           <div className="max-h-[400px] overflow-y-auto pr-1 custom-scrollbar">
@@ -297,11 +312,27 @@ export function StudySessionList({
                           {format(new Date(session.start_time), 'MMM d, yyyy')} • {formatDuration(session.duration_minutes || 0)}
                         </div>
                       </div>
-                      <Badge className="bg-blue-100 text-blue-800 ml-2">
-                        Study
-                      </Badge>
+                      <div className="flex items-center ml-2">
+                        <Badge className="bg-blue-100 text-blue-800">
+                          {getSessionTypeLabel(session.session_type)}
+                        </Badge>
+                        {/* Sessions still being timed are edited by the timer */}
+                        {session.end_time && (
+                          <button
+                            className="ml-1 p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                            onClick={() => openDialog(session)}
+                            aria-label="Edit session"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
                     </div>
                     
+                    {session.notes && (
+                      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{session.notes}</p>
+                    )}
+
                     <div className="flex justify-between items-center text-xs mt-2">
                       <div className="flex items-center">
                         <Clock className="h-3 w-3 mr-1 text-gray-400" />
@@ -327,6 +358,13 @@ export function StudySessionList({
           </div>
         )}
       </CardContent>
+
+      <StudySessionDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        userId={userId}
+        session={editingSession}
+      />
     </Card>
   );
 } 
\ No newline at end of file
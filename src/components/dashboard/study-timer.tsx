@@ -1,9 +1,9 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Play, Pause, Square, Clock, BookOpen, AlertCircle, RefreshCw, Settings, Minimize } from "lucide-react";
+import { Play, Pause, Square, Clock, AlertCircle, RefreshCw, Settings, Minimize, SkipForward } from "lucide-react";
 import { supabase } from '@/lib/supabase';
 import { toast } from "sonner";
 import { cn, useGlobalTimerStore } from "@/lib/utils";
@@ -11,7 +11,18 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { requestNotificationPermission } from "@/lib/notifications";
+import { advanceStudyTimer, stopStudyTimer } from "@/lib/study-timer";
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  getPhaseSeconds,
+  getPomodoroLabel,
+  getPomodoroTheme,
+  parsePomodoroSettings,
+  POMODORO_MODES,
+  PomodoroSettings,
+} from "@/lib/pomodoro";
 
 interface Subject {
   id: string;
@@ -24,30 +35,13 @@ interface StudyTimerProps {
   subjects: Subject[];
 }
 
-interface TimerSettings {
-  pomodoro: number;
-  shortBreak: number;
-  longBreak: number;
-}
-
-const MODES = {
-  POMODORO: { id: 'pomodoro', label: 'Pomodoro' },
-  SHORT_BREAK: { id: 'short_break', label: 'Short Break' },
-  LONG_BREAK: { id: 'long_break', label: 'Long Break' },
-};
-
 export function StudyTimer({ userId, subjects }: StudyTimerProps) {
-  const [timerSettings, setTimerSettings] = useState<TimerSettings>({
-    pomodoro: 25,
-    shortBreak: 5,
-    longBreak: 15,
-  });
+  // The user's own timer settings, and presets for subjects that override them
+  const [defaultSettings, setDefaultSettings] = useState<PomodoroSettings>(DEFAULT_POMODORO_SETTINGS);
+  const [subjectPresets, setSubjectPresets] = useState<Record<string, PomodoroSettings>>({});
+  const [studyPreferences, setStudyPreferences] = useState<Record<string, any>>({});
 
-  // Local state that will sync with global state
-  const [localMode, setLocalMode] = useState(MODES.POMODORO.id);
-  const [localTime, setLocalTime] = useState(timerSettings.pomodoro * 60);
   const [selectedSubject, setSelectedSubject] = useState<string>("");
-  const [pomodoroCount, setPomodoroCount] = useState(0);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [todayTime, setTodayTime] = useState("0h 0m");
   const [error, setError] = useState<string | null>(null);
@@ -57,21 +51,33 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
     current_streak: 0
   });
 
-  // Global timer state
+  // The global timer is the source of truth, so this card and the floating timer
+  // (in any tab) always show the same countdown
   const {
     isVisible: isTimerMinimized,
     isRunning: isTimerRunning,
-    mode: globalMode,
-    time: globalTime,
+    mode,
+    time,
+    progress,
+    runStartedAt,
+    sessionId,
+    cycle,
+    completedPomodoros,
+    subjectId: timerSubjectId,
     setVisible: setTimerVisible,
     setRunning: setTimerRunning,
     setMode: setTimerMode,
     setTime: setTimerTime,
+    setCycle: setTimerCycle,
     setUserId: setTimerUserId,
     setSubjectId: setTimerSubjectId,
     setTheme: setTimerTheme
   } = useGlobalTimerStore();
 
+  // A cycle is under way from its first start until it's stopped, breaks included
+  const isCycleActive = !!runStartedAt || !!sessionId;
+  const activeSettings = subjectPresets[selectedSubject] || defaultSettings;
+
   // Request notification permission on mount
   useEffect(() => {
     requestNotificationPermission();
@@ -86,41 +92,46 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
     loadUserStats();
   }, [userId]);
 
-  // Sync local state with global state
-  useEffect(() => {
-    if (isTimerMinimized && isTimerRunning) {
-      // If the minimized timer is running, sync our state
-      setLocalMode(globalMode);
-      setLocalTime(globalTime);
-    }
-  }, [isTimerMinimized, isTimerRunning, globalMode, globalTime]);
-  
-  const getTimeForMode = (modeId: string) => {
-    switch (modeId) {
-      case MODES.POMODORO.id:
-        return timerSettings.pomodoro * 60;
-      case MODES.SHORT_BREAK.id:
-        return timerSettings.shortBreak * 60;
-      case MODES.LONG_BREAK.id:
-        return timerSettings.longBreak * 60;
-      default:
-        return 0;
-    }
-  };
-  
-  const resetTimer = useCallback(() => {
-    const newTime = getTimeForMode(localMode);
-    setLocalTime(newTime);
-    
-    // Also reset the global timer if minimized
-    if (isTimerMinimized) {
-      setTimerTime(newTime);
+  const loadTimerSettings = useCallback(async () => {
+    try {
+      const [userRes, subjectsRes] = await Promise.all([
+        supabase.from('users').select('study_preferences').eq('id', userId).single(),
+        supabase.from('subjects').select('id, pomodoro_settings').eq('user_id', userId)
+      ]);
+
+      if (userRes.error) throw userRes.error;
+      if (subjectsRes.error) throw subjectsRes.error;
+
+      const preferences = userRes.data?.study_preferences || {};
+      const defaults = parsePomodoroSettings(preferences.pomodoro) || DEFAULT_POMODORO_SETTINGS;
+      setStudyPreferences(preferences);
+      setDefaultSettings(defaults);
+      setSubjectPresets(Object.fromEntries(
+        (subjectsRes.data || [])
+          .map(subject => [subject.id, parsePomodoroSettings(subject.pomodoro_settings, defaults)] as const)
+          .filter((entry): entry is readonly [string, PomodoroSettings] => entry[1] !== null)
+      ));
+    } catch (err) {
+      console.error("Failed to load timer settings:", err);
     }
-  }, [localMode, timerSettings, isTimerMinimized, setTimerTime]);
+  }, [userId]);
+
+  useEffect(() => {
+    loadTimerSettings();
+  }, [loadTimerSettings]);
 
+  // Follow the subject of a cycle restored after a reload or started in another tab
   useEffect(() => {
-    resetTimer();
-  }, [localMode, timerSettings, resetTimer]);
+    if (isCycleActive && timerSubjectId) setSelectedSubject(timerSubjectId);
+  }, [isCycleActive, timerSubjectId]);
+
+  // Between cycles, keep the timer set to the chosen mode and settings
+  useEffect(() => {
+    if (isCycleActive) return;
+    setTimerCycle(activeSettings);
+    setTimerTheme(getPomodoroTheme(mode));
+    setTimerTime(getPhaseSeconds(mode, activeSettings));
+  }, [isCycleActive, mode, activeSettings, setTimerCycle, setTimerTheme, setTimerTime]);
 
   const loadUserStats = async () => {
     try {
@@ -169,16 +180,16 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
       
       if (data && data.length > 0) {
         data.forEach(session => {
-          // If we have end_time, calculate duration
-          if (session.end_time && session.start_time) {
+          // Timer sessions span breaks, so prefer the recorded focus time
+          if (session.duration_minutes) {
+            totalMinutes += session.duration_minutes;
+          }
+          // Otherwise calculate it from end_time
+          else if (session.end_time && session.start_time) {
             const start = new Date(session.start_time);
             const end = new Date(session.end_time);
             const durationMinutes = Math.floor((end.getTime() - start.getTime()) / (1000 * 60));
             totalMinutes += durationMinutes;
-          } 
-          // If we have duration_minutes, use that
-          else if (session.duration_minutes) {
-            totalMinutes += session.duration_minutes;
           }
         });
       }
@@ -206,7 +217,7 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
       setTimerRunning(false);
     } else {
       // Make sure we have a subject selected
-      if (!selectedSubject && localMode === MODES.POMODORO.id) {
+      if (!selectedSubject && !isCycleActive && mode === 'pomodoro') {
         if (subjects && subjects.length > 0) {
           toast.error("Please select a subject first");
           return;
@@ -215,13 +226,13 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
         }
       }
 
-      // Set up the global timer state
-      const currentTheme = getModeTheme();
-      
-      setTimerMode(localMode);
-      setTimerTime(localTime);
-      setTimerSubjectId(selectedSubject);
-      setTimerTheme(currentTheme);
+      // A new cycle takes the chosen subject's settings; otherwise this resumes or starts the next phase
+      if (!isCycleActive) {
+        setTimerSubjectId(selectedSubject);
+        setTimerCycle(activeSettings);
+        setTimerTheme(getPomodoroTheme(mode));
+        setTimerTime(getPhaseSeconds(mode, activeSettings));
+      }
       
       // Start the timer
       setTimerRunning(true);
@@ -235,90 +246,97 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
     }
   };
   
-  // Calculate progress for the timer display
-  const totalTime = getTimeForMode(localMode);
-  const progress = isTimerMinimized && isTimerRunning 
-    ? ((totalTime - globalTime) / totalTime) * 100 // Use global time if minimized
-    : ((totalTime - localTime) / totalTime) * 100; // Otherwise use local time
-  
   const handleModeChange = (newMode: string) => {
-    if (isTimerRunning) {
+    if (isCycleActive) {
       toast.warning("Please stop the current session before switching modes.");
       return;
     }
     if(newMode) {
-      setLocalMode(newMode);
       setTimerMode(newMode);
     }
   };
 
-  const handleStop = () => {
-    if (isTimerRunning) {
-      // Stop the global timer
-      setTimerRunning(false);
-      setTimerVisible(false);
+  const handleStop = async () => {
+    if (isCycleActive) {
+      // Stop the global timer and close its session
+      await stopStudyTimer();
+      loadTodayStats();
     }
-    resetTimer();
   };
 
-  const handleSaveSettings = (newSettings: TimerSettings) => {
-    setTimerSettings(newSettings);
-    setIsSettingsOpen(false);
-    toast.success("Timer settings saved!");
-    resetTimer();
-  }
+  // Move straight on to the next phase; skipping a focus block counts as an interruption
+  const handleSkip = async () => {
+    const { next } = await advanceStudyTimer(false);
+    toast.info(`Skipped to ${getPomodoroLabel(next).toLowerCase()}`);
+  };
+
+  const handleSaveSettings = async (newSettings: PomodoroSettings, forSubject: boolean) => {
+    try {
+      if (forSubject && selectedSubject) {
+        const { error } = await supabase
+          .from('subjects')
+          .update({ pomodoro_settings: newSettings })
+          .eq('id', selectedSubject);
+        if (error) throw error;
+        setSubjectPresets(prev => ({ ...prev, [selectedSubject]: newSettings }));
+      } else {
+        const preferences = { ...studyPreferences, pomodoro: newSettings };
+        const { error } = await supabase
+          .from('users')
+          .update({ study_preferences: preferences })
+          .eq('id', userId);
+        if (error) throw error;
+        setStudyPreferences(preferences);
+        setDefaultSettings(newSettings);
+      }
+
+      // A cycle already under way keeps its phase lengths but picks up the rest
+      if (isCycleActive) setTimerCycle(newSettings);
+      setIsSettingsOpen(false);
+      toast.success("Timer settings saved!");
+    } catch (err) {
+      console.error("Error saving timer settings:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save timer settings");
+    }
+  };
+
+  const handleClearSubjectPreset = async () => {
+    if (!selectedSubject) return;
+    try {
+      const { error } = await supabase
+        .from('subjects')
+        .update({ pomodoro_settings: null })
+        .eq('id', selectedSubject);
+      if (error) throw error;
+
+      setSubjectPresets(prev => {
+        const { [selectedSubject]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setIsSettingsOpen(false);
+      toast.success("This subject now uses your default timer settings");
+    } catch (err) {
+      console.error("Error clearing subject timer settings:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to update timer settings");
+    }
+  };
 
   const handleMinimize = () => {
-    // Configure and show the global timer
-    const currentTheme = getModeTheme();
-    
-    setTimerMode(localMode);
-    setTimerTime(localTime);
-    setTimerSubjectId(selectedSubject);
-    setTimerTheme(currentTheme);
+    // Configure and show the global timer, keeping a cycle that's under way
+    if (!isCycleActive) {
+      setTimerSubjectId(selectedSubject);
+      setTimerTheme(getPomodoroTheme(mode));
+    }
     setTimerVisible(true);
     
     toast.info("Timer minimized and will continue in background");
   };
 
-  const getModeTheme = () => {
-    switch(localMode) {
-      case MODES.POMODORO.id:
-        return {
-          bg: "bg-blue-50 dark:bg-blue-900/20",
-          progressBg: "bg-blue-100 dark:bg-blue-800/30",
-          progressFill: "bg-blue-500",
-          button: "bg-blue-500 hover:bg-blue-600",
-          text: "text-blue-500"
-        };
-      case MODES.SHORT_BREAK.id:
-        return {
-          bg: "bg-green-50 dark:bg-green-900/20",
-          progressBg: "bg-green-100 dark:bg-green-800/30",
-          progressFill: "bg-green-500",
-          button: "bg-green-500 hover:bg-green-600",
-          text: "text-green-500"
-        };
-      case MODES.LONG_BREAK.id:
-        return {
-          bg: "bg-indigo-50 dark:bg-indigo-900/20",
-          progressBg: "bg-indigo-100 dark:bg-indigo-800/30",
-          progressFill: "bg-indigo-500",
-          button: "bg-indigo-500 hover:bg-indigo-600",
-          text: "text-indigo-500"
-        };
-      default:
-        return {
-          bg: "bg-gray-50 dark:bg-gray-900/20",
-          progressBg: "bg-gray-100 dark:bg-gray-800/30",
-          progressFill: "bg-gray-500",
-          button: "bg-gray-500 hover:bg-gray-600",
-          text: "text-gray-500"
-        };
-    }
-  }
-
-  const theme = getModeTheme();
+  const theme = getPomodoroTheme(mode);
+  const interval = cycle.longBreakInterval;
+  // Dots fill as focus blocks finish; a long break shows the cycle it rounds off
+  const filledDots = mode === 'long_break' && completedPomodoros > 0 ? interval : completedPomodoros % interval;
+  const selectedSubjectName = subjects.find(subject => subject.id === selectedSubject)?.name;
   
   if (error) {
     return (
@@ -363,14 +381,22 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
                   <Settings className="h-5 w-5" />
                 </Button>
               </DialogTrigger>
-              <TimerSettingsDialog currentSettings={timerSettings} onSave={handleSaveSettings} />
+              {isSettingsOpen && (
+                <TimerSettingsDialog
+                  currentSettings={activeSettings}
+                  subjectName={selectedSubjectName}
+                  hasSubjectPreset={!!subjectPresets[selectedSubject]}
+                  onSave={handleSaveSettings}
+                  onClearSubjectPreset={handleClearSubjectPreset}
+                />
+              )}
             </Dialog>
           </div>
         </div>
       </CardHeader>
       <CardContent className="flex flex-col items-center justify-center space-y-6">
-        <ToggleGroup type="single" value={localMode} onValueChange={handleModeChange} className="bg-white dark:bg-gray-800 p-1 rounded-full">
-          {Object.values(MODES).map(m => (
+        <ToggleGroup type="single" value={mode} onValueChange={handleModeChange} className="bg-white dark:bg-gray-800 p-1 rounded-full">
+          {POMODORO_MODES.map(m => (
             <ToggleGroupItem key={m.id} value={m.id} className="px-4 py-1.5 text-sm rounded-full data-[state=on]:bg-gray-200 dark:data-[state=on]:bg-gray-700">
               {m.label}
             </ToggleGroupItem>
@@ -404,28 +430,26 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
           </svg>
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             <span className="text-4xl font-bold tracking-tighter">
-              {isTimerMinimized && isTimerRunning ? formatTime(globalTime) : formatTime(localTime)}
+              {formatTime(time)}
             </span>
             <span className={cn("text-sm font-medium uppercase tracking-widest", theme.text)}>
-              {localMode === MODES.POMODORO.id ? MODES.POMODORO.label : 
-               localMode === MODES.SHORT_BREAK.id ? MODES.SHORT_BREAK.label : 
-               localMode === MODES.LONG_BREAK.id ? MODES.LONG_BREAK.label : 'Timer'}
+              {getPomodoroLabel(mode)}
             </span>
           </div>
         </div>
         
-        <div className="flex items-center space-x-2">
-          {Array.from({ length: 4 }).map((_, i) => (
-            <div key={i} className={cn("w-3 h-3 rounded-full transition-all", i < pomodoroCount % 4 ? theme.progressFill : theme.progressBg)} />
+        <div className="flex items-center space-x-2" title={`${completedPomodoros} pomodoro${completedPomodoros === 1 ? '' : 's'} this session`}>
+          {Array.from({ length: interval }).map((_, i) => (
+            <div key={i} className={cn("w-3 h-3 rounded-full transition-all", i < filledDots ? theme.progressFill : theme.progressBg)} />
           ))}
         </div>
 
         <div className="w-full space-y-4">
-          {localMode === MODES.POMODORO.id && (
+          {mode === 'pomodoro' && (
             <Select 
               onValueChange={setSelectedSubject} 
-              defaultValue={selectedSubject} 
-              disabled={isTimerRunning}
+              value={selectedSubject} 
+              disabled={isCycleActive}
             >
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select a subject..." />
@@ -449,6 +473,16 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
               {isTimerRunning ? <Pause className="mr-2" /> : <Play className="mr-2" />}
               {isTimerRunning ? 'Pause' : 'Start'}
             </Button>
+            {isCycleActive && (
+              <Button
+                onClick={handleSkip}
+                variant="outline"
+                size="lg"
+                title={mode === 'pomodoro' ? "Skip to break" : "Skip to next pomodoro"}
+              >
+                <SkipForward />
+              </Button>
+            )}
             <Button 
               onClick={handleStop} 
               variant="outline" 
@@ -467,60 +501,82 @@ export function StudyTimer({ userId, subjects }: StudyTimerProps) {
 
 // Define the interface for timer settings dialog props
 interface TimerSettingsDialogProps {
-  currentSettings: TimerSettings;
-  onSave: (settings: TimerSettings) => void;
+  currentSettings: PomodoroSettings;
+  // The selected subject, which settings can be saved for instead of as the default
+  subjectName?: string;
+  hasSubjectPreset: boolean;
+  onSave: (settings: PomodoroSettings, forSubject: boolean) => void;
+  onClearSubjectPreset: () => void;
 }
 
-function TimerSettingsDialog({ currentSettings, onSave }: TimerSettingsDialogProps) {
+function TimerSettingsDialog({ currentSettings, subjectName, hasSubjectPreset, onSave, onClearSubjectPreset }: TimerSettingsDialogProps) {
   const [settings, setSettings] = useState(currentSettings);
+  const [forSubject, setForSubject] = useState(hasSubjectPreset);
 
   const handleSave = () => {
-    onSave(settings);
+    // Fall back to the current values for anything left blank or out of range
+    onSave(parsePomodoroSettings(settings, currentSettings) || currentSettings, forSubject && !!subjectName);
   };
 
+  const numberFields: Array<{ key: 'pomodoro' | 'shortBreak' | 'longBreak' | 'longBreakInterval'; label: string }> = [
+    { key: 'pomodoro', label: 'Pomodoro' },
+    { key: 'shortBreak', label: 'Short Break' },
+    { key: 'longBreak', label: 'Long Break' },
+    { key: 'longBreakInterval', label: 'Long break every' },
+  ];
+
   return (
     <DialogContent>
       <DialogHeader>
         <DialogTitle>Timer Settings</DialogTitle>
         <DialogDescription>
-          Customize the length of your Pomodoro sessions and breaks.
+          Customize the length of your Pomodoro sessions and breaks, and how a cycle runs.
         </DialogDescription>
       </DialogHeader>
       <div className="space-y-4 py-4">
-        <div className="grid grid-cols-4 items-center gap-4">
-          <Label htmlFor="pomodoro" className="text-right">Pomodoro</Label>
-          <Input 
-            id="pomodoro" 
-            type="number" 
-            value={settings.pomodoro}
-            onChange={(e) => setSettings({...settings, pomodoro: parseInt(e.target.value)})}
-            className="col-span-3"
-          />
-        </div>
-        <div className="grid grid-cols-4 items-center gap-4">
-          <Label htmlFor="shortBreak" className="text-right">Short Break</Label>
-          <Input
-            id="shortBreak"
-            type="number"
-            value={settings.shortBreak}
-            onChange={(e) => setSettings({...settings, shortBreak: parseInt(e.target.value)})}
-            className="col-span-3"
+        {numberFields.map(field => (
+          <div key={field.key} className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor={field.key} className="text-right">{field.label}</Label>
+            <Input 
+              id={field.key} 
+              type="number" 
+              min={1}
+              value={settings[field.key]}
+              onChange={(e) => setSettings({...settings, [field.key]: parseInt(e.target.value)})}
+              className="col-span-2"
+            />
+            <span className="text-sm text-gray-500">{field.key === 'longBreakInterval' ? 'pomodoros' : 'minutes'}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="autoStartBreaks">Start breaks automatically</Label>
+          <Switch
+            id="autoStartBreaks"
+            checked={settings.autoStartBreaks}
+            onCheckedChange={(checked) => setSettings({...settings, autoStartBreaks: checked})}
           />
         </div>
-        <div className="grid grid-cols-4 items-center gap-4">
-          <Label htmlFor="longBreak" className="text-right">Long Break</Label>
-          <Input
-            id="longBreak"
-            type="number"
-            value={settings.longBreak}
-            onChange={(e) => setSettings({...settings, longBreak: parseInt(e.target.value)})}
-            className="col-span-3"
+        <div className="flex items-center justify-between">
+          <Label htmlFor="autoStartPomodoros">Start pomodoros automatically</Label>
+          <Switch
+            id="autoStartPomodoros"
+            checked={settings.autoStartPomodoros}
+            onCheckedChange={(checked) => setSettings({...settings, autoStartPomodoros: checked})}
           />
         </div>
+        {subjectName && (
+          <div className="flex items-center justify-between border-t pt-4">
+            <Label htmlFor="forSubject">Use these settings only for {subjectName}</Label>
+            <Switch id="forSubject" checked={forSubject} onCheckedChange={setForSubject} />
+          </div>
+        )}
       </div>
       <DialogFooter>
+        {hasSubjectPreset && (
+          <Button variant="outline" onClick={onClearSubjectPreset}>Use my defaults</Button>
+        )}
         <Button onClick={handleSave}>Save Changes</Button>
       </DialogFooter>
     </DialogContent>
   );
-}
\ No newline at end of file
+}
@@ -4,21 +4,103 @@ import { Progress } from "@/components/ui/progress";
 import { BookOpen, Info, Target, TrendingUp, TrendingDown, BarChart3, PieChart as PieChartIcon, Calculator } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { supabase } from "@/lib/supabase";
+import { getScoreNeeded, GradePrediction, predictScore, PredictionMark, resolveTargetPercentage } from "@/lib/grade-prediction";
+import { ImpactSession } from "@/lib/study-impact";
+import { TestTypeWeights } from "@/lib/gpa";
+import { useGradeScales } from "@/hooks/use-grade-scales";
 
 interface SubjectBreakdownProps {
   data: Record<string, {
+    id?: string;
     name: string;
     totalMarks: number;
     averageScore: number;
     color?: string;
   }>;
+  // Loads marks and study sessions for predictions when given
+  userId?: string;
 }
 
-export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
+interface OutlookData {
+  subjects: Array<{ id: string; target_grade: string | null; test_type_weights: TestTypeWeights | null }>;
+  marks: Array<PredictionMark & {
+    test_name: string;
+    predicted_percentage: number | null;
+    predicted_low: number | null;
+    predicted_high: number | null;
+  }>;
+  sessions: ImpactSession[];
+}
+
+export function SubjectBreakdown({ data, userId }: SubjectBreakdownProps) {
   const subjects = Object.values(data);
   const [chartType, setChartType] = useState<'bar' | 'pie' | 'radar'>('bar');
+  const [outlookData, setOutlookData] = useState<OutlookData | null>(null);
+  const { getLetter, getScale } = useGradeScales();
+
+  useEffect(() => {
+    if (!userId) return;
+    loadOutlookData(userId);
+
+    const handleRefresh = () => loadOutlookData(userId);
+    window.addEventListener('refresh-marks', handleRefresh);
+    return () => window.removeEventListener('refresh-marks', handleRefresh);
+  }, [userId]);
+
+  const loadOutlookData = async (userId: string) => {
+    try {
+      const [subjectsRes, marksRes, sessionsRes] = await Promise.all([
+        supabase.from('subjects').select('id, target_grade, test_type_weights').eq('user_id', userId),
+        supabase.from('marks')
+          .select('subject_id, percentage, test_type, test_name, date, difficulty_rating, created_at, predicted_percentage, predicted_low, predicted_high')
+          .eq('user_id', userId),
+        supabase.from('study_sessions').select('subject_id, start_time, duration_minutes').eq('user_id', userId)
+      ]);
+
+      if (subjectsRes.error) throw subjectsRes.error;
+      if (marksRes.error) throw marksRes.error;
+      if (sessionsRes.error) throw sessionsRes.error;
+
+      setOutlookData({ subjects: subjectsRes.data || [], marks: marksRes.data || [], sessions: sessionsRes.data || [] });
+    } catch (error) {
+      console.error("Error loading grade predictions:", error);
+    }
+  };
+
+  /**
+   * The prediction for a subject's next assessment, and the final exam score its target needs
+   * An upcoming mark's stored prediction is used when there is one; otherwise the
+   * next assessment is predicted from the marks so far.
+   */
+  const getOutlook = (subjectId?: string) => {
+    if (!outlookData || !subjectId) return null;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const subjectMarks = outlookData.marks.filter(mark => mark.subject_id === subjectId);
+    const pastMarks = subjectMarks.filter(mark => mark.date <= today);
+    const upcoming = subjectMarks
+      .filter(mark => mark.date > today && mark.predicted_percentage !== null)
+      .sort((a, b) => a.date.localeCompare(b.date))[0];
+
+    const prediction: GradePrediction | null = upcoming
+      ? { percentage: Number(upcoming.predicted_percentage), low: Number(upcoming.predicted_low), high: Number(upcoming.predicted_high), basedOn: pastMarks.length }
+      : predictScore(pastMarks, { subject_id: subjectId, date: today }, outlookData.sessions);
+
+    const subject = outlookData.subjects.find(s => s.id === subjectId);
+    const targetGrade = subject?.target_grade?.trim() || null;
+    const target = resolveTargetPercentage(targetGrade, getScale(subjectId));
+
+    return {
+      prediction,
+      label: upcoming ? upcoming.test_name : 'Next assessment',
+      targetGrade,
+      needed: target !== null ? getScoreNeeded(pastMarks, subject?.test_type_weights, target) : undefined
+    };
+  };
 
   if (!subjects || subjects.length === 0) {
     return (
@@ -30,14 +112,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
     );
   }
 
-  const getGradeLetter = (score: number) => {
-    if (score >= 90) return "A";
-    if (score >= 80) return "B";
-    if (score >= 70) return "C";
-    if (score >= 60) return "D";
-    if (score >= 50) return "E";
-    return "F";
-  };
+  const getGradeLetter = (score: number, subjectId?: string) => getLetter(score, subjectId);
 
   const getGradeColor = (score: number) => {
     if (score >= 90) return "bg-green-100 text-green-800 border-green-200";
@@ -88,7 +163,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
         <div className="p-2 bg-white border rounded-lg shadow-lg dark:bg-gray-800">
           <p className="font-bold">{label}</p>
           <p className="text-sm text-blue-500">Average: {payload[0].value.toFixed(1)}%</p>
-          <p className="text-xs text-gray-500">Grade: {getGradeLetter(payload[0].value)}</p>
+          <p className="text-xs text-gray-500">Grade: {getGradeLetter(payload[0].value, payload[0].payload.id)}</p>
           <p className="text-xs text-gray-500">Assessments: {payload[0].payload.totalMarks}</p>
         </div>
       );
@@ -103,7 +178,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
         <div className="p-2 bg-white border rounded-lg shadow-lg dark:bg-gray-800">
           <p className="font-bold">{data.name}</p>
           <p className="text-sm text-blue-500">Average: {data.averageScore.toFixed(1)}%</p>
-          <p className="text-xs text-gray-500">Grade: {getGradeLetter(data.averageScore)}</p>
+          <p className="text-xs text-gray-500">Grade: {getGradeLetter(data.averageScore, data.id)}</p>
           <p className="text-xs text-gray-500">Assessments: {data.totalMarks}</p>
         </div>
       );
@@ -171,7 +246,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
                 <TrendingUp className="h-5 w-5 text-green-600" />
               </div>
               <Badge className={cn("font-medium", getBadgeColor(bestSubject.averageScore))}>
-                Grade {getGradeLetter(bestSubject.averageScore)}
+                Grade {getGradeLetter(bestSubject.averageScore, bestSubject.id)}
               </Badge>
             </div>
             <h3 className="mt-3 text-lg font-semibold">Best Subject</h3>
@@ -187,7 +262,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
                 <TrendingDown className="h-5 w-5 text-amber-600" />
               </div>
               <Badge className={cn("font-medium", getBadgeColor(worstSubject.averageScore))}>
-                Grade {getGradeLetter(worstSubject.averageScore)}
+                Grade {getGradeLetter(worstSubject.averageScore, worstSubject.id)}
               </Badge>
             </div>
             <h3 className="mt-3 text-lg font-semibold">Needs Focus</h3>
@@ -285,7 +360,7 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
                       {subject.averageScore.toFixed(1)}%
                     </span>
                     <span className="ml-2 px-2 py-1 text-xs rounded-full" style={{ backgroundColor: `${subject.color}30`, color: subject.color }}>
-                      {getGradeLetter(subject.averageScore)}
+                      {getGradeLetter(subject.averageScore, subject.id)}
                     </span>
                   </div>
                 </div>
@@ -300,6 +375,41 @@ export function SubjectBreakdown({ data }: SubjectBreakdownProps) {
                     }} 
                   />
                 </div>
+
+                {/* Prediction */}
+                {(() => {
+                  const outlook = getOutlook(subject.id);
+                  if (!outlook?.prediction && outlook?.needed === undefined) return null;
+                  return (
+                    <div className="mt-3 rounded-md bg-gray-50 dark:bg-gray-900/30 p-2 text-xs space-y-1">
+                      {outlook.prediction && (
+                        <div className="flex justify-between gap-2">
+                          <span className="text-gray-500 truncate">{outlook.label}</span>
+                          <span className="font-medium text-gray-800 dark:text-gray-100 whitespace-nowrap">
+                            ~{Math.round(outlook.prediction.percentage)}% ({getGradeLetter(outlook.prediction.percentage, subject.id)})
+                            <span className="text-gray-500 font-normal"> · {Math.round(outlook.prediction.low)}–{Math.round(outlook.prediction.high)}%</span>
+                          </span>
+                        </div>
+                      )}
+                      {outlook.needed !== undefined && (
+                        <div className="flex justify-between gap-2">
+                          <span className="text-gray-500">For {outlook.targetGrade}</span>
+                          <span className={cn("font-medium whitespace-nowrap",
+                            outlook.needed === null ? "text-red-600"
+                              : outlook.prediction && outlook.needed > outlook.prediction.high ? "text-amber-600"
+                              : "text-green-600"
+                          )}>
+                            {outlook.needed === null
+                              ? "Out of reach this term"
+                              : outlook.needed === 0
+                                ? "Already secured"
+                                : `Need ${outlook.needed.toFixed(1)}% on the final`}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })()}
                 
                 {/* Footer */}
                 <div className="mt-3 flex justify-between items-center">
@@ -11,6 +11,8 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
 import {
   BarChart3,
   ChevronDown,
@@ -37,6 +39,7 @@ interface Subject {
   marks?: any[];
   description?: string;
   category?: string;
+  term_id?: string | null;
 }
 
 interface SubjectListProps {
@@ -54,6 +57,8 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
   const [showAddSubject, setShowAddSubject] = useState(false);
   const [sortBy, setSortBy] = useState<SortOption>('recent');
   const [expandedSubject, setExpandedSubject] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const { terms } = useTerms();
   const [newSubject, setNewSubject] = useState({
     name: "",
     code: "",
@@ -63,6 +68,7 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
   });
   const [isAdding, setIsAdding] = useState(false);
   const [useAutoCode, setUseAutoCode] = useState(true);
+  const { getLetter } = useGradeScales();
   
   useEffect(() => {
     // Always load subjects directly from the database for the most complete list
@@ -145,7 +151,8 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
           created_at,
           marks(score, max_score, test_name, date),
           description,
-          category
+          category,
+          term_id
         `)
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
@@ -205,7 +212,12 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
     }
   };
   
-  const sortedSubjects = sortSubjects(subjects);
+  // Subjects from archived terms are tucked away unless asked for
+  const archivedTermIds = new Set(terms.filter(term => term.is_archived).map(term => term.id));
+  const archivedCount = subjects.filter(subject => subject.term_id && archivedTermIds.has(subject.term_id)).length;
+  const sortedSubjects = sortSubjects(
+    showArchived ? subjects : subjects.filter(subject => !subject.term_id || !archivedTermIds.has(subject.term_id))
+  );
   
   const handleAddSubject = async () => {
     if (newSubject.name.length < 2) {
@@ -286,13 +298,7 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
     }
   };
 
-  const getGradeLetter = (score: number) => {
-    if (score >= 90) return "A";
-    if (score >= 80) return "B";
-    if (score >= 70) return "C";
-    if (score >= 60) return "D";
-    return "F";
-  };
+  const getGradeLetter = (score: number, subjectId: string) => getLetter(score, subjectId);
   
   if (loading && !existingSubjects) {
     return (
@@ -526,7 +532,7 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
                       (subject.averageScore || 0) >= 60 ? 'bg-orange-100 text-orange-800 border border-orange-200' :
                       'bg-red-100 text-red-800 border border-red-200'
                     }`}>
-                      {getGradeLetter(subject.averageScore || 0)}
+                      {getGradeLetter(subject.averageScore || 0, subject.id)}
                     </Badge>
                     <span className="text-sm font-semibold">
                       {(subject.averageScore || 0).toFixed(1)}%
@@ -580,7 +586,7 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
                       </div>
                       <div className="bg-white p-2 rounded-md border border-gray-100">
                         <div className="text-xs text-gray-500 mb-1">Grade</div>
-                        <div className="font-medium">{getGradeLetter(subject.averageScore || 0)} Grade</div>
+                        <div className="font-medium">{getGradeLetter(subject.averageScore || 0, subject.id)} Grade</div>
                       </div>
                     </div>
                     
@@ -657,6 +663,17 @@ export function SubjectList({ userId, onSubjectAdded, existingSubjects }: Subjec
               </div>
             ))}
             
+            {archivedCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full h-7 text-xs text-gray-500"
+                onClick={() => setShowArchived(prev => !prev)}
+              >
+                {showArchived ? 'Hide' : 'Show'} {archivedCount} subject{archivedCount === 1 ? '' : 's'} from archived terms
+              </Button>
+            )}
+            
             {subjects.length === 0 && (
               <div className="py-3 text-center">
                 <p className="text-gray-500 text-xs">No subjects added yet</p>
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarRange, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { supabase } from '@/lib/supabase';
+import { compareTerms, TermComparison as TermComparisonRow } from "@/lib/terms";
+import { GpaMark, GpaSubject } from "@/lib/gpa";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
+import { TermsDialog } from "./terms-dialog";
+
+interface TermComparisonProps {
+  userId: string;
+}
+
+export function TermComparison({ userId }: TermComparisonProps) {
+  const { getScale } = useGradeScales();
+  const { terms, isLoaded } = useTerms();
+  const [subjects, setSubjects] = useState<GpaSubject[]>([]);
+  const [marks, setMarks] = useState<Array<GpaMark & { term_id?: string | null; date: string }>>([]);
+  const [sessions, setSessions] = useState<Array<{ start_time: string; duration_minutes: number | null }>>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showTerms, setShowTerms] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [subjectsRes, marksRes, sessionsRes] = await Promise.all([
+        supabase.from('subjects').select('id, name, credit_hours, test_type_weights').eq('user_id', userId),
+        supabase.from('marks').select('subject_id, percentage, test_type, date, term_id').eq('user_id', userId),
+        supabase.from('study_sessions').select('start_time, duration_minutes').eq('user_id', userId)
+      ]);
+
+      if (subjectsRes.error) throw subjectsRes.error;
+      if (marksRes.error) throw marksRes.error;
+      if (sessionsRes.error) throw sessionsRes.error;
+
+      setSubjects(subjectsRes.data || []);
+      setMarks(marksRes.data || []);
+      setSessions(sessionsRes.data || []);
+    } catch (error) {
+      console.error("Error loading term comparison:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadData();
+
+    const handleRefresh = () => loadData();
+    window.addEventListener('refresh-marks', handleRefresh);
+    return () => window.removeEventListener('refresh-marks', handleRefresh);
+  }, [loadData]);
+
+  const rows: TermComparisonRow[] = compareTerms(terms, subjects, marks, sessions, getScale);
+
+  const renderChange = (current: number | null, previous: number | null, digits: number) => {
+    if (current === null || previous === null) return null;
+    const change = current - previous;
+    if (Math.abs(change) < Math.pow(10, -digits)) return null;
+
+    return (
+      <span className={`inline-flex items-center text-xs ml-1 ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {change > 0 ? <TrendingUp className="h-3 w-3 mr-0.5" /> : <TrendingDown className="h-3 w-3 mr-0.5" />}
+        {change > 0 ? '+' : ''}{change.toFixed(digits)}
+      </span>
+    );
+  };
+
+  if (isLoading || !isLoaded) {
+    return (
+      <div className="h-40 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setShowTerms(true)}>
+          <CalendarRange className="h-4 w-4 mr-1" /> Manage terms
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Add your terms to compare them side by side
+        </div>
+      ) : (
+        <>
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows.map(row => ({ ...row, average: row.average !== null ? Math.round(row.average) : 0 }))}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="termName" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="left" domain={[0, 100]} tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Bar yAxisId="left" dataKey="average" name="Average %" fill="#3B82F6" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="right" dataKey="studyHours" name="Study hours" fill="#10B981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-2 font-medium">Term</th>
+                  <th className="py-2 px-2 font-medium">Average</th>
+                  <th className="py-2 px-2 font-medium">GPA</th>
+                  <th className="py-2 px-2 font-medium">Study hours</th>
+                  <th className="py-2 pl-2 font-medium">Marks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const previous = index > 0 ? rows[index - 1] : null;
+                  return (
+                    <tr key={row.termId} className="border-b last:border-0">
+                      <td className="py-2 pr-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{row.termName}</span>
+                          {row.isArchived && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                        </div>
+                      </td>
+                      <td className="py-2 px-2">
+                        {row.average !== null ? `${row.average.toFixed(1)}%` : '-'}
+                        {renderChange(row.average, previous?.average ?? null, 1)}
+                      </td>
+                      <td className="py-2 px-2">
+                        {row.gpa !== null ? row.gpa.toFixed(2) : '-'}
+                        {renderChange(row.gpa, previous?.gpa ?? null, 2)}
+                      </td>
+                      <td className="py-2 px-2">
+                        {row.studyHours}h
+                        {renderChange(row.studyHours, previous?.studyHours ?? null, 1)}
+                      </td>
+                      <td className="py-2 pl-2 text-gray-600">{row.markCount}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <TermsDialog open={showTerms} onOpenChange={setShowTerms} />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { ALL_TERMS } from "@/lib/terms";
+import { useTerms } from "@/hooks/use-terms";
+
+interface TermSelectorProps {
+  value: string;
+  onChange: (termId: string) => void;
+  className?: string;
+}
+
+export function TermSelector({ value, onChange, className }: TermSelectorProps) {
+  const { terms, activeTerms } = useTerms();
+  const archivedTerms = terms.filter(term => term.is_archived);
+
+  // Nothing to choose between until the user creates a term
+  if (terms.length === 0) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={cn("h-8 w-[140px] text-xs", className)} aria-label="Term">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TERMS}>All terms</SelectItem>
+        {activeTerms.map(term => (
+          <SelectItem key={term.id} value={term.id}>{term.name}</SelectItem>
+        ))}
+        {archivedTerms.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs text-gray-500">Archived</SelectLabel>
+            {archivedTerms.map(term => (
+              <SelectItem key={term.id} value={term.id}>{term.name}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
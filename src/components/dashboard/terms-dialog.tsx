@@ -0,0 +1,173 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, Loader2, Pencil, Plus, Save, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useTermStore, useTerms } from "@/hooks/use-terms";
+
+interface TermsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = { id: undefined as string | undefined, name: "", start_date: "", end_date: "" };
+
+export function TermsDialog({ open, onOpenChange }: TermsDialogProps) {
+  const { terms } = useTerms();
+  const { saveTerm, setArchived, deleteTerm } = useTermStore();
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(emptyForm);
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Please enter a name for the term");
+      return;
+    }
+    if (!form.start_date || !form.end_date) {
+      toast.error("Please choose start and end dates");
+      return;
+    }
+    if (form.end_date < form.start_date) {
+      toast.error("The term must end after it starts");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveTerm({ ...form, name: form.name.trim() });
+      toast.success(`Term "${saved.name}" saved`);
+      setForm(emptyForm);
+      window.dispatchEvent(new Event('refresh-marks'));
+    } catch (error) {
+      console.error("Error saving term:", error);
+      toast.error("Failed to save term");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchive = async (termId: string, isArchived: boolean) => {
+    try {
+      await setArchived(termId, isArchived);
+      toast.success(isArchived ? "Term archived" : "Term restored");
+    } catch (error) {
+      console.error("Error archiving term:", error);
+      toast.error("Failed to update term");
+    }
+  };
+
+  const handleDelete = async (termId: string) => {
+    try {
+      await deleteTerm(termId);
+      if (form.id === termId) setForm(emptyForm);
+      toast.success("Term deleted");
+      window.dispatchEvent(new Event('refresh-marks'));
+    } catch (error) {
+      console.error("Error deleting term:", error);
+      toast.error("Failed to delete term");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Terms</DialogTitle>
+          <DialogDescription>
+            Marks are filed under the term covering their date. Archived terms stay available for comparison but drop out of everyday lists.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {terms.length === 0 ? (
+            <div className="text-center py-4 text-sm text-gray-500">No terms yet</div>
+          ) : (
+            terms.map(term => (
+              <div key={term.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{term.name}</span>
+                    {term.is_archived && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {format(parseISO(term.start_date), 'MMM d, yyyy')} - {format(parseISO(term.end_date), 'MMM d, yyyy')}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setForm({ id: term.id, name: term.name, start_date: term.start_date, end_date: term.end_date })}
+                  aria-label="Edit term"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleArchive(term.id, !term.is_archived)}
+                  aria-label={term.is_archived ? "Restore term" : "Archive term"}
+                >
+                  {term.is_archived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-red-600"
+                  onClick={() => handleDelete(term.id)}
+                  aria-label="Delete term"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="rounded-md border p-3 space-y-2">
+          <Label className="text-xs">{form.id ? 'Edit term' : 'New term'}</Label>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Fall 2025"
+            className="h-8 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm(prev => ({ ...prev, start_date: e.target.value }))}
+              className="h-8 text-sm"
+              aria-label="Start date"
+            />
+            <Input
+              type="date"
+              value={form.end_date}
+              onChange={(e) => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+              className="h-8 text-sm"
+              aria-label="End date"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {form.id && (
+              <Button variant="outline" size="sm" onClick={() => setForm(emptyForm)}>Cancel</Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+              {isSaving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : form.id ? <Save className="h-3.5 w-3.5 mr-1" /> : <Plus className="h-3.5 w-3.5 mr-1" />}
+              {form.id ? 'Save term' : 'Add term'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
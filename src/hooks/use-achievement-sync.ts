@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { syncAchievements } from "@/lib/achievements";
+
+/**
+ * Unlock achievements as they're earned while the app is open. Criteria are checked on
+ * load and whenever marks, study sessions, goals or the catalogue change; each unlock
+ * gets a toast, and a 'refresh-achievements' event is dispatched so lists reload.
+ */
+export function useAchievementSync(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let isChecking = false;
+    let isQueued = false;
+
+    const check = async () => {
+      if (isChecking) {
+        isQueued = true;
+        return;
+      }
+      isChecking = true;
+      try {
+        const { unlocked } = await syncAchievements(userId);
+        unlocked.forEach(achievement => {
+          toast.success(`Achievement unlocked: ${achievement.name} 🏆`, {
+            description: `${achievement.description}${achievement.points ? ` (+${achievement.points} pts)` : ''}`
+          });
+        });
+        window.dispatchEvent(new Event('refresh-achievements'));
+      } catch (error) {
+        console.error("Error checking achievements:", error);
+      } finally {
+        isChecking = false;
+        if (isQueued) {
+          isQueued = false;
+          check();
+        }
+      }
+    };
+
+    check();
+    const events = ['refresh-marks', 'refresh-study-sessions', 'study-session-completed', 'refresh-goals', 'achievements-changed'];
+    events.forEach(event => window.addEventListener(event, check));
+    return () => events.forEach(event => window.removeEventListener(event, check));
+  }, [userId]);
+}
@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { syncGoalProgress } from "@/lib/goal-progress";
+
+/**
+ * Keep measurable goals up to date while the app is open. Progress is recomputed on
+ * load and whenever marks or study sessions change, then a 'refresh-goals' event is
+ * dispatched so goal lists reload.
+ */
+export function useGoalProgressSync(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let isSyncing = false;
+    let isQueued = false;
+
+    const sync = async () => {
+      // Changes that land mid-sync are picked up by one more pass afterwards
+      if (isSyncing) {
+        isQueued = true;
+        return;
+      }
+      isSyncing = true;
+      try {
+        const completed = await syncGoalProgress(userId);
+        completed.forEach(goal => toast.success(`Goal reached: ${goal.title} 🎉`));
+        window.dispatchEvent(new Event('refresh-goals'));
+      } catch (error) {
+        console.error("Error syncing goal progress:", error);
+      } finally {
+        isSyncing = false;
+        if (isQueued) {
+          isQueued = false;
+          sync();
+        }
+      }
+    };
+
+    sync();
+    window.addEventListener('refresh-marks', sync);
+    window.addEventListener('refresh-study-sessions', sync);
+    window.addEventListener('study-session-completed', sync);
+    return () => {
+      window.removeEventListener('refresh-marks', sync);
+      window.removeEventListener('refresh-study-sessions', sync);
+      window.removeEventListener('study-session-completed', sync);
+    };
+  }, [userId]);
+}
@@ -0,0 +1,234 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/components/providers/auth-provider";
+import {
+  GradeBand,
+  GradeScale,
+  getGradeLetter,
+  getGradePoints,
+  parseGradeScale,
+  resolveGradeScale,
+} from "@/lib/grading";
+import { calculateWeightedAverage } from "@/lib/gpa";
+
+interface GradeScaleState {
+  userId: string | null;
+  scales: GradeScale[];
+  // grade_scale_id assigned to each subject, keyed by subject id
+  subjectScaleIds: Record<string, string | null>;
+  isLoaded: boolean;
+  // Actions
+  load: (userId: string) => Promise<void>;
+  saveScale: (scale: { id?: string; name: string; bands: GradeBand[] }) => Promise<GradeScale>;
+  deleteScale: (scaleId: string) => Promise<void>;
+  setDefaultScale: (scaleId: string | null) => Promise<void>;
+  assignSubjectScale: (subjectId: string, scaleId: string | null) => Promise<void>;
+  syncCurrentGrades: (subjectIds?: string[]) => Promise<void>;
+}
+
+interface LegacyGradeScale {
+  id: string;
+  name: string;
+  A: string;
+  B: string;
+  C: string;
+  D: string;
+  E: string;
+}
+
+/**
+ * One-off move of scales that AddMarkDialog used to keep in localStorage
+ * into grade_scales, so they aren't lost when that storage goes away.
+ */
+async function importLegacyGradeScales(userId: string) {
+  try {
+    const saved = localStorage.getItem('savedGradeScales');
+    if (!saved) return [];
+
+    const legacyScales = (JSON.parse(saved) as LegacyGradeScale[]).filter(scale => scale.id !== 'default');
+    const usedCustomScale = localStorage.getItem('useCustomGradeScale') === 'true';
+    const selectedId = localStorage.getItem('selectedGradeScaleId');
+
+    const rows = legacyScales.map(scale => {
+      const bands: GradeBand[] = (['A', 'B', 'C', 'D', 'E'] as const)
+        .map((letter, index) => ({ letter, min: parseFloat(scale[letter]), points: Math.max(4 - index, 0) }))
+        .filter(band => !isNaN(band.min));
+
+      return {
+        name: scale.name,
+        bands: [...bands, { letter: 'F', min: 0, points: 0 }],
+        is_default: usedCustomScale && scale.id === selectedId,
+        user_id: userId,
+      };
+    });
+
+    let data: Array<{ id: string; name: string; bands: unknown; is_default: boolean | null }> = [];
+    if (rows.length > 0) {
+      const result = await supabase.from('grade_scales').insert(rows).select('id, name, bands, is_default');
+      if (result.error) throw result.error;
+      data = result.data || [];
+    }
+
+    localStorage.removeItem('savedGradeScales');
+    localStorage.removeItem('useCustomGradeScale');
+    localStorage.removeItem('selectedGradeScaleId');
+    return data;
+  } catch (error) {
+    console.error("Error importing saved grade scales:", error);
+    return [];
+  }
+}
+
+// Shared store so every component grades with the same scales without refetching
+export const useGradeScaleStore = create<GradeScaleState>((set, get) => ({
+  userId: null,
+  scales: [],
+  subjectScaleIds: {},
+  isLoaded: false,
+
+  load: async (userId) => {
+    set({ userId });
+
+    const [{ data: scalesData, error: scalesError }, { data: subjectsData, error: subjectsError }] = await Promise.all([
+      supabase.from('grade_scales').select('id, name, bands, is_default').eq('user_id', userId).order('created_at'),
+      supabase.from('subjects').select('id, grade_scale_id').eq('user_id', userId),
+    ]);
+
+    if (scalesError) console.error("Error loading grade scales:", scalesError);
+    if (subjectsError) console.error("Error loading subject grade scales:", subjectsError);
+
+    let scaleRows = scalesData || [];
+    if (!scalesError && scaleRows.length === 0) {
+      scaleRows = await importLegacyGradeScales(userId);
+    }
+
+    set({
+      scales: scaleRows.map(parseGradeScale),
+      subjectScaleIds: Object.fromEntries((subjectsData || []).map(s => [s.id, s.grade_scale_id ?? null])),
+      isLoaded: true,
+    });
+  },
+
+  saveScale: async ({ id, name, bands }) => {
+    const { userId } = get();
+    if (!userId) throw new Error("Not signed in");
+
+    const row = { name, bands, user_id: userId, updated_at: new Date().toISOString() };
+    const { data, error } = id
+      ? await supabase.from('grade_scales').update(row).eq('id', id).select().single()
+      : await supabase.from('grade_scales').insert(row).select().single();
+
+    if (error) throw error;
+
+    const saved = parseGradeScale(data);
+    set(state => ({
+      scales: id ? state.scales.map(s => s.id === id ? saved : s) : [...state.scales, saved],
+    }));
+
+    if (id) await get().syncCurrentGrades();
+    return saved;
+  },
+
+  deleteScale: async (scaleId) => {
+    const { error } = await supabase.from('grade_scales').delete().eq('id', scaleId);
+    if (error) throw error;
+
+    // Subjects using the scale fall back to the default (the FK is ON DELETE SET NULL)
+    set(state => ({
+      scales: state.scales.filter(s => s.id !== scaleId),
+      subjectScaleIds: Object.fromEntries(
+        Object.entries(state.subjectScaleIds).map(([subjectId, id]) => [subjectId, id === scaleId ? null : id])
+      ),
+    }));
+    await get().syncCurrentGrades();
+  },
+
+  setDefaultScale: async (scaleId) => {
+    const { userId } = get();
+    if (!userId) throw new Error("Not signed in");
+
+    // Clear the old default first; a partial unique index allows only one per user
+    const { error: clearError } = await supabase
+      .from('grade_scales')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+    if (clearError) throw clearError;
+
+    if (scaleId) {
+      const { error } = await supabase.from('grade_scales').update({ is_default: true }).eq('id', scaleId);
+      if (error) throw error;
+    }
+
+    set(state => ({
+      scales: state.scales.map(s => ({ ...s, is_default: s.id === scaleId })),
+    }));
+    await get().syncCurrentGrades();
+  },
+
+  assignSubjectScale: async (subjectId, scaleId) => {
+    const { error } = await supabase.from('subjects').update({ grade_scale_id: scaleId }).eq('id', subjectId);
+    if (error) throw error;
+
+    set(state => ({ subjectScaleIds: { ...state.subjectScaleIds, [subjectId]: scaleId } }));
+    await get().syncCurrentGrades([subjectId]);
+  },
+
+  syncCurrentGrades: async (subjectIds) => {
+    const { userId, scales, subjectScaleIds } = get();
+    if (!userId) return;
+
+    const ids = subjectIds || Object.keys(subjectScaleIds);
+    if (ids.length === 0) return;
+
+    const [{ data: marksData, error }, { data: subjectsData }] = await Promise.all([
+      supabase.from('marks').select('subject_id, percentage, test_type').eq('user_id', userId).in('subject_id', ids),
+      supabase.from('subjects').select('id, test_type_weights').in('id', ids),
+    ]);
+
+    if (error) {
+      console.error("Error loading marks for current grades:", error);
+      return;
+    }
+
+    await Promise.all(ids.map(subjectId => {
+      const average = calculateWeightedAverage(
+        (marksData || []).filter(mark => mark.subject_id === subjectId),
+        subjectsData?.find(subject => subject.id === subjectId)?.test_type_weights
+      );
+      const currentGrade = average !== null
+        ? getGradeLetter(average, resolveGradeScale(scales, subjectScaleIds[subjectId]))
+        : null;
+
+      return supabase.from('subjects').update({ current_grade: currentGrade }).eq('id', subjectId);
+    }));
+  },
+}));
+
+/**
+ * Access the signed-in user's grade scales, loading them on first use.
+ * getLetter/getPoints resolve the subject's scale, then the default scale, then the standard A-F scale.
+ */
+export function useGradeScales() {
+  const { user } = useAuth();
+  const { userId, scales, subjectScaleIds, isLoaded, load } = useGradeScaleStore();
+
+  useEffect(() => {
+    if (user && userId !== user.id) {
+      load(user.id);
+    }
+  }, [user, userId, load]);
+
+  const getScale = (subjectId?: string | null) =>
+    resolveGradeScale(scales, subjectId ? subjectScaleIds[subjectId] : null);
+
+  return {
+    scales,
+    isLoaded,
+    defaultScale: getScale(),
+    getScale,
+    getLetter: (percentage: number, subjectId?: string | null) => getGradeLetter(percentage, getScale(subjectId)),
+    getPoints: (percentage: number, subjectId?: string | null) => getGradePoints(percentage, getScale(subjectId)),
+  };
+}
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { supabase } from "@/lib/supabase";
+import { sendNotification } from "@/lib/notifications";
+import { getDueReminders, getOccurrenceKey, RecurringReminder } from "@/lib/reminders";
+
+// Keys of occurrences already notified, shared across reloads and tabs
+const FIRED_STORAGE_KEY = "firedReminderOccurrences";
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+interface NotifiableReminder extends RecurringReminder {
+  description?: string | null;
+}
+
+const loadFiredKeys = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FIRED_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Poll the user's open reminders while the app is open and send a browser
+ * notification when one falls due. Reloads when a 'refresh-reminders' event is dispatched.
+ */
+export function useReminderNotifications(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let reminders: NotifiableReminder[] = [];
+
+    const loadReminders = async () => {
+      const { data, error } = await supabase
+        .from("reminders")
+        .select("id, title, description, reminder_date, is_completed, is_recurring, recurrence_pattern, last_completed_occurrence")
+        .eq("user_id", userId)
+        .eq("is_completed", false);
+
+      if (error) {
+        console.error("Error loading reminders for notifications:", error);
+        return;
+      }
+
+      reminders = data || [];
+      checkDueReminders();
+    };
+
+    const checkDueReminders = () => {
+      const fired = loadFiredKeys();
+      const due = getDueReminders(reminders).filter(
+        ({ reminder, occurrence }) => !fired.includes(getOccurrenceKey(reminder.id, occurrence))
+      );
+      if (due.length === 0) return;
+
+      due.forEach(({ reminder, occurrence }) => {
+        sendNotification(`⏰ ${reminder.title}`, reminder.description || "Your reminder is due.");
+        fired.push(getOccurrenceKey(reminder.id, occurrence));
+      });
+
+      // Only keep the most recent keys so storage doesn't grow forever
+      localStorage.setItem(FIRED_STORAGE_KEY, JSON.stringify(fired.slice(-200)));
+    };
+
+    loadReminders();
+    const interval = window.setInterval(checkDueReminders, CHECK_INTERVAL_MS);
+    window.addEventListener("refresh-reminders", loadReminders);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("refresh-reminders", loadReminders);
+    };
+  }, [userId]);
+}
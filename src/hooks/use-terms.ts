@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import { format } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/components/providers/auth-provider";
+import { Term, getTermForDate } from "@/lib/terms";
+
+interface TermState {
+  userId: string | null;
+  terms: Term[];
+  isLoaded: boolean;
+  // Actions
+  load: (userId: string) => Promise<void>;
+  saveTerm: (term: { id?: string; name: string; start_date: string; end_date: string }) => Promise<Term>;
+  setArchived: (termId: string, isArchived: boolean) => Promise<void>;
+  deleteTerm: (termId: string) => Promise<void>;
+}
+
+const sortTerms = (terms: Term[]) => [...terms].sort((a, b) => b.start_date.localeCompare(a.start_date));
+
+// Shared store so every term selector lists the same terms without refetching
+export const useTermStore = create<TermState>((set, get) => ({
+  userId: null,
+  terms: [],
+  isLoaded: false,
+
+  load: async (userId) => {
+    set({ userId });
+
+    const { data, error } = await supabase
+      .from('terms')
+      .select('id, name, start_date, end_date, is_archived')
+      .eq('user_id', userId);
+
+    if (error) console.error("Error loading terms:", error);
+
+    set({ terms: sortTerms(data || []), isLoaded: true });
+  },
+
+  saveTerm: async ({ id, name, start_date, end_date }) => {
+    const { userId } = get();
+    if (!userId) throw new Error("Not signed in");
+
+    const row = { name, start_date, end_date, user_id: userId, updated_at: new Date().toISOString() };
+    const { data, error } = id
+      ? await supabase.from('terms').update(row).eq('id', id).select('id, name, start_date, end_date, is_archived').single()
+      : await supabase.from('terms').insert(row).select('id, name, start_date, end_date, is_archived').single();
+
+    if (error) throw error;
+
+    set(state => ({
+      terms: sortTerms(id ? state.terms.map(t => t.id === id ? data : t) : [...state.terms, data]),
+    }));
+    return data;
+  },
+
+  setArchived: async (termId, isArchived) => {
+    const { error } = await supabase
+      .from('terms')
+      .update({ is_archived: isArchived, updated_at: new Date().toISOString() })
+      .eq('id', termId);
+    if (error) throw error;
+
+    set(state => ({
+      terms: state.terms.map(t => t.id === termId ? { ...t, is_archived: isArchived } : t),
+    }));
+  },
+
+  deleteTerm: async (termId) => {
+    // Marks and subjects keep their data; the FKs are ON DELETE SET NULL
+    const { error } = await supabase.from('terms').delete().eq('id', termId);
+    if (error) throw error;
+
+    set(state => ({ terms: state.terms.filter(t => t.id !== termId) }));
+  },
+}));
+
+/**
+ * Access the signed-in user's terms, newest first, loading them on first use.
+ * currentTerm is the unarchived term covering today, if there is one.
+ */
+export function useTerms() {
+  const { user } = useAuth();
+  const { userId, terms, isLoaded, load } = useTermStore();
+
+  useEffect(() => {
+    if (user && userId !== user.id) {
+      load(user.id);
+    }
+  }, [user, userId, load]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return {
+    terms,
+    isLoaded,
+    activeTerms: terms.filter(term => !term.is_archived),
+    currentTerm: getTermForDate(terms.filter(term => !term.is_archived), today),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Achievements in the app: unlocking them with the shared criteria engine, and
+ * managing the catalogue as an admin
+ */
+
+import { sharedClient, supabase } from './supabase';
+import {
+  AchievementCriteria,
+  AchievementRecord,
+  checkAchievements,
+  loadAchievementProgress,
+  validateCriteria,
+} from '@shared/achievement-criteria';
+
+export type AchievementInput = Omit<AchievementRecord, 'id'> & { is_active: boolean };
+
+export const ACHIEVEMENT_CATEGORIES = ['performance', 'consistency', 'improvement', 'milestone', 'special'];
+export const ACHIEVEMENT_RARITIES = ['common', 'rare', 'epic', 'legendary'];
+
+// Starting points for the criteria editor, one per rule type
+export const CRITERIA_TEMPLATES: Array<{ label: string; criteria: AchievementCriteria }> = [
+  { label: 'Average above a threshold', criteria: { type: 'threshold', metric: 'average_percentage', min: 85, scope: 'any_subject', minMarks: 5 } },
+  { label: 'Hours of study', criteria: { type: 'threshold', metric: 'study_hours', min: 25 } },
+  { label: 'Count of high marks', criteria: { type: 'count', of: 'marks', min: 3, minPercentage: 90 } },
+  { label: 'Count of study sessions', criteria: { type: 'count', of: 'study_sessions', min: 20 } },
+  { label: 'Study streak', criteria: { type: 'streak', days: 14 } },
+  { label: 'Improvement in a subject', criteria: { type: 'improvement', points: 10, window: 3 } },
+  {
+    label: 'All of several rules',
+    criteria: { type: 'all', criteria: [{ type: 'streak', days: 7 }, { type: 'threshold', metric: 'average_percentage', min: 80 }] }
+  },
+];
+
+/**
+ * Check the user's achievements and record any newly unlocked
+ * @returns Progress on every achievement, and those this call unlocked
+ */
+export const syncAchievements = (userId: string) => checkAchievements(sharedClient, userId);
+
+/**
+ * Progress towards every achievement, without unlocking anything
+ */
+export const getAchievementProgress = (userId: string) => loadAchievementProgress(sharedClient, userId);
+
+export async function isAchievementAdmin(userId: string): Promise<boolean> {
+  const { data, error } = await supabase.from('admins').select('user_id').eq('user_id', userId).maybeSingle();
+  if (error) {
+    console.error("Error checking admin access:", error);
+    return false;
+  }
+  return !!data;
+}
+
+/**
+ * Add an achievement to the catalogue, or update one
+ * @param id - The achievement to update; omit to add a new one
+ */
+export async function saveAchievement(input: AchievementInput, id?: string) {
+  const criteriaError = validateCriteria(input.criteria);
+  if (criteriaError) throw new Error(`Invalid criteria: ${criteriaError}`);
+
+  const { error } = id
+    ? await supabase.from('achievements').update(input).eq('id', id)
+    : await supabase.from('achievements').insert(input);
+
+  if (error) throw new Error(`Failed to save achievement: ${error.message}`);
+}
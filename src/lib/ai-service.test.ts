@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DbClient } from '@shared/db-client';
+import { validateAIResponse } from '@shared/ai-response';
+import {
+  createFixtureClient,
+  FIXTURE_NOW,
+  newStudent,
+  steadyStudent,
+  STUDENT_FIXTURES,
+  strugglingStudent,
+} from '@/test/fixtures';
+import { aiService } from './ai-service';
+
+// AIService reads through the app's shared client; point it at the fixture being tested
+const current = vi.hoisted(() => ({ client: null as DbClient | null }));
+
+vi.mock('./supabase', () => ({
+  sharedClient: { from: (table: string) => current.client!.from(table) },
+}));
+
+const viaAIService = async (userId: string) => {
+  const data = await aiService.prepareStudentData(userId);
+  if (!data) throw new Error('AIService could not load the student data');
+  return {
+    data,
+    insights: await aiService.generateInsights(data),
+    suggestions: await aiService.generateSuggestions(data),
+  };
+};
+
+describe('AIService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXTURE_NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    current.client = null;
+  });
+
+  // generate-insights checks every reply with validateAIResponse, including the mock
+  // provider's, which answers with these same rules
+  it.each(STUDENT_FIXTURES.map(fixture => [fixture.userId, fixture] as const))(
+    'writes insights and suggestions for %s that generate-insights accepts unchanged',
+    async (_, fixture) => {
+      current.client = createFixtureClient(fixture);
+      const { data, insights, suggestions } = await viaAIService(fixture.userId);
+
+      const validated = validateAIResponse(JSON.stringify({ insights, suggestions }), data);
+
+      expect(validated.rejected).toEqual([]);
+      expect(validated.coerced).toEqual([]);
+      expect(validated.insights).toEqual(insights);
+      expect(validated.suggestions).toEqual(suggestions);
+    }
+  );
+
+  it('reads study times in the student timezone', async () => {
+    current.client = createFixtureClient(steadyStudent);
+    const { data } = await viaAIService(steadyStudent.userId);
+
+    // 19:30 UTC is 07:30 the next day in Auckland
+    expect(data.studyPatterns.preferredStudyTimes).toEqual(['Morning']);
+  });
+
+  it('weights subject averages by test type and the overall average by credit hours', async () => {
+    current.client = createFixtureClient(steadyStudent);
+    const { data } = await viaAIService(steadyStudent.userId);
+
+    const math = data.subjects.find(subject => subject.id === 'math');
+    // Exams (88, 72) carry 60% and the quiz (85) 40%
+    expect(math?.averageScore).toBeCloseTo(80 * 0.6 + 85 * 0.4);
+    // History has no credit hours set, so it counts as the default 3
+    expect(data.overallAverage).toBeCloseTo((82 * 4 + 78 * 3 + 61 * 3) / 10);
+    // Only active goals are looked at
+    expect(data.goals.map(goal => goal.id)).toEqual(['g1', 'g2']);
+  });
+
+  it('produces insights and suggestions for each kind of student', async () => {
+    for (const fixture of [steadyStudent, strugglingStudent]) {
+      current.client = createFixtureClient(fixture);
+      const { insights, suggestions } = await viaAIService(fixture.userId);
+
+      expect(insights.length).toBeGreaterThan(0);
+      expect(suggestions.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('handles a student with no marks or sessions', async () => {
+    current.client = createFixtureClient(newStudent);
+    const { data } = await viaAIService(newStudent.userId);
+
+    expect(data.subjects).toEqual([]);
+    expect(data.overallAverage).toBe(0);
+    expect(data.studyPatterns).toMatchObject({ weeklyStudyHours: 0, consistencyScore: 0, preferredStudyTimes: [] });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Study coach chat: conversations with the coach-chat Edge Function
+ *
+ * Replies stream in as CoachEvents. Stored and streamed messages are folded into
+ * the same shape, where each coach message carries the tool calls it made along
+ * the way, so the panel can show what the coach looked at.
+ */
+
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+import type { CoachEvent } from '@shared/coach-tools';
+
+export type { CoachEvent } from '@shared/coach-tools';
+
+export interface CoachConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CoachToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  // Set once the tool has answered
+  result?: unknown;
+  error?: string;
+  done: boolean;
+}
+
+export interface CoachMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  toolCalls: CoachToolCall[];
+}
+
+interface StoredCoachMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls: Array<{ id: string; name: string; arguments: Record<string, unknown> }> | null;
+  tool_call_id: string | null;
+}
+
+// Readable names for the coach's tools
+export const COACH_TOOL_LABELS: Record<string, string> = {
+  get_performance_summary: 'Looked at performance summary',
+  get_marks: 'Looked up marks',
+  get_study_sessions: 'Looked up study sessions',
+  get_goals: 'Looked up goals',
+  get_study_plans: 'Looked up study plans',
+};
+
+/**
+ * Add a streamed event to the conversation, extending the coach's latest message
+ */
+export const applyCoachEvent = (messages: CoachMessage[], event: CoachEvent): CoachMessage[] => {
+  if (event.type !== 'text' && event.type !== 'tool_call' && event.type !== 'tool_result') return messages;
+
+  const last = messages[messages.length - 1];
+  const reply: CoachMessage = last?.role === 'assistant'
+    ? { ...last, toolCalls: [...last.toolCalls] }
+    : { role: 'assistant', content: '', toolCalls: [] };
+
+  if (event.type === 'text') {
+    reply.content += event.text;
+  } else if (event.type === 'tool_call') {
+    reply.toolCalls.push({ id: event.id, name: event.name, arguments: event.arguments, done: false });
+  } else {
+    reply.toolCalls = reply.toolCalls.map(call =>
+      call.id === event.id ? { ...call, result: event.result, error: event.error, done: true } : call
+    );
+  }
+
+  return last?.role === 'assistant' ? [...messages.slice(0, -1), reply] : [...messages, reply];
+};
+
+export async function getCoachConversations(userId: string): Promise<CoachConversation[]> {
+  const { data, error } = await supabase
+    .from('coach_conversations')
+    .select('id, title, created_at, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load conversations: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Load a conversation's messages, with tool results folded into the coach's messages
+ */
+export async function getCoachMessages(conversationId: string): Promise<CoachMessage[]> {
+  const { data, error } = await supabase
+    .from('coach_messages')
+    .select('role, content, tool_calls, tool_call_id')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load conversation: ${error.message}`);
+
+  return (data as StoredCoachMessage[] || []).reduce<CoachMessage[]>((messages, row) => {
+    if (row.role === 'user') return [...messages, { role: 'user', content: row.content, toolCalls: [] }];
+
+    if (row.role === 'tool') {
+      let outcome: { result?: unknown; error?: string } = {};
+      try {
+        outcome = JSON.parse(row.content);
+      } catch {
+        outcome = { result: row.content };
+      }
+      return applyCoachEvent(messages, { type: 'tool_result', id: row.tool_call_id || '', name: '', ...outcome });
+    }
+
+    let next = row.content ? applyCoachEvent(messages, { type: 'text', text: row.content }) : messages;
+    (row.tool_calls || []).forEach(call => {
+      next = applyCoachEvent(next, { type: 'tool_call', ...call });
+    });
+    return next;
+  }, []);
+}
+
+export async function deleteCoachConversation(conversationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('coach_conversations')
+    .delete()
+    .eq('id', conversationId);
+
+  if (error) throw new Error(`Failed to delete conversation: ${error.message}`);
+}
+
+/**
+ * Send a message to the coach and stream its reply
+ * @param conversationId - The conversation to continue, or null to start a new one
+ * @param onEvent - Called with each event as it arrives
+ * @throws If the coach can't be reached or the reply ends in an error
+ */
+export async function streamCoachReply(
+  message: string,
+  conversationId: string | null,
+  onEvent: (event: CoachEvent) => void
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Sign in to chat with the coach');
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/coach-chat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: supabaseAnonKey,
+    },
+    body: JSON.stringify({ message, conversationId }),
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `The coach responded ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let failure: string | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as CoachEvent;
+    if (event.type === 'error') failure = event.message;
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  if (failure) throw new Error(failure);
+}
@@ -0,0 +1,278 @@
+/**
+ * Account data export and import as a versioned JSON archive
+ */
+
+import { supabase } from './supabase';
+
+export const ARCHIVE_FORMAT = 'smartstudent-archive';
+export const ARCHIVE_VERSION = 1;
+
+type Row = Record<string, any>;
+
+// Tables in dependency order: every table only references tables above it
+export const ARCHIVE_TABLES = [
+  'grade_scales',
+  'terms',
+  'subjects',
+  'goals',
+  'marks',
+  'study_sessions',
+  'study_plans',
+  'notes',
+  'flashcards',
+  'reminders',
+  'user_achievements'
+] as const;
+
+export type ArchiveTable = typeof ARCHIVE_TABLES[number];
+
+export interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  user: Row | null;
+  tables: Record<ArchiveTable, Row[]>;
+}
+
+export interface ArchiveImportResult {
+  table: ArchiveTable;
+  inserted: number;
+  skipped: number;
+  // Subject codes already used by another account, as archive code -> code given
+  renamedCodes?: Record<string, string>;
+}
+
+// Profile fields copied onto the importing account; id and email belong to that account
+const USER_FIELDS = [
+  'name', 'grade', 'school', 'profile_image', 'preferred_study_time', 'study_goals', 'learning_style',
+  'study_preferences', 'notification_settings', 'timezone', 'weekly_study_goal', 'total_study_time',
+  'achievement_points', 'current_streak', 'longest_streak', 'last_study_date'
+];
+
+// Columns the database computes, which can't be inserted
+const GENERATED_COLUMNS: Partial<Record<ArchiveTable, string[]>> = {
+  marks: ['percentage']
+};
+
+// Foreign keys to remap on import, as column -> referenced table
+const FOREIGN_KEYS: Partial<Record<ArchiveTable, Record<string, ArchiveTable>>> = {
+  subjects: { grade_scale_id: 'grade_scales', term_id: 'terms' },
+  goals: { subject_id: 'subjects' },
+  marks: { subject_id: 'subjects', term_id: 'terms' },
+  study_sessions: { subject_id: 'subjects' },
+  study_plans: { subject_id: 'subjects' },
+  notes: { subject_id: 'subjects' },
+  flashcards: { subject_id: 'subjects' },
+  reminders: { subject_id: 'subjects', goal_id: 'goals' }
+};
+
+const normalise = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Natural key used to spot a row that already exists in the account.
+// Runs after foreign keys are remapped, so keys can include them.
+const DEDUP_KEYS: Record<ArchiveTable, (row: Row) => string> = {
+  grade_scales: row => normalise(row.name),
+  terms: row => normalise(row.name),
+  // Codes can change on import (they're unique across accounts), so subjects match on name
+  subjects: row => normalise(row.name),
+  goals: row => [normalise(row.title), row.target_date].join('|'),
+  marks: row => [row.subject_id, normalise(row.test_name), row.date, Number(row.score), Number(row.max_score)].join('|'),
+  study_sessions: row => [row.subject_id, new Date(row.start_time).getTime()].join('|'),
+  study_plans: row => [normalise(row.title), row.start_date, row.subject_id].join('|'),
+  notes: row => [normalise(row.title), normalise(row.content)].join('|'),
+  flashcards: row => [row.subject_id, normalise(row.front_text)].join('|'),
+  reminders: row => [normalise(row.title), new Date(row.reminder_date).getTime()].join('|'),
+  user_achievements: row => String(row.achievement_id)
+};
+
+/**
+ * Gather everything the user owns into an archive
+ * @param userId - The user to export
+ * @returns The archive, ready to serialise
+ */
+export async function exportUserData(userId: string): Promise<DataArchive> {
+  const { data: user, error: userError } = await supabase.from('users').select('*').eq('id', userId).single();
+  if (userError) throw new Error(`Failed to export profile: ${userError.message}`);
+
+  const results = await Promise.all(ARCHIVE_TABLES.map(table =>
+    table === 'user_achievements'
+      // Achievement ids differ between projects, so keep the name to match on
+      ? supabase.from(table).select('*, achievements(name)').eq('user_id', userId)
+      : supabase.from(table).select('*').eq('user_id', userId)
+  ));
+
+  const tables = {} as Record<ArchiveTable, Row[]>;
+  results.forEach(({ data, error }, index) => {
+    const table = ARCHIVE_TABLES[index];
+    // Tables added by later migrations may not exist in every project
+    if (error) {
+      console.warn(`Skipping ${table} in export:`, error.message);
+      tables[table] = [];
+      return;
+    }
+    tables[table] = table === 'user_achievements'
+      ? (data || []).map(({ achievements, ...row }) => ({
+          ...row,
+          achievement_name: Array.isArray(achievements) ? achievements[0]?.name : achievements?.name
+        }))
+      : data || [];
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    user,
+    tables
+  };
+}
+
+/**
+ * Save an archive as a .json download
+ */
+export function downloadArchive(archive: DataArchive) {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `smartstudent-export-${archive.exported_at.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parse and check an archive file's contents
+ * @param text - The archive JSON
+ * @returns The archive, with any missing tables filled in as empty
+ */
+export function parseArchive(text: string): DataArchive {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  if (!isRecord(archive) || archive.format !== ARCHIVE_FORMAT || !isRecord(archive.tables) || typeof archive.exported_at !== 'string') {
+    throw new Error("This isn't a SmartStudent data export");
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error(`This export was made by a newer version of the app (format v${archive.version})`);
+  }
+
+  const sourceTables = archive.tables;
+  const tables = Object.fromEntries(
+    ARCHIVE_TABLES.map(table => [table, Array.isArray(sourceTables[table]) ? sourceTables[table] : []])
+  ) as Record<ArchiveTable, Row[]>;
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: archive.version,
+    exported_at: archive.exported_at,
+    user: isRecord(archive.user) ? archive.user : null,
+    tables
+  };
+}
+
+/**
+ * Restore an archive into the signed-in account
+ *
+ * Rows get new ids, and foreign keys are rewritten to point at the new rows. A row
+ * matching one the account already has (same subject name, same mark on the same
+ * date, ...) isn't inserted again; references to it point at the existing row instead,
+ * so importing the same archive twice is harmless.
+ *
+ * The import is planned here and written by import_user_archive() in one
+ * transaction, so if anything fails nothing is imported.
+ * @param userId - The account to import into
+ * @param archive - A parsed archive
+ * @returns Inserted and skipped counts per table
+ */
+export async function importUserData(userId: string, archive: DataArchive): Promise<ArchiveImportResult[]> {
+  // Old id -> new id for every imported or matched row, per table
+  const idMaps = Object.fromEntries(ARCHIVE_TABLES.map(table => [table, new Map<string, string>()])) as Record<ArchiveTable, Map<string, string>>;
+  const results: ArchiveImportResult[] = [];
+  const tablesToInsert: Partial<Record<ArchiveTable, Row[]>> = {};
+
+  const profile = archive.user
+    ? Object.fromEntries(USER_FIELDS.filter(field => field in archive.user!).map(field => [field, archive.user![field]]))
+    : null;
+
+  const { data: achievements } = await supabase.from('achievements').select('id, name');
+  const achievementIds = new Map((achievements || []).map(a => [a.name, a.id]));
+
+  for (const table of ARCHIVE_TABLES) {
+    const rows = archive.tables[table];
+    if (rows.length === 0) continue;
+
+    const { data: existing, error: existingError } = await supabase.from(table).select('*').eq('user_id', userId);
+    if (existingError) throw new Error(`Failed to read existing ${table}: ${existingError.message}`);
+
+    const existingKeys = new Map((existing || []).map(row => [DEDUP_KEYS[table](row), row.id as string]));
+    const pendingKeys = new Map<string, string>();
+    const toInsert: Row[] = [];
+    let skipped = 0;
+
+    rows.forEach(source => {
+      const { id, user_id, achievement_name, ...row } = source;
+      GENERATED_COLUMNS[table]?.forEach(column => delete row[column]);
+
+      Object.entries(FOREIGN_KEYS[table] || {}).forEach(([column, referenced]) => {
+        if (row[column]) row[column] = idMaps[referenced].get(row[column]) ?? null;
+      });
+
+      if (table === 'user_achievements') {
+        row.achievement_id = achievementIds.get(achievement_name) ?? null;
+        if (!row.achievement_id) {
+          skipped++;
+          return;
+        }
+      }
+
+      // Marks need a subject; one that didn't come through can't be restored
+      if (table === 'marks' && !row.subject_id) {
+        skipped++;
+        return;
+      }
+
+      // A row the account already has, or a repeat of one earlier in the archive,
+      // is skipped and references to it point at the row that's kept
+      const key = DEDUP_KEYS[table](row);
+      const keptId = existingKeys.get(key) ?? pendingKeys.get(key);
+      if (keptId) {
+        idMaps[table].set(id, keptId);
+        skipped++;
+        return;
+      }
+
+      const newId = crypto.randomUUID();
+      idMaps[table].set(id, newId);
+      pendingKeys.set(key, newId);
+      toInsert.push({ ...row, id: newId, user_id: userId });
+    });
+
+    // Only one default grade scale is allowed per user
+    if (table === 'grade_scales' && existing?.some(scale => scale.is_default)) {
+      toInsert.forEach(row => { row.is_default = false; });
+    }
+
+    tablesToInsert[table] = toInsert;
+    results.push({ table, inserted: toInsert.length, skipped });
+  }
+
+  const { data, error } = await supabase.rpc('import_user_archive', { p_profile: profile, p_tables: tablesToInsert });
+  if (error) throw new Error(`Nothing was imported: ${error.message}`);
+
+  const renamedCodes: Record<string, string> = data?.renamed_subject_codes || {};
+  if (Object.keys(renamedCodes).length > 0) {
+    const subjects = results.find(result => result.table === 'subjects');
+    if (subjects) subjects.renamedCodes = renamedCodes;
+  }
+
+  return results;
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { calculateWeightedAverage } from './gpa';
 
 export async function db_fetchDashboardData(userId: string) {
     console.log(`Fetching dashboard data for user: ${userId}`);
@@ -29,7 +30,7 @@ export async function db_fetchDashboardData(userId: string) {
         const subjectBreakdown = subjects.reduce((acc, subject) => {
             const subjectMarks = marks.filter(mark => mark.subject_id === subject.id);
             const totalMarks = subjectMarks.length;
-            const averageScore = totalMarks > 0 ? subjectMarks.reduce((sum, mark) => sum + (mark.percentage || 0), 0) / totalMarks : 0;
+            const averageScore = calculateWeightedAverage(subjectMarks, subject.test_type_weights) ?? 0;
             
             acc[subject.id] = {
                 name: subject.name,
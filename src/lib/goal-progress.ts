@@ -0,0 +1,207 @@
+/**
+ * Goal progress: measuring goals against marks, study sessions and streaks
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { calculateWeightedAverage, TestTypeWeights } from './gpa';
+
+export type GoalMetric = 'manual' | 'subject_average' | 'test_score' | 'study_hours' | 'streak';
+
+export const GOAL_METRICS: Array<{ value: GoalMetric; label: string; unit: string }> = [
+  { value: 'manual', label: 'Tracked by hand', unit: '%' },
+  { value: 'subject_average', label: 'Subject average', unit: '%' },
+  { value: 'test_score', label: 'Single test score', unit: '%' },
+  { value: 'study_hours', label: 'Study hours', unit: 'h' },
+  { value: 'streak', label: 'Study streak', unit: ' days' },
+];
+
+export interface TrackedGoal {
+  id: string;
+  title: string;
+  metric?: GoalMetric | null;
+  subject_id?: string | null;
+  metric_test_type?: string | null;
+  target_score: number;
+  current_score?: number | null;
+  progress?: number | null;
+  target_date: string;
+  status?: string | null;
+  at_risk?: boolean | null;
+  created_at?: string | null;
+}
+
+export interface GoalProgressData {
+  subjects: Array<{ id: string; test_type_weights?: TestTypeWeights | null }>;
+  marks: Array<{ subject_id: string; percentage: number; test_type?: string | null; date: string }>;
+  sessions: Array<{ subject_id: string | null; start_time: string; duration_minutes: number | null }>;
+  currentStreak: number;
+}
+
+export interface GoalAssessment {
+  current_score: number;
+  progress: number;
+  status: string;
+  at_risk: boolean;
+}
+
+// Goals due within this many days can be flagged at risk
+export const AT_RISK_DAYS = 14;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const getGoalMetric = (metric?: string | null) =>
+  GOAL_METRICS.find(option => option.value === metric) || GOAL_METRICS[0];
+
+// Study hours and streaks build up over the goal's life, unlike scores
+const isCumulative = (metric: GoalMetric) => metric === 'study_hours' || metric === 'streak';
+
+/**
+ * Measure a goal's metric from the student's data
+ * Study hours count from the day the goal was set to its target date, and a test
+ * score is the best qualifying mark since then.
+ * @returns The measured value, or null for manual goals and metrics with nothing to measure yet
+ */
+export const measureGoal = (goal: TrackedGoal, data: GoalProgressData): number | null => {
+  const since = (goal.created_at || '').slice(0, 10);
+
+  switch (goal.metric) {
+    case 'subject_average': {
+      const subject = data.subjects.find(s => s.id === goal.subject_id);
+      if (!subject) return null;
+      return calculateWeightedAverage(
+        data.marks.filter(mark => mark.subject_id === subject.id),
+        subject.test_type_weights
+      );
+    }
+    case 'test_score': {
+      const testType = goal.metric_test_type?.trim().toLowerCase();
+      const scores = data.marks
+        .filter(mark =>
+          (!goal.subject_id || mark.subject_id === goal.subject_id) &&
+          (!testType || (mark.test_type || '').toLowerCase() === testType) &&
+          mark.date >= since
+        )
+        .map(mark => mark.percentage);
+      return scores.length > 0 ? Math.max(...scores) : null;
+    }
+    case 'study_hours': {
+      const minutes = data.sessions
+        .filter(session => {
+          const day = format(new Date(session.start_time), 'yyyy-MM-dd');
+          return (!goal.subject_id || session.subject_id === goal.subject_id) &&
+            day >= since && day <= goal.target_date;
+        })
+        .reduce((total, session) => total + (session.duration_minutes || 0), 0);
+      return minutes / 60;
+    }
+    case 'streak':
+      return data.currentStreak;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Work out a goal's progress, and whether it's done or falling behind
+ *
+ * A goal is at risk once it's within AT_RISK_DAYS of its target date without being
+ * met. Study hours and streaks build up over time, so those are only at risk when
+ * they're behind the pace the goal's period calls for.
+ * @param now - The current time
+ * @returns The goal's new values, or null for manual goals and goals with nothing to measure
+ */
+export const assessGoal = (goal: TrackedGoal, data: GoalProgressData, now: Date = new Date()): GoalAssessment | null => {
+  // Manual goals keep the progress the student sets
+  const metric = getGoalMetric(goal.metric).value;
+  if (metric === 'manual') return null;
+
+  const measured = measureGoal(goal, data);
+  const current = measured ?? Number(goal.current_score || 0);
+  if (measured === null && !goal.current_score) return null;
+
+  const target = Number(goal.target_score) || 0;
+  const progress = target > 0 ? Math.min(100, (current / target) * 100) : 0;
+  const isMet = target > 0 && current >= target;
+
+  const daysLeft = differenceInCalendarDays(parseISO(goal.target_date), now);
+  let atRisk = false;
+  if (!isMet && progress < 100 && daysLeft <= AT_RISK_DAYS) {
+    if (isCumulative(metric) && daysLeft >= 0) {
+      const start = goal.created_at ? new Date(goal.created_at) : now;
+      const totalDays = Math.max(1, differenceInCalendarDays(parseISO(goal.target_date), start));
+      const elapsed = Math.min(1, Math.max(0, (totalDays - daysLeft) / totalDays));
+      atRisk = progress < elapsed * 100;
+    } else {
+      atRisk = true;
+    }
+  }
+
+  return {
+    current_score: round1(current),
+    progress: isMet ? 100 : round1(progress),
+    status: isMet ? 'completed' : goal.status || 'active',
+    at_risk: atRisk
+  };
+};
+
+/**
+ * Recompute progress on a user's active goals and save what changed
+ * @returns Goals this call completed
+ */
+export async function syncGoalProgress(userId: string): Promise<TrackedGoal[]> {
+  const [goalsRes, subjectsRes, marksRes, sessionsRes, userRes] = await Promise.all([
+    supabase
+      .from('goals')
+      .select('id, title, metric, subject_id, metric_test_type, target_score, current_score, progress, target_date, status, at_risk, created_at')
+      .eq('user_id', userId)
+      .eq('status', 'active'),
+    supabase.from('subjects').select('id, test_type_weights').eq('user_id', userId),
+    supabase.from('marks').select('subject_id, percentage, test_type, date').eq('user_id', userId),
+    supabase.from('study_sessions').select('subject_id, start_time, duration_minutes').eq('user_id', userId),
+    supabase.from('users').select('current_streak').eq('id', userId).maybeSingle()
+  ]);
+
+  if (goalsRes.error) throw new Error(`Failed to load goals: ${goalsRes.error.message}`);
+
+  const goals: TrackedGoal[] = goalsRes.data || [];
+  if (goals.length === 0) return [];
+
+  const data: GoalProgressData = {
+    subjects: subjectsRes.data || [],
+    marks: marksRes.data || [],
+    sessions: sessionsRes.data || [],
+    currentStreak: userRes.data?.current_streak || 0
+  };
+
+  const completed: TrackedGoal[] = [];
+  const updates = goals.map(goal => {
+    const assessment = assessGoal(goal, data);
+    if (!assessment) return null;
+
+    const unchanged = Number(goal.current_score || 0) === assessment.current_score &&
+      Number(goal.progress || 0) === assessment.progress &&
+      !!goal.at_risk === assessment.at_risk &&
+      assessment.status === goal.status;
+    if (unchanged) return null;
+
+    const isCompleted = assessment.status === 'completed';
+    if (isCompleted) completed.push(goal);
+
+    return supabase
+      .from('goals')
+      .update({
+        ...assessment,
+        ...(isCompleted && { completed_at: new Date().toISOString() }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', goal.id);
+  });
+
+  const results = await Promise.all(updates);
+  results.forEach(result => {
+    if (result?.error) console.error("Error saving goal progress:", result.error);
+  });
+
+  return completed;
+}
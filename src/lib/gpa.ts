@@ -0,0 +1,144 @@
+/**
+ * Weighted course averages and GPA calculations
+ */
+
+import { GradeScale, getGradeLetter, getGradePoints } from './grading';
+import {
+  calculateWeightedAverage,
+  DEFAULT_CREDIT_HOURS,
+  TestTypeWeights,
+  WeightableMark,
+} from '@shared/student-analytics';
+
+// Weighted averages live with the rest of the student analytics so Edge Functions share them
+export { calculateWeightedAverage, DEFAULT_CREDIT_HOURS, parseTestTypeWeights } from '@shared/student-analytics';
+export type { TestTypeWeights, WeightableMark } from '@shared/student-analytics';
+
+export interface GpaSubject {
+  id: string;
+  name: string;
+  credit_hours?: number | null;
+  test_type_weights?: TestTypeWeights | null;
+}
+
+export interface GpaMark extends WeightableMark {
+  subject_id: string;
+  semester?: string | null;
+  date?: string | null;
+}
+
+export interface CourseResult {
+  subjectId: string;
+  subjectName: string;
+  semester: string;
+  average: number;
+  letter: string;
+  points: number;
+  credits: number;
+  markCount: number;
+}
+
+export interface SemesterGpa {
+  semester: string;
+  gpa: number;
+  credits: number;
+  courses: CourseResult[];
+}
+
+export interface GpaSummary {
+  cumulativeGpa: number | null;
+  totalCredits: number;
+  semesters: SemesterGpa[];
+}
+
+export const UNASSIGNED_SEMESTER = 'Unassigned';
+
+/**
+ * Credit-weighted GPA over a set of course results
+ * @param courses - Courses with their grade points and credits
+ * @returns The GPA, or null if there are no credits to weigh
+ */
+export const calculateGpa = (courses: Array<{ points: number; credits: number }>): number | null => {
+  const credits = courses.reduce((sum, course) => sum + course.credits, 0);
+  if (credits === 0) return null;
+
+  return courses.reduce((sum, course) => sum + course.points * course.credits, 0) / credits;
+};
+
+/**
+ * Compute each semester's GPA and the cumulative GPA
+ * @param subjects - Subjects with credit hours and weighting rules
+ * @param marks - All marks, tagged with subject and semester
+ * @param getScale - Resolves the grade scale that applies to a subject
+ * @returns Semesters in order with their courses, plus the cumulative GPA over every course
+ */
+export const calculateGpaSummary = (
+  subjects: GpaSubject[],
+  marks: GpaMark[],
+  getScale: (subjectId: string) => GradeScale
+): GpaSummary => {
+  // A subject taken in two semesters counts as two courses
+  const groups: Record<string, { semester: string; subject: GpaSubject; marks: GpaMark[]; firstDate: string }> = {};
+
+  marks.forEach(mark => {
+    const subject = subjects.find(s => s.id === mark.subject_id);
+    if (!subject) return;
+
+    const semester = mark.semester?.trim() || UNASSIGNED_SEMESTER;
+    const key = `${semester}::${subject.id}`;
+    if (!groups[key]) {
+      groups[key] = { semester, subject, marks: [], firstDate: mark.date || '' };
+    }
+    groups[key].marks.push(mark);
+    if (mark.date && (!groups[key].firstDate || mark.date < groups[key].firstDate)) {
+      groups[key].firstDate = mark.date;
+    }
+  });
+
+  const semesterOrder: Record<string, string> = {};
+  const courses: CourseResult[] = Object.values(groups).map(group => {
+    const average = calculateWeightedAverage(group.marks, group.subject.test_type_weights) ?? 0;
+    const scale = getScale(group.subject.id);
+
+    if (!semesterOrder[group.semester] || group.firstDate < semesterOrder[group.semester]) {
+      semesterOrder[group.semester] = group.firstDate;
+    }
+
+    return {
+      subjectId: group.subject.id,
+      subjectName: group.subject.name,
+      semester: group.semester,
+      average,
+      letter: getGradeLetter(average, scale),
+      points: getGradePoints(average, scale),
+      credits: Number(group.subject.credit_hours) || DEFAULT_CREDIT_HOURS,
+      markCount: group.marks.length
+    };
+  });
+
+  // Semesters are ordered by their earliest mark; unassigned marks go last
+  const semesters = Object.keys(semesterOrder)
+    .sort((a, b) => {
+      if (a === UNASSIGNED_SEMESTER) return 1;
+      if (b === UNASSIGNED_SEMESTER) return -1;
+      return semesterOrder[a].localeCompare(semesterOrder[b]);
+    })
+    .map(semester => {
+      const semesterCourses = courses
+        .filter(course => course.semester === semester)
+        .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+
+      return {
+        semester,
+        gpa: calculateGpa(semesterCourses) ?? 0,
+        credits: semesterCourses.reduce((sum, course) => sum + course.credits, 0),
+        courses: semesterCourses
+      };
+    });
+
+  return {
+    cumulativeGpa: calculateGpa(courses),
+    totalCredits: courses.reduce((sum, course) => sum + course.credits, 0),
+    semesters
+  };
+};
@@ -0,0 +1,207 @@
+/**
+ * Grade predictions: the likely score on a subject's next assessment, and what's needed to reach a target
+ */
+
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { TestTypeWeights, WeightableMark } from './gpa';
+import { solveForScore } from './grade-simulator';
+import { GradeScale, getGradeLetter, getLetterMinimum } from './grading';
+import { DEFAULT_STUDY_WINDOW_DAYS, fitLinearRegression, ImpactSession, pairStudyWithMarks } from './study-impact';
+
+export interface PredictionMark {
+  subject_id: string;
+  percentage: number;
+  test_type: string;
+  date: string;
+  difficulty_rating?: number | null;
+  created_at?: string | null;
+}
+
+export interface GradePrediction {
+  percentage: number;
+  // 80% of scores are expected to fall between low and high
+  low: number;
+  high: number;
+  // How many earlier marks the prediction rests on
+  basedOn: number;
+}
+
+// Weight of each mark relative to the one after it, so recent form counts most
+const RECENCY_DECAY = 0.8;
+// marks.difficulty_rating runs 1-5; unrated marks count as average
+const DEFAULT_DIFFICULTY = 3;
+// Percentage points lost per rating point harder, until a subject's own marks say otherwise
+const DEFAULT_DIFFICULTY_EFFECT = 4;
+// z-score for an 80% interval
+const INTERVAL_Z = 1.28;
+// Spread assumed while there are too few marks to measure it, and the least ever assumed
+const FEW_MARKS_SPREAD = 12;
+const MIN_SPREAD = 4;
+// Caps on how far trend and study can move a prediction
+const MAX_TREND_STEP = 5;
+const MAX_STUDY_EFFECT = 10;
+// The final assessment that "score needed" is worked out for
+export const FINAL_TEST_TYPE = 'exam';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Predict the score on a subject's next assessment
+ *
+ * Starts from a recency-weighted average of earlier marks, then adjusts for the
+ * recent trend, how hard the assessment is compared with earlier ones, and how much
+ * more or less was studied beforehand than usual. Study only counts where the
+ * subject's history shows it has made a difference.
+ * @param history - The subject's marks before the assessment
+ * @param target - The assessment to predict; its date decides which study counts
+ * @param sessions - Study sessions, used for the study adjustment
+ * @returns The prediction, or null without any earlier marks
+ */
+export const predictScore = (
+  history: PredictionMark[],
+  target: { subject_id: string; date: string; difficulty_rating?: number | null },
+  sessions: ImpactSession[] = []
+): GradePrediction | null => {
+  const marks = [...history].sort((a, b) => a.date.localeCompare(b.date) || (a.created_at || '').localeCompare(b.created_at || ''));
+  const count = marks.length;
+  if (count === 0) return null;
+
+  const weights = marks.map((_, i) => Math.pow(RECENCY_DECAY, count - 1 - i));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const baseline = marks.reduce((total, mark, i) => total + mark.percentage * weights[i], 0) / totalWeight;
+
+  // Half a step of the trend per assessment, as trends in marks rarely hold fully
+  const trendFit = count >= 3 ? fitLinearRegression(marks.map((mark, i) => ({ x: i, y: mark.percentage }))) : null;
+  const trend = trendFit ? clamp(trendFit.slope / 2, -MAX_TREND_STEP, MAX_TREND_STEP) : 0;
+
+  const difficulties = marks.map(mark => mark.difficulty_rating || DEFAULT_DIFFICULTY);
+  const meanDifficulty = difficulties.reduce((a, b) => a + b, 0) / count;
+  const difficultyFit = count >= 5
+    ? fitLinearRegression(marks.map((mark, i) => ({ x: difficulties[i], y: mark.percentage })))
+    : null;
+  const difficultyEffect = difficultyFit && difficultyFit.slope < 0
+    ? Math.min(-difficultyFit.slope, 10)
+    : DEFAULT_DIFFICULTY_EFFECT;
+  const difficulty = -difficultyEffect * ((target.difficulty_rating || DEFAULT_DIFFICULTY) - meanDifficulty);
+
+  let study = 0;
+  const pairs = pairStudyWithMarks(sessions, marks, target.subject_id, DEFAULT_STUDY_WINDOW_DAYS);
+  const studyFit = fitLinearRegression(pairs.map(pair => ({ x: pair.hours, y: pair.percentage })));
+  if (studyFit && studyFit.slope > 0 && studyFit.correlation >= 0.3) {
+    const [before] = pairStudyWithMarks(sessions, [{ ...target, percentage: 0, test_type: '' }], target.subject_id, DEFAULT_STUDY_WINDOW_DAYS);
+    const usualHours = pairs.reduce((total, pair) => total + pair.hours, 0) / pairs.length;
+    study = clamp(studyFit.slope * (before.hours - usualHours), -MAX_STUDY_EFFECT, MAX_STUDY_EFFECT);
+  }
+
+  const percentage = clamp(baseline + trend + difficulty + study, 0, 100);
+
+  // Spread of past marks around their mean, widened for the uncertainty in the mean itself
+  const mean = marks.reduce((total, mark) => total + mark.percentage, 0) / count;
+  const spread = count >= 3
+    ? Math.max(MIN_SPREAD, Math.sqrt(marks.reduce((total, mark) => total + (mark.percentage - mean) ** 2, 0) / (count - 1)))
+    : FEW_MARKS_SPREAD;
+  const margin = INTERVAL_Z * spread * Math.sqrt(1 + 1 / count);
+
+  return {
+    percentage: round1(percentage),
+    low: round1(clamp(percentage - margin, 0, 100)),
+    high: round1(clamp(percentage + margin, 0, 100)),
+    basedOn: count
+  };
+};
+
+/**
+ * Read a subject's target_grade as a percentage
+ * @param targetGrade - A letter on the subject's scale, or a percentage such as "85"
+ * @returns The lowest percentage that meets the target, or null if it can't be read
+ */
+export const resolveTargetPercentage = (targetGrade: string | null | undefined, scale: GradeScale): number | null => {
+  if (!targetGrade?.trim()) return null;
+  const minimum = getLetterMinimum(targetGrade, scale);
+  if (minimum !== null) return minimum;
+
+  const value = parseFloat(targetGrade);
+  return !isNaN(value) && value >= 0 && value <= 100 ? value : null;
+};
+
+/**
+ * Work out the lowest score on one more assessment that lifts the subject's weighted
+ * average to a target
+ * @param marks - The subject's marks so far
+ * @param weights - The subject's test-type weights
+ * @param target - The average to reach, as a percentage
+ * @param testType - The kind of assessment still to come
+ * @returns The score needed, 0 if the target is already safe, or null if even full
+ * marks wouldn't reach it
+ */
+export const getScoreNeeded = (
+  marks: WeightableMark[],
+  weights: TestTypeWeights | null | undefined,
+  target: number,
+  testType: string = FINAL_TEST_TYPE
+): number | null =>
+  solveForScore(marks, weights, [{ id: 'next', name: '', test_type: testType, score: 0, weight: null }], 'next', target);
+
+/**
+ * Store predictions on a subject's new and upcoming marks
+ * A mark gets a prediction once, when it's added, from the marks before it. Marks
+ * dated in the future are re-predicted each time, as new marks and study come in.
+ * @param subjectIds - Subjects whose marks changed
+ * @param getScale - Resolves the grade scale the predicted letter is taken from
+ */
+export async function syncMarkPredictions(
+  userId: string,
+  subjectIds: string[],
+  getScale: (subjectId: string) => GradeScale
+) {
+  if (subjectIds.length === 0) return;
+
+  const [{ data: marksData, error }, { data: sessionsData }] = await Promise.all([
+    supabase
+      .from('marks')
+      .select('id, subject_id, percentage, test_type, date, difficulty_rating, predicted_grade, created_at')
+      .eq('user_id', userId)
+      .in('subject_id', subjectIds),
+    supabase
+      .from('study_sessions')
+      .select('subject_id, start_time, duration_minutes')
+      .eq('user_id', userId)
+      .in('subject_id', subjectIds)
+  ]);
+
+  if (error) {
+    console.error("Error loading marks for predictions:", error);
+    return;
+  }
+
+  const marks = marksData || [];
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const isBefore = (a: typeof marks[number], b: typeof marks[number]) =>
+    a.date < b.date || (a.date === b.date && (a.created_at || '') < (b.created_at || ''));
+
+  const updates = marks
+    .filter(mark => mark.predicted_grade === null || mark.date > today)
+    .map(mark => {
+      const history = marks.filter(other => other.subject_id === mark.subject_id && other.id !== mark.id && isBefore(other, mark));
+      const prediction = predictScore(history, mark, sessionsData || []);
+      if (!prediction) return null;
+
+      return supabase
+        .from('marks')
+        .update({
+          predicted_grade: getGradeLetter(prediction.percentage, getScale(mark.subject_id)),
+          predicted_percentage: prediction.percentage,
+          predicted_low: prediction.low,
+          predicted_high: prediction.high
+        })
+        .eq('id', mark.id);
+    })
+    .filter(Boolean);
+
+  const results = await Promise.all(updates);
+  results.forEach(result => {
+    if (result?.error) console.error("Error saving grade prediction:", result.error);
+  });
+}
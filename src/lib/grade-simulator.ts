@@ -0,0 +1,140 @@
+/**
+ * What-if grade simulation: how hypothetical assessments would move a subject's
+ * average and the overall GPA
+ */
+
+import { calculateGpa, calculateWeightedAverage, DEFAULT_CREDIT_HOURS, GpaSummary, TestTypeWeights, WeightableMark } from './gpa';
+import { GradeScale, getGradeLetter, getGradePoints } from './grading';
+
+export interface HypotheticalAssessment {
+  id: string;
+  name: string;
+  test_type: string;
+  score: number;
+  // Share of the final grade in percent; null to count like any other mark of its type
+  weight: number | null;
+}
+
+export interface GpaProjection {
+  semester: string | null;
+  semesterGpa: number | null;
+  cumulativeGpa: number | null;
+}
+
+const hasFixedWeight = (assessment: HypotheticalAssessment) => assessment.weight !== null && assessment.weight > 0;
+
+/**
+ * Project a subject's weighted average with hypothetical assessments added
+ *
+ * Assessments without a weight join their test type and are averaged under the
+ * subject's weighting rule. An assessment with its own weight takes that share of the
+ * final grade, and everything else is scaled down to fit around it.
+ * @param marks - The subject's real marks
+ * @param weights - The subject's test-type weights
+ * @param hypotheticals - Assessments that haven't happened yet
+ * @returns The projected average, or null with nothing to average
+ */
+export const projectSubjectAverage = (
+  marks: WeightableMark[],
+  weights: TestTypeWeights | null | undefined,
+  hypotheticals: HypotheticalAssessment[]
+): number | null => {
+  const pooled = [
+    ...marks,
+    ...hypotheticals
+      .filter(assessment => !hasFixedWeight(assessment))
+      .map(assessment => ({ test_type: assessment.test_type, percentage: assessment.score }))
+  ];
+  const base = calculateWeightedAverage(pooled, weights);
+
+  const fixed = hypotheticals.filter(hasFixedWeight);
+  const fixedWeight = fixed.reduce((total, assessment) => total + (assessment.weight as number), 0);
+  if (fixedWeight === 0) return base;
+
+  const fixedAverage = fixed.reduce((total, assessment) => total + assessment.score * (assessment.weight as number), 0) / fixedWeight;
+  if (base === null) return fixedAverage;
+
+  // Fixed weights over 100% leave nothing for the rest, and are rescaled between themselves
+  const share = Math.min(100, fixedWeight) / 100;
+  return base * (1 - share) + fixedAverage * share;
+};
+
+/**
+ * Find the lowest score on one hypothetical assessment that lifts the projected
+ * average to a target, with every other assessment as it stands
+ * @param solveFor - Id of the assessment whose score is solved for
+ * @param target - The average to reach, as a percentage
+ * @returns The score needed, 0 if the target is already safe, or null if even full
+ * marks wouldn't reach it
+ */
+export const solveForScore = (
+  marks: WeightableMark[],
+  weights: TestTypeWeights | null | undefined,
+  hypotheticals: HypotheticalAssessment[],
+  solveFor: string,
+  target: number
+): number | null => {
+  const averageWith = (score: number) =>
+    projectSubjectAverage(
+      marks,
+      weights,
+      hypotheticals.map(assessment => assessment.id === solveFor ? { ...assessment, score } : assessment)
+    ) ?? score;
+
+  if (averageWith(100) < target) return null;
+  if (averageWith(0) >= target) return 0;
+
+  // The average only rises with the score, so a bisection finds the threshold
+  let low = 0;
+  let high = 100;
+  while (high - low > 0.05) {
+    const mid = (low + high) / 2;
+    if (averageWith(mid) >= target) high = mid;
+    else low = mid;
+  }
+  return Math.ceil(high * 10) / 10;
+};
+
+/**
+ * Recalculate GPA with one subject's course average swapped for a projected one
+ * The projection applies to the subject's course in its latest semester; a subject
+ * without marks yet is added to the latest semester as a new course.
+ * @param summary - The GPA summary from real marks
+ * @param subject - The simulated subject
+ * @param average - Its projected average
+ * @param scale - The subject's grade scale
+ */
+export const projectGpa = (
+  summary: GpaSummary,
+  subject: { id: string; name: string; credit_hours?: number | null },
+  average: number,
+  scale: GradeScale
+): GpaProjection => {
+  const projected = {
+    subjectId: subject.id,
+    subjectName: subject.name,
+    average,
+    letter: getGradeLetter(average, scale),
+    points: getGradePoints(average, scale),
+    credits: Number(subject.credit_hours) || DEFAULT_CREDIT_HOURS,
+    markCount: 0
+  };
+
+  const withCourse = [...summary.semesters].reverse().find(semester =>
+    semester.courses.some(course => course.subjectId === subject.id)
+  );
+  const target = withCourse || summary.semesters[summary.semesters.length - 1];
+
+  const semesters = summary.semesters.map(semester => {
+    if (semester !== target) return semester.courses;
+    const courses = semester.courses.filter(course => course.subjectId !== subject.id);
+    return [...courses, { ...projected, semester: semester.semester }];
+  });
+  const semesterCourses = target ? semesters[summary.semesters.indexOf(target)] : [{ ...projected, semester: '' }];
+
+  return {
+    semester: target?.semester ?? null,
+    semesterGpa: calculateGpa(semesterCourses),
+    cumulativeGpa: calculateGpa(target ? semesters.flat() : semesterCourses)
+  };
+};
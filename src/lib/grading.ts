@@ -0,0 +1,176 @@
+/**
+ * Shared grading module: letter grades, plus/minus bands and GPA points
+ */
+
+export interface GradeBand {
+  letter: string;
+  min: number;
+  points: number;
+}
+
+export interface GradeScale {
+  id: string;
+  name: string;
+  bands: GradeBand[];
+  is_default?: boolean | null;
+}
+
+// Matches the A-F thresholds used across the app before grade scales existed
+export const STANDARD_GRADE_SCALE: GradeScale = {
+  id: 'standard',
+  name: 'Standard (A-F)',
+  bands: [
+    { letter: 'A', min: 90, points: 4 },
+    { letter: 'B', min: 80, points: 3 },
+    { letter: 'C', min: 70, points: 2 },
+    { letter: 'D', min: 60, points: 1 },
+    { letter: 'E', min: 50, points: 0 },
+    { letter: 'F', min: 0, points: 0 }
+  ]
+};
+
+export const PLUS_MINUS_GRADE_SCALE: GradeScale = {
+  id: 'plus-minus',
+  name: 'Plus/Minus (4.0)',
+  bands: [
+    { letter: 'A+', min: 97, points: 4 },
+    { letter: 'A', min: 93, points: 4 },
+    { letter: 'A-', min: 90, points: 3.7 },
+    { letter: 'B+', min: 87, points: 3.3 },
+    { letter: 'B', min: 83, points: 3 },
+    { letter: 'B-', min: 80, points: 2.7 },
+    { letter: 'C+', min: 77, points: 2.3 },
+    { letter: 'C', min: 73, points: 2 },
+    { letter: 'C-', min: 70, points: 1.7 },
+    { letter: 'D+', min: 67, points: 1.3 },
+    { letter: 'D', min: 63, points: 1 },
+    { letter: 'D-', min: 60, points: 0.7 },
+    { letter: 'F', min: 0, points: 0 }
+  ]
+};
+
+export const PRESET_GRADE_SCALES: GradeScale[] = [STANDARD_GRADE_SCALE, PLUS_MINUS_GRADE_SCALE];
+
+/**
+ * Normalise a grade scale row loaded from the database
+ * @param row - A grade_scales row, whose bands column is untyped JSON
+ * @returns The scale with valid bands sorted from highest to lowest threshold
+ */
+export const parseGradeScale = (row: { id: string; name: string; bands: unknown; is_default?: boolean | null }): GradeScale => {
+  const bands = (Array.isArray(row.bands) ? row.bands : [])
+    .filter(band => band && typeof band.letter === 'string' && !isNaN(Number(band.min)))
+    .map(band => ({
+      letter: String(band.letter).trim(),
+      min: Number(band.min),
+      points: Number(band.points) || 0
+    }))
+    .sort((a, b) => b.min - a.min);
+
+  return {
+    id: row.id,
+    name: row.name,
+    bands: bands.length > 0 ? bands : STANDARD_GRADE_SCALE.bands,
+    is_default: row.is_default
+  };
+};
+
+/**
+ * Check that a set of bands forms a usable scale
+ * @param bands - Bands to validate
+ * @returns An error message, or null if the bands are valid
+ */
+export const validateGradeBands = (bands: GradeBand[]): string | null => {
+  if (bands.length === 0) return 'Add at least one grade';
+  if (bands.some(band => !band.letter.trim())) return 'Every grade needs a letter';
+  if (bands.some(band => isNaN(band.min) || band.min < 0 || band.min > 100)) {
+    return 'Minimum percentages must be between 0 and 100';
+  }
+  if (bands.some(band => isNaN(band.points) || band.points < 0)) return 'GPA points cannot be negative';
+
+  const letters = bands.map(band => band.letter.trim().toUpperCase());
+  if (new Set(letters).size !== letters.length) return 'Each letter can only be used once';
+
+  const mins = bands.map(band => band.min);
+  if (new Set(mins).size !== mins.length) return 'Each grade needs a different minimum percentage';
+  if (Math.min(...mins) !== 0) return 'The lowest grade must start at 0%';
+
+  return null;
+};
+
+/**
+ * Find the band a percentage falls into
+ * @param percentage - The score as a percentage
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns The matching band, or the lowest band if none match
+ */
+export const getGradeBand = (percentage: number, scale: GradeScale = STANDARD_GRADE_SCALE): GradeBand => {
+  const bands = [...scale.bands].sort((a, b) => b.min - a.min);
+  return bands.find(band => percentage >= band.min) || bands[bands.length - 1];
+};
+
+/**
+ * Get the letter grade for a percentage
+ * @param percentage - The score as a percentage
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns The letter, e.g. "B+"
+ */
+export const getGradeLetter = (percentage: number, scale: GradeScale = STANDARD_GRADE_SCALE): string =>
+  getGradeBand(percentage, scale).letter;
+
+/**
+ * Get the GPA points for a percentage
+ * @param percentage - The score as a percentage
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns The GPA point value of the matching band
+ */
+export const getGradePoints = (percentage: number, scale: GradeScale = STANDARD_GRADE_SCALE): number =>
+  getGradeBand(percentage, scale).points;
+
+/**
+ * Get the GPA points for a letter grade
+ * @param letter - A letter on the scale, e.g. "A-"
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns The GPA point value, or null if the letter isn't on the scale
+ */
+export const getLetterPoints = (letter: string, scale: GradeScale = STANDARD_GRADE_SCALE): number | null => {
+  const band = scale.bands.find(b => b.letter.toUpperCase() === letter.trim().toUpperCase());
+  return band ? band.points : null;
+};
+
+/**
+ * Get the minimum percentage needed for a letter grade
+ * @param letter - A letter on the scale, e.g. "B+"
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns The band's minimum percentage, or null if the letter isn't on the scale
+ */
+export const getLetterMinimum = (letter: string, scale: GradeScale = STANDARD_GRADE_SCALE): number | null => {
+  const band = scale.bands.find(b => b.letter.toUpperCase() === letter.trim().toUpperCase());
+  return band ? band.min : null;
+};
+
+/**
+ * Pick the scale that applies to a subject
+ * @param scales - The user's saved scales
+ * @param subjectScaleId - The subject's assigned scale, if any
+ * @returns The subject's scale, else the user's default scale, else the standard scale
+ */
+export const resolveGradeScale = (scales: GradeScale[], subjectScaleId?: string | null): GradeScale =>
+  (subjectScaleId && scales.find(scale => scale.id === subjectScaleId)) ||
+  scales.find(scale => scale.is_default) ||
+  STANDARD_GRADE_SCALE;
+
+/**
+ * Rank a percentage on a 0 (top grade) to 5 (failing) scale, for colouring grades consistently
+ * @param percentage - The score as a percentage
+ * @param scale - Grade scale to use (defaults to the standard A-F scale)
+ * @returns 0-5, from the letter's base A-F grade or its position on the scale for other letters
+ */
+export const getGradeTier = (percentage: number, scale: GradeScale = STANDARD_GRADE_SCALE): number => {
+  const band = getGradeBand(percentage, scale);
+  const base = 'ABCDEF'.indexOf(band.letter.charAt(0).toUpperCase());
+  if (base !== -1) return base;
+
+  const bands = [...scale.bands].sort((a, b) => b.min - a.min);
+  if (bands.length < 2) return 0;
+  return Math.round((bands.indexOf(band) / (bands.length - 1)) * 5);
+};
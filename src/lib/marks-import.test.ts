@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, validateImportRows } from './marks-import';
+
+const mapping: ColumnMapping = {
+  subject_code: 0,
+  subject_name: -1,
+  test_name: 1,
+  test_type: 2,
+  score: 3,
+  max_score: -1,
+  date: 4
+};
+
+const row = (code: string, testName = 'Unit test') => [code, testName, 'exam', '72', '2025-06-02'];
+
+const ownSubjects = [{ id: 'own-chem', code: 'CHEM101', name: 'Chemistry' }];
+
+describe('validateImportRows', () => {
+  it('matches the student\'s own subjects by code', () => {
+    const [imported] = validateImportRows([row('chem101')], mapping, ownSubjects, ['CHEM101']);
+
+    expect(imported.subjectId).toBe('own-chem');
+    expect(imported.newSubjectCode).toBeNull();
+  });
+
+  it('keeps the code of a new subject nobody holds', () => {
+    const [imported] = validateImportRows([row('BIO200')], mapping, ownSubjects, ['CHEM101', 'MATH101']);
+
+    expect(imported.errors).toEqual([]);
+    expect(imported.newSubjectCode).toBe('BIO200');
+  });
+
+  it('numbers a code another account already holds', () => {
+    const rows = validateImportRows(
+      [row('MATH101'), row('math101', 'Second test'), row('HIST110')],
+      mapping,
+      ownSubjects,
+      ['CHEM101', 'MATH101', 'math101-2', 'HIST110']
+    );
+
+    // Both MATH101 rows go to one new subject, skipping the suffix that's taken too
+    expect(rows.map(imported => imported.newSubjectCode)).toEqual(['MATH101-3', 'MATH101-3', 'HIST110-2']);
+    expect(rows.every(imported => imported.subjectId === null && imported.errors.length === 0)).toBe(true);
+    // The preview still shows the code as it was written in the file
+    expect(rows[0].subjectCode).toBe('MATH101');
+  });
+});
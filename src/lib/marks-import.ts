@@ -0,0 +1,274 @@
+/**
+ * Bulk mark import: reading CSV/XLSX gradebooks, mapping columns and validating rows
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { format, isValid, parse, parseISO } from 'date-fns';
+
+export type ImportField = 'subject_code' | 'subject_name' | 'test_name' | 'test_type' | 'score' | 'max_score' | 'date';
+
+// Column index for each field; -1 when the field isn't in the file
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportSubject {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  subjectCode: string;
+  subjectName: string;
+  // The existing subject, or null when the subject will be created from its code
+  subjectId: string | null;
+  // The code a new subject is created with: its own code, or a numbered one (MATH101-2)
+  // when another account already holds it
+  newSubjectCode: string | null;
+  testName: string;
+  testType: string;
+  score: number;
+  maxScore: number;
+  date: string;
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required: boolean; aliases: string[] }> = [
+  { key: 'subject_code', label: 'Subject code', required: true, aliases: ['subject code', 'code', 'course code', 'course', 'subject'] },
+  { key: 'subject_name', label: 'Subject name', required: false, aliases: ['subject name', 'course name', 'name of subject'] },
+  { key: 'test_name', label: 'Assessment name', required: true, aliases: ['test name', 'assessment', 'assessment name', 'assignment', 'title', 'item'] },
+  { key: 'test_type', label: 'Assessment type', required: true, aliases: ['test type', 'type', 'category', 'assessment type'] },
+  { key: 'score', label: 'Score', required: true, aliases: ['score', 'mark', 'points', 'points earned'] },
+  { key: 'max_score', label: 'Max score', required: false, aliases: ['max score', 'max', 'out of', 'total', 'points possible', 'possible'] },
+  { key: 'date', label: 'Date', required: true, aliases: ['date', 'due date', 'assessment date', 'taken'] }
+];
+
+export const DEFAULT_MAX_SCORE = 100;
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'd/M/yyyy', 'M/d/yyyy', 'dd.MM.yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells, escaped quotes and line breaks inside quotes. The delimiter
+ * (comma, semicolon or tab) is picked from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cells
+ * Numbers are returned as written, so Excel dates arrive as serial day numbers.
+ */
+export const parseXlsx = (buffer: ArrayBuffer): string[][] => {
+  const files = unzipSync(new Uint8Array(buffer));
+  const parser = new DOMParser();
+  const readXml = (path: string) => files[path] ? parser.parseFromString(strFromU8(files[path]), 'application/xml') : null;
+
+  const sharedStrings = Array.from(readXml('xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+  // The first sheet in workbook order, which isn't always sheet1.xml
+  const workbook = readXml('xl/workbook.xml');
+  const rels = readXml('xl/_rels/workbook.xml.rels');
+  const firstSheetRelId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === firstSheetRelId)?.getAttribute('Target');
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+
+  const sheet = readXml(sheetPath);
+  if (!sheet) throw new Error('The workbook has no readable worksheet');
+
+  const columnIndex = (ref: string) =>
+    ref.replace(/[0-9]/g, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+  return Array.from(sheet.getElementsByTagName('row'))
+    .map(rowEl => {
+      const cells: string[] = [];
+      Array.from(rowEl.getElementsByTagName('c')).forEach((cellEl, position) => {
+        const ref = cellEl.getAttribute('r');
+        const index = ref ? columnIndex(ref) : position;
+        const type = cellEl.getAttribute('t');
+        const value = cellEl.getElementsByTagName('v')[0]?.textContent || '';
+
+        if (type === 's') {
+          cells[index] = sharedStrings[parseInt(value)] || '';
+        } else if (type === 'inlineStr') {
+          cells[index] = Array.from(cellEl.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+        } else {
+          cells[index] = value;
+        }
+      });
+      return Array.from(cells, cell => cell ?? '');
+    })
+    .filter(r => r.some(c => c.trim()));
+};
+
+/**
+ * Read a CSV or XLSX file into rows of cells, header row first
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith('.csv') || name.endsWith('.txt') || file.type === 'text/csv') return parseCsv(await file.text());
+  throw new Error('Please choose a .csv or .xlsx file');
+};
+
+/**
+ * Guess which column holds each field from the header row
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalised = headers.map(header => header.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const index = field.aliases
+      .map(alias => normalised.findIndex((header, i) => !used.has(i) && header === alias))
+      .find(i => i !== -1) ?? -1;
+    if (index !== -1) used.add(index);
+    return { ...mapping, [field.key]: index };
+  }, {} as ColumnMapping);
+};
+
+/**
+ * Normalise a date cell to yyyy-MM-dd
+ * Accepts ISO dates, common day/month formats and Excel serial day numbers.
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = parseFloat(text);
+    // Excel counts days from 1899-12-30; anything small is a number, not a date
+    if (serial < 20000 || serial > 80000) return null;
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+    return date.toISOString().slice(0, 10);
+  }
+
+  const iso = parseISO(text);
+  if (isValid(iso)) return format(iso, 'yyyy-MM-dd');
+
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+/**
+ * Validate mapped rows before anything is written
+ * @param rows - Data rows, without the header row
+ * @param mapping - Column for each field
+ * @param subjects - The user's existing subjects, matched by code (case-insensitive)
+ * @param takenCodes - Subject codes held by any account; codes are unique across all of them
+ * @returns One entry per row with its parsed values and any errors
+ */
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  subjects: ImportSubject[],
+  takenCodes: string[] = []
+): ImportRow[] => {
+  const subjectsByCode = new Map(subjects.map(subject => [subject.code.trim().toUpperCase(), subject]));
+  const taken = new Set(takenCodes.map(code => code.trim().toUpperCase()));
+  const newCodes = new Map<string, string>();
+  const cell = (row: string[], field: ImportField) => (mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '');
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+
+    const subjectCode = cell(row, 'subject_code').toUpperCase();
+    if (!subjectCode) errors.push('Subject code is required');
+    else if (subjectCode.length < 2) errors.push('Subject code must be at least 2 characters');
+    const existing = subjectsByCode.get(subjectCode);
+
+    // Number a code someone else holds the same way the account import does
+    let newSubjectCode = newCodes.get(subjectCode) ?? null;
+    if (subjectCode && !existing && !newSubjectCode) {
+      newSubjectCode = subjectCode;
+      for (let n = 2; taken.has(newSubjectCode); n++) newSubjectCode = `${subjectCode}-${n}`;
+      taken.add(newSubjectCode);
+      newCodes.set(subjectCode, newSubjectCode);
+    }
+
+    const testName = cell(row, 'test_name');
+    if (!testName) errors.push('Assessment name is required');
+
+    const testType = cell(row, 'test_type').toLowerCase();
+    if (!testType) errors.push('Assessment type is required');
+
+    const scoreText = cell(row, 'score').replace(/%$/, '');
+    const score = parseFloat(scoreText);
+    if (!scoreText) errors.push('Score is required');
+    else if (isNaN(score)) errors.push(`Score "${scoreText}" is not a number`);
+    else if (score < 0) errors.push('Score cannot be negative');
+
+    const maxScoreText = cell(row, 'max_score');
+    const maxScore = maxScoreText ? parseFloat(maxScoreText) : DEFAULT_MAX_SCORE;
+    if (isNaN(maxScore)) errors.push(`Max score "${maxScoreText}" is not a number`);
+    else if (maxScore <= 0) errors.push('Max score must be positive');
+    else if (!isNaN(score) && score > maxScore) errors.push('Score cannot exceed max score');
+
+    const dateText = cell(row, 'date');
+    const date = parseImportDate(dateText);
+    if (!dateText) errors.push('Date is required');
+    else if (!date) errors.push(`Date "${dateText}" isn't a recognised date`);
+
+    return {
+      // +2: one for the header row, one because spreadsheets count from 1
+      rowNumber: index + 2,
+      subjectCode,
+      subjectName: existing?.name || cell(row, 'subject_name') || subjectCode,
+      subjectId: existing?.id ?? null,
+      newSubjectCode,
+      testName,
+      testType,
+      score,
+      maxScore,
+      date: date || '',
+      errors
+    };
+  });
+};
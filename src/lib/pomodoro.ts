@@ -0,0 +1,140 @@
+/**
+ * Pomodoro cycles: phase lengths, what comes after each phase, and per-phase colours
+ */
+
+export type PomodoroMode = 'pomodoro' | 'short_break' | 'long_break';
+
+export interface PomodoroSettings {
+  // Phase lengths in minutes
+  pomodoro: number;
+  shortBreak: number;
+  longBreak: number;
+  // Focus blocks per cycle; the last one is followed by a long break
+  longBreakInterval: number;
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+}
+
+export interface PomodoroTheme {
+  bg: string;
+  progressBg: string;
+  progressFill: string;
+  button: string;
+  text: string;
+}
+
+export const POMODORO_MODES: Array<{ id: PomodoroMode; label: string }> = [
+  { id: 'pomodoro', label: 'Pomodoro' },
+  { id: 'short_break', label: 'Short Break' },
+  { id: 'long_break', label: 'Long Break' },
+];
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  pomodoro: 25,
+  shortBreak: 5,
+  longBreak: 15,
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
+};
+
+const POMODORO_THEMES: Record<PomodoroMode, PomodoroTheme> = {
+  pomodoro: {
+    bg: "bg-blue-50 dark:bg-blue-900/20",
+    progressBg: "bg-blue-100 dark:bg-blue-800/30",
+    progressFill: "bg-blue-500",
+    button: "bg-blue-500 hover:bg-blue-600",
+    text: "text-blue-500"
+  },
+  short_break: {
+    bg: "bg-green-50 dark:bg-green-900/20",
+    progressBg: "bg-green-100 dark:bg-green-800/30",
+    progressFill: "bg-green-500",
+    button: "bg-green-500 hover:bg-green-600",
+    text: "text-green-500"
+  },
+  long_break: {
+    bg: "bg-indigo-50 dark:bg-indigo-900/20",
+    progressBg: "bg-indigo-100 dark:bg-indigo-800/30",
+    progressFill: "bg-indigo-500",
+    button: "bg-indigo-500 hover:bg-indigo-600",
+    text: "text-indigo-500"
+  }
+};
+
+const DEFAULT_THEME: PomodoroTheme = {
+  bg: "bg-gray-50 dark:bg-gray-900/20",
+  progressBg: "bg-gray-100 dark:bg-gray-800/30",
+  progressFill: "bg-gray-500",
+  button: "bg-gray-500 hover:bg-gray-600",
+  text: "text-gray-500"
+};
+
+export const getPomodoroTheme = (mode: string): PomodoroTheme =>
+  POMODORO_THEMES[mode as PomodoroMode] || DEFAULT_THEME;
+
+export const getPomodoroLabel = (mode: string): string =>
+  POMODORO_MODES.find(m => m.id === mode)?.label || 'Timer';
+
+/**
+ * Read timer settings saved as JSON, e.g. a subject's pomodoro_settings
+ * @param raw - Saved settings; missing or invalid values fall back to the defaults
+ * @param fallback - Settings to fill gaps from
+ * @returns Complete settings, or null if nothing was saved
+ */
+export const parsePomodoroSettings = (
+  raw: unknown,
+  fallback: PomodoroSettings = DEFAULT_POMODORO_SETTINGS
+): PomodoroSettings | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const value = raw as Record<string, unknown>;
+
+  const minutes = (key: 'pomodoro' | 'shortBreak' | 'longBreak') => {
+    const n = Number(value[key]);
+    return Number.isFinite(n) && n >= 1 && n <= 240 ? Math.round(n) : fallback[key];
+  };
+  const interval = Number(value.longBreakInterval);
+
+  return {
+    pomodoro: minutes('pomodoro'),
+    shortBreak: minutes('shortBreak'),
+    longBreak: minutes('longBreak'),
+    longBreakInterval: Number.isInteger(interval) && interval >= 1 && interval <= 12 ? interval : fallback.longBreakInterval,
+    autoStartBreaks: typeof value.autoStartBreaks === 'boolean' ? value.autoStartBreaks : fallback.autoStartBreaks,
+    autoStartPomodoros: typeof value.autoStartPomodoros === 'boolean' ? value.autoStartPomodoros : fallback.autoStartPomodoros,
+  };
+};
+
+/**
+ * Length of a phase in seconds
+ */
+export const getPhaseSeconds = (mode: string, settings: PomodoroSettings): number => {
+  switch (mode) {
+    case 'short_break': return settings.shortBreak * 60;
+    case 'long_break': return settings.longBreak * 60;
+    default: return settings.pomodoro * 60;
+  }
+};
+
+/**
+ * Work out the phase that follows the one just ended
+ * @param mode - The phase that ended
+ * @param completedPomodoros - Focus blocks finished so far in the cycle, including this one
+ * @param finished - Whether the phase ran to the end rather than being skipped
+ * @param settings - The cycle settings
+ * @returns The next phase and whether it should start by itself
+ */
+export const getNextPhase = (
+  mode: string,
+  completedPomodoros: number,
+  finished: boolean,
+  settings: PomodoroSettings
+): { mode: PomodoroMode; autoStart: boolean } => {
+  if (mode !== 'pomodoro') {
+    return { mode: 'pomodoro', autoStart: settings.autoStartPomodoros };
+  }
+
+  // Only a finished focus block can close out a cycle
+  const isLongBreak = finished && completedPomodoros > 0 && completedPomodoros % settings.longBreakInterval === 0;
+  return { mode: isLongBreak ? 'long_break' : 'short_break', autoStart: settings.autoStartBreaks };
+};
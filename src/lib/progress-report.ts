@@ -0,0 +1,184 @@
+/**
+ * Progress reports: everything a report card shows for one date range or term
+ */
+
+import { addDays, differenceInCalendarWeeks, format, min, parseISO, startOfWeek } from 'date-fns';
+import { GradeScale, getGradeLetter, getGradePoints } from './grading';
+import { calculateGpa, calculateWeightedAverage, DEFAULT_CREDIT_HOURS, GpaMark, GpaSubject } from './gpa';
+import { isDateInTerm, isMarkInTerm, Term } from './terms';
+
+export interface ReportPeriod {
+  label: string;
+  start_date: string;
+  end_date: string;
+  // Set when the period is a term, so marks filed under the term count even if dated outside it
+  term?: Term | null;
+}
+
+export interface ReportSubject extends GpaSubject {
+  code?: string | null;
+  color?: string | null;
+}
+
+export interface ReportMark extends GpaMark {
+  date: string;
+  term_id?: string | null;
+}
+
+export interface ReportSession {
+  subject_id: string | null;
+  start_time: string;
+  duration_minutes: number | null;
+}
+
+export interface ReportGoal {
+  id: string;
+  title: string;
+  target_score: number;
+  current_score?: number | null;
+  target_date: string;
+  status: string;
+  updated_at: string;
+}
+
+export interface ReportInsight {
+  id: string;
+  insight_type: string;
+  title: string;
+  content: string;
+  priority?: string | null;
+  created_at: string;
+}
+
+export interface ReportSubjectRow {
+  subjectId: string;
+  name: string;
+  code: string | null;
+  color: string;
+  average: number | null;
+  letter: string | null;
+  markCount: number;
+  studyMinutes: number;
+}
+
+export interface ProgressReport {
+  period: ReportPeriod;
+  overallAverage: number | null;
+  gpa: number | null;
+  markCount: number;
+  subjects: ReportSubjectRow[];
+  // Same shape as PerformanceChart's data
+  weeklyTrend: Array<{ week: string; average: number; count: number }>;
+  studyMinutes: number;
+  studySessionCount: number;
+  studyByWeek: Array<{ week: string; minutes: number }>;
+  completedGoals: ReportGoal[];
+  insights: ReportInsight[];
+}
+
+export const REPORT_INSIGHT_LIMIT = 3;
+
+/**
+ * Assemble a progress report for a period
+ * @param period - The date range or term the report covers
+ * @param data - The user's subjects, marks, study sessions, goals and AI insights
+ * @param getScale - Resolves the grade scale that applies to a subject
+ * @returns Report figures for the period; insights are the latest ones created by its end
+ */
+export const buildProgressReport = (
+  period: ReportPeriod,
+  data: {
+    subjects: ReportSubject[];
+    marks: ReportMark[];
+    sessions: ReportSession[];
+    goals: ReportGoal[];
+    insights: ReportInsight[];
+  },
+  getScale: (subjectId: string) => GradeScale
+): ProgressReport => {
+  const range: Term = period.term || { id: '', name: period.label, start_date: period.start_date, end_date: period.end_date };
+
+  const marks = data.marks.filter(mark => period.term ? isMarkInTerm(mark, period.term) : isDateInTerm(range, mark.date));
+  const sessions = data.sessions.filter(session => isDateInTerm(range, session.start_time));
+
+  const subjects = data.subjects
+    .map(subject => {
+      const subjectMarks = marks.filter(mark => mark.subject_id === subject.id);
+      const average = calculateWeightedAverage(subjectMarks, subject.test_type_weights);
+      return {
+        subjectId: subject.id,
+        name: subject.name,
+        code: subject.code ?? null,
+        color: subject.color || '#3B82F6',
+        average,
+        letter: average !== null ? getGradeLetter(average, getScale(subject.id)) : null,
+        markCount: subjectMarks.length,
+        studyMinutes: sessions
+          .filter(session => session.subject_id === subject.id)
+          .reduce((total, session) => total + (session.duration_minutes || 0), 0),
+        credits: Number(subject.credit_hours) || DEFAULT_CREDIT_HOURS
+      };
+    })
+    // Subjects with nothing to report in the period are left off
+    .filter(row => row.markCount > 0 || row.studyMinutes > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const graded = subjects.filter(row => row.average !== null);
+  const gradedCredits = graded.reduce((total, row) => total + row.credits, 0);
+
+  // A period still running is charted up to this week
+  const firstWeek = startOfWeek(parseISO(range.start_date));
+  const lastWeek = startOfWeek(min([parseISO(range.end_date), new Date()]));
+  const weeks = Array.from(
+    { length: Math.max(differenceInCalendarWeeks(lastWeek, firstWeek), 0) + 1 },
+    (_, i) => addDays(firstWeek, i * 7)
+  );
+  const inWeek = (date: string, weekStart: Date) => {
+    const day = date.slice(0, 10);
+    return day >= format(weekStart, 'yyyy-MM-dd') && day <= format(addDays(weekStart, 6), 'yyyy-MM-dd');
+  };
+
+  const weeklyTrend = weeks.map(weekStart => {
+    const weekMarks = marks.filter(mark => inWeek(mark.date, weekStart));
+    return {
+      week: format(weekStart, 'MMM dd'),
+      average: weekMarks.length > 0
+        ? Math.round(weekMarks.reduce((total, mark) => total + mark.percentage, 0) / weekMarks.length)
+        : 0,
+      count: weekMarks.length
+    };
+  });
+
+  const studyByWeek = weeks.map(weekStart => ({
+    week: format(weekStart, 'MMM dd'),
+    minutes: sessions
+      .filter(session => inWeek(session.start_time, weekStart))
+      .reduce((total, session) => total + (session.duration_minutes || 0), 0)
+  }));
+
+  // Goals have no completion date, so the last update stands in for it
+  const completedGoals = data.goals
+    .filter(goal => goal.status === 'completed' && isDateInTerm(range, goal.updated_at))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  const insights = data.insights
+    .filter(insight => insight.created_at.slice(0, 10) <= range.end_date)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, REPORT_INSIGHT_LIMIT);
+
+  return {
+    period,
+    overallAverage: gradedCredits > 0
+      ? graded.reduce((total, row) => total + row.average! * row.credits, 0) / gradedCredits
+      : null,
+    gpa: calculateGpa(graded.map(row => ({ points: getGradePoints(row.average!, getScale(row.subjectId)), credits: row.credits }))),
+    markCount: marks.length,
+    subjects: subjects.map(({ credits, ...row }) => row),
+    weeklyTrend,
+    studyMinutes: sessions.reduce((total, session) => total + (session.duration_minutes || 0), 0),
+    studySessionCount: sessions.length,
+    studyByWeek,
+    completedGoals,
+    insights
+  };
+};
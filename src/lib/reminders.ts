@@ -0,0 +1,194 @@
+/**
+ * Recurrence engine and due-checking for reminders
+ */
+
+export type RecurrencePattern = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurringReminder {
+  id: string;
+  title: string;
+  reminder_date: string;
+  is_completed?: boolean | null;
+  is_recurring?: boolean | null;
+  recurrence_pattern?: string | null;
+  // The latest occurrence of a recurring reminder marked done; reminder_date stays the anchor
+  last_completed_occurrence?: string | null;
+}
+
+export const RECURRENCE_PATTERNS: Array<{ pattern: RecurrencePattern; label: string }> = [
+  { pattern: 'daily', label: 'Daily' },
+  { pattern: 'weekly', label: 'Weekly' },
+  { pattern: 'monthly', label: 'Monthly' }
+];
+
+// How long after its due time a reminder still fires a notification
+export const DUE_GRACE_MINUTES = 15;
+
+// Safety cap so a wide window can't expand into an unbounded list
+const MAX_OCCURRENCES = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the recurrence pattern of a reminder
+ * @param reminder - The reminder to inspect
+ * @returns The pattern, or null for one-off reminders and unknown patterns
+ */
+export const getRecurrencePattern = (reminder: RecurringReminder): RecurrencePattern | null => {
+  if (!reminder.is_recurring) return null;
+
+  const pattern = reminder.recurrence_pattern?.toLowerCase();
+  return pattern === 'daily' || pattern === 'weekly' || pattern === 'monthly' ? pattern : null;
+};
+
+/**
+ * Get the nth occurrence of a pattern starting at an anchor date
+ * @param anchor - The first occurrence
+ * @param pattern - The recurrence pattern
+ * @param n - Number of periods after the anchor
+ * @returns The occurrence date; monthly dates are clamped to the end of shorter months
+ */
+export const getOccurrence = (anchor: Date, pattern: RecurrencePattern, n: number): Date => {
+  const date = new Date(anchor);
+
+  switch (pattern) {
+    case 'daily':
+      date.setDate(date.getDate() + n);
+      break;
+    case 'weekly':
+      date.setDate(date.getDate() + n * 7);
+      break;
+    case 'monthly': {
+      // Jan 31 + 1 month should be Feb 28/29, not Mar 3
+      date.setDate(1);
+      date.setMonth(date.getMonth() + n);
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      date.setDate(Math.min(anchor.getDate(), lastDay));
+      break;
+    }
+  }
+
+  return date;
+};
+
+/**
+ * Find the index of the first occurrence strictly after a given time
+ * Starts from an estimate one period short of the elapsed time (daylight saving can
+ * shift a day by an hour either way), so old reminders don't walk from the anchor.
+ */
+const firstOccurrenceIndexAfter = (anchor: Date, pattern: RecurrencePattern, time: Date): number => {
+  const elapsed = time.getTime() - anchor.getTime();
+  const estimate = pattern === 'daily'
+    ? Math.floor(elapsed / DAY_MS)
+    : pattern === 'weekly'
+      ? Math.floor(elapsed / (7 * DAY_MS))
+      : (time.getFullYear() - anchor.getFullYear()) * 12 + time.getMonth() - anchor.getMonth();
+
+  let n = Math.max(0, estimate - 1);
+  while (getOccurrence(anchor, pattern, n) <= time) n++;
+  return n;
+};
+
+/**
+ * Expand a reminder into its occurrences within a time window
+ * @param reminder - The reminder to expand
+ * @param from - Start of the window (inclusive)
+ * @param to - End of the window (inclusive)
+ * @returns Occurrence dates in ascending order; one-off reminders yield at most one date
+ */
+export const expandOccurrences = (reminder: RecurringReminder, from: Date, to: Date): Date[] => {
+  const anchor = new Date(reminder.reminder_date);
+  const pattern = getRecurrencePattern(reminder);
+
+  if (!pattern) {
+    return anchor >= from && anchor <= to ? [anchor] : [];
+  }
+
+  const occurrences: Date[] = [];
+  const first = firstOccurrenceIndexAfter(anchor, pattern, new Date(from.getTime() - 1));
+  for (let n = first; n < first + MAX_OCCURRENCES; n++) {
+    const occurrence = getOccurrence(anchor, pattern, n);
+    if (occurrence > to) break;
+    if (occurrence >= from) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+};
+
+/**
+ * Find the first occurrence strictly after a given time
+ * @param reminder - The reminder to check
+ * @param after - Reference time (defaults to the current time)
+ * @returns The next occurrence, or null if a one-off reminder has already passed
+ */
+export const getNextOccurrence = (reminder: RecurringReminder, after: Date = new Date()): Date | null => {
+  const anchor = new Date(reminder.reminder_date);
+  const pattern = getRecurrencePattern(reminder);
+
+  if (!pattern) {
+    return anchor > after ? anchor : null;
+  }
+
+  return getOccurrence(anchor, pattern, firstOccurrenceIndexAfter(anchor, pattern, after));
+};
+
+/**
+ * Find the most recent occurrence at or before a given time
+ * @param reminder - The reminder to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns The latest occurrence that is due, or null if none is due yet
+ */
+export const getLatestDueOccurrence = (reminder: RecurringReminder, now: Date = new Date()): Date | null => {
+  const anchor = new Date(reminder.reminder_date);
+  if (anchor > now) return null;
+
+  const pattern = getRecurrencePattern(reminder);
+  if (!pattern) return anchor;
+
+  return getOccurrence(anchor, pattern, firstOccurrenceIndexAfter(anchor, pattern, now) - 1);
+};
+
+/**
+ * Find the occurrence a reminder is waiting on: the latest one that's due and not
+ * yet marked done, otherwise the next one to come
+ * @param reminder - The reminder to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns The pending occurrence, or null if a one-off reminder has none
+ */
+export const getPendingOccurrence = (reminder: RecurringReminder, now: Date = new Date()): Date | null => {
+  const completed = reminder.last_completed_occurrence ? new Date(reminder.last_completed_occurrence) : null;
+  const latestDue = getLatestDueOccurrence(reminder, now);
+  if (latestDue && (!completed || latestDue > completed)) return latestDue;
+
+  return getNextOccurrence(reminder, completed && completed > now ? completed : now);
+};
+
+/**
+ * Collect reminders whose latest occurrence fell due within the grace window
+ * @param reminders - Reminders to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns Each due reminder with the occurrence that is due
+ */
+export const getDueReminders = <T extends RecurringReminder>(
+  reminders: T[],
+  now: Date = new Date()
+): Array<{ reminder: T; occurrence: Date }> => {
+  const windowStart = new Date(now.getTime() - DUE_GRACE_MINUTES * 60 * 1000);
+
+  return reminders
+    .filter(reminder => !reminder.is_completed)
+    .map(reminder => ({ reminder, occurrence: getLatestDueOccurrence(reminder, now) }))
+    .filter((due): due is { reminder: T; occurrence: Date } =>
+      due.occurrence !== null &&
+      due.occurrence >= windowStart &&
+      !(due.reminder.last_completed_occurrence && due.occurrence <= new Date(due.reminder.last_completed_occurrence))
+    );
+};
+
+/**
+ * Build a stable key for one occurrence of a reminder, used to avoid repeat notifications
+ * @param reminderId - The reminder ID
+ * @param occurrence - The occurrence date
+ * @returns A key unique to the reminder and occurrence
+ */
+export const getOccurrenceKey = (reminderId: string, occurrence: Date): string =>
+  `${reminderId}:${occurrence.toISOString()}`;
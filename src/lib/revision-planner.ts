@@ -0,0 +1,123 @@
+/**
+ * Builds an exam revision schedule from subject exam dates
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+
+export interface RevisionSubject {
+  id: string;
+  name: string;
+  exam_date?: string | null;
+  difficulty_level?: string | null;
+  study_priority?: number | null;
+  averageScore?: number | null;
+}
+
+export interface RevisionMilestone {
+  week_start: string;
+  hours: number;
+}
+
+export interface RevisionAllocation {
+  subjectId: string;
+  subjectName: string;
+  examDate: string;
+  startDate: string;
+  endDate: string;
+  totalHours: number;
+  difficultyLevel: string;
+  weight: number;
+  milestones: RevisionMilestone[];
+}
+
+const DIFFICULTY_WEIGHTS: Record<string, number> = {
+  easy: 0.8,
+  medium: 1,
+  hard: 1.3
+};
+
+/**
+ * Relative share of revision time a subject should get
+ * @param subject - The subject to weigh
+ * @returns A positive weight; harder, higher-priority and weaker subjects weigh more
+ */
+export const getRevisionWeight = (subject: RevisionSubject): number => {
+  const difficulty = DIFFICULTY_WEIGHTS[subject.difficulty_level || 'medium'] ?? 1;
+
+  // study_priority runs 1-5 with 3 as the default
+  const priority = 0.6 + ((subject.study_priority ?? 3) - 1) * 0.2;
+
+  // Subjects below 80% get more time, strong subjects less; no marks counts as slightly weak
+  const average = subject.averageScore;
+  const performance = average === null || average === undefined
+    ? 1.1
+    : Math.min(Math.max(1 + (80 - average) / 100, 0.6), 1.6);
+
+  return difficulty * priority * performance;
+};
+
+/**
+ * Spread the available study hours over the days before each upcoming exam
+ * @param subjects - Subjects with exam dates, difficulty, priority and current average
+ * @param hoursPerDay - Study hours available each day
+ * @param startDate - First day of revision (defaults to today)
+ * @returns One allocation per subject with an exam after the start date, soonest exam first
+ */
+export const buildRevisionPlan = (
+  subjects: RevisionSubject[],
+  hoursPerDay: number,
+  startDate: Date = new Date()
+): RevisionAllocation[] => {
+  const start = startOfDay(startDate);
+
+  const upcoming = subjects
+    .filter(subject => subject.exam_date && parseISO(subject.exam_date) > start)
+    .map(subject => ({ subject, exam: parseISO(subject.exam_date!), weight: getRevisionWeight(subject) }))
+    .sort((a, b) => a.exam.getTime() - b.exam.getTime());
+
+  if (upcoming.length === 0 || hoursPerDay <= 0) return [];
+
+  const lastExam = upcoming[upcoming.length - 1].exam;
+  const totalDays = differenceInCalendarDays(lastExam, start);
+  const hoursBySubject: Record<string, number> = {};
+  const weeklyHours: Record<string, Record<string, number>> = {};
+
+  // Each day's hours are shared between the subjects whose exam is still ahead
+  for (let day = 0; day < totalDays; day++) {
+    const date = addDays(start, day);
+    const active = upcoming.filter(({ exam }) => exam > date);
+    const totalWeight = active.reduce((sum, { weight }) => sum + weight, 0);
+    const weekStart = format(addDays(start, Math.floor(day / 7) * 7), 'yyyy-MM-dd');
+
+    active.forEach(({ subject, weight }) => {
+      const hours = hoursPerDay * (weight / totalWeight);
+      hoursBySubject[subject.id] = (hoursBySubject[subject.id] || 0) + hours;
+      weeklyHours[subject.id] = weeklyHours[subject.id] || {};
+      weeklyHours[subject.id][weekStart] = (weeklyHours[subject.id][weekStart] || 0) + hours;
+    });
+  }
+
+  return upcoming.map(({ subject, exam, weight }) => ({
+    subjectId: subject.id,
+    subjectName: subject.name,
+    examDate: format(exam, 'yyyy-MM-dd'),
+    startDate: format(start, 'yyyy-MM-dd'),
+    endDate: format(addDays(exam, -1), 'yyyy-MM-dd'),
+    totalHours: Math.max(1, Math.round(hoursBySubject[subject.id] || 0)),
+    difficultyLevel: subject.difficulty_level || 'medium',
+    weight: Number(weight.toFixed(2)),
+    milestones: Object.entries(weeklyHours[subject.id] || {}).map(([week_start, hours]) => ({
+      week_start,
+      hours: Number(hours.toFixed(1))
+    }))
+  }));
+};
+
+/**
+ * Whole days until an exam, counting today as day zero
+ * @param examDate - The exam date
+ * @param now - Reference time (defaults to the current time)
+ * @returns Days remaining; negative once the exam has passed
+ */
+export const getDaysUntilExam = (examDate: string, now: Date = new Date()): number =>
+  differenceInCalendarDays(parseISO(examDate), now);
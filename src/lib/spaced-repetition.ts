@@ -0,0 +1,128 @@
+/**
+ * SM-2 based spaced-repetition scheduler for flashcards
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface SchedulableCard {
+  ease_factor?: number | null;
+  interval_days?: number | null;
+  review_count?: number | null;
+  success_rate?: number | null;
+  next_review?: string | null;
+}
+
+export interface ScheduleResult {
+  ease_factor: number;
+  interval_days: number;
+  review_count: number;
+  success_rate: number;
+  last_reviewed: string;
+  next_review: string;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 quality (0-5) for each of the four recall buttons
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const REVIEW_GRADES: Array<{ grade: ReviewGrade; label: string }> = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' }
+];
+
+/**
+ * Schedule the next review of a card after the user grades their recall
+ * @param card - The card being reviewed, with its current scheduling fields
+ * @param grade - How well the user recalled the card
+ * @param now - Review time (defaults to the current time)
+ * @returns The updated scheduling fields to persist on the card
+ */
+export const scheduleReview = (
+  card: SchedulableCard,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduleResult => {
+  const quality = GRADE_QUALITY[grade];
+  const previousEase = card.ease_factor || DEFAULT_EASE_FACTOR;
+  const previousInterval = card.interval_days || 0;
+  const reviewCount = (card.review_count || 0) + 1;
+
+  // Standard SM-2 ease adjustment, clamped to the minimum ease
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let intervalDays: number;
+  if (grade === 'again') {
+    // Lapsed cards come back the same day
+    intervalDays = 0;
+  } else if (previousInterval === 0) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (previousInterval === 1) {
+    intervalDays = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else if (grade === 'hard') {
+    intervalDays = Math.max(previousInterval + 1, Math.round(previousInterval * 1.2));
+  } else {
+    const bonus = grade === 'easy' ? 1.3 : 1;
+    intervalDays = Math.round(previousInterval * easeFactor * bonus);
+  }
+
+  // Running percentage of reviews that were not lapses
+  const previousSuccesses = ((card.success_rate || 0) / 100) * (reviewCount - 1);
+  const successes = previousSuccesses + (grade === 'again' ? 0 : 1);
+  const successRate = Math.round((successes / reviewCount) * 100);
+
+  const nextReview = new Date(now);
+  if (intervalDays === 0) {
+    nextReview.setMinutes(nextReview.getMinutes() + 10);
+  } else {
+    nextReview.setDate(nextReview.getDate() + intervalDays);
+  }
+
+  return {
+    ease_factor: Number(easeFactor.toFixed(2)),
+    interval_days: intervalDays,
+    review_count: reviewCount,
+    success_rate: successRate,
+    last_reviewed: now.toISOString(),
+    next_review: nextReview.toISOString()
+  };
+};
+
+/**
+ * Check whether a card is due for review today
+ * @param card - The card to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the card has never been scheduled or is due before the end of today
+ */
+export const isCardDue = (card: SchedulableCard, now: Date = new Date()): boolean => {
+  if (!card.next_review) return true;
+
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return new Date(card.next_review) <= endOfToday;
+};
+
+/**
+ * Describe the interval a grade would produce, for labelling the grade buttons
+ * @param card - The card being reviewed
+ * @param grade - The grade to preview
+ * @returns A short label such as "10m", "1d" or "2w"
+ */
+export const previewInterval = (card: SchedulableCard, grade: ReviewGrade): string => {
+  const { interval_days } = scheduleReview(card, grade);
+  if (interval_days === 0) return '10m';
+  if (interval_days < 14) return `${interval_days}d`;
+  if (interval_days < 60) return `${Math.round(interval_days / 7)}w`;
+  return `${Math.round(interval_days / 30)}mo`;
+};
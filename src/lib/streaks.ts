@@ -0,0 +1,161 @@
+/**
+ * Study streaks: day-by-day history in the student's timezone
+ *
+ * Streaks themselves are kept by refresh_user_streak() in the database; this module
+ * reads them back and rebuilds the calendar the streak was counted from.
+ */
+
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { supabase } from './supabase';
+
+export type StreakDayStatus = 'studied' | 'frozen' | 'short' | 'missed' | 'today';
+
+export interface StreakDay {
+  date: string;
+  minutes: number;
+  status: StreakDayStatus;
+}
+
+export interface StreakSettings {
+  timezone: string;
+  streak_min_minutes: number;
+}
+
+export interface StreakHistory extends StreakSettings {
+  currentStreak: number;
+  longestStreak: number;
+  freezes: number;
+  days: StreakDay[];
+}
+
+// Must match refresh_user_streak()
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+export const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The calendar day (yyyy-MM-dd) an instant falls on in a timezone
+ * Unknown timezones fall back to UTC, as they do in the database.
+ */
+export const toLocalDay = (instant: string | Date, timezone: string): string => {
+  const date = typeof instant === 'string' ? new Date(instant) : instant;
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Lay out the last `days` days ending today, each marked studied, frozen, short of
+ * the daily minimum, missed, or (for today without enough study yet) still open
+ */
+export const buildStreakDays = (
+  sessions: Array<{ start_time: string; duration_minutes: number | null }>,
+  freezeDays: string[],
+  settings: StreakSettings,
+  days: number,
+  now: Date = new Date()
+): StreakDay[] => {
+  const minutesByDay = new Map<string, number>();
+  sessions.forEach(session => {
+    const day = toLocalDay(session.start_time, settings.timezone);
+    minutesByDay.set(day, (minutesByDay.get(day) || 0) + (session.duration_minutes || 0));
+  });
+  const frozen = new Set(freezeDays);
+
+  const today = toLocalDay(now, settings.timezone);
+  const start = subDays(parseISO(today), days - 1);
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = format(addDays(start, index), 'yyyy-MM-dd');
+    const minutes = minutesByDay.get(date) || 0;
+
+    let status: StreakDayStatus;
+    if (minutes >= settings.streak_min_minutes) status = 'studied';
+    else if (frozen.has(date)) status = 'frozen';
+    else if (date === today) status = 'today';
+    else status = minutes > 0 ? 'short' : 'missed';
+
+    return { date, minutes, status };
+  });
+};
+
+/**
+ * Recompute the user's streak (spending a freeze on a missed day if one is held)
+ * and load the history behind it
+ * @param days - How many days of history to return, ending today
+ */
+export async function getStreakHistory(userId: string, days = 35): Promise<StreakHistory> {
+  const { error: refreshError } = await supabase.rpc('refresh_user_streak', { p_user_id: userId });
+  if (refreshError) console.error("Error refreshing streak:", refreshError);
+
+  const { data: userData, error } = await supabase
+    .from('users')
+    .select('timezone, streak_min_minutes, current_streak, longest_streak, streak_freezes')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw new Error(`Failed to load streak: ${error.message}`);
+
+  const settings: StreakSettings = {
+    timezone: userData.timezone || 'UTC',
+    streak_min_minutes: userData.streak_min_minutes || 1
+  };
+
+  // A day either side covers any timezone's view of the range
+  const since = subDays(new Date(), days + 1).toISOString();
+  const [sessionsRes, freezesRes] = await Promise.all([
+    supabase
+      .from('study_sessions')
+      .select('start_time, duration_minutes')
+      .eq('user_id', userId)
+      .gte('start_time', since),
+    supabase
+      .from('streak_freeze_days')
+      .select('day')
+      .eq('user_id', userId)
+      .gte('day', since.slice(0, 10))
+  ]);
+
+  if (sessionsRes.error) throw new Error(`Failed to load study sessions: ${sessionsRes.error.message}`);
+
+  return {
+    ...settings,
+    currentStreak: userData.current_streak || 0,
+    longestStreak: userData.longest_streak || 0,
+    freezes: userData.streak_freezes || 0,
+    days: buildStreakDays(
+      sessionsRes.data || [],
+      (freezesRes.data || []).map((row: { day: string }) => row.day),
+      settings,
+      days
+    )
+  };
+}
+
+/**
+ * Save the user's streak timezone and daily minimum, then recount their streak
+ */
+export async function updateStreakSettings(userId: string, settings: StreakSettings): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({ ...settings, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw new Error(`Failed to save streak settings: ${error.message}`);
+
+  const { error: refreshError } = await supabase.rpc('refresh_user_streak', { p_user_id: userId });
+  if (refreshError) throw new Error(`Failed to recount streak: ${refreshError.message}`);
+}
@@ -0,0 +1,187 @@
+/**
+ * Study-time analytics: when, how regularly and on what a student studies
+ */
+
+import { addDays, addHours, format, startOfHour, startOfWeek, subWeeks } from 'date-fns';
+import { AnalyticsSession } from '@shared/student-analytics';
+
+// Session shape, time-of-day buckets, preferred times and the consistency score are
+// shared with the Edge Functions
+export {
+  calculateConsistencyScore,
+  getPreferredStudyTimes,
+  getTimeOfDay,
+} from '@shared/student-analytics';
+export type { AnalyticsSession, TimeOfDay } from '@shared/student-analytics';
+
+export interface AnalyticsSubject {
+  id: string;
+  name: string;
+  color?: string | null;
+}
+
+export interface HeatmapDay {
+  date: string;
+  minutes: number;
+  // 0 for no study, up to 4 for the busiest days in the range
+  level: number;
+}
+
+export interface SubjectSeries {
+  key: string;
+  name: string;
+  color: string;
+}
+
+export interface WeeklyGoalProgress {
+  week: string;
+  hours: number;
+  goalHours: number;
+  met: boolean;
+}
+
+// Weekly goal in hours for students who haven't set one
+export const DEFAULT_WEEKLY_STUDY_GOAL = 12;
+
+// Chart key for sessions without a subject
+export const UNASSIGNED_SUBJECT = 'general';
+
+/**
+ * Split a session's minutes over the clock hours it covers
+ * Only focused minutes are recorded, so they're laid end to end from the start time;
+ * a session that included breaks is counted a little earlier than it really ran.
+ */
+const spreadSessionMinutes = (session: AnalyticsSession): Array<{ hour: Date; minutes: number }> => {
+  const chunks: Array<{ hour: Date; minutes: number }> = [];
+  let cursor = new Date(session.start_time);
+  let remaining = session.duration_minutes || 0;
+
+  while (remaining > 0) {
+    const hour = startOfHour(cursor);
+    const minutes = Math.min(remaining, 60 - cursor.getMinutes());
+    chunks.push({ hour, minutes });
+    remaining -= minutes;
+    cursor = addHours(hour, 1);
+  }
+  return chunks;
+};
+
+const minutesByDay = (sessions: AnalyticsSession[]): Map<string, number> => {
+  const days = new Map<string, number>();
+  sessions.forEach(session => spreadSessionMinutes(session).forEach(({ hour, minutes }) => {
+    const day = format(hour, 'yyyy-MM-dd');
+    days.set(day, (days.get(day) || 0) + minutes);
+  }));
+  return days;
+};
+
+/**
+ * Minutes studied per day for a calendar heatmap
+ * @param weeks - How many weeks to show, ending with the week of `end`
+ * @returns One column per week, Sunday first; days after `end` are null
+ */
+export const buildStudyHeatmap = (sessions: AnalyticsSession[], weeks: number, end: Date = new Date()): Array<Array<HeatmapDay | null>> => {
+  const days = minutesByDay(sessions);
+  const lastDay = format(end, 'yyyy-MM-dd');
+  const firstWeek = subWeeks(startOfWeek(end), weeks - 1);
+
+  const columns = Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = format(addDays(firstWeek, w * 7 + d), 'yyyy-MM-dd');
+      return date > lastDay ? null : { date, minutes: days.get(date) || 0, level: 0 };
+    })
+  );
+
+  // Levels are quarters of the busiest day, so a light studier still sees contrast
+  const max = Math.max(0, ...columns.flat().map(day => day?.minutes || 0));
+  columns.flat().forEach(day => {
+    if (day && day.minutes > 0) day.level = Math.min(4, Math.ceil((day.minutes / max) * 4));
+  });
+  return columns;
+};
+
+/**
+ * Minutes studied in each hour of the week
+ * @param since - Only sessions from this date on count
+ * @returns Minutes indexed by day of week (0 is Sunday), then hour of day
+ */
+export const buildHourOfWeekMatrix = (sessions: AnalyticsSession[], since: Date): number[][] => {
+  const matrix = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  sessions
+    .filter(session => new Date(session.start_time) >= since)
+    .forEach(session => spreadSessionMinutes(session).forEach(({ hour, minutes }) => {
+      matrix[hour.getDay()][hour.getHours()] += minutes;
+    }));
+  return matrix;
+};
+
+const getWeekStarts = (weeks: number, end: Date) => {
+  const lastWeek = startOfWeek(end);
+  return Array.from({ length: weeks }, (_, i) => subWeeks(lastWeek, weeks - 1 - i));
+};
+
+const minutesInWeek = (sessions: AnalyticsSession[], weekStart: Date) => {
+  const from = format(weekStart, 'yyyy-MM-dd');
+  const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+  return sessions.filter(session => {
+    const day = format(new Date(session.start_time), 'yyyy-MM-dd');
+    return day >= from && day <= to;
+  });
+};
+
+/**
+ * Minutes per subject in each week, for a stacked bar chart
+ * @returns One row per week keyed by subject id, and the subjects that appear
+ */
+export const buildSubjectWeeklyTotals = (
+  sessions: AnalyticsSession[],
+  subjects: AnalyticsSubject[],
+  weeks: number,
+  end: Date = new Date()
+): { data: Array<Record<string, string | number>>; series: SubjectSeries[] } => {
+  const keys = new Set<string>();
+
+  const data = getWeekStarts(weeks, end).map(weekStart => {
+    const row: Record<string, string | number> = { week: format(weekStart, 'MMM dd') };
+    minutesInWeek(sessions, weekStart).forEach(session => {
+      const key = session.subject_id && subjects.some(s => s.id === session.subject_id)
+        ? session.subject_id
+        : UNASSIGNED_SUBJECT;
+      row[key] = ((row[key] as number) || 0) + (session.duration_minutes || 0);
+      if (session.duration_minutes) keys.add(key);
+    });
+    return row;
+  });
+
+  const series: SubjectSeries[] = subjects
+    .filter(subject => keys.has(subject.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(subject => ({ key: subject.id, name: subject.name, color: subject.color || '#3B82F6' }));
+  if (keys.has(UNASSIGNED_SUBJECT)) {
+    series.push({ key: UNASSIGNED_SUBJECT, name: 'General study', color: '#9CA3AF' });
+  }
+
+  return { data, series };
+};
+
+/**
+ * Hours studied each week against the weekly study goal
+ * @param goalHours - users.weekly_study_goal
+ */
+export const buildWeeklyGoalProgress = (
+  sessions: AnalyticsSession[],
+  goalHours: number,
+  weeks: number,
+  end: Date = new Date()
+): WeeklyGoalProgress[] =>
+  getWeekStarts(weeks, end).map(weekStart => {
+    const minutes = minutesInWeek(sessions, weekStart)
+      .reduce((total, session) => total + (session.duration_minutes || 0), 0);
+    const hours = Math.round((minutes / 60) * 10) / 10;
+    return {
+      week: format(weekStart, 'MMM dd'),
+      hours,
+      goalHours,
+      met: goalHours > 0 && hours >= goalHours
+    };
+  });
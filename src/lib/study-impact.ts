@@ -0,0 +1,22 @@
+/**
+ * Study impact: how study time before assessments relates to the marks that follow
+ *
+ * The analysis is part of the student analytics shared with the Edge Functions, so
+ * AI insights describe the same fits the dashboard shows.
+ */
+
+export {
+  analyzeStudyImpact,
+  DEFAULT_STUDY_WINDOW_DAYS,
+  fitLinearRegression,
+  pairStudyWithMarks,
+  STUDY_WINDOW_OPTIONS,
+} from '@shared/student-analytics';
+export type {
+  AnalyticsSession as ImpactSession,
+  ImpactMark,
+  ImpactSubject,
+  RegressionFit,
+  StudyImpact,
+  StudyMarkPair,
+} from '@shared/student-analytics';
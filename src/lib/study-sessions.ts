@@ -0,0 +1,143 @@
+/**
+ * Logged study sessions: adding and editing past sessions without a timer
+ */
+
+import { supabase } from './supabase';
+
+export const SESSION_TYPES = [
+  { value: 'study', label: 'Study' },
+  { value: 'review', label: 'Review' },
+  { value: 'practice', label: 'Practice' },
+  { value: 'homework', label: 'Homework' },
+] as const;
+
+export type SessionType = typeof SESSION_TYPES[number]['value'];
+
+// Longest session that can be logged in one go
+const MAX_SESSION_MINUTES = 24 * 60;
+
+export interface SessionInput {
+  start: Date;
+  end: Date;
+  subject_id: string | null;
+  session_type: SessionType;
+  notes: string;
+}
+
+export interface OverlappingSession {
+  id: string;
+  title: string | null;
+  start_time: string;
+  end_time: string | null;
+}
+
+export const getSessionTypeLabel = (type: string | null | undefined): string =>
+  SESSION_TYPES.find(t => t.value === type)?.label || 'Study';
+
+/**
+ * Check a session's times before saving it
+ * @returns A message describing the problem, or null if the times are fine
+ */
+export const validateSessionTimes = (start: Date, end: Date, now: Date = new Date()): string | null => {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return "Enter a start and end time";
+  if (end <= start) return "The session must end after it starts";
+  if (end > now) return "Sessions can't end in the future";
+  if (end.getTime() - start.getTime() > MAX_SESSION_MINUTES * 60 * 1000) return "Sessions can't be longer than 24 hours";
+  return null;
+};
+
+/**
+ * Find the user's sessions that share any time with a range
+ * Sessions that are still open count as running until now, so a timer under way
+ * blocks logging over it.
+ * @param excludeId - The session being edited, which can't overlap itself
+ */
+export async function findOverlappingSessions(
+  userId: string,
+  start: Date,
+  end: Date,
+  excludeId?: string
+): Promise<OverlappingSession[]> {
+  let query = supabase
+    .from('study_sessions')
+    .select('id, title, start_time, end_time')
+    .eq('user_id', userId)
+    .lt('start_time', end.toISOString())
+    .or(`end_time.gt.${start.toISOString()},end_time.is.null`)
+    .order('start_time');
+
+  if (excludeId) query = query.neq('id', excludeId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to check for overlapping sessions: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Add a past session, or update one, after checking it doesn't overlap another
+ * The totals on users and subjects are kept up to date by the database, so once
+ * saved the dashboard is told to reload them.
+ * @param sessionId - The session to update; a new one is added when missing
+ * @returns The sessions it overlaps; nothing is saved if there are any
+ */
+export async function saveStudySession(
+  userId: string,
+  input: SessionInput,
+  sessionId?: string
+): Promise<OverlappingSession[]> {
+  const invalid = validateSessionTimes(input.start, input.end);
+  if (invalid) throw new Error(invalid);
+
+  const overlapping = await findOverlappingSessions(userId, input.start, input.end, sessionId);
+  if (overlapping.length > 0) return overlapping;
+
+  const values = {
+    start_time: input.start.toISOString(),
+    end_time: input.end.toISOString(),
+    duration_minutes: Math.round((input.end.getTime() - input.start.getTime()) / 60000),
+    subject_id: input.subject_id || null,
+    session_type: input.session_type,
+    notes: input.notes.trim() || null,
+  };
+
+  const { error } = sessionId
+    ? await supabase.from('study_sessions').update(values).eq('id', sessionId).eq('user_id', userId)
+    : await supabase.from('study_sessions').insert({
+        ...values,
+        user_id: userId,
+        title: `${getSessionTypeLabel(input.session_type)} Session`,
+        test_type: 'study',
+        is_completed: true,
+      });
+  if (error) throw new Error(`Failed to save study session: ${error.message}`);
+
+  await notifySessionsChanged(userId);
+  return [];
+}
+
+/**
+ * Remove a logged session
+ */
+export async function deleteStudySession(userId: string, sessionId: string) {
+  const { error } = await supabase
+    .from('study_sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('user_id', userId);
+  if (error) throw new Error(`Failed to delete study session: ${error.message}`);
+
+  await notifySessionsChanged(userId);
+}
+
+async function notifySessionsChanged(userId: string) {
+  window.dispatchEvent(new Event('refresh-study-sessions'));
+
+  const { data } = await supabase
+    .from('users')
+    .select('total_study_time')
+    .eq('id', userId)
+    .single();
+  window.dispatchEvent(new CustomEvent('study-session-completed', {
+    detail: { totalStudyTime: data?.total_study_time || 0 }
+  }));
+}
@@ -0,0 +1,212 @@
+/**
+ * Study timer sessions: keeping the study_sessions row behind a running timer in step with it
+ */
+
+import { supabase } from './supabase';
+import { getTimerElapsed, TimerState, useGlobalTimerStore } from './utils';
+import { getNextPhase, getPhaseSeconds, getPomodoroTheme, PomodoroMode } from './pomodoro';
+
+// How often a running session's focused time is saved
+export const TIMER_CHECKPOINT_MS = 60 * 1000;
+
+// An open session that hasn't been saved for this long has lost its timer
+const ORPHANED_AFTER_MS = 5 * 60 * 1000;
+
+const CLAIM_KEY = 'smartstudent-timer-claim';
+
+export interface SessionProgress {
+  focusedSeconds: number;
+  completedPomodoros: number;
+  interruptedPomodoros: number;
+}
+
+/**
+ * What the open session has recorded so far, counting the focus block under way
+ */
+export const getSessionProgress = (
+  state: Pick<TimerState, 'mode' | 'duration' | 'elapsed' | 'startedAt' | 'focusedSeconds' | 'completedPomodoros' | 'interruptedPomodoros'>
+): SessionProgress => ({
+  focusedSeconds: state.focusedSeconds + (state.mode === 'pomodoro' ? Math.min(state.duration, getTimerElapsed(state)) : 0),
+  completedPomodoros: state.completedPomodoros,
+  interruptedPomodoros: state.interruptedPomodoros
+});
+
+const toSessionColumns = (progress: SessionProgress) => ({
+  duration_minutes: Math.round(progress.focusedSeconds / 60),
+  pomodoro_count: progress.completedPomodoros,
+  interrupted_pomodoros: progress.interruptedPomodoros
+});
+
+/**
+ * Claim a one-off timer event, such as finishing a countdown, for this tab
+ * Every open tab sees the same timer, so this keeps them from all saving the
+ * session or all showing the notification.
+ * @param event - Identifies the event, e.g. "complete:<run start>"
+ * @returns Whether this tab got the event
+ */
+export const claimTimerEvent = (event: string): boolean => {
+  try {
+    if (localStorage.getItem(CLAIM_KEY) === event) return false;
+    localStorage.setItem(CLAIM_KEY, event);
+  } catch {
+    // Without storage there's only this tab to worry about
+  }
+  return true;
+};
+
+/**
+ * Open the study session a Pomodoro cycle records into
+ * @returns The new session's id, or null if it couldn't be created
+ */
+export async function openTimerSession(userId: string, subjectId: string | null, startTime: Date): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .insert({
+      user_id: userId,
+      start_time: startTime.toISOString(),
+      subject_id: subjectId || null,
+      title: "Study Session",
+      test_type: "study",
+      duration_minutes: 0,
+      pomodoro_count: 0,
+      interrupted_pomodoros: 0
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error("Error creating study session:", error);
+    return null;
+  }
+  return data.id;
+}
+
+/**
+ * Save the session's progress so far, so a crash loses at most a minute of it
+ */
+export async function checkpointTimerSession(sessionId: string, progress: SessionProgress) {
+  const { error } = await supabase
+    .from('study_sessions')
+    .update(toSessionColumns(progress))
+    .eq('id', sessionId)
+    .is('end_time', null);
+
+  if (error) console.error("Error saving study session progress:", error);
+}
+
+/**
+ * Close a timer's study session
+ * @param sessionId - The open session
+ * @param endTime - When the timer stopped
+ * @param progress - Focus time, excluding pauses and breaks, and pomodoro counts
+ * @returns Whether this call closed the session, as opposed to finding it already closed
+ */
+export async function closeTimerSession(
+  sessionId: string,
+  { endTime, ...progress }: SessionProgress & { endTime: Date }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .update({
+      end_time: endTime.toISOString(),
+      ...toSessionColumns(progress),
+      // A session counts as completed once it has at least one full pomodoro
+      is_completed: progress.completedPomodoros > 0
+    })
+    .eq('id', sessionId)
+    .is('end_time', null)
+    .select('id');
+
+  if (error) {
+    console.error("Error ending session:", error);
+    return false;
+  }
+  window.dispatchEvent(new Event('refresh-study-sessions'));
+  return (data || []).length > 0;
+}
+
+/**
+ * Close sessions left open by a timer that's gone, e.g. a tab closed mid-countdown
+ *
+ * The last checkpoint is all that's known about such a session, so it ends when it
+ * was last saved, with the focused time saved then. Sessions saved recently may still
+ * have a timer on another device and are left alone.
+ * @param userId - The signed-in user
+ * @param activeSessionId - The session this browser's timer is recording, if any
+ * @returns How many sessions were closed
+ */
+export async function closeOrphanedSessions(userId: string, activeSessionId: string | null): Promise<number> {
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .select('id, start_time, updated_at, duration_minutes, pomodoro_count, interrupted_pomodoros')
+    .eq('user_id', userId)
+    .is('end_time', null);
+
+  if (error) {
+    console.error("Error checking for open study sessions:", error);
+    return 0;
+  }
+
+  const cutoff = Date.now() - ORPHANED_AFTER_MS;
+  const orphans = (data || []).filter(session =>
+    session.id !== activeSessionId && new Date(session.updated_at || session.start_time).getTime() < cutoff
+  );
+
+  const closed = await Promise.all(orphans.map(session =>
+    closeTimerSession(session.id, {
+      endTime: new Date(session.updated_at || session.start_time),
+      focusedSeconds: (session.duration_minutes || 0) * 60,
+      completedPomodoros: session.pomodoro_count || 0,
+      interruptedPomodoros: session.interrupted_pomodoros || 0
+    })
+  ));
+  return closed.filter(Boolean).length;
+}
+
+/**
+ * Move the timer on to the next phase of the cycle
+ * @param finished - True when the phase ran out, false when it's being skipped. A
+ * skipped focus block counts as interrupted.
+ * @returns The phase that ended and the one that follows
+ */
+export async function advanceStudyTimer(finished: boolean): Promise<{ ended: string; next: PomodoroMode }> {
+  const state = useGlobalTimerStore.getState();
+  const progress = getSessionProgress(state);
+
+  if (state.mode === 'pomodoro') {
+    if (finished) progress.completedPomodoros++;
+    else if (getTimerElapsed(state) > 0) progress.interruptedPomodoros++;
+  }
+
+  const next = getNextPhase(state.mode, progress.completedPomodoros, finished, state.cycle);
+  const seconds = getPhaseSeconds(next.mode, state.cycle);
+
+  useGlobalTimerStore.setState({
+    ...progress,
+    mode: next.mode,
+    theme: getPomodoroTheme(next.mode),
+    isRunning: false
+  });
+  state.setTime(seconds);
+  if (next.autoStart) useGlobalTimerStore.getState().start();
+
+  if (state.sessionId) await checkpointTimerSession(state.sessionId, progress);
+  return { ended: state.mode, next: next.mode };
+}
+
+/**
+ * Stop the timer, closing its session with the time counted so far
+ * A focus block stopped part way through counts as interrupted.
+ */
+export async function stopStudyTimer() {
+  const state = useGlobalTimerStore.getState();
+  const progress = getSessionProgress(state);
+  if (state.mode === 'pomodoro' && state.runStartedAt && getTimerElapsed(state) > 0) {
+    progress.interruptedPomodoros++;
+  }
+  state.reset();
+
+  if (state.sessionId) {
+    await closeTimerSession(state.sessionId, { endTime: new Date(), ...progress });
+  }
+}
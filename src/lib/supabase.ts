@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
+import { toDbClient } from '@shared/db-client';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 console.log('Supabase Config Check:');
 console.log('URL:', supabaseUrl ? (supabaseUrl.includes('your-project') ? 'Invalid (placeholder)' : 'Valid') : 'Missing');
@@ -37,6 +38,9 @@ export const supabase = createClient(
   }
 );
 
+// The client as the modules shared with Edge Functions take it
+export const sharedClient = toDbClient(supabase);
+
 export const isSupabaseConfigured = () => {
   return !configError;
 };
@@ -85,6 +89,8 @@ export type Database = {
           study_preferences: any;
           notification_settings: any;
           timezone: string;
+          streak_min_minutes: number;
+          streak_freezes: number;
           weekly_study_goal: number;
           created_at: string;
           updated_at: string;
@@ -107,6 +113,8 @@ export type Database = {
           study_preferences?: any;
           notification_settings?: any;
           timezone?: string;
+          streak_min_minutes?: number;
+          streak_freezes?: number;
           weekly_study_goal?: number;
           created_at?: string;
           updated_at?: string;
@@ -129,6 +137,8 @@ export type Database = {
           study_preferences?: any;
           notification_settings?: any;
           timezone?: string;
+          streak_min_minutes?: number;
+          streak_freezes?: number;
           weekly_study_goal?: number;
           created_at?: string;
           updated_at?: string;
@@ -148,6 +158,11 @@ export type Database = {
           total_study_time: number;
           difficulty_level: string;
           exam_date: string | null;
+          grade_scale_id: string | null;
+          credit_hours: number;
+          test_type_weights: Record<string, number>;
+          pomodoro_settings: Record<string, number | boolean> | null;
+          term_id: string | null;
           study_method_preferences: string[];
           performance_trend: string;
           created_at: string;
@@ -166,6 +181,11 @@ export type Database = {
           total_study_time?: number;
           difficulty_level?: string;
           exam_date?: string | null;
+          grade_scale_id?: string | null;
+          credit_hours?: number;
+          test_type_weights?: Record<string, number>;
+          pomodoro_settings?: Record<string, number | boolean> | null;
+          term_id?: string | null;
           study_method_preferences?: string[];
           performance_trend?: string;
           created_at?: string;
@@ -184,6 +204,11 @@ export type Database = {
           total_study_time?: number;
           difficulty_level?: string;
           exam_date?: string | null;
+          grade_scale_id?: string | null;
+          credit_hours?: number;
+          test_type_weights?: Record<string, number>;
+          pomodoro_settings?: Record<string, number | boolean> | null;
+          term_id?: string | null;
           study_method_preferences?: string[];
           performance_trend?: string;
           created_at?: string;
@@ -200,7 +225,11 @@ export type Database = {
           test_name: string;
           date: string;
           semester: string | null;
+          term_id: string | null;
           predicted_grade: string | null;
+          predicted_percentage: number | null;
+          predicted_low: number | null;
+          predicted_high: number | null;
           difficulty_rating: number | null;
           time_spent_minutes: number | null;
           notes: string | null;
@@ -218,7 +247,11 @@ export type Database = {
           test_name: string;
           date: string;
           semester?: string | null;
+          term_id?: string | null;
           predicted_grade?: string | null;
+          predicted_percentage?: number | null;
+          predicted_low?: number | null;
+          predicted_high?: number | null;
           difficulty_rating?: number | null;
           time_spent_minutes?: number | null;
           notes?: string | null;
@@ -236,7 +269,11 @@ export type Database = {
           test_name?: string;
           date?: string;
           semester?: string | null;
+          term_id?: string | null;
           predicted_grade?: string | null;
+          predicted_percentage?: number | null;
+          predicted_low?: number | null;
+          predicted_high?: number | null;
           difficulty_rating?: number | null;
           time_spent_minutes?: number | null;
           notes?: string | null;
@@ -0,0 +1,130 @@
+/**
+ * Terms (semesters): matching marks to terms and comparing terms
+ */
+
+import { GradeScale } from './grading';
+import { calculateGpaSummary, calculateWeightedAverage, GpaMark, GpaSubject } from './gpa';
+
+export interface Term {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  is_archived?: boolean | null;
+}
+
+export interface TermComparison {
+  termId: string;
+  termName: string;
+  startDate: string;
+  endDate: string;
+  isArchived: boolean;
+  average: number | null;
+  markCount: number;
+  studyHours: number;
+  gpa: number | null;
+}
+
+// Selector value for "don't filter by term"
+export const ALL_TERMS = 'all';
+
+/**
+ * Check whether a date falls within a term
+ * @param term - The term
+ * @param date - ISO date or timestamp; only the yyyy-MM-dd part is compared
+ */
+export const isDateInTerm = (term: Term, date: string): boolean => {
+  const day = date.slice(0, 10);
+  return day >= term.start_date && day <= term.end_date;
+};
+
+/**
+ * Find the term covering a date
+ * @param terms - The user's terms
+ * @param date - ISO date
+ * @returns The covering term, preferring unarchived and then the most recently started, or null
+ */
+export const getTermForDate = (terms: Term[], date: string): Term | null =>
+  [...terms]
+    .filter(term => isDateInTerm(term, date))
+    .sort((a, b) => Number(!!a.is_archived) - Number(!!b.is_archived) || b.start_date.localeCompare(a.start_date))[0] || null;
+
+/**
+ * Check whether a mark belongs to a term
+ * Marks saved with a term_id belong to that term; older marks without one are matched by date.
+ */
+export const isMarkInTerm = (mark: { term_id?: string | null; date: string }, term: Term): boolean =>
+  mark.term_id ? mark.term_id === term.id : isDateInTerm(term, mark.date);
+
+/**
+ * Find the term a mark belongs to
+ * @param terms - The user's terms
+ * @param mark - A mark with its term_id and date
+ * @returns The mark's term, or null if it isn't in one
+ */
+export const getMarkTerm = (terms: Term[], mark: { term_id?: string | null; date: string }): Term | null =>
+  mark.term_id ? terms.find(term => term.id === mark.term_id) || null : getTermForDate(terms, mark.date);
+
+/**
+ * Filter marks down to a term
+ * @param marks - Marks to filter
+ * @param terms - The user's terms
+ * @param termId - Selected term id, or ALL_TERMS
+ * @returns The marks in the term, or every mark when no single term is selected
+ */
+export const filterMarksByTerm = <T extends { term_id?: string | null; date: string }>(
+  marks: T[],
+  terms: Term[],
+  termId: string
+): T[] => {
+  const term = termId === ALL_TERMS ? null : terms.find(t => t.id === termId);
+  return term ? marks.filter(mark => isMarkInTerm(mark, term)) : marks;
+};
+
+/**
+ * Summarise each term for side-by-side comparison
+ * @param terms - Terms to compare
+ * @param subjects - Subjects with credit hours and weighting rules
+ * @param marks - All marks
+ * @param sessions - Study sessions with their start time and length
+ * @param getScale - Resolves the grade scale that applies to a subject
+ * @returns One row per term, oldest first
+ */
+export const compareTerms = (
+  terms: Term[],
+  subjects: GpaSubject[],
+  marks: Array<GpaMark & { term_id?: string | null; date: string }>,
+  sessions: Array<{ start_time: string; duration_minutes: number | null }>,
+  getScale: (subjectId: string) => GradeScale
+): TermComparison[] =>
+  [...terms]
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .map(term => {
+      const termMarks = marks.filter(mark => isMarkInTerm(mark, term));
+      const studyMinutes = sessions
+        .filter(session => isDateInTerm(term, session.start_time))
+        .reduce((total, session) => total + (session.duration_minutes || 0), 0);
+
+      // Course averages use each subject's weights, and the overall average weighs them by credits
+      const summary = calculateGpaSummary(
+        subjects,
+        termMarks.map(mark => ({ ...mark, semester: term.name })),
+        getScale
+      );
+      const courses = summary.semesters[0]?.courses || [];
+      const average = summary.totalCredits
+        ? courses.reduce((total, course) => total + course.average * course.credits, 0) / summary.totalCredits
+        : calculateWeightedAverage(termMarks);
+
+      return {
+        termId: term.id,
+        termName: term.name,
+        startDate: term.start_date,
+        endDate: term.end_date,
+        isArchived: !!term.is_archived,
+        average,
+        markCount: termMarks.length,
+        studyHours: Math.round((studyMinutes / 60) * 10) / 10,
+        gpa: summary.cumulativeGpa
+      };
+    });
@@ -1,18 +1,36 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_POMODORO_SETTINGS, PomodoroSettings } from "./pomodoro";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Global timer state to persist across navigation
+// Global timer state to persist across navigation, reloads and tabs
 export interface TimerState {
   isVisible: boolean;
   isRunning: boolean;
   mode: string;
+  // Seconds left and percent done, derived from the anchors below by sync()
   time: number;
   progress: number;
+  // Length of the current countdown in seconds
+  duration: number;
+  // Seconds counted before the current running stretch, i.e. across earlier pauses
+  elapsed: number;
+  // Wall-clock ms when the current running stretch began; null while paused
+  startedAt: number | null;
+  // Wall-clock ms when this countdown was first started; null until it is
+  runStartedAt: number | null;
+  // Settings for the Pomodoro cycle in progress
+  cycle: PomodoroSettings;
+  // Counts for the open session, which spans the whole cycle
+  completedPomodoros: number;
+  interruptedPomodoros: number;
+  // Focus seconds from earlier focus blocks in the session
+  focusedSeconds: number;
   userId: string | null;
   subjectId: string | null;
   sessionId: string | null;
@@ -30,9 +48,13 @@ export interface TimerState {
   // Actions
   setVisible: (visible: boolean) => void;
   setRunning: (running: boolean) => void;
+  start: () => void;
+  pause: () => void;
+  finish: () => void;
+  sync: () => number;
   setMode: (mode: string) => void;
   setTime: (time: number) => void;
-  setProgress: (progress: number) => void;
+  setCycle: (cycle: PomodoroSettings) => void;
   setUserId: (userId: string | null) => void;
   setSubjectId: (subjectId: string | null) => void;
   setSessionId: (sessionId: string | null) => void;
@@ -41,13 +63,57 @@ export interface TimerState {
   reset: () => void;
 }
 
-// Create global store for timer state
-export const useGlobalTimerStore = create<TimerState>((set) => ({
+type TimerData = Omit<TimerState, { [K in keyof TimerState]: TimerState[K] extends (...args: any[]) => any ? K : never }[keyof TimerState]>;
+
+const DEFAULT_TIMER_DURATION = 1500; // 25 minutes
+
+/**
+ * Seconds the timer has counted, including the stretch running now
+ */
+export const getTimerElapsed = (state: Pick<TimerState, 'elapsed' | 'startedAt'>, now = Date.now()): number =>
+  state.elapsed + (state.startedAt ? Math.max(0, now - state.startedAt) / 1000 : 0);
+
+/**
+ * Whole seconds left on the timer, never below zero
+ */
+export const getTimerRemaining = (state: Pick<TimerState, 'duration' | 'elapsed' | 'startedAt'>, now = Date.now()): number =>
+  Math.max(0, Math.ceil(state.duration - getTimerElapsed(state, now)));
+
+// The anchors that define the timer; time and progress are recomputed from them
+const pickTimerData = (state: TimerState): Partial<TimerData> => ({
+  isVisible: state.isVisible,
+  isRunning: state.isRunning,
+  mode: state.mode,
+  duration: state.duration,
+  elapsed: state.elapsed,
+  startedAt: state.startedAt,
+  runStartedAt: state.runStartedAt,
+  cycle: state.cycle,
+  completedPomodoros: state.completedPomodoros,
+  interruptedPomodoros: state.interruptedPomodoros,
+  focusedSeconds: state.focusedSeconds,
+  userId: state.userId,
+  subjectId: state.subjectId,
+  sessionId: state.sessionId,
+  theme: state.theme,
+  position: state.position
+});
+
+// Create global store for timer state, saved to localStorage so a reload picks up where it left off
+export const useGlobalTimerStore = create<TimerState>()(persist((set, get) => ({
   isVisible: false,
   isRunning: false,
   mode: 'pomodoro',
-  time: 1500, // 25 minutes default
+  time: DEFAULT_TIMER_DURATION,
   progress: 0,
+  duration: DEFAULT_TIMER_DURATION,
+  elapsed: 0,
+  startedAt: null,
+  runStartedAt: null,
+  cycle: DEFAULT_POMODORO_SETTINGS,
+  completedPomodoros: 0,
+  interruptedPomodoros: 0,
+  focusedSeconds: 0,
   userId: null,
   subjectId: null,
   sessionId: null,
@@ -64,10 +130,51 @@ export const useGlobalTimerStore = create<TimerState>((set) => ({
   },
   // Actions
   setVisible: (visible) => set({ isVisible: visible }),
-  setRunning: (running) => set({ isRunning: running }),
+  setRunning: (running) => (running ? get().start() : get().pause()),
+  start: () => {
+    const state = get();
+    if (state.isRunning) return;
+
+    const now = Date.now();
+    // Starting a finished countdown runs it again from the top
+    const isFinished = getTimerRemaining(state, now) <= 0;
+    set({
+      isRunning: true,
+      startedAt: now,
+      elapsed: isFinished ? 0 : state.elapsed,
+      runStartedAt: isFinished || !state.runStartedAt ? now : state.runStartedAt
+    });
+    get().sync();
+  },
+  pause: () => {
+    const state = get();
+    if (!state.isRunning) return;
+
+    set({ isRunning: false, elapsed: Math.min(state.duration, getTimerElapsed(state)), startedAt: null });
+    get().sync();
+  },
+  finish: () => set(state => ({ isRunning: false, elapsed: state.duration, startedAt: null, runStartedAt: null, time: 0, progress: 100 })),
+  sync: () => {
+    const state = get();
+    const time = getTimerRemaining(state);
+    const progress = state.duration > 0 ? Math.min(100, ((state.duration - time) / state.duration) * 100) : 0;
+    if (time !== state.time || progress !== state.progress) set({ time, progress });
+    return time;
+  },
   setMode: (mode) => set({ mode }),
-  setTime: (time) => set({ time }),
-  setProgress: (progress) => set({ progress }),
+  // Sets up a fresh countdown of the given length
+  setTime: (time) => set(state => {
+    const now = Date.now();
+    return {
+      time,
+      progress: 0,
+      duration: time,
+      elapsed: 0,
+      startedAt: state.isRunning ? now : null,
+      runStartedAt: state.isRunning ? now : null
+    };
+  }),
+  setCycle: (cycle) => set({ cycle }),
   setUserId: (userId) => set({ userId }),
   setSubjectId: (subjectId) => set({ subjectId }),
   setSessionId: (sessionId) => set({ sessionId }),
@@ -77,9 +184,45 @@ export const useGlobalTimerStore = create<TimerState>((set) => ({
     isVisible: false,
     isRunning: false,
     mode: 'pomodoro',
-    time: 1500,
+    time: DEFAULT_TIMER_DURATION,
     progress: 0,
+    duration: DEFAULT_TIMER_DURATION,
+    elapsed: 0,
+    startedAt: null,
+    runStartedAt: null,
+    completedPomodoros: 0,
+    interruptedPomodoros: 0,
+    focusedSeconds: 0,
     subjectId: null,
     sessionId: null
   })
-}));
\ No newline at end of file
+}), {
+  name: 'smartstudent-timer',
+  partialize: pickTimerData
+}));
+
+// Bring time and progress up to date with whatever was restored from storage
+useGlobalTimerStore.getState().sync();
+
+// Keep every open tab on the same timer. Only the anchors are sent, so the
+// once-a-second time updates stay local to each tab.
+if (typeof BroadcastChannel !== 'undefined') {
+  const channel = new BroadcastChannel('smartstudent-timer');
+  let isApplyingRemote = false;
+
+  channel.onmessage = (event: MessageEvent<Partial<TimerData>>) => {
+    isApplyingRemote = true;
+    useGlobalTimerStore.setState(event.data);
+    useGlobalTimerStore.getState().sync();
+    isApplyingRemote = false;
+  };
+
+  useGlobalTimerStore.subscribe((state, previous) => {
+    if (isApplyingRemote) return;
+    const data = pickTimerData(state);
+    const previousData = pickTimerData(previous);
+    if ((Object.keys(data) as Array<keyof TimerData>).some(key => data[key] !== previousData[key])) {
+      channel.postMessage(data);
+    }
+  });
+}
@@ -10,20 +10,43 @@ import { PerformanceChart } from "@/components/dashboard/performance-chart";
 import { SubjectBreakdown } from "@/components/dashboard/subject-breakdown";
 import { RecentMarks } from "@/components/dashboard/recent-marks";
 import { AddMarkDialog } from "@/components/dashboard/add-mark-dialog";
+import { ImportMarksDialog } from "@/components/dashboard/import-marks-dialog";
+import { DataArchiveDialog } from "@/components/dashboard/data-archive-dialog";
 import { GoalsWidget } from "@/components/dashboard/goals-widget";
 import { AchievementsWidget } from "@/components/dashboard/achievements-widget";
 import { StudyTimer } from "@/components/dashboard/study-timer";
 import { QuickNotes } from "@/components/dashboard/quick-notes";
 import { AIInsightsWidget } from "@/components/dashboard/ai-insights-widget";
 import { StudyPlanner } from "@/components/dashboard/study-planner";
+import { ExamCalendar } from "@/components/dashboard/exam-calendar";
+import { GpaSummary } from "@/components/dashboard/gpa-summary";
 import { FlashcardsWidget } from "@/components/dashboard/flashcards-widget";
 import { EnhancedSuggestions } from "@/components/dashboard/enhanced-suggestions";
 import { ContextAwareAI } from "@/components/dashboard/context-aware-ai";
 import { StudySessionList } from "@/components/dashboard/study-session-list";
+import { StudyImpact } from "@/components/dashboard/study-impact";
+import { StreakCalendar } from "@/components/dashboard/streak-calendar";
+import { StudyCoachChat } from "@/components/dashboard/study-coach-chat";
+import { DEFAULT_WEEKLY_STUDY_GOAL } from "@/lib/study-analytics";
 import { SubjectList } from "@/components/dashboard/subject-list";
+import { RemindersWidget } from "@/components/dashboard/reminders-widget";
+import { useReminderNotifications } from "@/hooks/use-reminder-notifications";
+import { useGoalProgressSync } from "@/hooks/use-goal-progress";
+import { useAchievementSync } from "@/hooks/use-achievement-sync";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+import { calculateWeightedAverage } from "@/lib/gpa";
+import { ALL_TERMS, filterMarksByTerm, Term } from "@/lib/terms";
+import { useTerms } from "@/hooks/use-terms";
+import { TermSelector } from "@/components/dashboard/term-selector";
+import { TermComparison } from "@/components/dashboard/term-comparison";
 import { 
   TrendingUp, 
   BookOpen, 
+  GraduationCap,
+  FileSpreadsheet,
+  FileText,
+  Download,
+  CalendarRange,
   Award, 
   Target, 
   Plus,
@@ -42,10 +65,11 @@ import {
   Bell,
   Loader2,
   ChevronDown,
-  DatabaseIcon
+  DatabaseIcon,
+  MessagesSquare
 } from "lucide-react";
 import { toast } from "sonner";
-import { startOfWeek, parseISO, format, subWeeks } from "date-fns";
+import { startOfWeek, parseISO, format, subWeeks, differenceInCalendarWeeks } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -91,7 +115,21 @@ interface Subject {
 export default function DashboardPage() {
   const navigate = useNavigate();
   const { user, loading: authLoading, signOut } = useAuth();
+  useReminderNotifications(user?.id);
+  useGoalProgressSync(user?.id);
+  useAchievementSync(user?.id);
+  const { getLetter } = useGradeScales();
+  const { terms } = useTerms();
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [allMarks, setAllMarks] = useState<any[]>([]);
+  // Each widget picks its own term; ALL_TERMS shows every mark
+  const [termFilters, setTermFilters] = useState({
+    trend: ALL_TERMS,
+    recent: ALL_TERMS,
+    subjects: ALL_TERMS,
+    performance: ALL_TERMS,
+    subjectPerformance: ALL_TERMS
+  });
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [userStats, setUserStats] = useState({
@@ -103,6 +141,8 @@ export default function DashboardPage() {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [showAddMark, setShowAddMark] = useState(false);
+  const [showImportMarks, setShowImportMarks] = useState(false);
+  const [showDataArchive, setShowDataArchive] = useState(false);
   const [showStudyTimeDialog, setShowStudyTimeDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
@@ -475,7 +515,8 @@ export default function DashboardPage() {
           subjects (
             id,
             name,
-            color
+            color,
+            test_type_weights
           )
         `)
         .eq('user_id', user!.id)
@@ -497,6 +538,7 @@ export default function DashboardPage() {
 
       console.log('Marks loaded:', marks?.length || 0);
       const analyticsData = processAnalytics(marks || []);
+      setAllMarks(marks || []);
       setAnalytics(analyticsData);
     } catch (error) {
       console.error("Error loading marks:", error);
@@ -599,7 +641,7 @@ export default function DashboardPage() {
       }
 
       const weeklyHours = Math.round(weeklyMinutes / 60);
-      const weeklyGoal = userStatsData?.weekly_study_goal || 12;
+      const weeklyGoal = userStatsData?.weekly_study_goal || DEFAULT_WEEKLY_STUDY_GOAL;
       const weeklyProgress = Math.min((weeklyHours / weeklyGoal) * 100, 100);
 
       // Get achievements data or use demo data
@@ -661,13 +703,13 @@ export default function DashboardPage() {
     }
   };
 
-  const processAnalytics = (marks: any[]): Analytics => {
+  const processAnalytics = (marks: any[], term?: Term): Analytics => {
     if (!marks || marks.length === 0) {
       return {
         totalMarks: 0,
         averageScore: 0,
         subjectPerformance: {},
-        weeklyTrend: generateEmptyWeeklyTrend(),
+        weeklyTrend: term ? generateWeeklyTrend([], term) : generateEmptyWeeklyTrend(),
         testTypePerformance: {},
         recentMarks: []
       };
@@ -682,25 +724,29 @@ export default function DashboardPage() {
       const subjectName = mark.subjects?.name || 'Unknown';
       if (!subjectPerformance[subjectName]) {
         subjectPerformance[subjectName] = {
+          id: mark.subject_id,
           name: subjectName,
           color: mark.subjects?.color || '#3B82F6',
+          weights: mark.subjects?.test_type_weights,
+          marks: [],
           scores: [],
           totalMarks: 0,
           averageScore: 0
         };
       }
+      subjectPerformance[subjectName].marks.push(mark);
       subjectPerformance[subjectName].scores.push(mark.percentage || 0);
       subjectPerformance[subjectName].totalMarks++;
     });
 
-    // Calculate averages for subjects
+    // Calculate averages for subjects, applying each subject's test-type weights
     Object.keys(subjectPerformance).forEach(subject => {
-      const scores = subjectPerformance[subject].scores;
-      subjectPerformance[subject].averageScore = scores.reduce((sum: number, score: number) => sum + score, 0) / scores.length;
+      const { marks: subjectMarks, weights } = subjectPerformance[subject];
+      subjectPerformance[subject].averageScore = calculateWeightedAverage(subjectMarks, weights) ?? 0;
     });
 
     // Weekly trend
-    const weeklyTrend = generateWeeklyTrend(marks);
+    const weeklyTrend = generateWeeklyTrend(marks, term);
 
     // Test type performance
     const testTypePerformance: Record<string, any> = {};
@@ -750,12 +796,17 @@ export default function DashboardPage() {
     return trend;
   };
 
-  const generateWeeklyTrend = (marks: any[]) => {
+  const generateWeeklyTrend = (marks: any[], term?: Term) => {
     const weeklyTrend = [];
     const now = new Date();
+    // A term's trend runs from its first week up to its end, or this week if it's still running
+    const lastWeek = term && parseISO(term.end_date) < now ? startOfWeek(parseISO(term.end_date)) : startOfWeek(now);
+    const weekCount = term
+      ? Math.max(differenceInCalendarWeeks(lastWeek, startOfWeek(parseISO(term.start_date))), 0)
+      : 7;
     
-    for (let i = 7; i >= 0; i--) {
-      const weekStart = startOfWeek(subWeeks(now, i));
+    for (let i = weekCount; i >= 0; i--) {
+      const weekStart = startOfWeek(subWeeks(lastWeek, i));
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekEnd.getDate() + 6);
       
@@ -821,13 +872,20 @@ export default function DashboardPage() {
     return `${mins}m`;
   };
 
-  const getGradeLetter = (score: number) => {
-    if (score >= 90) return "A";
-    if (score >= 80) return "B";
-    if (score >= 70) return "C";
-    if (score >= 60) return "D";
-    return "F";
+  const getGradeLetter = (score: number) => getLetter(score);
+
+  const getTermAnalytics = (termId: string) => {
+    const term = terms.find(t => t.id === termId);
+    return term ? processAnalytics(filterMarksByTerm(allMarks, terms, termId), term) : analytics;
   };
+  const trendAnalytics = getTermAnalytics(termFilters.trend);
+  const recentAnalytics = getTermAnalytics(termFilters.recent);
+  const subjectAnalytics = getTermAnalytics(termFilters.subjects);
+  const performanceAnalytics = getTermAnalytics(termFilters.performance);
+  const subjectPerformanceAnalytics = getTermAnalytics(termFilters.subjectPerformance);
+
+  const setTermFilter = (widget: keyof typeof termFilters) => (termId: string) =>
+    setTermFilters(prev => ({ ...prev, [widget]: termId }));
 
   if (authLoading || !user) {
     return (
@@ -1027,6 +1085,22 @@ export default function DashboardPage() {
                       <Plus className="h-4 w-4 mr-2" />
                       Add New Mark
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowImportMarks(true)} className="cursor-pointer">
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      Import Marks
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowDataArchive(true)} className="cursor-pointer">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export / Import Data
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/report')} className="cursor-pointer">
+                      <FileText className="h-4 w-4 mr-2" />
+                      Progress Report
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/analytics')} className="cursor-pointer">
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      Study Analytics
+                    </DropdownMenuItem>
                     <DropdownMenuItem className="cursor-pointer">
                       <User className="h-4 w-4 mr-2" />
                       My Profile
@@ -1077,10 +1151,18 @@ export default function DashboardPage() {
                 <Clock className="h-4 w-4 text-blue-600" />
                 <span className="text-sm text-gray-600">Study Time: <span className="font-medium">{formatStudyTime(userStats.totalStudyTime)}</span></span>
               </div>
-              <div className="flex items-center gap-2">
-                <Flame className="h-4 w-4 text-orange-500" />
-                <span className="text-sm text-gray-600">Streak: <span className="font-medium">{userStats.currentStreak} days</span></span>
-              </div>
+              {user ? (
+                <StreakCalendar
+                  userId={user.id}
+                  currentStreak={userStats.currentStreak}
+                  onStreakChange={(currentStreak) => setUserStats(prev => ({ ...prev, currentStreak }))}
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Flame className="h-4 w-4 text-orange-500" />
+                  <span className="text-sm text-gray-600">Streak: <span className="font-medium">{userStats.currentStreak} days</span></span>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <Target className="h-4 w-4 text-purple-600" />
                 <span className="text-sm text-gray-600">Weekly Progress: <span className="font-medium">{userStats.weeklyProgress.toFixed(0)}%</span></span>
@@ -1319,20 +1401,23 @@ export default function DashboardPage() {
           <TabsContent value="overview" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               <Card className="bg-white shadow-md rounded-xl border-0 lg:col-span-2 hover:shadow-lg transition-all">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <TrendingUp className="h-5 w-5 text-blue-600" />
-                    <span>Performance Trend</span>
-                  </CardTitle>
-                  <CardDescription>Your weekly performance over time</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <TrendingUp className="h-5 w-5 text-blue-600" />
+                      <span>Performance Trend</span>
+                    </CardTitle>
+                    <CardDescription>Your weekly performance over time</CardDescription>
+                  </div>
+                  <TermSelector value={termFilters.trend} onChange={setTermFilter('trend')} />
                 </CardHeader>
                 <CardContent>
                   {isLoading ? (
                     <div className="h-[300px] flex items-center justify-center">
                       <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
                     </div>
-                  ) : analytics ? (
-                    <PerformanceChart data={analytics.weeklyTrend} />
+                  ) : trendAnalytics ? (
+                    <PerformanceChart data={trendAnalytics.weeklyTrend} />
                   ) : (
                     <div className="text-center py-12 text-gray-500">No performance data available</div>
                   )}
@@ -1340,12 +1425,15 @@ export default function DashboardPage() {
               </Card>
               
               <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <Star className="h-5 w-5 text-yellow-500" />
-                    <span>Recent Marks</span>
-                  </CardTitle>
-                  <CardDescription>Your latest test results</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Star className="h-5 w-5 text-yellow-500" />
+                      <span>Recent Marks</span>
+                    </CardTitle>
+                    <CardDescription>Your latest test results</CardDescription>
+                  </div>
+                  <TermSelector value={termFilters.recent} onChange={setTermFilter('recent')} />
                 </CardHeader>
                 <CardContent>
                   {isLoading ? (
@@ -1354,14 +1442,19 @@ export default function DashboardPage() {
                         <Skeleton key={i} className="h-16 w-full" />
                       ))}
                     </div>
-                  ) : analytics?.recentMarks && analytics.recentMarks.length > 0 ? (
-                    <RecentMarks marks={analytics.recentMarks} />
+                  ) : recentAnalytics?.recentMarks && recentAnalytics.recentMarks.length > 0 ? (
+                    <RecentMarks marks={recentAnalytics.recentMarks} />
                   ) : (
                     <div className="text-center py-12 text-gray-500">
                       <div className="mb-2">No marks recorded yet</div>
-                      <Button onClick={() => setShowAddMark(true)} variant="outline" size="sm">
-                        <Plus className="h-4 w-4 mr-1" /> Add Your First Mark
-                      </Button>
+                      <div className="flex justify-center gap-2">
+                        <Button onClick={() => setShowAddMark(true)} variant="outline" size="sm">
+                          <Plus className="h-4 w-4 mr-1" /> Add Your First Mark
+                        </Button>
+                        <Button onClick={() => setShowImportMarks(true)} variant="outline" size="sm">
+                          <FileSpreadsheet className="h-4 w-4 mr-1" /> Import
+                        </Button>
+                      </div>
                     </div>
                   )}
                 </CardContent>
@@ -1370,18 +1463,21 @@ export default function DashboardPage() {
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <BookOpen className="h-5 w-5 text-emerald-600" />
-                    <span>Subject Breakdown</span>
-                  </CardTitle>
-                  <CardDescription>Performance across different subjects</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <BookOpen className="h-5 w-5 text-emerald-600" />
+                      <span>Subject Breakdown</span>
+                    </CardTitle>
+                    <CardDescription>Performance across different subjects</CardDescription>
+                  </div>
+                  <TermSelector value={termFilters.subjects} onChange={setTermFilter('subjects')} />
                 </CardHeader>
                 <CardContent>
                   {isLoading ? (
                     <Skeleton className="h-[300px] w-full" />
-                  ) : analytics ? (
-                    <SubjectBreakdown data={analytics.subjectPerformance} />
+                  ) : subjectAnalytics ? (
+                    <SubjectBreakdown data={subjectAnalytics.subjectPerformance} userId={user.id} />
                   ) : (
                     <div className="text-center py-12 text-gray-500">No subject data available</div>
                   )}
@@ -1414,20 +1510,23 @@ export default function DashboardPage() {
           <TabsContent value="performance" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <BarChart3 className="h-5 w-5 text-blue-600" />
-                    <span>Performance Analytics</span>
-                  </CardTitle>
-                  <CardDescription>Detailed breakdown of your academic performance</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <BarChart3 className="h-5 w-5 text-blue-600" />
+                      <span>Performance Analytics</span>
+                    </CardTitle>
+                    <CardDescription>Detailed breakdown of your academic performance</CardDescription>
+                  </div>
+                  <TermSelector value={termFilters.performance} onChange={setTermFilter('performance')} />
                 </CardHeader>
                 <CardContent>
                   {isLoading ? (
                     <div className="h-[300px] flex items-center justify-center">
                       <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
                     </div>
-                  ) : analytics ? (
-                    <PerformanceChart data={analytics.weeklyTrend} />
+                  ) : performanceAnalytics ? (
+                    <PerformanceChart data={performanceAnalytics.weeklyTrend} />
                   ) : (
                     <div className="text-center py-12 text-gray-500">No performance data available</div>
                   )}
@@ -1448,6 +1547,45 @@ export default function DashboardPage() {
               </Card>
             </div>
             
+            <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+              <CardHeader className="border-b pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <GraduationCap className="h-5 w-5 text-blue-600" />
+                  <span>GPA</span>
+                </CardTitle>
+                <CardDescription>Credit-weighted GPA by semester, using each subject's grading rules</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-4">
+                <GpaSummary userId={user.id} onRulesChanged={loadMarksAndAnalytics} />
+              </CardContent>
+            </Card>
+            
+            <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+              <CardHeader className="border-b pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <CalendarRange className="h-5 w-5 text-purple-600" />
+                  <span>Term Comparison</span>
+                </CardTitle>
+                <CardDescription>Averages, GPA and study hours term over term</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-4">
+                <TermComparison userId={user.id} />
+              </CardContent>
+            </Card>
+            
+            <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+              <CardHeader className="border-b pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Clock className="h-5 w-5 text-orange-500" />
+                  <span>Study Time vs Marks</span>
+                </CardTitle>
+                <CardDescription>How the study you put in before each assessment has lined up with the result</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-4">
+                <StudyImpact userId={user.id} />
+              </CardContent>
+            </Card>
+            
             <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
               <CardHeader className="border-b pb-3">
                 <CardTitle className="flex items-center gap-2 text-lg">
@@ -1495,18 +1633,21 @@ export default function DashboardPage() {
           <TabsContent value="subjects" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all lg:col-span-2">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <BookOpen className="h-5 w-5 text-purple-600" />
-                    <span>Subject Performance</span>
-                  </CardTitle>
-                  <CardDescription></CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <BookOpen className="h-5 w-5 text-purple-600" />
+                      <span>Subject Performance</span>
+                    </CardTitle>
+                    <CardDescription></CardDescription>
+                  </div>
+                  <TermSelector value={termFilters.subjectPerformance} onChange={setTermFilter('subjectPerformance')} />
                 </CardHeader>
                 <CardContent>
                   {isLoading ? (
                     <Skeleton className="h-[300px] w-full" />
-                  ) : analytics ? (
-                    <SubjectBreakdown data={analytics.subjectPerformance} />
+                  ) : subjectPerformanceAnalytics ? (
+                    <SubjectBreakdown data={subjectPerformanceAnalytics.subjectPerformance} userId={user.id} />
                   ) : (
                     <div className="text-center py-12 text-gray-500">No subject data available</div>
                   )}
@@ -1565,14 +1706,6 @@ export default function DashboardPage() {
                   <StudySessionList 
                     userId={user.id} 
                     limit={10} 
-                    onSessionsLoaded={(totalMinutes) => {
-                      if (totalMinutes > 0) {
-                        setUserStats(prev => ({
-                          ...prev,
-                          totalStudyTime: totalMinutes
-                        }));
-                      }
-                    }}
                   />
                 </CardContent>
               </Card>
@@ -1590,6 +1723,23 @@ export default function DashboardPage() {
                 </CardContent>
               </Card>
             </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Calendar className="h-5 w-5 text-red-500" />
+                    <span>Exam Calendar</span>
+                  </CardTitle>
+                  <CardDescription>Countdowns to your exams and a revision plan to match</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ExamCalendar userId={user.id} />
+                </CardContent>
+              </Card>
+
+              <StudyPlanner userId={user.id} subjects={subjects} />
+            </div>
           </TabsContent>
 
           <TabsContent value="goals" className="space-y-6">
@@ -1620,6 +1770,19 @@ export default function DashboardPage() {
                 </CardContent>
               </Card>
             </div>
+
+            <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Bell className="h-5 w-5 text-indigo-600" />
+                  <span>Reminders</span>
+                </CardTitle>
+                <CardDescription>Schedule one-off and recurring reminders</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RemindersWidget userId={user.id} />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="ai-insights" className="space-y-6">
@@ -1636,6 +1799,19 @@ export default function DashboardPage() {
                 <ContextAwareAI userId={user.id} updateCounter={aiRefreshCounter} />
               </CardContent>
             </Card>
+
+            <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <MessagesSquare className="h-5 w-5 text-indigo-600" />
+                  <span>Study Coach</span>
+                </CardTitle>
+                <CardDescription>Chat about your marks, study habits and plans</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StudyCoachChat userId={user.id} />
+              </CardContent>
+            </Card>
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card className="bg-white shadow-md rounded-xl border-0 hover:shadow-lg transition-all">
@@ -1674,6 +1850,20 @@ export default function DashboardPage() {
         onSuccess={loadDashboardData}
         userId={user.id}
       />
+      
+      <ImportMarksDialog
+        open={showImportMarks}
+        onOpenChange={setShowImportMarks}
+        onSuccess={loadDashboardData}
+        userId={user.id}
+      />
+      
+      <DataArchiveDialog
+        open={showDataArchive}
+        onOpenChange={setShowDataArchive}
+        onImported={loadDashboardData}
+        userId={user.id}
+      />
 
       <Dialog open={showStudyTimeDialog} onOpenChange={setShowStudyTimeDialog}>
         <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
@@ -1708,14 +1898,6 @@ export default function DashboardPage() {
                 userId={user.id} 
                 limit={15}
                 className="max-h-[400px] overflow-y-auto pr-1 custom-scrollbar"
-                onSessionsLoaded={(totalMinutes) => {
-                  if (totalMinutes > 0) {
-                    setUserStats(prev => ({
-                      ...prev,
-                      totalStudyTime: totalMinutes
-                    }));
-                  }
-                }}
               />
             </div>
           </div>
@@ -0,0 +1,323 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { format, parseISO, subMonths } from "date-fns";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useGradeScales } from "@/hooks/use-grade-scales";
+import { useTerms } from "@/hooks/use-terms";
+import { supabase } from "@/lib/supabase";
+import {
+  buildProgressReport,
+  ReportGoal,
+  ReportInsight,
+  ReportMark,
+  ReportPeriod,
+  ReportSession,
+  ReportSubject,
+} from "@/lib/progress-report";
+
+// Period selector value for a hand-picked date range
+const CUSTOM_RANGE = 'custom';
+
+// Charts are drawn at a fixed size so they lay out the same on screen and on paper
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 200;
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
+
+export default function ReportPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { getScale, isLoaded: scalesLoaded } = useGradeScales();
+  const { terms, currentTerm, isLoaded: termsLoaded } = useTerms();
+  const [periodId, setPeriodId] = useState<string | null>(null);
+  const [range, setRange] = useState({
+    from: format(subMonths(new Date(), 3), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [profile, setProfile] = useState<{ name: string | null; school: string | null; grade: string | null } | null>(null);
+  const [data, setData] = useState<{
+    subjects: ReportSubject[];
+    marks: ReportMark[];
+    sessions: ReportSession[];
+    goals: ReportGoal[];
+    insights: ReportInsight[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (user) loadData(user.id);
+  }, [user]);
+
+  // Start on the current term once terms are known, or a custom range if there isn't one
+  useEffect(() => {
+    if (termsLoaded && periodId === null) setPeriodId(currentTerm?.id ?? CUSTOM_RANGE);
+  }, [termsLoaded, currentTerm, periodId]);
+
+  const loadData = async (userId: string) => {
+    try {
+      const [profileRes, subjectsRes, marksRes, sessionsRes, goalsRes, insightsRes] = await Promise.all([
+        supabase.from('users').select('name, school, grade').eq('id', userId).single(),
+        supabase.from('subjects').select('id, name, code, color, credit_hours, test_type_weights').eq('user_id', userId),
+        supabase.from('marks').select('subject_id, percentage, test_type, date, term_id').eq('user_id', userId),
+        supabase.from('study_sessions').select('subject_id, start_time, duration_minutes').eq('user_id', userId),
+        supabase.from('goals').select('id, title, target_score, current_score, target_date, status, updated_at').eq('user_id', userId),
+        supabase.from('ai_insights').select('id, insight_type, title, content, priority, created_at').eq('user_id', userId)
+          .order('created_at', { ascending: false }).limit(50)
+      ]);
+
+      if (subjectsRes.error) throw subjectsRes.error;
+      if (marksRes.error) throw marksRes.error;
+      if (sessionsRes.error) throw sessionsRes.error;
+      if (goalsRes.error) throw goalsRes.error;
+      // Insights are optional; a project without the AI tables still gets a report
+      if (insightsRes.error) console.warn("Couldn't load AI insights for the report:", insightsRes.error.message);
+
+      setProfile(profileRes.data || null);
+      setData({
+        subjects: subjectsRes.data || [],
+        marks: marksRes.data || [],
+        sessions: sessionsRes.data || [],
+        goals: goalsRes.data || [],
+        insights: insightsRes.data || []
+      });
+    } catch (error) {
+      console.error("Error loading report data:", error);
+      setData({ subjects: [], marks: [], sessions: [], goals: [], insights: [] });
+    }
+  };
+
+  const selectedTerm = terms.find(term => term.id === periodId) || null;
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+  const period: ReportPeriod | null = selectedTerm
+    ? { label: selectedTerm.name, start_date: selectedTerm.start_date, end_date: selectedTerm.end_date, term: selectedTerm }
+    : isRangeValid
+      ? {
+          label: `${format(parseISO(range.from), 'MMM d, yyyy')} – ${format(parseISO(range.to), 'MMM d, yyyy')}`,
+          start_date: range.from,
+          end_date: range.to
+        }
+      : null;
+
+  if (!data || !scalesLoaded || periodId === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const report = period ? buildProgressReport(period, data, getScale) : null;
+
+  return (
+    <div className="min-h-screen bg-slate-100 print:bg-white">
+      <div className="print:hidden bg-white border-b shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-end gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Dashboard
+          </Button>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Report period</Label>
+            <Select value={periodId} onValueChange={setPeriodId}>
+              <SelectTrigger className="h-9 w-[180px]" aria-label="Report period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {terms.map(term => (
+                  <SelectItem key={term.id} value={term.id}>
+                    {term.name}{term.is_archived ? ' (archived)' : ''}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_RANGE}>Custom dates</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!selectedTerm && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="report-from" className="text-xs text-gray-500">From</Label>
+                <Input
+                  id="report-from"
+                  type="date"
+                  className="h-9"
+                  value={range.from}
+                  onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="report-to" className="text-xs text-gray-500">To</Label>
+                <Input
+                  id="report-to"
+                  type="date"
+                  className="h-9"
+                  value={range.to}
+                  onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+
+          <Button onClick={() => window.print()} disabled={!report} className="ml-auto bg-blue-600 hover:bg-blue-700">
+            <Printer className="h-4 w-4 mr-2" /> Print / Save as PDF
+          </Button>
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="text-center text-gray-500 py-16">Choose a start date on or before the end date.</p>
+      ) : (
+        <main className="max-w-4xl mx-auto my-6 bg-white text-gray-900 shadow-sm rounded-lg p-10 space-y-8 print:m-0 print:p-0 print:shadow-none print:rounded-none">
+          <header className="flex items-start justify-between border-b pb-4">
+            <div>
+              <h1 className="text-2xl font-bold">Progress Report</h1>
+              <p className="text-gray-600">{report.period.label}</p>
+            </div>
+            <div className="text-right text-sm text-gray-600">
+              <p className="font-medium text-gray-900">{profile?.name || user?.user_metadata?.name || user?.email}</p>
+              {(profile?.school || profile?.grade) && (
+                <p>{[profile?.school, profile?.grade].filter(Boolean).join(' · ')}</p>
+              )}
+              <p>Issued {format(new Date(), 'MMM d, yyyy')}</p>
+            </div>
+          </header>
+
+          <section className="grid grid-cols-4 gap-4 text-center report-keep-together">
+            {[
+              { label: 'Overall average', value: report.overallAverage !== null ? `${report.overallAverage.toFixed(1)}%` : '-' },
+              { label: 'GPA', value: report.gpa !== null ? report.gpa.toFixed(2) : '-' },
+              { label: 'Assessments', value: report.markCount },
+              { label: 'Study time', value: formatHours(report.studyMinutes) }
+            ].map(tile => (
+              <div key={tile.label} className="rounded-md border p-3">
+                <p className="text-xs uppercase tracking-wide text-gray-500">{tile.label}</p>
+                <p className="text-xl font-semibold mt-1">{tile.value}</p>
+              </div>
+            ))}
+          </section>
+
+          <section className="report-keep-together">
+            <h2 className="text-lg font-semibold mb-2">Subjects</h2>
+            {report.subjects.length === 0 ? (
+              <p className="text-sm text-gray-500">No marks or study sessions in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-2 font-medium">Subject</th>
+                    <th className="py-2 px-2 font-medium text-right">Average</th>
+                    <th className="py-2 px-2 font-medium text-center">Grade</th>
+                    <th className="py-2 px-2 font-medium text-right">Assessments</th>
+                    <th className="py-2 pl-2 font-medium text-right">Study time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.subjects.map(row => (
+                    <tr key={row.subjectId} className="border-b last:border-0">
+                      <td className="py-2 pr-2">
+                        <div className="flex items-center gap-2">
+                          <span className="h-2.5 w-2.5 rounded-full print-color-exact" style={{ backgroundColor: row.color }} />
+                          <span className="font-medium">{row.name}</span>
+                          {row.code && <span className="text-xs text-gray-500">{row.code}</span>}
+                        </div>
+                      </td>
+                      <td className="py-2 px-2 text-right">{row.average !== null ? `${row.average.toFixed(1)}%` : '-'}</td>
+                      <td className="py-2 px-2 text-center font-semibold">{row.letter ?? '-'}</td>
+                      <td className="py-2 px-2 text-right">{row.markCount}</td>
+                      <td className="py-2 pl-2 text-right">{formatHours(row.studyMinutes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="report-keep-together">
+            <h2 className="text-lg font-semibold mb-2">Performance trend</h2>
+            {report.markCount === 0 ? (
+              <p className="text-sm text-gray-500">No marks recorded in this period.</p>
+            ) : (
+              <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={report.weeklyTrend} className="print-color-exact">
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} width={32} />
+                {/* Weeks without marks are skipped rather than plotted as zero */}
+                <Line
+                  type="monotone"
+                  dataKey={(week: { average: number; count: number }) => (week.count > 0 ? week.average : null)}
+                  name="Average %"
+                  stroke="#3B82F6"
+                  strokeWidth={2}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            )}
+          </section>
+
+          <section className="report-keep-together">
+            <h2 className="text-lg font-semibold mb-2">Study time</h2>
+            {report.studySessionCount === 0 ? (
+              <p className="text-sm text-gray-500">No study sessions logged in this period.</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 mb-2">
+                  {formatHours(report.studyMinutes)} over {report.studySessionCount} session{report.studySessionCount === 1 ? '' : 's'}
+                </p>
+                <BarChart
+                  width={CHART_WIDTH}
+                  height={CHART_HEIGHT}
+                  data={report.studyByWeek.map(week => ({ ...week, hours: Math.round((week.minutes / 60) * 10) / 10 }))}
+                  className="print-color-exact"
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} width={32} />
+                  <Bar dataKey="hours" name="Hours" fill="#10B981" radius={[3, 3, 0, 0]} isAnimationActive={false} />
+                </BarChart>
+              </>
+            )}
+          </section>
+
+          <section className="report-keep-together">
+            <h2 className="text-lg font-semibold mb-2">Goals completed</h2>
+            {report.completedGoals.length === 0 ? (
+              <p className="text-sm text-gray-500">No goals completed in this period.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {report.completedGoals.map(goal => (
+                  <li key={goal.id} className="flex justify-between border-b last:border-0 py-1.5">
+                    <span className="font-medium">{goal.title}</span>
+                    <span className="text-gray-600">
+                      Target {goal.target_score}% · completed {format(parseISO(goal.updated_at), 'MMM d, yyyy')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {report.insights.length > 0 && (
+            <section className="report-keep-together">
+              <h2 className="text-lg font-semibold mb-2">Insights</h2>
+              <div className="space-y-3">
+                {report.insights.map(insight => (
+                  <div key={insight.id} className="text-sm">
+                    <p className="font-medium">{insight.title}</p>
+                    <p className="text-gray-700">{insight.content}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">{format(parseISO(insight.created_at), 'MMM d, yyyy')}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </main>
+      )}
+    </div>
+  );
+}
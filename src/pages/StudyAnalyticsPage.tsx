@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer, Cell } from "recharts";
+import { format, parseISO, startOfWeek, subWeeks } from "date-fns";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/components/providers/auth-provider";
+import { supabase } from "@/lib/supabase";
+import {
+  AnalyticsSession,
+  AnalyticsSubject,
+  buildHourOfWeekMatrix,
+  buildStudyHeatmap,
+  buildSubjectWeeklyTotals,
+  buildWeeklyGoalProgress,
+  calculateConsistencyScore,
+  DEFAULT_WEEKLY_STUDY_GOAL,
+  getPreferredStudyTimes,
+} from "@/lib/study-analytics";
+
+// The heatmap always covers a year, like a contribution graph
+const HEATMAP_WEEKS = 53;
+
+const RANGE_OPTIONS = [
+  { weeks: 4, label: 'Last 4 weeks' },
+  { weeks: 12, label: 'Last 12 weeks' },
+  { weeks: 26, label: 'Last 6 months' },
+];
+
+const HEATMAP_COLORS = ['bg-gray-100', 'bg-emerald-200', 'bg-emerald-400', 'bg-emerald-600', 'bg-emerald-800'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+export default function StudyAnalyticsPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [weeks, setWeeks] = useState(12);
+  const [data, setData] = useState<{
+    sessions: AnalyticsSession[];
+    subjects: AnalyticsSubject[];
+    weeklyGoal: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    loadData(user.id);
+
+    const handleRefresh = () => loadData(user.id);
+    window.addEventListener('refresh-study-sessions', handleRefresh);
+    return () => window.removeEventListener('refresh-study-sessions', handleRefresh);
+  }, [user]);
+
+  const loadData = async (userId: string) => {
+    try {
+      const [sessionsRes, subjectsRes, userRes] = await Promise.all([
+        supabase.from('study_sessions').select('subject_id, start_time, duration_minutes').eq('user_id', userId),
+        supabase.from('subjects').select('id, name, color').eq('user_id', userId),
+        supabase.from('users').select('weekly_study_goal').eq('id', userId).single()
+      ]);
+
+      if (sessionsRes.error) throw sessionsRes.error;
+      if (subjectsRes.error) throw subjectsRes.error;
+
+      setData({
+        sessions: sessionsRes.data || [],
+        subjects: subjectsRes.data || [],
+        weeklyGoal: Number(userRes.data?.weekly_study_goal) || DEFAULT_WEEKLY_STUDY_GOAL
+      });
+    } catch (error) {
+      console.error("Error loading study analytics:", error);
+      setData({ sessions: [], subjects: [], weeklyGoal: DEFAULT_WEEKLY_STUDY_GOAL });
+    }
+  };
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const since = subWeeks(startOfWeek(new Date()), weeks - 1);
+  const rangeSessions = data.sessions.filter(session => new Date(session.start_time) >= since);
+  const rangeMinutes = rangeSessions.reduce((total, session) => total + (session.duration_minutes || 0), 0);
+
+  const heatmap = buildStudyHeatmap(data.sessions, HEATMAP_WEEKS);
+  const heatmapMinutes = heatmap.flat().reduce((total, day) => total + (day?.minutes || 0), 0);
+  const matrix = buildHourOfWeekMatrix(data.sessions, since);
+  const matrixMax = Math.max(0, ...matrix.flat());
+  const subjectTotals = buildSubjectWeeklyTotals(data.sessions, data.subjects, weeks);
+  const goalProgress = buildWeeklyGoalProgress(data.sessions, data.weeklyGoal, weeks);
+  const thisWeek = goalProgress[goalProgress.length - 1];
+  const weeksMet = goalProgress.filter(week => week.met).length;
+  const preferredTimes = getPreferredStudyTimes(rangeSessions);
+  const consistency = calculateConsistencyScore(data.sessions);
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <div className="bg-white border-b shadow-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Dashboard
+          </Button>
+          <h1 className="text-lg font-semibold">Study Analytics</h1>
+          <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+            <SelectTrigger className="h-9 w-[160px] ml-auto" aria-label="Range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.weeks} value={String(option.weeks)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 space-y-6">
+        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-xs uppercase tracking-wide text-gray-500">This week</p>
+              <p className="text-2xl font-semibold mt-1">{thisWeek.hours}h</p>
+              <Progress value={Math.min(100, (thisWeek.hours / data.weeklyGoal) * 100)} className="h-2 mt-2" />
+              <p className="text-xs text-gray-500 mt-1">of a {data.weeklyGoal}h weekly goal</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Study time</p>
+              <p className="text-2xl font-semibold mt-1">{formatDuration(rangeMinutes)}</p>
+              <p className="text-xs text-gray-500 mt-1">{rangeSessions.length} sessions</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Consistency</p>
+              <p className="text-2xl font-semibold mt-1">{consistency}%</p>
+              <p className="text-xs text-gray-500 mt-1">of days studied, last 2 weeks</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Usual study time</p>
+              <p className="text-2xl font-semibold mt-1">{preferredTimes[0] || '-'}</p>
+              <p className="text-xs text-gray-500 mt-1">{preferredTimes.slice(1).join(', ') || 'No other pattern yet'}</p>
+            </CardContent>
+          </Card>
+        </section>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Daily study</CardTitle>
+            <CardDescription>{formatDuration(heatmapMinutes)} over the last year</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <div className="flex gap-[3px] min-w-max">
+                <div className="flex flex-col gap-[3px] mr-1 text-[10px] text-gray-400">
+                  <span className="h-4" />
+                  {DAY_LABELS.map((day, i) => (
+                    <span key={day} className="h-3 leading-3">{i % 2 === 1 ? day : ''}</span>
+                  ))}
+                </div>
+                {heatmap.map((column, w) => {
+                  const firstDay = column[0];
+                  const showMonth = firstDay && (w === 0 || parseISO(firstDay.date).getDate() <= 7);
+                  return (
+                    <div key={w} className="flex flex-col gap-[3px]">
+                      <span className="h-4 text-[10px] text-gray-400 leading-4">
+                        {showMonth ? format(parseISO(firstDay.date), 'MMM') : ''}
+                      </span>
+                      {column.map((day, d) => day ? (
+                        <div
+                          key={day.date}
+                          className={`h-3 w-3 rounded-sm ${HEATMAP_COLORS[day.level]}`}
+                          title={`${format(parseISO(day.date), 'EEE, MMM d, yyyy')}: ${day.minutes > 0 ? formatDuration(day.minutes) : 'no study'}`}
+                        />
+                      ) : (
+                        <div key={d} className="h-3 w-3" />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-1 mt-3 text-[10px] text-gray-500">
+              Less
+              {HEATMAP_COLORS.map(color => <span key={color} className={`h-3 w-3 rounded-sm ${color}`} />)}
+              More
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Time of week</CardTitle>
+            <CardDescription>When your study time falls, by day and hour</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {matrixMax === 0 ? (
+              <p className="text-center text-gray-500 py-8">No study sessions in this range yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="border-separate border-spacing-[2px] text-[10px] text-gray-500">
+                  <thead>
+                    <tr>
+                      <th />
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <th key={hour} className="font-normal w-5">{hour % 3 === 0 ? hour : ''}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.map((hours, day) => (
+                      <tr key={day}>
+                        <td className="pr-2">{DAY_LABELS[day]}</td>
+                        {hours.map((minutes, hour) => (
+                          <td
+                            key={hour}
+                            className="h-5 w-5 rounded-sm bg-blue-600"
+                            style={{ opacity: minutes > 0 ? 0.15 + 0.85 * (minutes / matrixMax) : 0.05 }}
+                            title={`${DAY_LABELS[day]} ${String(hour).padStart(2, '0')}:00: ${formatDuration(minutes)}`}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By subject</CardTitle>
+              <CardDescription>Minutes studied each week</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {subjectTotals.series.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No study sessions in this range yet</p>
+              ) : (
+                <div className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={subjectTotals.data}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                      <YAxis tick={{ fontSize: 11 }} />
+                      <Tooltip formatter={(value: number) => formatDuration(value)} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      {subjectTotals.series.map(series => (
+                        <Bar key={series.key} dataKey={series.key} name={series.name} stackId="subjects" fill={series.color} />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Weekly goal</CardTitle>
+              <CardDescription>Goal met in {weeksMet} of the last {weeks} weeks</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[260px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={goalProgress}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value: number) => `${value}h`} />
+                    <ReferenceLine y={data.weeklyGoal} stroke="#F59E0B" strokeDasharray="4 4" label={{ value: 'Goal', fontSize: 11, position: 'insideTopRight' }} />
+                    <Bar dataKey="hours" name="Hours" radius={[4, 4, 0, 0]}>
+                      {goalProgress.map(week => (
+                        <Cell key={week.week} fill={week.met ? '#10B981' : '#3B82F6'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Student datasets for tests, and a client that serves them in place of Supabase
+ */
+
+import type { DbClient, DbQuery, DbResponse, DbTable } from '@shared/db-client';
+
+type FixtureRow = Record<string, unknown>;
+
+export interface StudentFixture {
+  userId: string;
+  // Rows per table, as the queries in student-analytics select them
+  tables: Record<string, FixtureRow[]>;
+}
+
+// Every fixture is read as of this instant
+export const FIXTURE_NOW = new Date('2025-07-15T12:00:00Z');
+
+const daysAgo = (days: number, time = '12:00:00') => {
+  const date = new Date(FIXTURE_NOW.getTime() - days * 24 * 60 * 60 * 1000);
+  return `${date.toISOString().slice(0, 10)}T${time}Z`;
+};
+
+const dayKey = (days: number) => daysAgo(days).slice(0, 10);
+
+// Three subjects with weighted marks, studying most days. Sessions start at 19:30
+// UTC, which is the next morning in Auckland, so time of day has to follow the
+// student's timezone.
+export const steadyStudent: StudentFixture = {
+  userId: 'user-steady',
+  tables: {
+    users: [{ id: 'user-steady', total_study_time: 1840, current_streak: 6, timezone: 'Pacific/Auckland' }],
+    subjects: [
+      { user_id: 'user-steady', id: 'math', name: 'Mathematics', credit_hours: 4, test_type_weights: { exam: 60, quiz: 40 } },
+      { user_id: 'user-steady', id: 'bio', name: 'Biology', credit_hours: 3, test_type_weights: null },
+      { user_id: 'user-steady', id: 'hist', name: 'History', credit_hours: null, test_type_weights: null }
+    ],
+    marks: [
+      { user_id: 'user-steady', id: 'm1', subject_id: 'math', score: 88, percentage: 88, test_type: 'exam', test_name: 'Algebra exam', date: dayKey(2), subjects: { name: 'Mathematics' } },
+      { user_id: 'user-steady', id: 'm2', subject_id: 'bio', score: 41, percentage: 82, test_type: 'quiz', test_name: 'Cells quiz', date: dayKey(5), subjects: { name: 'Biology' } },
+      { user_id: 'user-steady', id: 'm3', subject_id: 'math', score: 17, percentage: 85, test_type: 'quiz', test_name: 'Functions quiz', date: dayKey(9), subjects: { name: 'Mathematics' } },
+      { user_id: 'user-steady', id: 'm4', subject_id: 'hist', score: 64, percentage: 64, test_type: 'essay', test_name: 'Revolutions essay', date: dayKey(12), subjects: { name: 'History' } },
+      { user_id: 'user-steady', id: 'm5', subject_id: 'bio', score: 37, percentage: 74, test_type: 'quiz', test_name: 'Genetics quiz', date: dayKey(16), subjects: { name: 'Biology' } },
+      { user_id: 'user-steady', id: 'm6', subject_id: 'math', score: 72, percentage: 72, test_type: 'exam', test_name: 'Geometry exam', date: dayKey(20), subjects: { name: 'Mathematics' } },
+      { user_id: 'user-steady', id: 'm7', subject_id: 'hist', score: 58, percentage: 58, test_type: 'essay', test_name: 'Empires essay', date: dayKey(26), subjects: { name: 'History' } }
+    ],
+    study_sessions: [0, 1, 2, 3, 4, 6, 7, 8, 10, 11, 13].map((days, index) => ({
+      user_id: 'user-steady',
+      subject_id: ['math', 'bio', 'hist'][index % 3],
+      start_time: daysAgo(days, '19:30:00'),
+      duration_minutes: 30 + (index % 4) * 15
+    })),
+    goals: [
+      { user_id: 'user-steady', status: 'active', id: 'g1', title: 'Reach 90% in Mathematics', target_score: 90, current_score: 82, progress: 64, subjects: { name: 'Mathematics' } },
+      { user_id: 'user-steady', status: 'active', id: 'g2', title: 'Pass every History essay', target_score: 60, current_score: 61, progress: 100, subjects: { name: 'History' } },
+      { user_id: 'user-steady', status: 'completed', id: 'g3', title: 'Finish the Biology workbook', target_score: 100, current_score: 100, progress: 100, subjects: { name: 'Biology' } }
+    ]
+  }
+};
+
+// Falling marks in one subject and little study, with no timezone set
+export const strugglingStudent: StudentFixture = {
+  userId: 'user-struggling',
+  tables: {
+    users: [{ id: 'user-struggling', total_study_time: 95, current_streak: 0, timezone: null }],
+    subjects: [
+      { user_id: 'user-struggling', id: 'chem', name: 'Chemistry', credit_hours: 3, test_type_weights: null }
+    ],
+    marks: [48, 52, 57, 63, 66, 71].map((percentage, index) => ({
+      user_id: 'user-struggling',
+      id: `c${index + 1}`,
+      subject_id: 'chem',
+      score: percentage / 2,
+      percentage,
+      test_type: index % 2 ? 'quiz' : 'test',
+      test_name: `Chemistry check ${6 - index}`,
+      date: dayKey(3 + index * 7),
+      subjects: { name: 'Chemistry' }
+    })),
+    study_sessions: [
+      { user_id: 'user-struggling', subject_id: 'chem', start_time: daysAgo(11, '23:15:00'), duration_minutes: 25 },
+      { user_id: 'user-struggling', subject_id: null, start_time: daysAgo(30, '14:00:00'), duration_minutes: 70 }
+    ],
+    goals: [
+      { user_id: 'user-struggling', status: 'active', id: 'g4', title: 'Get back to 70% in Chemistry', target_score: 70, current_score: 48, progress: 10, subjects: { name: 'Chemistry' } }
+    ]
+  }
+};
+
+// A student who has only just signed up
+export const newStudent: StudentFixture = {
+  userId: 'user-new',
+  tables: {
+    users: [{ id: 'user-new', total_study_time: null, current_streak: null, timezone: 'Europe/London' }],
+    subjects: [],
+    marks: [],
+    study_sessions: [],
+    goals: []
+  }
+};
+
+export const STUDENT_FIXTURES = [steadyStudent, strugglingStudent, newStudent];
+
+// Answers queries from fixture rows, applying the eq filters, ordering and limits
+class FixtureQuery implements DbQuery {
+  private filters: Array<(row: FixtureRow) => boolean> = [];
+  private sortBy: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+
+  constructor(private rows: FixtureRow[]) {}
+
+  select(): FixtureQuery {
+    return this;
+  }
+
+  eq<Column extends string>(column: Column, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in<Column extends string>(column: Column, values: readonly unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => String(row[column]) >= String(value));
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown): this {
+    if (operator === 'is' && value === null) this.filters.push(row => row[column] != null);
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.sortBy = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): PromiseLike<DbResponse> {
+    const rows = this.result();
+    return Promise.resolve(rows.length === 1
+      ? { data: rows[0], error: null }
+      : { data: null, error: { message: `Expected one row, found ${rows.length}` } });
+  }
+
+  maybeSingle(): PromiseLike<DbResponse> {
+    return Promise.resolve({ data: this.result()[0] ?? null, error: null });
+  }
+
+  then<TResult1 = DbResponse, TResult2 = never>(
+    onfulfilled?: ((value: DbResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const rows = this.result();
+    return Promise.resolve<DbResponse>({ data: rows, error: null, count: rows.length }).then(onfulfilled, onrejected);
+  }
+
+  private result(): FixtureRow[] {
+    let rows = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.sortBy) {
+      const { column, ascending } = this.sortBy;
+      rows = [...rows].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+    }
+    // Copies, so nothing the code under test does to a row leaks into the fixture
+    return structuredClone(this.maxRows === null ? rows : rows.slice(0, this.maxRows));
+  }
+}
+
+/**
+ * A read-only client over a fixture's tables
+ */
+export const createFixtureClient = (fixture: StudentFixture): DbClient => ({
+  from: (table: string): DbTable => {
+    const query = () => new FixtureQuery(fixture.tables[table] || []);
+    const readOnly = (): DbQuery => {
+      throw new Error(`Fixture client can't write to ${table}`);
+    };
+
+    return {
+      select: () => query(),
+      insert: readOnly,
+      update: readOnly,
+      upsert: readOnly
+    };
+  }
+});
@@ -0,0 +1,347 @@
+// Achievement criteria: the rules stored in achievements.criteria, and the engine
+// that checks a student's progress against them. Shared by the web app and Edge
+// Functions, so it imports only other shared modules and doesn't touch browser or
+// Deno globals.
+
+import type { DbClient } from './db-client.ts';
+
+// Where a criterion is measured: across everything, for the best single subject,
+// or for the weakest subject (so every subject has to meet it)
+export type CriteriaScope = 'overall' | 'any_subject' | 'every_subject';
+
+export type CountedActivity = 'marks' | 'study_sessions' | 'completed_goals' | 'notes' | 'flashcards' | 'flashcard_reviews';
+
+export type ThresholdMetric = 'average_percentage' | 'study_hours';
+
+export type AchievementCriteria =
+  | { type: 'threshold'; metric: ThresholdMetric; min: number; scope?: CriteriaScope; minMarks?: number }
+  | { type: 'count'; of: CountedActivity; min: number; minPercentage?: number; testType?: string; scope?: CriteriaScope }
+  | { type: 'streak'; days: number; best?: boolean }
+  | { type: 'improvement'; points: number; window?: number; scope?: CriteriaScope }
+  | { type: 'all'; criteria: AchievementCriteria[] };
+
+export interface AchievementFacts {
+  marks: Array<{ subject_id: string | null; percentage: number; test_type?: string | null; date: string }>;
+  sessions: Array<{ subject_id: string | null; duration_minutes: number | null }>;
+  currentStreak: number;
+  longestStreak: number;
+  completedGoals: number;
+  notes: number;
+  flashcards: number;
+  flashcardReviews: number;
+}
+
+export interface CriteriaResult {
+  met: boolean;
+  // 0-100, towards unlocking
+  progress: number;
+  current: number;
+  target: number;
+}
+
+export interface AchievementRecord {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: string;
+  criteria: unknown;
+  points: number | null;
+  rarity: string | null;
+}
+
+export interface AchievementProgress extends CriteriaResult {
+  achievementId: string;
+  // False when the criteria don't follow the DSL, so progress can't be measured
+  trackable: boolean;
+  earnedAt: string | null;
+  // Progress in words, e.g. "12 / 50 study hours"
+  summary: string;
+}
+
+export const COUNTED_ACTIVITIES: Array<{ value: CountedActivity; label: string }> = [
+  { value: 'marks', label: 'marks' },
+  { value: 'study_sessions', label: 'study sessions' },
+  { value: 'completed_goals', label: 'completed goals' },
+  { value: 'notes', label: 'notes' },
+  { value: 'flashcards', label: 'flashcards' },
+  { value: 'flashcard_reviews', label: 'flashcard reviews' },
+];
+
+export const CRITERIA_SCOPES: Array<{ value: CriteriaScope; label: string }> = [
+  { value: 'overall', label: 'Overall' },
+  { value: 'any_subject', label: 'In any one subject' },
+  { value: 'every_subject', label: 'In every subject' },
+];
+
+// Marks averaged at each end of a subject's history for improvement criteria
+const DEFAULT_IMPROVEMENT_WINDOW = 3;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+const isScope = (value: unknown) => value === undefined || CRITERIA_SCOPES.some(scope => scope.value === value);
+
+/**
+ * Check that a criteria object follows the DSL
+ * @param raw - achievements.criteria as stored
+ * @returns An error message, or null if the criteria are valid
+ */
+export const validateCriteria = (raw: unknown): string | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'Criteria must be an object';
+  const criteria = raw as Record<string, unknown>;
+
+  switch (criteria.type) {
+    case 'threshold':
+      if (criteria.metric !== 'average_percentage' && criteria.metric !== 'study_hours') {
+        return 'Threshold metric must be average_percentage or study_hours';
+      }
+      if (!isPositive(criteria.min)) return 'Threshold needs a positive min';
+      if (criteria.metric === 'average_percentage' && criteria.min > 100) return 'An average can\'t be more than 100%';
+      if (criteria.minMarks !== undefined && !isPositive(criteria.minMarks)) return 'minMarks must be positive';
+      return isScope(criteria.scope) ? null : 'Unknown scope';
+    case 'count':
+      if (!COUNTED_ACTIVITIES.some(activity => activity.value === criteria.of)) return 'Unknown activity to count';
+      if (!isPositive(criteria.min)) return 'Count needs a positive min';
+      if (criteria.minPercentage !== undefined && (typeof criteria.minPercentage !== 'number' || criteria.minPercentage < 0 || criteria.minPercentage > 100)) {
+        return 'minPercentage must be between 0 and 100';
+      }
+      if ((criteria.minPercentage !== undefined || criteria.testType !== undefined) && criteria.of !== 'marks') {
+        return 'minPercentage and testType only apply to marks';
+      }
+      if (criteria.scope !== undefined && criteria.scope !== 'overall' && criteria.of !== 'marks' && criteria.of !== 'study_sessions') {
+        return 'Only marks and study sessions can be counted per subject';
+      }
+      return isScope(criteria.scope) ? null : 'Unknown scope';
+    case 'streak':
+      return isPositive(criteria.days) ? null : 'Streak needs a positive number of days';
+    case 'improvement':
+      if (!isPositive(criteria.points) || criteria.points > 100) return 'Improvement needs points between 0 and 100';
+      if (criteria.window !== undefined && !isPositive(criteria.window)) return 'window must be positive';
+      return isScope(criteria.scope) ? null : 'Unknown scope';
+    case 'all': {
+      if (!Array.isArray(criteria.criteria) || criteria.criteria.length === 0) return 'All needs at least one criterion';
+      for (const child of criteria.criteria) {
+        const error = validateCriteria(child);
+        if (error) return error;
+      }
+      return null;
+    }
+    default:
+      return 'Unknown criteria type';
+  }
+};
+
+const groupBySubject = <T extends { subject_id: string | null }>(items: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    if (!item.subject_id) return;
+    groups.set(item.subject_id, [...(groups.get(item.subject_id) || []), item]);
+  });
+  return Array.from(groups.values());
+};
+
+// Apply a scope to a per-subject measure; every_subject is only as good as the weakest subject
+const scoped = <T extends { subject_id: string | null }>(
+  items: T[],
+  scope: CriteriaScope | undefined,
+  measure: (items: T[]) => number
+): number => {
+  if (!scope || scope === 'overall') return measure(items);
+  const values = groupBySubject(items).map(measure);
+  if (values.length === 0) return 0;
+  return scope === 'any_subject' ? Math.max(...values) : Math.min(...values);
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const result = (current: number, target: number): CriteriaResult => ({
+  met: current >= target,
+  progress: target > 0 ? Math.max(0, Math.min(100, (current / target) * 100)) : 0,
+  current,
+  target
+});
+
+/**
+ * Check a student's progress against achievement criteria
+ * @param criteria - Validated criteria
+ * @returns Whether they're met, and how close the student is
+ */
+export const evaluateCriteria = (criteria: AchievementCriteria, facts: AchievementFacts): CriteriaResult => {
+  switch (criteria.type) {
+    case 'threshold': {
+      if (criteria.metric === 'study_hours') {
+        return result(scoped(facts.sessions, criteria.scope, sessions =>
+          sessions.reduce((total, session) => total + (session.duration_minutes || 0), 0) / 60
+        ), criteria.min);
+      }
+      // Too few marks don't count yet, so a single good quiz can't unlock an average
+      const minMarks = criteria.minMarks || 1;
+      return result(scoped(facts.marks, criteria.scope, marks =>
+        marks.length >= minMarks ? mean(marks.map(mark => mark.percentage)) : 0
+      ), criteria.min);
+    }
+    case 'count': {
+      const counts: Record<CountedActivity, () => number> = {
+        marks: () => scoped(
+          facts.marks.filter(mark =>
+            (criteria.minPercentage === undefined || mark.percentage >= criteria.minPercentage) &&
+            (!criteria.testType || (mark.test_type || '').toLowerCase() === criteria.testType.toLowerCase())
+          ),
+          criteria.scope,
+          marks => marks.length
+        ),
+        study_sessions: () => scoped(facts.sessions, criteria.scope, sessions => sessions.length),
+        completed_goals: () => facts.completedGoals,
+        notes: () => facts.notes,
+        flashcards: () => facts.flashcards,
+        flashcard_reviews: () => facts.flashcardReviews,
+      };
+      return result(counts[criteria.of](), criteria.min);
+    }
+    case 'streak':
+      return result(criteria.best ? Math.max(facts.longestStreak, facts.currentStreak) : facts.currentStreak, criteria.days);
+    case 'improvement': {
+      const window = criteria.window || DEFAULT_IMPROVEMENT_WINDOW;
+      // Compares the average of a subject's first marks with its latest ones
+      const improvement = (marks: AchievementFacts['marks']) => {
+        if (marks.length < window * 2) return 0;
+        const ordered = [...marks].sort((a, b) => a.date.localeCompare(b.date));
+        return mean(ordered.slice(-window).map(mark => mark.percentage)) - mean(ordered.slice(0, window).map(mark => mark.percentage));
+      };
+      return result(scoped(facts.marks, criteria.scope || 'any_subject', improvement), criteria.points);
+    }
+    case 'all': {
+      const results = criteria.criteria.map(child => evaluateCriteria(child, facts));
+      return {
+        met: results.every(child => child.met),
+        progress: mean(results.map(child => child.progress)),
+        current: results.filter(child => child.met).length,
+        target: results.length
+      };
+    }
+  }
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Describe progress towards criteria, e.g. "12 / 50 study hours"
+ */
+export const describeProgress = (criteria: AchievementCriteria, progress: CriteriaResult): string => {
+  const amount = `${round1(Math.min(progress.current, progress.target))} / ${progress.target}`;
+  const inSubject = 'scope' in criteria && criteria.scope === 'any_subject' ? ' in a subject' : 'scope' in criteria && criteria.scope === 'every_subject' ? ' in every subject' : '';
+
+  switch (criteria.type) {
+    case 'threshold':
+      return criteria.metric === 'study_hours' ? `${amount} study hours${inSubject}` : `${amount}% average${inSubject}`;
+    case 'count': {
+      const label = COUNTED_ACTIVITIES.find(activity => activity.value === criteria.of)?.label || criteria.of;
+      const qualifier = criteria.minPercentage !== undefined ? ` at ${criteria.minPercentage}%+` : '';
+      return `${amount} ${criteria.testType ? `${criteria.testType} ` : ''}${label}${qualifier}${inSubject}`;
+    }
+    case 'streak':
+      return `${amount} day${criteria.best ? ' best' : ''} streak`;
+    case 'improvement':
+      return `${amount} points improvement${criteria.scope === 'overall' ? '' : ' in a subject'}`;
+    case 'all':
+      return `${progress.current} / ${progress.target} requirements`;
+  }
+};
+
+/**
+ * Load what achievement criteria are checked against
+ */
+export async function loadAchievementFacts(client: DbClient, userId: string): Promise<AchievementFacts> {
+  const [marksRes, sessionsRes, userRes, goalsRes, notesRes, flashcardsRes] = await Promise.all([
+    client.from('marks').select('subject_id, percentage, test_type, date').eq('user_id', userId),
+    client.from('study_sessions').select('subject_id, duration_minutes').eq('user_id', userId).not('end_time', 'is', null),
+    client.from('users').select('current_streak, longest_streak').eq('id', userId).maybeSingle(),
+    client.from('goals').select('id', { count: 'exact', head: true }).eq('user_id', userId).eq('status', 'completed'),
+    client.from('notes').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+    client.from('flashcards').select('review_count').eq('user_id', userId)
+  ]);
+
+  if (marksRes.error) throw new Error(`Failed to load marks: ${marksRes.error.message}`);
+  if (sessionsRes.error) throw new Error(`Failed to load study sessions: ${sessionsRes.error.message}`);
+
+  const user = userRes.data as { current_streak: number | null; longest_streak: number | null } | null;
+  const flashcards = (flashcardsRes.data || []) as Array<{ review_count: number | null }>;
+
+  return {
+    marks: (marksRes.data || []) as AchievementFacts['marks'],
+    sessions: (sessionsRes.data || []) as AchievementFacts['sessions'],
+    currentStreak: user?.current_streak || 0,
+    longestStreak: user?.longest_streak || 0,
+    completedGoals: goalsRes.count || 0,
+    notes: notesRes.count || 0,
+    flashcards: flashcards.length,
+    flashcardReviews: flashcards.reduce((total, card) => total + (card.review_count || 0), 0)
+  };
+}
+
+/**
+ * Evaluate every active achievement for a user, without recording anything
+ * Achievements whose criteria don't follow the DSL can't be tracked; they're
+ * returned locked, unless already earned, with no progress.
+ * @returns The achievements, progress on each, and those now met but not yet recorded
+ */
+export async function loadAchievementProgress(
+  client: DbClient,
+  userId: string
+): Promise<{ achievements: AchievementRecord[]; progress: AchievementProgress[]; unlocked: AchievementRecord[] }> {
+  const [achievementsRes, earnedRes, facts] = await Promise.all([
+    client.from('achievements').select('id, name, description, icon, category, criteria, points, rarity').eq('is_active', true),
+    client.from('user_achievements').select('achievement_id, earned_at').eq('user_id', userId),
+    loadAchievementFacts(client, userId)
+  ]);
+
+  if (achievementsRes.error) throw new Error(`Failed to load achievements: ${achievementsRes.error.message}`);
+  if (earnedRes.error) throw new Error(`Failed to load earned achievements: ${earnedRes.error.message}`);
+
+  const achievements = (achievementsRes.data || []) as AchievementRecord[];
+  const earnedRows = (earnedRes.data || []) as Array<{ achievement_id: string; earned_at: string }>;
+  const earned = new Map<string, string>(earnedRows.map(row => [row.achievement_id, row.earned_at]));
+  const unlocked: AchievementRecord[] = [];
+
+  const progress = achievements.map((achievement): AchievementProgress => {
+    const earnedAt = earned.get(achievement.id) || null;
+    if (validateCriteria(achievement.criteria)) {
+      return { achievementId: achievement.id, trackable: false, met: !!earnedAt, progress: earnedAt ? 100 : 0, current: 0, target: 0, earnedAt, summary: '' };
+    }
+
+    const criteria = achievement.criteria as AchievementCriteria;
+    const evaluation = evaluateCriteria(criteria, facts);
+    if (!earnedAt && evaluation.met) unlocked.push(achievement);
+
+    return {
+      ...evaluation,
+      achievementId: achievement.id,
+      trackable: true,
+      earnedAt: earnedAt || (evaluation.met ? new Date().toISOString() : null),
+      progress: earnedAt ? 100 : evaluation.progress,
+      summary: describeProgress(criteria, evaluation)
+    };
+  });
+
+  return { achievements, progress, unlocked };
+}
+
+/**
+ * Evaluate a user's achievements and record the ones newly unlocked
+ * @returns As loadAchievementProgress, with unlocked holding what this call awarded
+ */
+export async function checkAchievements(client: DbClient, userId: string) {
+  const state = await loadAchievementProgress(client, userId);
+
+  if (state.unlocked.length > 0) {
+    // The unique (user_id, achievement_id) key keeps a concurrent check from awarding twice
+    const { error } = await client
+      .from('user_achievements')
+      .upsert(
+        state.unlocked.map(achievement => ({ user_id: userId, achievement_id: achievement.id, progress: 100 })),
+        { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+      );
+    if (error) throw new Error(`Failed to record achievements: ${error.message}`);
+  }
+
+  return state;
+}
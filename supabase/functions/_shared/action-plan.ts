@@ -0,0 +1,133 @@
+// Action plans: the dated steps a suggestion is turned into. The rule-based plan
+// here is what AIService shows when the generate-action-plan Edge Function can't
+// be reached, and what that function falls back to (and gives its mock provider)
+// when the model's plan is unusable, so both paths plan the same way. It imports
+// only other shared modules, so it loads under Deno and Vite alike.
+
+import type { AIPerformanceData } from './student-analytics.ts';
+
+export interface ActionPlanSuggestion {
+  id?: string;
+  title: string;
+  description: string;
+  type?: string;
+  category?: string;
+  estimatedTime?: string;
+  subjectId?: string;
+}
+
+export interface ActionPlanStep {
+  order: number;
+  title: string;
+  description: string;
+  date: string; // yyyy-mm-dd
+  durationMinutes: number;
+  subjectId?: string;
+}
+
+// Turn an estimated time like "15-20 min daily" into minutes
+const parseEstimatedMinutes = (estimatedTime?: string): number => {
+  const match = estimatedTime?.match(/(\d+)\s*(?:-\s*(\d+))?\s*(min|hour|h)/i);
+  if (!match) return 30;
+
+  const value = Number(match[2] || match[1]);
+  const minutes = match[3].toLowerCase().startsWith('h') ? value * 60 : value;
+  return Math.min(Math.max(minutes, 15), 120);
+};
+
+// Describe the first step for each suggestion type
+const getActionPlanKickoff = (type?: string): string => {
+  switch (type) {
+    case 'study_method':
+      return 'Read up on the technique and try it in one focused session.';
+    case 'resource':
+      return 'Open the recommended resource and work through the first section.';
+    case 'practice':
+      return 'Pick a set of practice problems and work through them without notes.';
+    case 'time_management':
+      return 'Block out fixed study slots in your calendar for the next two weeks.';
+    default:
+      return 'Break the suggestion into one concrete task and complete it.';
+  }
+};
+
+/**
+ * Generate a dated, ordered action plan for a suggestion without calling a model
+ * @param data - The student's performance data, or null if it couldn't be loaded
+ * @param suggestion - The suggestion to plan
+ * @param startDate - The day of the first step
+ * @returns Six steps spread over two weeks
+ */
+export const generateRuleBasedActionPlan = (
+  data: AIPerformanceData | null,
+  suggestion: ActionPlanSuggestion,
+  startDate: Date = new Date()
+): ActionPlanStep[] => {
+  const subjects = data?.subjects || [];
+  const preferredTime = data?.studyPatterns.preferredStudyTimes[0];
+
+  // Focus on the suggestion's subject, or the weakest subject with marks
+  const subject = subjects.find(s => s.id === suggestion.subjectId) ||
+    [...subjects]
+      .filter(s => s.recentScores.length > 0)
+      .sort((a, b) => a.averageScore - b.averageScore)[0];
+
+  const focus = subject ? subject.name : 'your weakest topics';
+  const sessionMinutes = parseEstimatedMinutes(suggestion.estimatedTime);
+  const when = preferredTime ? ` during your usual ${preferredTime.toLowerCase()} study time` : '';
+
+  const templates: Array<{ dayOffset: number; title: string; description: string; minutes: number }> = [
+    {
+      dayOffset: 0,
+      title: `Review where you stand in ${focus}`,
+      description: subject
+        ? `Go through your recent ${subject.name} results (current average ${subject.averageScore.toFixed(1)}%) and list the topics behind your lowest scores.`
+        : `Go through your recent results and list the topics behind your lowest scores.`,
+      minutes: 20
+    },
+    {
+      dayOffset: 1,
+      title: `Start: ${suggestion.title}`,
+      description: `${getActionPlanKickoff(suggestion.type)} Apply it to ${focus}${when}.`,
+      minutes: sessionMinutes
+    },
+    {
+      dayOffset: 3,
+      title: `Practice session on ${focus}`,
+      description: `Repeat the approach on the next topic from your list${when}. Note anything that still feels unclear.`,
+      minutes: sessionMinutes
+    },
+    {
+      dayOffset: 6,
+      title: `Second practice session on ${focus}`,
+      description: `Revisit the topics from your first sessions before moving on, so the material is spaced over the week.`,
+      minutes: sessionMinutes
+    },
+    {
+      dayOffset: 9,
+      title: 'Check your progress',
+      description: `Test yourself on ${focus} without notes, using past questions or flashcards, and mark what you got wrong.`,
+      minutes: 30
+    },
+    {
+      dayOffset: 13,
+      title: 'Reflect and adjust',
+      description: `Compare your self-test with your next assessment result. Keep what worked and mark this suggestion as done, or adjust the plan for another two weeks.`,
+      minutes: 15
+    }
+  ];
+
+  return templates.map((template, index) => {
+    const date = new Date(startDate);
+    date.setDate(date.getDate() + template.dayOffset);
+
+    return {
+      order: index + 1,
+      title: template.title,
+      description: template.description,
+      date: date.toISOString().split('T')[0],
+      durationMinutes: template.minutes,
+      subjectId: subject?.id
+    };
+  });
+};
@@ -0,0 +1,308 @@
+// AI response schema: checks the insights and suggestions a model returns before
+// they're saved. Near-misses are coerced (a priority of "High", a confidence of 0.8,
+// a subject given by name), and items that can't be saved are rejected one by one
+// with a reason, so one bad item doesn't cost the whole response. The allowed
+// values mirror the CHECK constraints on ai_insights and suggestions.
+
+import type { AIGeneratedInsight, AIGeneratedSuggestion } from './student-analytics.ts';
+
+export const INSIGHT_TYPES = ['performance', 'study_pattern', 'prediction', 'recommendation'] as const;
+export const SUGGESTION_TYPES = ['study_method', 'resource', 'practice', 'improvement'] as const;
+export const PRIORITIES = ['high', 'medium', 'low'] as const;
+
+export interface ResponseContext {
+  // The student's subjects, so subject references can be checked and names resolved
+  subjects: Array<{ id: string; name: string }>;
+}
+
+export interface RejectedItem {
+  kind: 'insight' | 'suggestion';
+  index: number;
+  reason: string;
+  item: unknown;
+}
+
+export interface ValidatedResponse {
+  insights: AIGeneratedInsight[];
+  suggestions: AIGeneratedSuggestion[];
+  rejected: RejectedItem[];
+  // Fields that were fixed up rather than rejected, e.g. "insight 2: priority 'urgent' read as 'high'"
+  coerced: string[];
+  // Set when the response as a whole couldn't be read
+  error: string | null;
+}
+
+// Confidence assumed when the model doesn't give one
+const DEFAULT_CONFIDENCE = 50;
+const MAX_TITLE_LENGTH = 120;
+
+const INSIGHT_TYPE_ALIASES: Record<string, (typeof INSIGHT_TYPES)[number]> = {
+  study_patterns: 'study_pattern',
+  study_habit: 'study_pattern',
+  study_habits: 'study_pattern',
+  habit: 'study_pattern',
+  pattern: 'study_pattern',
+  subject_specific: 'performance',
+  subject: 'performance',
+  grades: 'performance',
+  goal: 'prediction',
+  goal_progress: 'prediction',
+  forecast: 'prediction',
+  trend: 'prediction',
+  suggestion: 'recommendation',
+  advice: 'recommendation',
+};
+
+const SUGGESTION_TYPE_ALIASES: Record<string, (typeof SUGGESTION_TYPES)[number]> = {
+  time_management: 'improvement',
+  habit: 'improvement',
+  method: 'study_method',
+  technique: 'study_method',
+  study_technique: 'study_method',
+  practise: 'practice',
+  exercise: 'practice',
+  exercises: 'practice',
+  material: 'resource',
+  resources: 'resource',
+};
+
+const PRIORITY_ALIASES: Record<string, (typeof PRIORITIES)[number]> = {
+  urgent: 'high',
+  critical: 'high',
+  important: 'high',
+  normal: 'medium',
+  moderate: 'medium',
+  med: 'medium',
+  minor: 'low',
+  optional: 'low',
+};
+
+const normaliseKey = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Read the JSON object out of a model's reply
+ * Models sometimes wrap JSON in a code fence or a sentence, so the outermost
+ * braces are tried when the reply as a whole doesn't parse.
+ * @throws If no JSON object can be found
+ */
+export const parseJsonObject = (content: string): Record<string, unknown> => {
+  const attempts = [content.trim()];
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start >= 0 && end > start) attempts.push(content.slice(start, end + 1));
+
+  for (const attempt of attempts) {
+    try {
+      const parsed = JSON.parse(attempt);
+      if (isRecord(parsed)) return parsed;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Response is not a JSON object');
+};
+
+// Each field reader returns a value, or a reason the item can't be used
+type FieldResult<T> = { value: T; note?: string } | { reason: string };
+
+const readEnum = <T extends string>(
+  raw: unknown,
+  field: string,
+  allowed: readonly T[],
+  aliases: Record<string, T>,
+  fallback?: T
+): FieldResult<T> => {
+  const key = normaliseKey(raw);
+  if ((allowed as readonly string[]).includes(key)) {
+    return key === raw ? { value: key as T } : { value: key as T, note: `${field} '${raw}' read as '${key}'` };
+  }
+  if (aliases[key]) return { value: aliases[key], note: `${field} '${raw}' read as '${aliases[key]}'` };
+  if (fallback !== undefined) {
+    return { value: fallback, note: raw === undefined || raw === null || raw === '' ? `missing ${field} set to '${fallback}'` : `${field} '${raw}' set to '${fallback}'` };
+  }
+  return { reason: raw === undefined ? `missing ${field}` : `${field} '${String(raw)}' isn't one of ${allowed.join(', ')}` };
+};
+
+const readConfidence = (raw: unknown): FieldResult<number> => {
+  if (raw === undefined || raw === null || raw === '') {
+    return { value: DEFAULT_CONFIDENCE, note: `missing confidenceScore set to ${DEFAULT_CONFIDENCE}` };
+  }
+  const parsed = typeof raw === 'string' ? Number(raw.replace('%', '').trim()) : Number(raw);
+  if (typeof raw === 'boolean' || isNaN(parsed)) return { reason: `confidenceScore '${String(raw)}' isn't a number` };
+
+  // 0-1 is read as a fraction of 100
+  const scaled = parsed > 0 && parsed <= 1 ? parsed * 100 : parsed;
+  const value = Math.round(Math.min(100, Math.max(0, scaled)));
+  return value === raw ? { value } : { value, note: `confidenceScore ${JSON.stringify(raw)} read as ${value}` };
+};
+
+const readRequired = (value: string | null, field: string): FieldResult<string> =>
+  value ? { value } : { reason: `missing ${field}` };
+
+const readTitle = (raw: unknown): FieldResult<string> => {
+  const title = readText(raw);
+  if (!title) return { reason: 'missing title' };
+  return title.length > MAX_TITLE_LENGTH
+    ? { value: `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`, note: 'title shortened' }
+    : { value: title };
+};
+
+// A subject reference must be one of the student's subjects; names are resolved to ids
+const readSubjectId = (raw: unknown, context: ResponseContext): FieldResult<string | undefined> => {
+  const reference = readText(raw);
+  if (!reference) return { value: undefined };
+  if (context.subjects.some(subject => subject.id === reference)) return { value: reference };
+
+  const byName = context.subjects.find(subject => subject.name.toLowerCase() === reference.toLowerCase());
+  if (byName) return { value: byName.id, note: `subject '${reference}' read as ${byName.id}` };
+  return { value: undefined, note: `unknown subjectId '${reference}' dropped` };
+};
+
+const readUrl = (raw: unknown): FieldResult<string | undefined> => {
+  const url = readText(raw);
+  if (!url) return { value: undefined };
+  return /^https?:\/\/\S+$/i.test(url) ? { value: url } : { value: undefined, note: `resourceUrl '${url}' dropped` };
+};
+
+/**
+ * Collect field results into an item
+ * @returns The fields, or the first reason the item has to be rejected
+ */
+const collect = <T extends Record<string, FieldResult<unknown>>>(
+  fields: T,
+  notes: string[]
+): { [K in keyof T]: T[K] extends FieldResult<infer V> ? V : never } | string => {
+  const values: Record<string, unknown> = {};
+  for (const [name, result] of Object.entries(fields)) {
+    if ('reason' in result) return result.reason;
+    if (result.note) notes.push(result.note);
+    values[name] = result.value;
+  }
+  return values as { [K in keyof T]: T[K] extends FieldResult<infer V> ? V : never };
+};
+
+/**
+ * Check one insight from a model
+ * @returns The insight, or why it was rejected, and any fields that were coerced
+ */
+export const validateInsight = (
+  raw: unknown,
+  context: ResponseContext
+): { value?: AIGeneratedInsight; reason?: string; notes: string[] } => {
+  const notes: string[] = [];
+  if (!isRecord(raw)) return { reason: 'not an object', notes };
+
+  const content = readText(raw.content) ?? readText(raw.description);
+  const fields = collect({
+    insightType: readEnum(raw.insightType ?? raw.type, 'insightType', INSIGHT_TYPES, INSIGHT_TYPE_ALIASES),
+    title: readTitle(raw.title),
+    content: readRequired(content, 'content'),
+    confidenceScore: readConfidence(raw.confidenceScore ?? raw.confidence),
+    priority: readEnum(raw.priority, 'priority', PRIORITIES, PRIORITY_ALIASES, 'medium'),
+    subjectId: readSubjectId(raw.subjectId, context),
+  }, notes);
+
+  if (typeof fields === 'string') return { reason: fields, notes };
+  const { subjectId, ...insight } = fields;
+  return { value: { ...insight, ...(subjectId && { subjectId }) }, notes };
+};
+
+/**
+ * Check one suggestion from a model
+ * @returns The suggestion, or why it was rejected, and any fields that were coerced
+ */
+export const validateSuggestion = (
+  raw: unknown,
+  context: ResponseContext
+): { value?: AIGeneratedSuggestion; reason?: string; notes: string[] } => {
+  const notes: string[] = [];
+  if (!isRecord(raw)) return { reason: 'not an object', notes };
+
+  const description = readText(raw.description) ?? readText(raw.content);
+  const rawType = normaliseKey(raw.type);
+  const fields = collect({
+    title: readTitle(raw.title),
+    description: readRequired(description, 'description'),
+    type: readEnum(raw.type, 'type', SUGGESTION_TYPES, SUGGESTION_TYPE_ALIASES),
+    priority: readEnum(raw.priority, 'priority', PRIORITIES, PRIORITY_ALIASES, 'medium'),
+    // A type folded into another (time_management into improvement) is kept as the category
+    category: { value: normaliseKey(raw.category) || rawType || 'general' },
+    resourceUrl: readUrl(raw.resourceUrl),
+    estimatedTime: { value: readText(raw.estimatedTime) ?? undefined },
+    subjectId: readSubjectId(raw.subjectId, context),
+    confidenceScore: readConfidence(raw.confidenceScore ?? raw.confidence),
+  }, notes);
+
+  if (typeof fields === 'string') return { reason: fields, notes };
+  const { resourceUrl, estimatedTime, subjectId, ...suggestion } = fields;
+  return {
+    value: {
+      ...suggestion,
+      ...(resourceUrl && { resourceUrl }),
+      ...(estimatedTime && { estimatedTime }),
+      ...(subjectId && { subjectId }),
+    },
+    notes
+  };
+};
+
+/**
+ * Check a model's whole reply
+ * Items are accepted or rejected one at a time; `error` is only set when the reply
+ * itself can't be read.
+ */
+export const validateAIResponse = (content: string, context: ResponseContext): ValidatedResponse => {
+  const result: ValidatedResponse = { insights: [], suggestions: [], rejected: [], coerced: [], error: null };
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = parseJsonObject(content);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+
+  const lists: Array<['insight' | 'suggestion', unknown]> = [['insight', parsed.insights], ['suggestion', parsed.suggestions]];
+  lists.forEach(([kind, items]) => {
+    if (!Array.isArray(items)) {
+      result.rejected.push({ kind, index: -1, reason: `"${kind}s" is missing or not an array`, item: items });
+      return;
+    }
+    items.forEach((item, index) => {
+      const checked = kind === 'insight' ? validateInsight(item, context) : validateSuggestion(item, context);
+      checked.notes.forEach(note => result.coerced.push(`${kind} ${index + 1}: ${note}`));
+      if (checked.value && kind === 'insight') result.insights.push(checked.value as AIGeneratedInsight);
+      else if (checked.value) result.suggestions.push(checked.value as AIGeneratedSuggestion);
+      else result.rejected.push({ kind, index, reason: checked.reason || 'invalid', item });
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Ask the model to fix its reply, listing what was wrong with it
+ */
+export const buildRepairPrompt = (validated: ValidatedResponse): string => {
+  const problems = validated.error
+    ? [validated.error]
+    : validated.rejected.map(rejected =>
+      rejected.index < 0 ? rejected.reason : `${rejected.kind} ${rejected.index + 1}: ${rejected.reason}`
+    );
+
+  return [
+    'Your previous reply could not be used as it was:',
+    ...problems.map(problem => `- ${problem}`),
+    '',
+    'Reply again with the complete corrected JSON object, with "insights" and "suggestions" arrays.',
+    `insightType must be one of ${INSIGHT_TYPES.join(', ')}; suggestion type one of ${SUGGESTION_TYPES.join(', ')};`,
+    `priority one of ${PRIORITIES.join(', ')}; confidenceScore a number from 0 to 100; subjectId one of the student's subject IDs or omitted.`,
+  ].join('\n');
+};
@@ -0,0 +1,320 @@
+// Study coach tools: the typed queries the coach-chat model can call to look at a
+// student's own marks, study sessions, goals and study plans. Each tool reads only
+// the signed-in student's rows and returns plain JSON, trimmed to what the model
+// needs; bad arguments come back as an error the model can read and correct.
+
+import type { LLMTool } from './llm.ts';
+import type { DbClient } from './db-client.ts';
+import { loadPerformanceData } from './student-analytics.ts';
+
+export type CoachToolName =
+  | 'get_performance_summary'
+  | 'get_marks'
+  | 'get_study_sessions'
+  | 'get_goals'
+  | 'get_study_plans';
+
+export interface MarksQuery {
+  // Part of a subject name, e.g. "chem"
+  subject?: string;
+  // yyyy-MM-dd; only marks on or after this day
+  since?: string;
+  limit?: number;
+}
+
+export interface SessionsQuery {
+  subject?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface StatusQuery {
+  status?: 'active' | 'completed' | 'paused' | 'cancelled';
+}
+
+export interface CoachToolResult {
+  result?: unknown;
+  error?: string;
+}
+
+// Rows as the queries below select them
+type SubjectName = { name: string } | null;
+
+interface MarkRow {
+  test_name: string;
+  test_type: string;
+  score: number;
+  max_score: number;
+  percentage: number;
+  date: string;
+  subjects: SubjectName;
+}
+
+interface SessionRow {
+  title: string | null;
+  session_type: string | null;
+  start_time: string;
+  duration_minutes: number | null;
+  pomodoro_count: number | null;
+  notes: string | null;
+  subjects: SubjectName;
+}
+
+interface GoalRow {
+  title: string;
+  description: string | null;
+  metric: string | null;
+  target_score: number | null;
+  current_score: number | null;
+  progress: number | null;
+  target_date: string | null;
+  status: string;
+  priority: string | null;
+  subjects: SubjectName;
+}
+
+interface PlanRow {
+  title: string;
+  description: string | null;
+  start_date: string;
+  end_date: string;
+  total_hours: number | null;
+  completed_hours: number | null;
+  plan_type: string | null;
+  status: string;
+  milestones: unknown;
+  subjects: SubjectName;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const STATUSES = ['active', 'completed', 'paused', 'cancelled'];
+
+const subjectProperty = { type: 'string', description: 'Part of a subject name, e.g. "chem"; omit for all subjects' };
+const sinceProperty = { type: 'string', description: 'Only include items on or after this date (yyyy-MM-dd)' };
+const limitProperty = { type: 'integer', description: `Most items to return, newest first (default ${DEFAULT_LIMIT}, at most ${MAX_LIMIT})` };
+const statusProperty = { type: 'string', enum: STATUSES, description: 'Only include items with this status' };
+
+export const COACH_TOOLS: Array<LLMTool & { name: CoachToolName }> = [
+  {
+    name: 'get_performance_summary',
+    description: "Overview of the student's subjects (weighted averages, recent scores, improvement rate, study minutes), overall average, study patterns, how study before assessments has related to their marks, and goals.",
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_marks',
+    description: "The student's assessment marks, newest first, with subject, test type and percentage.",
+    parameters: { type: 'object', properties: { subject: subjectProperty, since: sinceProperty, limit: limitProperty } },
+  },
+  {
+    name: 'get_study_sessions',
+    description: "The student's study sessions, newest first, with subject, start time, minutes studied, Pomodoros completed and notes.",
+    parameters: { type: 'object', properties: { subject: subjectProperty, since: sinceProperty, limit: limitProperty } },
+  },
+  {
+    name: 'get_goals',
+    description: "The student's goals with target, current score, progress and target date.",
+    parameters: { type: 'object', properties: { status: statusProperty } },
+  },
+  {
+    name: 'get_study_plans',
+    description: "The student's study plans with dates, planned and completed hours, and milestones.",
+    parameters: { type: 'object', properties: { status: statusProperty } },
+  },
+];
+
+// Each reader returns the value, or an error saying why the argument was refused
+const readLimit = (value: unknown): number => {
+  const parsed = Math.round(Number(value));
+  return parsed > 0 ? Math.min(parsed, MAX_LIMIT) : DEFAULT_LIMIT;
+};
+
+const readSince = (value: unknown): string | undefined | Error => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? value
+    : new Error(`since must be a date like 2025-01-31, not ${JSON.stringify(value)}`);
+};
+
+const readStatus = (value: unknown): StatusQuery['status'] | Error => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return STATUSES.includes(String(value))
+    ? (value as StatusQuery['status'])
+    : new Error(`status must be one of ${STATUSES.join(', ')}`);
+};
+
+/**
+ * Find the ids of subjects whose name contains `subject`
+ * @returns Null to mean every subject, or an error naming the subjects there are
+ */
+const resolveSubjectIds = async (
+  client: DbClient,
+  userId: string,
+  subject?: string
+): Promise<string[] | null | Error> => {
+  if (!subject?.trim()) return null;
+
+  const { data, error } = await client.from('subjects').select('id, name').eq('user_id', userId);
+  if (error) throw new Error(`Failed to load subjects: ${error.message}`);
+
+  const subjects = (data || []) as Array<{ id: string; name: string }>;
+  const matches = subjects.filter(row => row.name.toLowerCase().includes(subject.trim().toLowerCase()));
+  return matches.length > 0
+    ? matches.map(row => row.id)
+    : new Error(`No subject matches "${subject}". The student's subjects are: ${subjects.map(row => row.name).join(', ') || 'none'}`);
+};
+
+export async function getMarks(client: DbClient, userId: string, query: MarksQuery): Promise<CoachToolResult> {
+  const since = readSince(query.since);
+  if (since instanceof Error) return { error: since.message };
+  const subjectIds = await resolveSubjectIds(client, userId, query.subject);
+  if (subjectIds instanceof Error) return { error: subjectIds.message };
+
+  let request = client
+    .from('marks')
+    .select('test_name, test_type, score, max_score, percentage, date, subjects(name)')
+    .eq('user_id', userId);
+  if (subjectIds) request = request.in('subject_id', subjectIds);
+  if (since) request = request.gte('date', since);
+
+  const { data, error } = await request.order('date', { ascending: false }).limit(readLimit(query.limit));
+  if (error) throw new Error(`Failed to load marks: ${error.message}`);
+
+  return {
+    result: ((data || []) as MarkRow[]).map(mark => ({
+      subject: mark.subjects?.name ?? null,
+      testName: mark.test_name,
+      testType: mark.test_type,
+      score: mark.score,
+      maxScore: mark.max_score,
+      percentage: Math.round(mark.percentage * 10) / 10,
+      date: mark.date,
+    })),
+  };
+}
+
+export async function getStudySessions(client: DbClient, userId: string, query: SessionsQuery): Promise<CoachToolResult> {
+  const since = readSince(query.since);
+  if (since instanceof Error) return { error: since.message };
+  const subjectIds = await resolveSubjectIds(client, userId, query.subject);
+  if (subjectIds instanceof Error) return { error: subjectIds.message };
+
+  let request = client
+    .from('study_sessions')
+    .select('title, session_type, start_time, duration_minutes, pomodoro_count, notes, subjects(name)')
+    .eq('user_id', userId);
+  if (subjectIds) request = request.in('subject_id', subjectIds);
+  if (since) request = request.gte('start_time', since);
+
+  const { data, error } = await request.order('start_time', { ascending: false }).limit(readLimit(query.limit));
+  if (error) throw new Error(`Failed to load study sessions: ${error.message}`);
+
+  return {
+    result: ((data || []) as SessionRow[]).map(session => ({
+      subject: session.subjects?.name ?? null,
+      title: session.title,
+      type: session.session_type,
+      startTime: session.start_time,
+      minutes: session.duration_minutes,
+      pomodoros: session.pomodoro_count,
+      notes: session.notes,
+    })),
+  };
+}
+
+export async function getGoals(client: DbClient, userId: string, query: StatusQuery): Promise<CoachToolResult> {
+  const status = readStatus(query.status);
+  if (status instanceof Error) return { error: status.message };
+
+  let request = client
+    .from('goals')
+    .select('title, description, metric, target_score, current_score, progress, target_date, status, priority, subjects(name)')
+    .eq('user_id', userId);
+  if (status) request = request.eq('status', status);
+
+  const { data, error } = await request.order('target_date', { ascending: true });
+  if (error) throw new Error(`Failed to load goals: ${error.message}`);
+
+  return {
+    result: ((data || []) as GoalRow[]).map(goal => ({
+      subject: goal.subjects?.name ?? null,
+      title: goal.title,
+      description: goal.description,
+      metric: goal.metric,
+      target: goal.target_score,
+      current: goal.current_score,
+      progress: goal.progress,
+      targetDate: goal.target_date,
+      status: goal.status,
+      priority: goal.priority,
+    })),
+  };
+}
+
+export async function getStudyPlans(client: DbClient, userId: string, query: StatusQuery): Promise<CoachToolResult> {
+  const status = readStatus(query.status);
+  if (status instanceof Error) return { error: status.message };
+
+  let request = client
+    .from('study_plans')
+    .select('title, description, start_date, end_date, total_hours, completed_hours, plan_type, status, milestones, subjects(name)')
+    .eq('user_id', userId);
+  if (status) request = request.eq('status', status);
+
+  const { data, error } = await request.order('start_date', { ascending: false });
+  if (error) throw new Error(`Failed to load study plans: ${error.message}`);
+
+  return {
+    result: ((data || []) as PlanRow[]).map(plan => ({
+      subject: plan.subjects?.name ?? null,
+      title: plan.title,
+      description: plan.description,
+      startDate: plan.start_date,
+      endDate: plan.end_date,
+      totalHours: plan.total_hours,
+      completedHours: plan.completed_hours,
+      type: plan.plan_type,
+      status: plan.status,
+      milestones: plan.milestones,
+    })),
+  };
+}
+
+/**
+ * Run a tool the model asked for
+ * Failures are returned as { error } rather than thrown, so the model sees them.
+ */
+export async function runCoachTool(
+  client: DbClient,
+  userId: string,
+  name: string,
+  args: Record<string, unknown>
+): Promise<CoachToolResult> {
+  try {
+    switch (name as CoachToolName) {
+      case 'get_performance_summary':
+        return { result: await loadPerformanceData(client, userId) };
+      case 'get_marks':
+        return await getMarks(client, userId, args as MarksQuery);
+      case 'get_study_sessions':
+        return await getStudySessions(client, userId, args as SessionsQuery);
+      case 'get_goals':
+        return await getGoals(client, userId, args as StatusQuery);
+      case 'get_study_plans':
+        return await getStudyPlans(client, userId, args as StatusQuery);
+      default:
+        return { error: `Unknown tool "${name}". Available tools: ${COACH_TOOLS.map(tool => tool.name).join(', ')}` };
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// What coach-chat streams back, one JSON object per line
+export type CoachEvent =
+  | { type: 'conversation'; conversationId: string; title: string }
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; result?: unknown; error?: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,58 @@
+// The parts of a Supabase client the shared modules use. The app's client and the
+// Edge Functions' client both fit, so shared code doesn't import either runtime's
+// supabase-js. Rows come back as unknown; each query says what shape it selected.
+
+export interface DbError {
+  message: string;
+}
+
+export interface DbResponse {
+  data: unknown;
+  error: DbError | null;
+  // Set when the select asked for a count
+  count?: number | null;
+}
+
+export interface DbSelectOptions {
+  count?: 'exact' | 'planned' | 'estimated';
+  head?: boolean;
+}
+
+// What's left once a query has its rows: ordering, paging and unwrapping
+export interface DbTransform extends PromiseLike<DbResponse> {
+  order(column: string, options?: { ascending?: boolean }): this;
+  limit(count: number): this;
+  single(): PromiseLike<DbResponse>;
+  maybeSingle(): PromiseLike<DbResponse>;
+}
+
+export interface DbQuery extends DbTransform {
+  // Rows written by insert, update or upsert
+  select(columns?: string): DbTransform;
+  // Generic over the column like supabase-js, which would otherwise work out the
+  // value's type for every possible column name
+  eq<Column extends string>(column: Column, value: unknown): this;
+  in<Column extends string>(column: Column, values: readonly unknown[]): this;
+  gte(column: string, value: unknown): this;
+  not(column: string, operator: string, value: unknown): this;
+}
+
+export interface DbTable {
+  select(columns?: string, options?: DbSelectOptions): DbQuery;
+  insert(values: object | object[]): DbQuery;
+  update(values: object): DbQuery;
+  upsert(values: object | object[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): DbQuery;
+}
+
+export interface DbClient {
+  from(table: string): DbTable;
+}
+
+/**
+ * View a supabase-js client as a DbClient
+ *
+ * Without generated database types, supabase-js's filter types recurse without end
+ * when TypeScript checks them against these interfaces, so clients are handed to the
+ * shared modules through here instead of being assigned directly.
+ */
+export const toDbClient = (client: { from(table: string): unknown }): DbClient => client as DbClient;
@@ -0,0 +1,354 @@
+// Insight caching, deduplication and the generation budget. generate-insights
+// fingerprints the student data it would send to the model and skips the call
+// when nothing material has changed since the last model run; model-backed runs
+// are also capped per user over a rolling 24 hours. New insights and suggestions that
+// restate one the student can already see (same type and subject, similar title)
+// are merged into it rather than added alongside.
+
+import type { DbClient } from './db-client.ts';
+import { RULES_PROVIDER } from './student-analytics.ts';
+import type { AIGeneratedInsight, AIGeneratedSuggestion, AIPerformanceData } from './student-analytics.ts';
+
+// Model-backed generations allowed per user in BUDGET_WINDOW_MS
+export const DAILY_GENERATION_BUDGET = 3;
+export const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Share of title words two items need in common to count as the same
+const TITLE_SIMILARITY = 0.6;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'for', 'to', 'your', 'you', 'with', 'is', 'are']);
+
+export interface GenerationRun {
+  fingerprint: string;
+  // RULES_PROVIDER for a rule-based fallback, which doesn't count against the budget
+  provider: string | null;
+  created_at: string;
+}
+
+export interface GenerationStatus {
+  lastGeneratedAt: string | null;
+  lastFingerprint: string | null;
+  used: number;
+  remaining: number;
+  budget: number;
+  // When the next run is allowed, if the budget is used up
+  nextAllowedAt: string | null;
+}
+
+// The columns near-duplicates are matched on, as stored
+export interface StoredInsight {
+  id: string;
+  insight_type: string;
+  subject_id: string | null;
+  title: string;
+}
+
+export interface StoredSuggestion {
+  id: string;
+  type: string;
+  subject_id: string | null;
+  title: string;
+}
+
+export interface MergeResult<T> {
+  // New items to insert
+  inserts: T[];
+  // Existing rows to overwrite with a newer version of the same item
+  updates: Array<{ id: string; item: T }>;
+  // How many items were folded into another
+  merged: number;
+}
+
+const round = (value: number, step: number) => Math.round((value || 0) / step) * step;
+
+// 53-bit string hash (cyrb53); stable across runtimes and needs no crypto import
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Fingerprint the parts of the student data an analysis depends on
+ * Figures are rounded first (averages to the point, study time to the half hour,
+ * consistency to 10%), so small drifts such as another day passing don't count
+ * as a change, while a new mark, subject or goal does.
+ */
+export const fingerprintStudentData = (data: AIPerformanceData): string => {
+  const material = {
+    subjects: data.subjects
+      .map(subject => [subject.id, round(subject.averageScore, 1), subject.recentScores.map(score => round(score, 1)), round(subject.studyTime, 30)])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    overallAverage: round(data.overallAverage, 1),
+    marks: data.recentMarks.map(mark => [mark.id, round(mark.percentage, 1)]),
+    study: [
+      round(data.studyPatterns.weeklyStudyHours, 0.5),
+      round(data.studyPatterns.consistencyScore, 10),
+      data.studyPatterns.currentStreak,
+      [...data.studyPatterns.preferredStudyTimes].sort(),
+    ],
+    goals: data.goals
+      .map(goal => [goal.id, round(goal.targetScore, 1), round(goal.progress, 5)])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+  };
+  return hashString(JSON.stringify(material));
+};
+
+/**
+ * Work out where a user stands against the generation budget
+ * @param runs - The user's runs, any order; only the latest and those in the window matter.
+ * Only model-backed runs use up the budget or leave a fingerprint to match. When the
+ * latest run fell back to the rules, the model is tried again on the next request
+ * even if the data hasn't changed.
+ */
+export const summariseGenerationRuns = (
+  runs: GenerationRun[],
+  now: Date = new Date(),
+  budget: number = DAILY_GENERATION_BUDGET
+): GenerationStatus => {
+  const sorted = [...runs].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const windowStart = now.getTime() - BUDGET_WINDOW_MS;
+  const inWindow = sorted.filter(run =>
+    run.provider !== RULES_PROVIDER && new Date(run.created_at).getTime() > windowStart
+  );
+  const used = inWindow.length;
+
+  // The budget frees up when the run that filled it leaves the window
+  const freeingRun = used >= budget ? inWindow[budget - 1] : null;
+  const latest = sorted[0];
+
+  return {
+    lastGeneratedAt: latest?.created_at ?? null,
+    lastFingerprint: latest && latest.provider !== RULES_PROVIDER ? latest.fingerprint : null,
+    used,
+    remaining: Math.max(0, budget - used),
+    budget,
+    nextAllowedAt: freeingRun
+      ? new Date(new Date(freeingRun.created_at).getTime() + BUDGET_WINDOW_MS).toISOString()
+      : null,
+  };
+};
+
+/**
+ * Load a user's generation status
+ * @throws If the runs can't be loaded
+ */
+export async function loadGenerationStatus(
+  client: DbClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<GenerationStatus> {
+  // Every run still inside the budget window, or failing that the latest run. Fallback
+  // runs don't count against the budget, so there can be more than the budget's worth.
+  const [windowRes, latestRes] = await Promise.all([
+    client
+      .from('ai_generation_runs')
+      .select('fingerprint, provider, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', new Date(now.getTime() - BUDGET_WINDOW_MS).toISOString())
+      .order('created_at', { ascending: false }),
+    client
+      .from('ai_generation_runs')
+      .select('fingerprint, provider, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1),
+  ]);
+
+  const error = windowRes.error || latestRes.error;
+  if (error) throw new Error(`Failed to load AI generation runs: ${error.message}`);
+
+  const windowRuns = (windowRes.data || []) as GenerationRun[];
+  return summariseGenerationRuns(windowRuns.length > 0 ? windowRuns : (latestRes.data || []) as GenerationRun[], now);
+}
+
+const titleWords = (title: string) =>
+  new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word))
+  );
+
+/**
+ * Whether two titles say the same thing, by the share of words they have in common
+ */
+export const isSimilarTitle = (a: string, b: string): boolean => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared) >= TITLE_SIMILARITY;
+};
+
+interface DuplicateKey {
+  type: string;
+  subjectId: string | null;
+  title: string;
+}
+
+const isNearDuplicate = (a: DuplicateKey, b: DuplicateKey) =>
+  a.type === b.type && a.subjectId === b.subjectId && isSimilarTitle(a.title, b.title);
+
+const mergeNearDuplicates = <T extends { confidenceScore: number }>(
+  incoming: T[],
+  existing: Array<DuplicateKey & { id: string }>,
+  keyOf: (item: T) => DuplicateKey
+): MergeResult<T> => {
+  // Collapse the batch first, keeping the more confident of each pair
+  const unique: T[] = [];
+  incoming.forEach(item => {
+    const index = unique.findIndex(other => isNearDuplicate(keyOf(other), keyOf(item)));
+    if (index < 0) unique.push(item);
+    else if (item.confidenceScore > unique[index].confidenceScore) unique[index] = item;
+  });
+
+  const result: MergeResult<T> = { inserts: [], updates: [], merged: incoming.length - unique.length };
+  unique.forEach(item => {
+    const match = existing.find(row => isNearDuplicate(row, keyOf(item)));
+    if (!match) {
+      result.inserts.push(item);
+    } else if (!result.updates.some(update => update.id === match.id)) {
+      result.updates.push({ id: match.id, item });
+      result.merged++;
+    } else {
+      result.merged++;
+    }
+  });
+  return result;
+};
+
+/**
+ * Split new insights into ones to add and ones that refresh an insight already shown
+ * @param existing - The user's unread insights
+ */
+export const mergeInsights = (incoming: AIGeneratedInsight[], existing: StoredInsight[]): MergeResult<AIGeneratedInsight> =>
+  mergeNearDuplicates(
+    incoming,
+    existing.map(row => ({ id: row.id, type: row.insight_type, subjectId: row.subject_id || null, title: row.title })),
+    insight => ({ type: insight.insightType, subjectId: insight.subjectId || null, title: insight.title })
+  );
+
+/**
+ * Split new suggestions into ones to add and ones that refresh a suggestion already shown
+ * @param existing - The user's active AI suggestions
+ */
+export const mergeSuggestions = (incoming: AIGeneratedSuggestion[], existing: StoredSuggestion[]): MergeResult<AIGeneratedSuggestion> =>
+  mergeNearDuplicates(
+    incoming,
+    existing.map(row => ({ id: row.id, type: row.type, subjectId: row.subject_id || null, title: row.title })),
+    suggestion => ({ type: suggestion.type, subjectId: suggestion.subjectId || null, title: suggestion.title })
+  );
+
+const insightRow = (insight: AIGeneratedInsight, source: { provider: string; model: string | null }) => ({
+  insight_type: insight.insightType,
+  title: insight.title,
+  content: insight.content,
+  confidence_score: insight.confidenceScore,
+  priority: insight.priority,
+  subject_id: insight.subjectId || null,
+  provider: source.provider,
+  model: source.model,
+  created_at: new Date().toISOString()
+});
+
+const suggestionRow = (suggestion: AIGeneratedSuggestion) => ({
+  title: suggestion.title,
+  description: suggestion.description,
+  type: suggestion.type,
+  priority: suggestion.priority,
+  category: suggestion.category,
+  resource_url: suggestion.resourceUrl || null,
+  estimated_time: suggestion.estimatedTime || null,
+  subject_id: suggestion.subjectId || null,
+  confidence_score: suggestion.confidenceScore
+});
+
+/**
+ * Save new insights, refreshing any unread insight they duplicate instead of adding another
+ * @throws If the insights can't be loaded or saved
+ */
+export async function saveMergedInsights(
+  client: DbClient,
+  userId: string,
+  insights: AIGeneratedInsight[],
+  source: { provider: string; model: string | null }
+): Promise<MergeResult<AIGeneratedInsight>> {
+  const { data: existing, error: loadError } = await client
+    .from('ai_insights')
+    .select('id, insight_type, subject_id, title')
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (loadError) throw new Error(`Failed to load AI insights: ${loadError.message}`);
+
+  const result = mergeInsights(insights, (existing || []) as StoredInsight[]);
+
+  if (result.inserts.length > 0) {
+    const { error } = await client
+      .from('ai_insights')
+      .insert(result.inserts.map(insight => ({ ...insightRow(insight, source), user_id: userId, is_read: false })));
+    if (error) throw new Error(`Failed to save AI insights: ${error.message}`);
+  }
+
+  const updates = await Promise.all(
+    result.updates.map(({ id, item }) => client.from('ai_insights').update(insightRow(item, source)).eq('id', id))
+  );
+  const updateError = updates.find(update => update.error)?.error;
+  if (updateError) throw new Error(`Failed to update AI insights: ${updateError.message}`);
+
+  return result;
+}
+
+/**
+ * Save new suggestions, refreshing any active suggestion they duplicate instead of adding another
+ * Refreshed suggestions keep their interaction counts and ratings.
+ * @throws If the suggestions can't be loaded or saved
+ */
+export async function saveMergedSuggestions(
+  client: DbClient,
+  userId: string,
+  suggestions: AIGeneratedSuggestion[]
+): Promise<MergeResult<AIGeneratedSuggestion>> {
+  const { data: existing, error: loadError } = await client
+    .from('suggestions')
+    .select('id, type, subject_id, title')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .eq('ai_generated', true);
+
+  if (loadError) throw new Error(`Failed to load AI suggestions: ${loadError.message}`);
+
+  const result = mergeSuggestions(suggestions, (existing || []) as StoredSuggestion[]);
+
+  if (result.inserts.length > 0) {
+    const { error } = await client
+      .from('suggestions')
+      .insert(result.inserts.map(suggestion => ({
+        ...suggestionRow(suggestion),
+        user_id: userId,
+        status: 'active',
+        ai_generated: true,
+        interaction_count: 0,
+        effectiveness_rating: 0
+      })));
+    if (error) throw new Error(`Failed to save AI suggestions: ${error.message}`);
+  }
+
+  const updates = await Promise.all(
+    result.updates.map(({ id, item }) => client.from('suggestions').update(suggestionRow(item)).eq('id', id))
+  );
+  const updateError = updates.find(update => update.error)?.error;
+  if (updateError) throw new Error(`Failed to update AI suggestions: ${updateError.message}`);
+
+  return result;
+}
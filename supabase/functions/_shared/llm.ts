@@ -0,0 +1,511 @@
+// LLM providers: one interface over the chat models the Edge Functions can use.
+// The provider, model and sampling settings come from the environment, so a
+// deployment can keep student data on a local model, or use the mock offline:
+//
+//   LLM_PROVIDER     openai (default, any OpenAI-compatible endpoint), anthropic,
+//                    ollama, llamacpp or mock
+//   LLM_MODEL        Model name; each provider has a default
+//   LLM_BASE_URL     Endpoint root, e.g. http://localhost:11434 for Ollama
+//   LLM_API_KEY      Falls back to OPENAI_API_KEY or ANTHROPIC_API_KEY
+//   LLM_TEMPERATURE  Overrides the calling function's default
+//   LLM_MAX_TOKENS   Overrides the calling function's default
+//   LLM_TIMEOUT_MS   How long to wait for a response (default 60000)
+//
+// Only fetch is used, and the environment is read through a getter, so this runs
+// under Deno or Node alike.
+//
+// complete() returns a whole reply. stream() passes text on as it arrives and can
+// offer the model tools; the tool calls it asks for come back with the response,
+// for the caller to run and answer with 'tool' messages.
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Tools an assistant message asked for
+  toolCalls?: LLMToolCall[];
+  // The call a tool message answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  // Ask for a single JSON object back
+  json?: boolean;
+  // Tools the model may call (stream() only)
+  tools?: LLMTool[];
+  // What the mock provider answers with; real providers ignore it
+  mockContent?: string;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete: (request: LLMRequest) => Promise<LLMResponse>;
+  // Calls onText with each piece of the reply as it arrives
+  stream: (request: LLMRequest, onText: (text: string) => void) => Promise<LLMResponse>;
+}
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'ollama', 'llamacpp', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4',
+  anthropic: 'claude-3-5-sonnet-latest',
+  ollama: 'llama3.1',
+  // llama.cpp serves whichever model it was started with
+  llamacpp: 'local',
+  mock: 'mock',
+};
+
+const DEFAULT_BASE_URLS: Record<LLMProviderName, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com',
+  ollama: 'http://localhost:11434',
+  llamacpp: 'http://localhost:8080/v1',
+  mock: '',
+};
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+const parseNumber = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Read the LLM settings from the environment
+ * @param getEnv - Looks up an environment variable, e.g. (name) => Deno.env.get(name)
+ * @param defaults - The calling function's own temperature and token limit
+ * @throws If LLM_PROVIDER names an unknown provider
+ */
+export const readLLMConfig = (
+  getEnv: (name: string) => string | undefined,
+  defaults: { temperature: number; maxTokens: number }
+): LLMConfig => {
+  const provider = (getEnv('LLM_PROVIDER') || 'openai').trim().toLowerCase() as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"; expected one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const fallbackKey = provider === 'anthropic' ? getEnv('ANTHROPIC_API_KEY') : provider === 'openai' ? getEnv('OPENAI_API_KEY') : undefined;
+
+  return {
+    provider,
+    model: getEnv('LLM_MODEL') || DEFAULT_MODELS[provider],
+    temperature: parseNumber(getEnv('LLM_TEMPERATURE'), defaults.temperature),
+    maxTokens: Math.round(parseNumber(getEnv('LLM_MAX_TOKENS'), defaults.maxTokens)),
+    baseUrl: getEnv('LLM_BASE_URL') || undefined,
+    apiKey: getEnv('LLM_API_KEY') || fallbackKey || undefined,
+    timeoutMs: parseNumber(getEnv('LLM_TIMEOUT_MS'), DEFAULT_TIMEOUT_MS),
+  };
+};
+
+const postJson = async (url: string, headers: Record<string, string>, body: unknown, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${url} responded ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`${url} didn't respond within ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// POST and hand each line of the streamed reply to onLine (SSE and NDJSON are both line-based)
+const streamLines = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  onLine: (line: string) => void
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`${url} responded ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) onLine(line);
+      }
+    }
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) onLine(rest);
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`${url} didn't finish responding within ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Server-sent events carry JSON after "data: "; anything else (event names, [DONE]) is skipped
+const parseSSE = (line: string) => {
+  if (!line.startsWith('data:')) return null;
+  try {
+    return JSON.parse(line.slice(5).trim());
+  } catch {
+    return null;
+  }
+};
+
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// For providers that don't id their tool calls. Results are matched to calls by id
+// across the whole conversation, so a counter that restarts each round won't do.
+const newToolCallId = (prefix: string) => `${prefix}_${crypto.randomUUID()}`;
+
+const requireKey = (config: LLMConfig) => {
+  if (!config.apiKey) throw new Error(`No API key set for the ${config.provider} provider (LLM_API_KEY)`);
+  return config.apiKey;
+};
+
+// OpenAI's chat completions API, which OpenAI-compatible servers (llama.cpp,
+// vLLM, LM Studio, Azure-style gateways) also speak
+const toOpenAIMessages = (messages: LLMMessage[]) =>
+  messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+
+const openAIRequest = (config: LLMConfig, request: LLMRequest) => {
+  const headers: Record<string, string> = {};
+  if (config.provider === 'openai') headers.Authorization = `Bearer ${requireKey(config)}`;
+  else if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[config.provider]).replace(/\/$/, '');
+  const body = {
+    model: config.model,
+    messages: toOpenAIMessages(request.messages),
+    temperature: config.temperature,
+    max_tokens: config.maxTokens,
+    ...(request.json && { response_format: { type: 'json_object' } }),
+    ...(request.tools?.length && {
+      tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+    }),
+  };
+  return { url: `${baseUrl}/chat/completions`, headers, body };
+};
+
+const openAICompatible = (config: LLMConfig): LLMProvider['complete'] => async (request) => {
+  const { url, headers, body } = openAIRequest(config, request);
+  const data = await postJson(url, headers, body, config.timeoutMs);
+
+  return { content: data?.choices?.[0]?.message?.content || '', provider: config.provider, model: data?.model || config.model };
+};
+
+const openAICompatibleStream = (config: LLMConfig): LLMProvider['stream'] => async (request, onText) => {
+  const { url, headers, body } = openAIRequest(config, request);
+  let content = '';
+  let model = config.model;
+  // Tool calls arrive in pieces, keyed by their index
+  const calls: Array<{ id: string; name: string; arguments: string }> = [];
+
+  await streamLines(url, headers, { ...body, stream: true }, config.timeoutMs, line => {
+    const chunk = parseSSE(line);
+    if (!chunk) return;
+    model = chunk.model || model;
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta?.content) {
+      content += delta.content;
+      onText(delta.content);
+    }
+    (delta?.tool_calls || []).forEach((piece: { index: number; id?: string; function?: { name?: string; arguments?: string } }) => {
+      if (!calls[piece.index]) calls[piece.index] = { id: '', name: '', arguments: '' };
+      const call = calls[piece.index];
+      if (piece.id) call.id = piece.id;
+      if (piece.function?.name) call.name += piece.function.name;
+      if (piece.function?.arguments) call.arguments += piece.function.arguments;
+    });
+  });
+
+  const toolCalls = calls.filter(Boolean).map(call => ({
+    id: call.id || newToolCallId('call'),
+    name: call.name,
+    arguments: parseArguments(call.arguments),
+  }));
+  return { content, provider: config.provider, model, ...(toolCalls.length && { toolCalls }) };
+};
+
+// Anthropic takes the system prompt separately, and tool results as user content blocks
+const toAnthropicMessages = (messages: LLMMessage[]) => {
+  const converted: Array<{ role: 'user' | 'assistant'; content: unknown }> = [];
+  messages.filter(message => message.role !== 'system').forEach(message => {
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = converted[converted.length - 1];
+      // Results for calls made together go back together
+      if (previous?.role === 'user' && Array.isArray(previous.content)) previous.content.push(block);
+      else converted.push({ role: 'user', content: [block] });
+    } else if (message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else {
+      converted.push({ role: message.role as 'user' | 'assistant', content: message.content });
+    }
+  });
+  return converted;
+};
+
+const anthropicRequest = (config: LLMConfig, request: LLMRequest) => {
+  const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+  if (request.json) system.push(JSON_INSTRUCTION);
+
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URLS.anthropic).replace(/\/$/, '');
+  return {
+    url: `${baseUrl}/v1/messages`,
+    headers: {
+      'x-api-key': requireKey(config),
+      'anthropic-version': '2023-06-01',
+    },
+    body: {
+      model: config.model,
+      system: system.join('\n\n'),
+      messages: toAnthropicMessages(request.messages),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+      }),
+    },
+  };
+};
+
+const anthropic = (config: LLMConfig): LLMProvider['complete'] => async (request) => {
+  const { url, headers, body } = anthropicRequest(config, request);
+  const data = await postJson(url, headers, body, config.timeoutMs);
+
+  const content = (data?.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+  return { content, provider: 'anthropic', model: data?.model || config.model };
+};
+
+const anthropicStream = (config: LLMConfig): LLMProvider['stream'] => async (request, onText) => {
+  const { url, headers, body } = anthropicRequest(config, request);
+  let content = '';
+  let model = config.model;
+  // Tool use blocks, keyed by content block index, with their input still as JSON text
+  const calls: Array<{ id: string; name: string; input: string }> = [];
+
+  await streamLines(url, headers, { ...body, stream: true }, config.timeoutMs, line => {
+    const event = parseSSE(line);
+    if (!event) return;
+    if (event.type === 'message_start') {
+      model = event.message?.model || model;
+    } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+      calls[event.index] = { id: event.content_block.id, name: event.content_block.name, input: '' };
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      content += event.delta.text;
+      onText(event.delta.text);
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta' && calls[event.index]) {
+      calls[event.index].input += event.delta.partial_json;
+    } else if (event.type === 'error') {
+      throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+    }
+  });
+
+  const toolCalls = calls.filter(Boolean).map(call => ({ id: call.id, name: call.name, arguments: parseArguments(call.input) }));
+  return { content, provider: 'anthropic', model, ...(toolCalls.length && { toolCalls }) };
+};
+
+// Ollama's native chat API
+const toOllamaMessages = (messages: LLMMessage[]) =>
+  messages.map(message => {
+    if (message.role === 'tool') return { role: 'tool', content: message.content, tool_name: message.toolName };
+    if (message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+
+const ollamaRequest = (config: LLMConfig, request: LLMRequest, stream: boolean) => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URLS.ollama).replace(/\/$/, '');
+  return {
+    url: `${baseUrl}/api/chat`,
+    body: {
+      model: config.model,
+      messages: toOllamaMessages(request.messages),
+      stream,
+      ...(request.json && { format: 'json' }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+      }),
+      options: { temperature: config.temperature, num_predict: config.maxTokens },
+    },
+  };
+};
+
+const ollama = (config: LLMConfig): LLMProvider['complete'] => async (request) => {
+  const { url, body } = ollamaRequest(config, request, false);
+  const data = await postJson(url, {}, body, config.timeoutMs);
+
+  return { content: data?.message?.content || '', provider: 'ollama', model: data?.model || config.model };
+};
+
+// Streams newline-delimited JSON; tool calls come whole, without ids
+const ollamaStream = (config: LLMConfig): LLMProvider['stream'] => async (request, onText) => {
+  const { url, body } = ollamaRequest(config, request, true);
+  let content = '';
+  let model = config.model;
+  const toolCalls: LLMToolCall[] = [];
+
+  await streamLines(url, {}, body, config.timeoutMs, line => {
+    let chunk;
+    try {
+      chunk = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (chunk.error) throw new Error(`Ollama stream error: ${chunk.error}`);
+    model = chunk.model || model;
+    if (chunk.message?.content) {
+      content += chunk.message.content;
+      onText(chunk.message.content);
+    }
+    (chunk.message?.tool_calls || []).forEach((call: { function: { name: string; arguments: unknown } }) => {
+      toolCalls.push({
+        id: newToolCallId('call'),
+        name: call.function.name,
+        arguments: typeof call.function.arguments === 'string'
+          ? parseArguments(call.function.arguments)
+          : (call.function.arguments as Record<string, unknown>) || {},
+      });
+    });
+  });
+
+  return { content, provider: 'ollama', model, ...(toolCalls.length && { toolCalls }) };
+};
+
+// Answers with the caller's mockContent, so runs are repeatable and need no network
+const mock = (config: LLMConfig): LLMProvider['complete'] => async (request) => ({
+  content: request.mockContent ?? (request.json ? '{}' : ''),
+  provider: 'mock',
+  model: config.model,
+});
+
+// When offered tools, the mock calls each one once with no arguments, so the tool
+// round-trip can be exercised offline; given their results, it streams mockContent
+// word by word
+const mockStream = (config: LLMConfig): LLMProvider['stream'] => async (request, onText) => {
+  const answeringTools = request.messages[request.messages.length - 1]?.role === 'tool';
+  if (request.tools?.length && !answeringTools) {
+    return {
+      content: '',
+      provider: 'mock',
+      model: config.model,
+      toolCalls: request.tools.map(tool => ({ id: newToolCallId('mock'), name: tool.name, arguments: {} })),
+    };
+  }
+
+  const content = request.mockContent ?? '';
+  content.split(/(?<=\s)/).forEach(piece => onText(piece));
+  return { content, provider: 'mock', model: config.model };
+};
+
+const ADAPTERS: Record<LLMProviderName, { complete: (config: LLMConfig) => LLMProvider['complete']; stream: (config: LLMConfig) => LLMProvider['stream'] }> = {
+  openai: { complete: openAICompatible, stream: openAICompatibleStream },
+  llamacpp: { complete: openAICompatible, stream: openAICompatibleStream },
+  anthropic: { complete: anthropic, stream: anthropicStream },
+  ollama: { complete: ollama, stream: ollamaStream },
+  mock: { complete: mock, stream: mockStream },
+};
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => ({
+  name: config.provider,
+  model: config.model,
+  complete: ADAPTERS[config.provider].complete(config),
+  stream: ADAPTERS[config.provider].stream(config),
+});
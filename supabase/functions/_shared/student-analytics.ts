@@ -0,0 +1,976 @@
+// Student analytics: builds the AIPerformanceData that insights are generated from
+// out of a student's raw rows, along with the rule-based insights and suggestions
+// used when no model is available. AIService and the generate-insights Edge
+// Function both go through here, so the two paths see the same numbers. It imports
+// only other shared modules, so it loads under Deno and Vite alike.
+//
+// Calendar days and hours are read in the student's timezone when one is given,
+// and in the runtime's local time otherwise.
+
+import type { DbClient } from './db-client.ts';
+
+// Percentage weight per marks.test_type, e.g. { exam: 50, quiz: 20, assignment: 30 }
+export type TestTypeWeights = Record<string, number>;
+
+export interface WeightableMark {
+  test_type?: string | null;
+  percentage: number;
+}
+
+export type TimeOfDay = 'Morning' | 'Afternoon' | 'Evening' | 'Night';
+
+export interface AnalyticsSession {
+  subject_id: string | null;
+  start_time: string;
+  duration_minutes: number | null;
+}
+
+export interface ImpactMark {
+  subject_id: string;
+  percentage: number;
+  test_type: string;
+  date: string;
+}
+
+export interface ImpactSubject {
+  id: string;
+  name: string;
+}
+
+export interface StudyMarkPair {
+  hours: number;
+  percentage: number;
+  testType: string;
+  date: string;
+}
+
+export interface RegressionFit {
+  slope: number;
+  intercept: number;
+  // Pearson correlation, -1 to 1
+  correlation: number;
+  count: number;
+}
+
+export interface StudyImpact {
+  subjectId: string;
+  subjectName: string;
+  // Set when the fit covers one assessment type only
+  testType: string | null;
+  fit: RegressionFit;
+  // Percentage points per extra hour of study
+  percentPerHour: number;
+  isMeaningful: boolean;
+  finding: string;
+}
+
+export interface AIPerformanceData {
+  userId: string;
+  subjects: Array<{
+    id: string;
+    name: string;
+    averageScore: number;
+    recentScores: number[];
+    improvementRate: number;
+    studyTime: number;
+  }>;
+  overallAverage: number;
+  recentMarks: Array<{
+    id: string;
+    score: number;
+    percentage: number;
+    testType: string;
+    testName: string;
+    date: string;
+    subjectName: string;
+  }>;
+  studyPatterns: {
+    totalStudyTime: number;
+    weeklyStudyHours: number;
+    preferredStudyTimes: string[];
+    consistencyScore: number;
+    currentStreak: number;
+  };
+  // How study in the days before assessments has related to their marks
+  studyImpact: Array<{
+    subjectId: string;
+    subjectName: string;
+    testType: string | null;
+    percentPerHour: number;
+    correlation: number;
+    assessments: number;
+    finding: string;
+  }>;
+  goals: Array<{
+    id: string;
+    title: string;
+    targetScore: number;
+    currentScore: number;
+    progress: number;
+    subjectName?: string;
+  }>;
+}
+
+export interface AIGeneratedInsight {
+  insightType: string;
+  title: string;
+  content: string;
+  confidenceScore: number;
+  priority: string;
+  subjectId?: string;
+}
+
+export interface AIGeneratedSuggestion {
+  title: string;
+  description: string;
+  type: string;
+  priority: string;
+  category: string;
+  resourceUrl?: string;
+  estimatedTime?: string;
+  subjectId?: string;
+  confidenceScore: number;
+}
+
+// The rows AIPerformanceData is built from, as loadStudentRows() selects them
+export interface StudentRows {
+  subjects: Array<{ id: string; name: string; credit_hours?: number | null; test_type_weights?: TestTypeWeights | null }>;
+  // Newest first
+  marks: Array<{
+    id: string;
+    subject_id: string;
+    score: number;
+    percentage: number;
+    test_type: string;
+    test_name: string;
+    date: string;
+    subjects?: { name: string } | null;
+  }>;
+  sessions: AnalyticsSession[];
+  goals: Array<{
+    id: string;
+    title: string;
+    target_score: number;
+    current_score: number;
+    progress: number;
+    subjects?: { name: string } | null;
+  }>;
+  user: { total_study_time?: number | null; current_streak?: number | null; timezone?: string | null } | null;
+}
+
+export const DEFAULT_CREDIT_HOURS = 3;
+
+// Recorded as ai_insights.provider for insights from the rule-based generators
+export const RULES_PROVIDER = 'rules';
+
+export const STUDY_WINDOW_OPTIONS = [3, 7, 14];
+export const DEFAULT_STUDY_WINDOW_DAYS = 7;
+
+// Days of study looked at for the consistency score
+const CONSISTENCY_WINDOW_DAYS = 14;
+
+// Fewer assessments than this say nothing about a trend
+const MIN_PAIRS = 4;
+// Weaker correlations than this are reported as no clear link
+const MIN_CORRELATION = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar day (yyyy-MM-dd) of an instant
+const toDay = (instant: string | Date, timezone?: string | null): string => {
+  const date = typeof instant === 'string' ? new Date(instant) : instant;
+  if (timezone) {
+    try {
+      return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+    } catch {
+      // Unknown timezone; fall through to local time
+    }
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Clock hour (0-23) of an instant
+const toHour = (instant: string, timezone?: string | null): number => {
+  const date = new Date(instant);
+  if (timezone) {
+    try {
+      const hour = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', hourCycle: 'h23' }).format(date);
+      return Number(hour) % 24;
+    } catch {
+      // Unknown timezone; fall through to local time
+    }
+  }
+  return date.getHours();
+};
+
+const dayNumber = (day: string) => Date.UTC(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10))) / DAY_MS;
+
+const shiftDay = (day: string, days: number) => new Date((dayNumber(day) + days) * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Normalise a subject's weighting rule
+ * @param weights - Raw test_type_weights JSON from the subjects table
+ * @returns Positive weights keyed by lower-cased test type
+ */
+export const parseTestTypeWeights = (weights: unknown): TestTypeWeights => {
+  if (!weights || typeof weights !== 'object' || Array.isArray(weights)) return {};
+
+  return Object.fromEntries(
+    Object.entries(weights as Record<string, unknown>)
+      .map(([type, weight]) => [type.trim().toLowerCase(), Number(weight)] as const)
+      .filter(([type, weight]) => type && !isNaN(weight) && weight > 0)
+  );
+};
+
+/**
+ * Average marks using a subject's test-type weights
+ *
+ * Each weighted test type contributes the mean of its marks at its weight. Types the
+ * rule doesn't mention share whatever is left of 100%. Weights are rescaled over the
+ * types that actually have marks, so a course with no exam yet still has an average.
+ * @param marks - Marks to average
+ * @param weights - The subject's weighting rule; empty for a plain mean
+ * @returns The weighted average percentage, or null if there are no marks
+ */
+export const calculateWeightedAverage = (
+  marks: WeightableMark[],
+  weights?: TestTypeWeights | null
+): number | null => {
+  if (marks.length === 0) return null;
+
+  const rule = parseTestTypeWeights(weights);
+  const plainMean = marks.reduce((sum, mark) => sum + mark.percentage, 0) / marks.length;
+  if (Object.keys(rule).length === 0) return plainMean;
+
+  const byType: Record<string, number[]> = {};
+  marks.forEach(mark => {
+    const type = (mark.test_type || 'other').toLowerCase();
+    byType[type] = byType[type] || [];
+    byType[type].push(mark.percentage);
+  });
+
+  const unweightedTypes = Object.keys(byType).filter(type => !(type in rule));
+  const remainder = Math.max(0, 100 - Object.values(rule).reduce((a, b) => a + b, 0));
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  Object.entries(byType).forEach(([type, scores]) => {
+    const weight = type in rule ? rule[type] : remainder / unweightedTypes.length;
+    if (weight <= 0) return;
+
+    weightedSum += (scores.reduce((a, b) => a + b, 0) / scores.length) * weight;
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : plainMean;
+};
+
+/**
+ * Recent against earlier marks: the mean of the newer half minus the mean of the older half
+ * @param scores - Percentages, newest first
+ * @returns Percentage points, or 0 with fewer than four marks
+ */
+export const calculateImprovementRate = (scores: number[]): number => {
+  if (scores.length < 4) return 0;
+
+  const half = Math.ceil(scores.length / 2);
+  const recentAvg = scores.slice(0, half).reduce((a, b) => a + b, 0) / half;
+  const earlierAvg = scores.slice(half).reduce((a, b) => a + b, 0) / (scores.length - half);
+  return recentAvg - earlierAvg;
+};
+
+export const getTimeOfDay = (hour: number): TimeOfDay => {
+  if (hour >= 5 && hour < 12) return 'Morning';
+  if (hour >= 12 && hour < 17) return 'Afternoon';
+  if (hour >= 17 && hour < 21) return 'Evening';
+  return 'Night';
+};
+
+/**
+ * The most common times of day study sessions start at
+ * @returns Up to three times of day, most common first
+ */
+export const getPreferredStudyTimes = (sessions: AnalyticsSession[], timezone?: string | null): TimeOfDay[] => {
+  const counts = new Map<TimeOfDay, number>();
+  sessions.forEach(session => {
+    const timeOfDay = getTimeOfDay(toHour(session.start_time, timezone));
+    counts.set(timeOfDay, (counts.get(timeOfDay) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([timeOfDay]) => timeOfDay);
+};
+
+/**
+ * Share of recent days with some study, as a score from 0 to 100
+ * Only the last two weeks count; a student who started more recently than that
+ * is scored on the days since their first session.
+ */
+export const calculateConsistencyScore = (
+  sessions: AnalyticsSession[],
+  now: Date = new Date(),
+  timezone?: string | null
+): number => {
+  if (sessions.length === 0) return 0;
+
+  const today = toDay(now, timezone);
+  const windowStart = shiftDay(today, -(CONSISTENCY_WINDOW_DAYS - 1));
+  const days = sessions.map(session => toDay(session.start_time, timezone));
+  const firstDay = days.reduce((first, day) => (day < first ? day : first));
+
+  const studyDays = new Set(days.filter(day => day >= windowStart && day <= today));
+
+  const daysToConsider = Math.min(CONSISTENCY_WINDOW_DAYS, dayNumber(today) - dayNumber(firstDay) + 1);
+  return daysToConsider > 0 ? Math.round((studyDays.size / daysToConsider) * 100) : 0;
+};
+
+const TEST_TYPE_PLURALS: Record<string, string> = {
+  quiz: 'quizzes',
+  exam: 'exams',
+  assignment: 'assignments',
+  project: 'projects',
+};
+
+const describeAssessments = (subjectName: string, testType: string | null) =>
+  testType ? `${subjectName} ${TEST_TYPE_PLURALS[testType] || `${testType} assessments`}` : `${subjectName} assessments`;
+
+/**
+ * Fit a least-squares line through points
+ * @returns The fit, or null with too few points or no spread in x
+ */
+export const fitLinearRegression = (points: Array<{ x: number; y: number }>): RegressionFit | null => {
+  const count = points.length;
+  if (count < 2) return null;
+
+  const meanX = points.reduce((total, p) => total + p.x, 0) / count;
+  const meanY = points.reduce((total, p) => total + p.y, 0) / count;
+  let sxx = 0, syy = 0, sxy = 0;
+  points.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    syy += (p.y - meanY) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    correlation: syy === 0 ? 0 : sxy / Math.sqrt(sxx * syy),
+    count
+  };
+};
+
+/**
+ * Pair each mark with the study done on its subject in the days before it
+ * The assessment day itself isn't counted, as a mark's date doesn't say whether
+ * that day's study came before or after it.
+ * @param windowDays - How many days before each assessment count
+ */
+export const pairStudyWithMarks = (
+  sessions: AnalyticsSession[],
+  marks: ImpactMark[],
+  subjectId: string,
+  windowDays: number,
+  timezone?: string | null
+): StudyMarkPair[] => {
+  const sessionsByDay = new Map<string, number>();
+  sessions
+    .filter(session => session.subject_id === subjectId)
+    .forEach(session => {
+      const day = toDay(session.start_time, timezone);
+      sessionsByDay.set(day, (sessionsByDay.get(day) || 0) + (session.duration_minutes || 0));
+    });
+
+  return marks
+    .filter(mark => mark.subject_id === subjectId && mark.date)
+    .map(mark => {
+      const assessed = mark.date.slice(0, 10);
+      let minutes = 0;
+      for (let i = 1; i <= windowDays; i++) {
+        minutes += sessionsByDay.get(shiftDay(assessed, -i)) || 0;
+      }
+      return { hours: minutes / 60, percentage: mark.percentage, testType: mark.test_type, date: mark.date };
+    });
+};
+
+const describeFit = (subjectName: string, testType: string | null, windowDays: number, fit: RegressionFit, isMeaningful: boolean) => {
+  const assessments = describeAssessments(subjectName, testType);
+  if (!isMeaningful) return `No clear link yet between study time and marks in ${assessments}`;
+  if (fit.slope <= 0) return `More study in the ${windowDays} days before ${assessments} hasn't gone with higher marks so far`;
+
+  const perHour = fit.slope >= 1 ? Math.round(fit.slope) : Math.round(fit.slope * 10) / 10;
+  return `Each extra hour in the ${windowDays} days before ${assessments} has been worth about ${perHour}%`;
+};
+
+const toImpact = (
+  subject: ImpactSubject,
+  testType: string | null,
+  pairs: StudyMarkPair[],
+  windowDays: number
+): StudyImpact | null => {
+  if (pairs.length < MIN_PAIRS) return null;
+  const fit = fitLinearRegression(pairs.map(pair => ({ x: pair.hours, y: pair.percentage })));
+  if (!fit) return null;
+
+  const isMeaningful = Math.abs(fit.correlation) >= MIN_CORRELATION;
+  return {
+    subjectId: subject.id,
+    subjectName: subject.name,
+    testType,
+    fit,
+    percentPerHour: fit.slope,
+    isMeaningful,
+    finding: describeFit(subject.name, testType, windowDays, fit, isMeaningful)
+  };
+};
+
+/**
+ * Relate study time to marks for every subject
+ * Each subject is fitted across all its assessments, and again for each assessment
+ * type with enough marks of its own, since a quiz and an exam reward study differently.
+ * @returns Fits with enough data behind them, the clearest links first
+ */
+export const analyzeStudyImpact = (
+  subjects: ImpactSubject[],
+  sessions: AnalyticsSession[],
+  marks: ImpactMark[],
+  windowDays: number = DEFAULT_STUDY_WINDOW_DAYS,
+  timezone?: string | null
+): StudyImpact[] => {
+  const impacts: StudyImpact[] = [];
+
+  subjects.forEach(subject => {
+    const pairs = pairStudyWithMarks(sessions, marks, subject.id, windowDays, timezone);
+    const overall = toImpact(subject, null, pairs, windowDays);
+    if (overall) impacts.push(overall);
+
+    const testTypes = Array.from(new Set(pairs.map(pair => pair.testType)));
+    // A single type would only repeat the subject-wide fit
+    if (testTypes.length < 2) return;
+    testTypes.forEach(testType => {
+      const impact = toImpact(subject, testType, pairs.filter(pair => pair.testType === testType), windowDays);
+      if (impact) impacts.push(impact);
+    });
+  });
+
+  return impacts.sort((a, b) =>
+    Number(b.isMeaningful) - Number(a.isMeaningful) || Math.abs(b.fit.correlation) - Math.abs(a.fit.correlation)
+  );
+};
+
+/**
+ * Work out everything the insight generators look at from a student's rows
+ * @param now - The current time, for the weekly hours and consistency windows
+ */
+export const buildPerformanceData = (userId: string, rows: StudentRows, now: Date = new Date()): AIPerformanceData => {
+  const { subjects: subjectRows, marks, sessions, goals, user } = rows;
+  const timezone = user?.timezone;
+
+  const subjects = subjectRows.map(subject => {
+    const subjectMarks = marks.filter(mark => mark.subject_id === subject.id);
+    const scores = subjectMarks.map(mark => mark.percentage);
+
+    return {
+      id: subject.id,
+      name: subject.name,
+      averageScore: calculateWeightedAverage(subjectMarks, subject.test_type_weights) ?? 0,
+      recentScores: scores.slice(0, 5),
+      improvementRate: calculateImprovementRate(scores),
+      studyTime: sessions
+        .filter(session => session.subject_id === subject.id)
+        .reduce((total, session) => total + (session.duration_minutes || 0), 0)
+    };
+  });
+
+  // Overall average weighs each subject's average by its credit hours
+  const gradedSubjects = subjects.filter(subject => subject.recentScores.length > 0);
+  const creditsFor = (subjectId: string) =>
+    Number(subjectRows.find(s => s.id === subjectId)?.credit_hours) || DEFAULT_CREDIT_HOURS;
+  const totalCredits = gradedSubjects.reduce((total, subject) => total + creditsFor(subject.id), 0);
+  const overallAverage = totalCredits
+    ? gradedSubjects.reduce((total, subject) => total + subject.averageScore * creditsFor(subject.id), 0) / totalCredits
+    : 0;
+
+  const weekAgo = now.getTime() - 7 * DAY_MS;
+  const weeklyStudyMinutes = sessions
+    .filter(session => new Date(session.start_time).getTime() >= weekAgo)
+    .reduce((total, session) => total + (session.duration_minutes || 0), 0);
+
+  // Only fits with a real correlation are worth passing on
+  const studyImpact = analyzeStudyImpact(subjectRows, sessions, marks, DEFAULT_STUDY_WINDOW_DAYS, timezone)
+    .filter(impact => impact.isMeaningful)
+    .map(impact => ({
+      subjectId: impact.subjectId,
+      subjectName: impact.subjectName,
+      testType: impact.testType,
+      percentPerHour: impact.percentPerHour,
+      correlation: impact.fit.correlation,
+      assessments: impact.fit.count,
+      finding: impact.finding
+    }));
+
+  return {
+    userId,
+    subjects,
+    overallAverage,
+    recentMarks: marks.slice(0, 10).map(mark => ({
+      id: mark.id,
+      score: mark.score,
+      percentage: mark.percentage,
+      testType: mark.test_type,
+      testName: mark.test_name,
+      date: mark.date,
+      subjectName: mark.subjects?.name || 'Unknown'
+    })),
+    studyPatterns: {
+      totalStudyTime: user?.total_study_time || 0,
+      weeklyStudyHours: weeklyStudyMinutes / 60,
+      preferredStudyTimes: getPreferredStudyTimes(sessions, timezone),
+      consistencyScore: calculateConsistencyScore(sessions, now, timezone),
+      currentStreak: user?.current_streak || 0
+    },
+    studyImpact,
+    goals: goals.map(goal => ({
+      id: goal.id,
+      title: goal.title,
+      targetScore: goal.target_score,
+      currentScore: goal.current_score,
+      progress: goal.progress,
+      subjectName: goal.subjects?.name
+    }))
+  };
+};
+
+/**
+ * Load the rows buildPerformanceData() needs
+ * @throws If any of the queries fail
+ */
+export async function loadStudentRows(client: DbClient, userId: string): Promise<StudentRows> {
+  const [subjectsRes, marksRes, sessionsRes, goalsRes, userRes] = await Promise.all([
+    client.from('subjects').select('id, name, credit_hours, test_type_weights').eq('user_id', userId),
+    client
+      .from('marks')
+      .select('id, subject_id, score, percentage, test_type, test_name, date, subjects(name)')
+      .eq('user_id', userId)
+      .order('date', { ascending: false }),
+    client
+      .from('study_sessions')
+      .select('subject_id, start_time, duration_minutes')
+      .eq('user_id', userId)
+      .order('start_time', { ascending: false }),
+    client
+      .from('goals')
+      .select('id, title, target_score, current_score, progress, subjects(name)')
+      .eq('user_id', userId)
+      .eq('status', 'active'),
+    client.from('users').select('total_study_time, current_streak, timezone').eq('id', userId).single()
+  ]);
+
+  const failed = [subjectsRes, marksRes, sessionsRes, goalsRes, userRes].find(res => res.error)?.error;
+  if (failed) throw new Error(`Failed to load student data: ${failed.message}`);
+
+  return {
+    subjects: (subjectsRes.data || []) as StudentRows['subjects'],
+    marks: (marksRes.data || []) as StudentRows['marks'],
+    sessions: (sessionsRes.data || []) as StudentRows['sessions'],
+    goals: (goalsRes.data || []) as StudentRows['goals'],
+    user: userRes.data as StudentRows['user']
+  };
+}
+
+export async function loadPerformanceData(client: DbClient, userId: string, now: Date = new Date()): Promise<AIPerformanceData> {
+  return buildPerformanceData(userId, await loadStudentRows(client, userId), now);
+}
+
+const generateOverallPerformanceInsight = (data: AIPerformanceData): AIGeneratedInsight => {
+  const averageScore = data.overallAverage;
+  let title: string;
+  let content: string;
+  let priority: string;
+  let confidenceScore: number;
+
+  if (averageScore >= 90) {
+    title = "Outstanding Overall Performance";
+    content = `You're performing exceptionally well with a ${averageScore.toFixed(1)}% average across all subjects. Keep up this excellent work!`;
+    priority = "medium";
+    confidenceScore = 95;
+  } else if (averageScore >= 80) {
+    title = "Strong Academic Performance";
+    content = `Your overall average of ${averageScore.toFixed(1)}% shows you're doing very well. Focus on maintaining this strong performance.`;
+    priority = "medium";
+    confidenceScore = 90;
+  } else if (averageScore >= 70) {
+    title = "Good Academic Standing";
+    content = `With a ${averageScore.toFixed(1)}% overall average, you're in good academic standing. There's potential to push into the excellent range with targeted improvements.`;
+    priority = "medium";
+    confidenceScore = 85;
+  } else if (averageScore >= 60) {
+    title = "Room for Overall Improvement";
+    content = `Your current average of ${averageScore.toFixed(1)}% shows you're passing, but there's significant room for improvement. Focus on strengthening your understanding of core concepts.`;
+    priority = "high";
+    confidenceScore = 80;
+  } else {
+    title = "Academic Performance Alert";
+    content = `Your overall average of ${averageScore.toFixed(1)}% indicates you're facing some challenges. Let's develop a structured plan to address the areas where you need the most support.`;
+    priority = "high";
+    confidenceScore = 90;
+  }
+
+  return { insightType: 'performance', title, content, confidenceScore, priority };
+};
+
+const generateSubjectInsight = (subject: AIPerformanceData['subjects'][number], data: AIPerformanceData): AIGeneratedInsight => {
+  const { name, averageScore, improvementRate } = subject;
+  let title: string;
+  let content: string;
+  let priority: string;
+  let confidenceScore: number;
+
+  // Compare to overall average
+  const comparedToOverall = averageScore - data.overallAverage;
+
+  if (improvementRate > 5) {
+    title = `Significant Improvement in ${name}`;
+    content = `You've shown remarkable improvement in ${name} with an upward trend of ${improvementRate.toFixed(1)}%. Keep using the study techniques that are working for you.`;
+    priority = "medium";
+    confidenceScore = 85;
+  } else if (improvementRate < -5) {
+    title = `Declining Performance in ${name}`;
+    content = `Your performance in ${name} has decreased by ${Math.abs(improvementRate).toFixed(1)}%. Consider increasing your study time for this subject and reviewing earlier concepts.`;
+    priority = "high";
+    confidenceScore = 80;
+  } else if (comparedToOverall > 10) {
+    title = `${name} is Your Strength`;
+    content = `At ${averageScore.toFixed(1)}%, your performance in ${name} is ${comparedToOverall.toFixed(1)}% above your overall average. This is clearly a strength you can build on.`;
+    priority = "low";
+    confidenceScore = 90;
+  } else if (comparedToOverall < -10) {
+    title = `${name} Needs Attention`;
+    content = `Your average in ${name} is ${Math.abs(comparedToOverall).toFixed(1)}% below your overall performance. Additional focused study time could help bring this up to your usual standard.`;
+    priority = "high";
+    confidenceScore = 85;
+  } else {
+    title = `${name} Performance Analysis`;
+    content = `Your performance in ${name} is consistent with your overall academic trend. Current average: ${averageScore.toFixed(1)}%.`;
+    priority = "medium";
+    confidenceScore = 75;
+  }
+
+  return { insightType: 'performance', title, content, confidenceScore, priority, subjectId: subject.id };
+};
+
+const generateStudyPatternInsight = (studyPatterns: AIPerformanceData['studyPatterns']): AIGeneratedInsight => {
+  const { weeklyStudyHours, preferredStudyTimes, consistencyScore, currentStreak } = studyPatterns;
+
+  let title: string;
+  let content: string;
+  let priority: string;
+  let confidenceScore: number;
+
+  if (consistencyScore >= 80) {
+    title = "Excellent Study Consistency";
+    content = `You have a very consistent study pattern (${consistencyScore.toFixed(0)}% consistency) with a current streak of ${currentStreak} days. Your preferred study times are ${preferredStudyTimes.join(', ')} with an average of ${weeklyStudyHours.toFixed(1)} hours weekly.`;
+    priority = "low";
+    confidenceScore = 90;
+  } else if (consistencyScore >= 50) {
+    title = "Good Study Habits Forming";
+    content = `You're developing good study consistency (${consistencyScore.toFixed(0)}%) and currently have a ${currentStreak}-day streak. You typically study during ${preferredStudyTimes.join(', ')} for about ${weeklyStudyHours.toFixed(1)} hours per week.`;
+    priority = "medium";
+    confidenceScore = 85;
+  } else if (weeklyStudyHours < 10) {
+    title = "Increase Your Study Time";
+    content = `You're currently studying about ${weeklyStudyHours.toFixed(1)} hours per week, which may not be enough to maximize your performance. Aim for more consistent daily sessions.`;
+    priority = "high";
+    confidenceScore = 80;
+  } else {
+    title = "Study Pattern Analysis";
+    content = `You typically study during ${preferredStudyTimes.join(', ')} for about ${weeklyStudyHours.toFixed(1)} hours weekly. Your consistency rating is ${consistencyScore.toFixed(0)}%. Try to develop more regular study habits for better results.`;
+    priority = "medium";
+    confidenceScore = 75;
+  }
+
+  return { insightType: 'study_pattern', title, content, confidenceScore, priority };
+};
+
+// The clearest link between study time and marks, if there is one
+const generateStudyImpactInsight = (studyImpact: AIPerformanceData['studyImpact']): AIGeneratedInsight | null => {
+  const strongest = [...studyImpact].sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation))[0];
+  if (!strongest) return null;
+
+  const paysOff = strongest.percentPerHour > 0;
+  return {
+    insightType: 'study_pattern',
+    title: paysOff ? `Study Time Pays Off in ${strongest.subjectName}` : `Rethink How You Study for ${strongest.subjectName}`,
+    content: paysOff
+      ? `${strongest.finding}, across ${strongest.assessments} assessments. Planning study in the week before each one is likely to keep lifting your marks.`
+      : `${strongest.finding}, across ${strongest.assessments} assessments. Try changing how you study, such as practice questions instead of re-reading, rather than adding more hours.`,
+    // A handful of assessments only supports a tentative conclusion
+    confidenceScore: Math.round(Math.min(90, 50 + Math.abs(strongest.correlation) * 30 + strongest.assessments)),
+    priority: paysOff ? 'medium' : 'high',
+    subjectId: strongest.subjectId
+  };
+};
+
+const generateGoalInsight = (goals: AIPerformanceData['goals']): AIGeneratedInsight => {
+  const totalGoals = goals.length;
+  const completedGoals = goals.filter(goal => goal.progress >= 100).length;
+  const onTrackGoals = goals.filter(goal => goal.progress >= 50 && goal.progress < 100).length;
+  const needsAttentionGoals = goals.filter(goal => goal.progress < 50).length;
+
+  let title: string;
+  let content: string;
+  let priority: string;
+  let confidenceScore: number;
+
+  if (needsAttentionGoals > onTrackGoals + completedGoals) {
+    title = "Goal Progress Alert";
+    content = `${needsAttentionGoals} out of ${totalGoals} goals need your attention as they're below 50% progress. Focus on breaking these down into smaller, manageable tasks.`;
+    priority = "high";
+    confidenceScore = 85;
+  } else if (completedGoals > 0) {
+    title = "Goal Achievement Success";
+    content = `You've completed ${completedGoals} goal(s) and have ${onTrackGoals} on track. This shows good progress toward your academic objectives.`;
+    priority = "medium";
+    confidenceScore = 90;
+  } else if (onTrackGoals > needsAttentionGoals) {
+    title = "Goals On Track";
+    content = `Most of your goals (${onTrackGoals} out of ${totalGoals}) are on track with more than 50% progress. Keep up the momentum!`;
+    priority = "medium";
+    confidenceScore = 80;
+  } else {
+    title = "Goal Progress Summary";
+    content = `You have ${totalGoals} active goals with ${completedGoals} completed, ${onTrackGoals} on track, and ${needsAttentionGoals} needing attention.`;
+    priority = "medium";
+    confidenceScore = 75;
+  }
+
+  return { insightType: 'prediction', title, content, confidenceScore, priority };
+};
+
+/**
+ * Insights worked out from the data by fixed rules, for when no model is available
+ */
+export const generateRuleBasedInsights = (data: AIPerformanceData): AIGeneratedInsight[] => {
+  const insights: AIGeneratedInsight[] = [];
+
+  if (data.overallAverage > 0) insights.push(generateOverallPerformanceInsight(data));
+
+  data.subjects
+    .filter(subject => subject.recentScores.length > 0)
+    .forEach(subject => insights.push(generateSubjectInsight(subject, data)));
+
+  insights.push(generateStudyPatternInsight(data.studyPatterns));
+
+  const impactInsight = generateStudyImpactInsight(data.studyImpact);
+  if (impactInsight) insights.push(impactInsight);
+
+  if (data.goals.length > 0) insights.push(generateGoalInsight(data.goals));
+
+  return insights;
+};
+
+const generateOverallSuggestion = (data: AIPerformanceData): AIGeneratedSuggestion => {
+  const averageScore = data.overallAverage;
+
+  if (averageScore >= 90) {
+    return {
+      title: "Challenge Yourself With Advanced Topics",
+      description: "You're performing at an excellent level. Consider tackling more challenging content or helping peers to deepen your understanding further.",
+      type: "improvement",
+      priority: "medium",
+      category: "advanced_learning",
+      estimatedTime: "Ongoing",
+      confidenceScore: 85
+    };
+  } else if (averageScore >= 80) {
+    return {
+      title: "Implement Spaced Repetition for Long-term Retention",
+      description: "You're doing well, but to secure your knowledge for the long term, try implementing a spaced repetition system for reviewing material.",
+      type: "study_method",
+      priority: "medium",
+      category: "memory_technique",
+      resourceUrl: "https://ncase.me/remember/",
+      estimatedTime: "15-20 min daily",
+      confidenceScore: 90
+    };
+  } else if (averageScore >= 70) {
+    return {
+      title: "Try the Feynman Technique for Better Understanding",
+      description: "To improve your understanding of concepts, practice explaining them in simple terms as if teaching someone else. This helps identify gaps in your knowledge.",
+      type: "study_method",
+      priority: "high",
+      category: "comprehension",
+      resourceUrl: "https://fs.blog/feynman-technique/",
+      estimatedTime: "30 min per topic",
+      confidenceScore: 88
+    };
+  } else if (averageScore >= 60) {
+    return {
+      title: "Create a Structured Study Schedule",
+      description: "Your performance indicates you might benefit from a more structured approach to studying. Create a weekly schedule with specific time blocks for each subject.",
+      type: "improvement",
+      priority: "high",
+      category: "time_management",
+      estimatedTime: "1 hour to set up",
+      confidenceScore: 92
+    };
+  } else {
+    return {
+      title: "Focus on Core Concepts First",
+      description: "Your current scores suggest focusing on mastering the fundamental concepts before moving to advanced topics. Consider meeting with your teachers for additional support.",
+      type: "improvement",
+      priority: "high",
+      category: "foundational_knowledge",
+      estimatedTime: "Ongoing",
+      confidenceScore: 95
+    };
+  }
+};
+
+const generateSubjectSuggestion = (subject: AIPerformanceData['subjects'][number]): AIGeneratedSuggestion => {
+  const { name, averageScore, improvementRate, id } = subject;
+
+  if (improvementRate < -5) {
+    return {
+      title: `Review Fundamentals in ${name}`,
+      description: `Your recent performance in ${name} shows a decline. Try revisiting the core concepts from earlier units to strengthen your foundation before continuing.`,
+      type: "improvement",
+      priority: "high",
+      category: "review",
+      subjectId: id,
+      confidenceScore: 85
+    };
+  } else if (averageScore < 70) {
+    return {
+      title: `${name}: Practice with Additional Resources`,
+      description: `To improve your performance in ${name}, supplement your regular study with additional practice resources like problem sets, online tutorials, or study groups.`,
+      type: "resource",
+      priority: "high",
+      category: "external_resource",
+      estimatedTime: "3-5 hours weekly",
+      subjectId: id,
+      confidenceScore: 90
+    };
+  } else if (averageScore >= 90) {
+    return {
+      title: `Explore Advanced ${name} Topics`,
+      description: `You're excelling in ${name}! Consider exploring more advanced topics or engaging with the subject through projects or competitions to further develop your skills.`,
+      type: "improvement",
+      priority: "low",
+      category: "enrichment",
+      subjectId: id,
+      confidenceScore: 80
+    };
+  } else {
+    return {
+      title: `Create ${name} Concept Maps`,
+      description: `To strengthen your understanding in ${name}, try creating visual concept maps that connect different topics and highlight relationships between key ideas.`,
+      type: "study_method",
+      priority: "medium",
+      category: "visual_learning",
+      estimatedTime: "45-60 min",
+      subjectId: id,
+      confidenceScore: 85
+    };
+  }
+};
+
+const generateStudyPatternSuggestion = (studyPatterns: AIPerformanceData['studyPatterns']): AIGeneratedSuggestion => {
+  const { weeklyStudyHours, consistencyScore } = studyPatterns;
+
+  if (weeklyStudyHours < 10) {
+    return {
+      title: "Increase Weekly Study Time",
+      description: "Your current study time is below the recommended amount for optimal academic performance. Try adding 2-3 more study sessions each week, even if they're short.",
+      type: "improvement",
+      priority: "high",
+      category: "time_management",
+      confidenceScore: 90
+    };
+  } else if (consistencyScore < 50) {
+    return {
+      title: "Develop a Consistent Study Routine",
+      description: "Your study pattern is inconsistent. Try studying at the same times each day to develop a habit. Even 20-30 minute sessions can make a difference if they're regular.",
+      type: "study_method",
+      priority: "high",
+      category: "consistency",
+      estimatedTime: "Ongoing",
+      confidenceScore: 85
+    };
+  } else if (consistencyScore >= 80) {
+    return {
+      title: "Optimize Your Productive Study Times",
+      description: "You have excellent study consistency. Now focus on quality by identifying your most productive times of day and scheduling your most challenging work during those periods.",
+      type: "study_method",
+      priority: "medium",
+      category: "productivity",
+      confidenceScore: 88
+    };
+  } else {
+    return {
+      title: "Try the Pomodoro Technique",
+      description: "To improve focus during study sessions, try the Pomodoro Technique: 25 minutes of focused work followed by a 5-minute break. This helps maintain concentration and avoid burnout.",
+      type: "study_method",
+      priority: "medium",
+      category: "focus",
+      resourceUrl: "https://pomofocus.io/",
+      confidenceScore: 92
+    };
+  }
+};
+
+const generateGoalSuggestion = (goals: AIPerformanceData['goals']): AIGeneratedSuggestion => {
+  const needsAttentionGoals = goals.filter(goal => goal.progress < 50);
+
+  if (needsAttentionGoals.length > 0) {
+    return {
+      title: "Break Down Your Academic Goals",
+      description: "Some of your goals show limited progress. Try breaking them down into smaller, more manageable milestones that you can achieve in 1-2 week intervals.",
+      type: "improvement",
+      priority: "high",
+      category: "goal_setting",
+      estimatedTime: "30-45 min",
+      confidenceScore: 85
+    };
+  } else if (goals.length < 3) {
+    return {
+      title: "Set More Specific Learning Goals",
+      description: "Setting clear, measurable goals helps direct your study efforts. Consider adding more specific goals for each subject with target dates and measurable outcomes.",
+      type: "improvement",
+      priority: "medium",
+      category: "goal_setting",
+      confidenceScore: 80
+    };
+  } else {
+    return {
+      title: "Weekly Goal Review Session",
+      description: "Schedule a weekly 15-minute session to review progress on your goals, adjust them as needed, and plan specific actions for the coming week to keep yourself on track.",
+      type: "study_method",
+      priority: "medium",
+      category: "organization",
+      confidenceScore: 90
+    };
+  }
+};
+
+/**
+ * Suggestions worked out from the data by fixed rules, for when no model is available
+ */
+export const generateRuleBasedSuggestions = (data: AIPerformanceData): AIGeneratedSuggestion[] => {
+  const suggestions: AIGeneratedSuggestion[] = [generateOverallSuggestion(data)];
+
+  data.subjects
+    .filter(subject => subject.recentScores.length > 0)
+    .forEach(subject => suggestions.push(generateSubjectSuggestion(subject)));
+
+  suggestions.push(generateStudyPatternSuggestion(data.studyPatterns));
+
+  if (data.goals.length > 0) suggestions.push(generateGoalSuggestion(data.goals));
+
+  return suggestions;
+};
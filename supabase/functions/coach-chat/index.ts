@@ -0,0 +1,260 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLLMProvider, LLMMessage, LLMProvider, readLLMConfig } from "../_shared/llm.ts";
+import { COACH_TOOLS, CoachEvent, runCoachTool } from "../_shared/coach-tools.ts";
+import { DbClient, toDbClient } from "../_shared/db-client.ts";
+
+// Constants
+const SYSTEM_PROMPT = `
+You are a friendly, practical study coach inside a student's grade tracking app.
+Answer questions about the student's progress and help them plan their study.
+Before talking about their marks, study time, goals or plans, look them up with the tools; never guess numbers.
+Refer to their actual subjects, marks and dates, explain what the data shows, and give concrete next steps.
+When asked to plan, lay the plan out day by day with realistic session lengths.
+Keep answers short and use plain Markdown.
+`;
+
+// Rounds of tool calls allowed before the coach has to answer
+const MAX_TOOL_ROUNDS = 4;
+// Earlier messages sent back to the model with each question
+const HISTORY_LIMIT = 40;
+const TITLE_LENGTH = 60;
+
+// The mock provider's answer, once it has called each tool
+const MOCK_REPLY = "I've looked at your marks, study sessions, goals and study plans above. " +
+  "This reply comes from the mock provider; set LLM_PROVIDER to use a real model for coaching.";
+
+interface StoredMessage {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  tool_calls: LLMMessage["toolCalls"] | null;
+  tool_call_id: string | null;
+  tool_name: string | null;
+}
+
+// Streams the coach's reply to a student's message as newline-delimited CoachEvents:
+// the conversation it belongs to, then text and tool calls as they happen
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Create a Supabase client with the Auth context of the logged in user
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_ANON_KEY") || "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return errorResponse("Not signed in", 401);
+    }
+
+    const db = toDbClient(supabaseClient);
+
+    const { conversationId, message } = await req.json();
+    if (typeof message !== "string" || !message.trim()) {
+      return errorResponse("message is required", 400);
+    }
+
+    const llm = createLLMProvider(
+      readLLMConfig((name) => Deno.env.get(name), { temperature: 0.4, maxTokens: 1200 })
+    );
+
+    const conversation = conversationId
+      ? await loadConversation(db, conversationId)
+      : await createConversation(db, user.id, message);
+    if (!conversation) {
+      return errorResponse("Conversation not found", 404);
+    }
+
+    const history = conversationId ? await loadHistory(db, conversation.id) : [];
+    const question: LLMMessage = { role: "user", content: message.trim() };
+    await saveMessage(db, conversation.id, user.id, question);
+
+    const encoder = new TextEncoder();
+    // The client can go away mid-reply; the reply is still saved, there's just no one to send it to
+    let closed = false;
+    const body = new ReadableStream({
+      async start(controller) {
+        const send = (event: CoachEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          } catch {
+            closed = true;
+          }
+        };
+        try {
+          send({ type: "conversation", conversationId: conversation.id, title: conversation.title });
+          await answer(llm, db, user.id, conversation.id, [
+            { role: "system", content: `${SYSTEM_PROMPT}\nToday is ${new Date().toISOString().slice(0, 10)}.` },
+            ...history,
+            question
+          ], send);
+          send({ type: "done" });
+        } catch (error) {
+          console.error("Error answering coach message:", error);
+          send({ type: "error", message: error instanceof Error ? error.message : "The coach couldn't answer" });
+        } finally {
+          await db
+            .from("coach_conversations")
+            .update({ updated_at: new Date().toISOString() })
+            .eq("id", conversation.id);
+          if (!closed) {
+            try {
+              controller.close();
+            } catch {
+              // Already cancelled by the client
+            }
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      }
+    });
+
+    return new Response(body, {
+      headers: { ...corsHeaders, "Content-Type": "application/x-ndjson" },
+    });
+  } catch (error) {
+    console.error("Error in coach-chat function:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+// Let the model call tools until it answers, streaming and saving each step
+async function answer(
+  llm: LLMProvider,
+  supabase: DbClient,
+  userId: string,
+  conversationId: string,
+  messages: LLMMessage[],
+  send: (event: CoachEvent) => void
+): Promise<void> {
+  for (let round = 0; ; round++) {
+    if (round === MAX_TOOL_ROUNDS) {
+      messages.push({ role: "system", content: "Answer the student now with what you have found, without calling more tools." });
+    }
+
+    const response = await llm.stream(
+      { messages, tools: COACH_TOOLS, mockContent: MOCK_REPLY },
+      (text) => send({ type: "text", text })
+    );
+
+    if (!response.toolCalls?.length || round === MAX_TOOL_ROUNDS) {
+      let content = response.content;
+      if (!content.trim()) {
+        content = "I couldn't finish looking into that. Could you ask about one subject or week at a time?";
+        send({ type: "text", text: content });
+      }
+      await saveMessage(supabase, conversationId, userId, { role: "assistant", content });
+      return;
+    }
+
+    const request: LLMMessage = { role: "assistant", content: response.content, toolCalls: response.toolCalls };
+    messages.push(request);
+    await saveMessage(supabase, conversationId, userId, request);
+
+    for (const call of response.toolCalls) {
+      send({ type: "tool_call", id: call.id, name: call.name, arguments: call.arguments });
+      const outcome = await runCoachTool(supabase, userId, call.name, call.arguments);
+      send({ type: "tool_result", id: call.id, name: call.name, ...outcome });
+
+      const result: LLMMessage = { role: "tool", content: JSON.stringify(outcome), toolCallId: call.id, toolName: call.name };
+      messages.push(result);
+      await saveMessage(supabase, conversationId, userId, result);
+    }
+  }
+}
+
+async function createConversation(supabase: DbClient, userId: string, message: string) {
+  const title = message.trim().length > TITLE_LENGTH
+    ? `${message.trim().slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : message.trim();
+
+  const { data, error } = await supabase
+    .from("coach_conversations")
+    .insert({ user_id: userId, title })
+    .select("id, title")
+    .single();
+
+  if (error) throw new Error(`Failed to start conversation: ${error.message}`);
+  return data as { id: string; title: string };
+}
+
+// RLS limits this to the signed-in user's conversations
+async function loadConversation(supabase: DbClient, conversationId: string) {
+  const { data, error } = await supabase
+    .from("coach_conversations")
+    .select("id, title")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load conversation: ${error.message}`);
+  return data as { id: string; title: string } | null;
+}
+
+// The latest messages, starting at a question, without tool calls left unanswered by
+// an interrupted reply, and without results whose call was dropped (providers reject both)
+async function loadHistory(supabase: DbClient, conversationId: string): Promise<LLMMessage[]> {
+  const { data, error } = await supabase
+    .from("coach_messages")
+    .select("role, content, tool_calls, tool_call_id, tool_name")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw new Error(`Failed to load conversation: ${error.message}`);
+
+  const rows = ((data || []) as StoredMessage[]).reverse();
+  const firstQuestion = rows.findIndex(row => row.role === "user");
+  const recent = firstQuestion < 0 ? [] : rows.slice(firstQuestion);
+  const answered = new Set(recent.filter(row => row.role === "tool").map(row => row.tool_call_id));
+
+  const kept = recent.filter(row => !row.tool_calls?.length || row.tool_calls.every(call => answered.has(call.id)));
+  const keptCalls = new Set(kept.flatMap(row => (row.tool_calls || []).map(call => call.id)));
+
+  return kept
+    .filter(row => row.role !== "tool" || (row.tool_call_id !== null && keptCalls.has(row.tool_call_id)))
+    .map(row => ({
+      role: row.role,
+      content: row.content,
+      ...(row.tool_calls?.length && { toolCalls: row.tool_calls }),
+      ...(row.tool_call_id && { toolCallId: row.tool_call_id, toolName: row.tool_name || undefined }),
+    }));
+}
+
+async function saveMessage(
+  supabase: DbClient,
+  conversationId: string,
+  userId: string,
+  message: LLMMessage
+): Promise<void> {
+  const { error } = await supabase.from("coach_messages").insert({
+    conversation_id: conversationId,
+    user_id: userId,
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls || null,
+    tool_call_id: message.toolCallId || null,
+    tool_name: message.toolName || null,
+  });
+
+  if (error) throw new Error(`Failed to save coach message: ${error.message}`);
+}
+
+const errorResponse = (message: string, status: number) =>
+  new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
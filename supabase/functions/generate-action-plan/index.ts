@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLLMProvider, readLLMConfig } from "../_shared/llm.ts";
+import { parseJsonObject } from "../_shared/ai-response.ts";
+import { toDbClient } from "../_shared/db-client.ts";
+import { AIPerformanceData, loadPerformanceData } from "../_shared/student-analytics.ts";
+import { ActionPlanStep, ActionPlanSuggestion, generateRuleBasedActionPlan } from "../_shared/action-plan.ts";
+
+// Constants
+const SYSTEM_PROMPT = `
+You are an AI academic coach that turns a study suggestion into a concrete, dated action plan for a student.
+Use the student's actual subjects, marks and study sessions to decide what to focus on and when.
+Steps must be ordered, realistic in length, spread over roughly two weeks, and start no earlier than the given start date.
+Format your output as a structured JSON object.
+`;
+
+// Limits a model's step has to stay within
+const MAX_PLAN_DAYS = 28;
+const MIN_STEP_MINUTES = 5;
+const MAX_STEP_MINUTES = 240;
+
+// Main handler for requests
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { userId, suggestion, startDate } = await req.json();
+
+    if (!userId || !suggestion?.title) {
+      return new Response(
+        JSON.stringify({ error: "userId and suggestion are required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Create a Supabase client with the Auth context of the logged in user
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_ANON_KEY") || "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const studentData = await loadPerformanceData(toDbClient(supabaseClient), userId);
+    const start = startDate ? new Date(startDate) : new Date();
+
+    const { plan, source } = await generatePlan(studentData, suggestion, start);
+
+    return new Response(
+      JSON.stringify({ plan, source }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in generate-action-plan function:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
+
+// Generate the plan with the configured LLM provider, falling back to the deterministic generator
+async function generatePlan(
+  studentData: AIPerformanceData,
+  suggestion: ActionPlanSuggestion,
+  startDate: Date
+): Promise<{ plan: ActionPlanStep[]; source: "ai" | "fallback" }> {
+  const fallback = generateRuleBasedActionPlan(studentData, suggestion, startDate);
+
+  try {
+    const llm = createLLMProvider(
+      readLLMConfig((name) => Deno.env.get(name), { temperature: 0.4, maxTokens: 1200 })
+    );
+
+    const userPrompt = `
+      Create an action plan for this suggestion:
+      ${JSON.stringify(suggestion, null, 2)}
+
+      Student context:
+      ${JSON.stringify({
+        subjects: studentData.subjects,
+        preferredStudyTimes: studentData.studyPatterns.preferredStudyTimes,
+      }, null, 2)}
+
+      Start date: ${startDate.toISOString().split("T")[0]}
+
+      Respond with a JSON object with a "steps" array of 4-7 objects with these properties:
+      - order: Step number starting at 1
+      - title: A short, actionable title
+      - description: What exactly to do, referencing the student's data
+      - date: The day to do it, formatted as YYYY-MM-DD
+      - durationMinutes: Estimated minutes needed
+      - subjectId: Optional subject ID from the student context
+    `;
+
+    const response = await llm.complete({
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: userPrompt }
+      ],
+      json: true,
+      mockContent: JSON.stringify({ steps: fallback })
+    });
+
+    const content = response.content;
+    if (!content) {
+      throw new Error("No content in AI response");
+    }
+
+    const parsed = parseJsonObject(content);
+    if (!Array.isArray(parsed.steps)) {
+      throw new Error("AI response did not contain a steps array");
+    }
+
+    const steps = validatePlanSteps(parsed.steps, fallback, studentData, startDate);
+    if (steps.length === 0) {
+      throw new Error("AI response did not contain any usable steps");
+    }
+
+    return { plan: steps, source: "ai" };
+  } catch (error) {
+    console.error("Error generating AI action plan:", error);
+
+    // Return fallback plan if AI fails
+    return { plan: fallback, source: "fallback" };
+  }
+}
+
+/**
+ * Check the model's steps one by one
+ * A step without a title is dropped; a date that's missing, unreadable, before the
+ * start date or past the end of the plan, or a duration that isn't a sensible
+ * number of minutes, is taken from the fallback plan's step in the same position.
+ */
+function validatePlanSteps(
+  rawSteps: unknown[],
+  fallback: ActionPlanStep[],
+  studentData: AIPerformanceData,
+  startDate: Date
+): ActionPlanStep[] {
+  const first = toDateKey(startDate);
+  const lastDate = new Date(startDate);
+  lastDate.setDate(lastDate.getDate() + MAX_PLAN_DAYS);
+  const last = toDateKey(lastDate);
+  const notes: string[] = [];
+
+  const steps = rawSteps.flatMap((raw, index): ActionPlanStep[] => {
+    const step = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+    const title = typeof step.title === "string" ? step.title.trim() : "";
+    if (!title) {
+      console.warn(`Discarded AI plan step ${index + 1}: missing title`, JSON.stringify(raw)?.slice(0, 500));
+      return [];
+    }
+
+    const template = fallback[Math.min(index, fallback.length - 1)];
+    const date = typeof step.date === "string" ? step.date.trim().slice(0, 10) : "";
+    // A date that doesn't survive a round trip (2025-02-31) isn't a real day
+    const parsedDate = new Date(`${date}T00:00:00Z`);
+    const validDate = /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parsedDate.getTime()) &&
+      toDateKey(parsedDate) === date && date >= first && date <= last;
+    if (!validDate) notes.push(`step ${index + 1}: date ${JSON.stringify(step.date)} set to ${template.date}`);
+
+    const minutes = Math.round(Number(step.durationMinutes));
+    const validMinutes = minutes >= MIN_STEP_MINUTES && minutes <= MAX_STEP_MINUTES;
+    if (!validMinutes) {
+      notes.push(`step ${index + 1}: durationMinutes ${JSON.stringify(step.durationMinutes)} set to ${template.durationMinutes}`);
+    }
+
+    const subjectId = typeof step.subjectId === "string" && studentData.subjects.some((s) => s.id === step.subjectId)
+      ? step.subjectId
+      : undefined;
+
+    return [{
+      order: index + 1,
+      title,
+      description: typeof step.description === "string" ? step.description.trim() : "",
+      date: validDate ? date : template.date,
+      durationMinutes: validMinutes ? minutes : template.durationMinutes,
+      subjectId,
+    }];
+  });
+
+  if (notes.length > 0) {
+    console.log("Coerced AI plan fields:", notes.join("; "));
+  }
+
+  return steps
+    .sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order)
+    .map((step, index) => ({ ...step, order: index + 1 }));
+}
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
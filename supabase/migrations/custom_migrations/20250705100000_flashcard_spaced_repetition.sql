@@ -0,0 +1,38 @@
+-- Add spaced-repetition scheduling columns to flashcards
+-- This migration adds the SM-2 ease factor and current interval used by the
+-- flashcard scheduler. next_review, last_reviewed, review_count and
+-- success_rate already exist on the table.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'flashcards' AND column_name = 'ease_factor'
+  ) THEN
+    ALTER TABLE public.flashcards
+    ADD COLUMN ease_factor numeric DEFAULT 2.5 CHECK (ease_factor >= 1.3);
+
+    RAISE NOTICE 'Added ease_factor column to flashcards table';
+  ELSE
+    RAISE NOTICE 'ease_factor column already exists in flashcards table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'flashcards' AND column_name = 'interval_days'
+  ) THEN
+    ALTER TABLE public.flashcards
+    ADD COLUMN interval_days integer DEFAULT 0 CHECK (interval_days >= 0);
+
+    RAISE NOTICE 'Added interval_days column to flashcards table';
+  ELSE
+    RAISE NOTICE 'interval_days column already exists in flashcards table';
+  END IF;
+END $$;
+
+-- Cards that were never reviewed are due immediately
+UPDATE public.flashcards
+SET next_review = now()
+WHERE next_review IS NULL;
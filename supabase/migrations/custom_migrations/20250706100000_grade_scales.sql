@@ -0,0 +1,45 @@
+-- Add server-side grade scales
+-- This migration adds a grade_scales table so custom grading scales follow the
+-- user across devices instead of living in localStorage. Each scale stores its
+-- bands as JSON ([{ "letter": "A-", "min": 90, "points": 3.7 }, ...]) so
+-- plus/minus grades and GPA point values are supported. A user can mark one
+-- scale as their default and assign a different scale to individual subjects.
+
+CREATE TABLE IF NOT EXISTS public.grade_scales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  bands jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_default boolean DEFAULT false,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grade_scales_user_id ON public.grade_scales(user_id);
+
+-- Only one default scale per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grade_scales_user_default
+ON public.grade_scales(user_id)
+WHERE is_default;
+
+ALTER TABLE public.grade_scales ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'grade_scales' AND policyname = 'Users can manage own grade scales') THEN
+    CREATE POLICY "Users can manage own grade scales" ON public.grade_scales FOR ALL TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'subjects' AND column_name = 'grade_scale_id'
+  ) THEN
+    ALTER TABLE public.subjects
+    ADD COLUMN grade_scale_id uuid REFERENCES grade_scales(id) ON DELETE SET NULL;
+
+    RAISE NOTICE 'Added grade_scale_id column to subjects table';
+  ELSE
+    RAISE NOTICE 'grade_scale_id column already exists in subjects table';
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- Add credit hours and assessment weighting to subjects
+-- credit_hours weights each subject in GPA calculations. test_type_weights
+-- holds the subject's grading rule as percentages per marks.test_type, e.g.
+-- { "exam": 50, "quiz": 20, "assignment": 30 }. An empty object keeps the
+-- plain average of all marks.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'subjects' AND column_name = 'credit_hours'
+  ) THEN
+    ALTER TABLE public.subjects
+    ADD COLUMN credit_hours numeric DEFAULT 3 CHECK (credit_hours > 0);
+
+    RAISE NOTICE 'Added credit_hours column to subjects table';
+  ELSE
+    RAISE NOTICE 'credit_hours column already exists in subjects table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'subjects' AND column_name = 'test_type_weights'
+  ) THEN
+    ALTER TABLE public.subjects
+    ADD COLUMN test_type_weights jsonb DEFAULT '{}'::jsonb;
+
+    RAISE NOTICE 'Added test_type_weights column to subjects table';
+  ELSE
+    RAISE NOTICE 'test_type_weights column already exists in subjects table';
+  END IF;
+END $$;
@@ -0,0 +1,74 @@
+-- Add terms (semesters) with date ranges and archiving
+-- Marks and subjects can belong to a term. Marks without a term_id still
+-- group by date into whichever term covers them. Existing free-text
+-- marks.semester values become terms spanning their marks' dates.
+
+CREATE TABLE IF NOT EXISTS public.terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  is_archived boolean DEFAULT false,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT terms_date_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_terms_user_id ON public.terms(user_id);
+
+ALTER TABLE public.terms ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'terms' AND policyname = 'Users can manage own terms') THEN
+    CREATE POLICY "Users can manage own terms" ON public.terms FOR ALL TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'marks' AND column_name = 'term_id'
+  ) THEN
+    ALTER TABLE public.marks
+    ADD COLUMN term_id uuid REFERENCES terms(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_marks_term_id ON public.marks(term_id);
+
+    RAISE NOTICE 'Added term_id column to marks table';
+  ELSE
+    RAISE NOTICE 'term_id column already exists in marks table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'subjects' AND column_name = 'term_id'
+  ) THEN
+    ALTER TABLE public.subjects
+    ADD COLUMN term_id uuid REFERENCES terms(id) ON DELETE SET NULL;
+
+    RAISE NOTICE 'Added term_id column to subjects table';
+  ELSE
+    RAISE NOTICE 'term_id column already exists in subjects table';
+  END IF;
+END $$;
+
+-- Turn existing semester labels into terms
+INSERT INTO public.terms (name, start_date, end_date, user_id)
+SELECT trim(m.semester), min(m.date), max(m.date), m.user_id
+FROM public.marks m
+WHERE m.semester IS NOT NULL
+  AND trim(m.semester) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM public.terms t
+    WHERE t.user_id = m.user_id AND t.name = trim(m.semester)
+  )
+GROUP BY trim(m.semester), m.user_id;
+
+UPDATE public.marks m
+SET term_id = t.id
+FROM public.terms t
+WHERE m.term_id IS NULL
+  AND t.user_id = m.user_id
+  AND t.name = trim(m.semester);
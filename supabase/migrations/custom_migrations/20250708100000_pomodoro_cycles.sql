@@ -0,0 +1,36 @@
+-- Pomodoro cycles: per-subject timer presets and pomodoro counts on sessions
+-- subjects.pomodoro_settings overrides the user's timer settings (kept in
+-- users.study_preferences under "pomodoro") while studying that subject, e.g.
+-- { "pomodoro": 50, "shortBreak": 10, "longBreak": 30, "longBreakInterval": 3,
+--   "autoStartBreaks": true, "autoStartPomodoros": false }. NULL uses the
+-- user's settings. A study session now spans a whole cycle, so it records the
+-- focus blocks finished (pomodoro_count) and those stopped or skipped early.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'subjects' AND column_name = 'pomodoro_settings'
+  ) THEN
+    ALTER TABLE public.subjects
+    ADD COLUMN pomodoro_settings jsonb;
+
+    RAISE NOTICE 'Added pomodoro_settings column to subjects table';
+  ELSE
+    RAISE NOTICE 'pomodoro_settings column already exists in subjects table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'study_sessions' AND column_name = 'interrupted_pomodoros'
+  ) THEN
+    ALTER TABLE public.study_sessions
+    ADD COLUMN interrupted_pomodoros integer DEFAULT 0 CHECK (interrupted_pomodoros >= 0);
+
+    RAISE NOTICE 'Added interrupted_pomodoros column to study_sessions table';
+  ELSE
+    RAISE NOTICE 'interrupted_pomodoros column already exists in study_sessions table';
+  END IF;
+END $$;
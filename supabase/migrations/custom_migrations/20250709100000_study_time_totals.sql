@@ -0,0 +1,65 @@
+-- Keep study time totals in step with study_sessions
+-- users.total_study_time and subjects.total_study_time (both in minutes) are
+-- recomputed from the sessions whenever a session is added, removed, or has
+-- its duration, subject or owner changed. Recomputing rather than adding deltas
+-- keeps the totals right however a session is edited.
+
+CREATE OR REPLACE FUNCTION public.refresh_study_time_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected_users uuid[];
+  affected_subjects uuid[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    affected_users := ARRAY[NEW.user_id];
+    affected_subjects := ARRAY[NEW.subject_id];
+  ELSIF TG_OP = 'DELETE' THEN
+    affected_users := ARRAY[OLD.user_id];
+    affected_subjects := ARRAY[OLD.subject_id];
+  ELSE
+    affected_users := ARRAY[OLD.user_id, NEW.user_id];
+    affected_subjects := ARRAY[OLD.subject_id, NEW.subject_id];
+  END IF;
+
+  UPDATE public.users u
+  SET total_study_time = (
+    SELECT COALESCE(SUM(s.duration_minutes), 0)
+    FROM public.study_sessions s
+    WHERE s.user_id = u.id
+  )
+  WHERE u.id = ANY(affected_users);
+
+  UPDATE public.subjects sub
+  SET total_study_time = (
+    SELECT COALESCE(SUM(s.duration_minutes), 0)
+    FROM public.study_sessions s
+    WHERE s.subject_id = sub.id
+  )
+  WHERE sub.id = ANY(affected_subjects);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_study_time_totals ON public.study_sessions;
+
+CREATE TRIGGER refresh_study_time_totals
+AFTER INSERT OR DELETE OR UPDATE OF duration_minutes, subject_id, user_id ON public.study_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_study_time_totals();
+
+-- Bring existing totals up to date
+UPDATE public.users u
+SET total_study_time = (
+  SELECT COALESCE(SUM(s.duration_minutes), 0)
+  FROM public.study_sessions s
+  WHERE s.user_id = u.id
+);
+
+UPDATE public.subjects sub
+SET total_study_time = (
+  SELECT COALESCE(SUM(s.duration_minutes), 0)
+  FROM public.study_sessions s
+  WHERE s.subject_id = sub.id
+);
+
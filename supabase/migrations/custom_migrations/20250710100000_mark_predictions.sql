@@ -0,0 +1,24 @@
+-- Grade predictions on marks
+-- When a mark is added, or is still upcoming, the app predicts its score from
+-- the subject's earlier marks, their trend and difficulty, and recent study.
+-- marks.predicted_grade holds the predicted letter on the subject's grade
+-- scale; the columns added here hold the predicted percentage and the range
+-- the score is expected to fall in (an 80% interval).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'marks' AND column_name = 'predicted_percentage'
+  ) THEN
+    ALTER TABLE public.marks
+    ADD COLUMN predicted_percentage numeric(5,2) CHECK (predicted_percentage >= 0 AND predicted_percentage <= 100),
+    ADD COLUMN predicted_low numeric(5,2) CHECK (predicted_low >= 0 AND predicted_low <= 100),
+    ADD COLUMN predicted_high numeric(5,2) CHECK (predicted_high >= 0 AND predicted_high <= 100);
+
+    RAISE NOTICE 'Added prediction columns to marks table';
+  ELSE
+    RAISE NOTICE 'Prediction columns already exist in marks table';
+  END IF;
+END $$;
@@ -0,0 +1,40 @@
+-- Measurable goals
+-- A goal can track a metric the app measures by itself: a subject's average,
+-- the best score on a single test, study hours over the goal's period, or the
+-- study streak. current_score and progress are then recomputed whenever marks
+-- or study sessions change, goals that reach their target are completed, and
+-- goals falling behind as target_date nears are flagged at_risk.
+-- Study hours and streak days aren't percentages, so target_score and
+-- current_score are only capped at 100 for the other metrics.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'metric'
+  ) THEN
+    ALTER TABLE public.goals
+    ADD COLUMN metric text NOT NULL DEFAULT 'manual'
+      CHECK (metric IN ('manual', 'subject_average', 'test_score', 'study_hours', 'streak')),
+    ADD COLUMN metric_test_type text,
+    ADD COLUMN at_risk boolean NOT NULL DEFAULT false,
+    ADD COLUMN completed_at timestamptz;
+
+    RAISE NOTICE 'Added metric columns to goals table';
+  ELSE
+    RAISE NOTICE 'Metric columns already exist in goals table';
+  END IF;
+END $$;
+
+ALTER TABLE public.goals
+DROP CONSTRAINT IF EXISTS goals_target_score_check,
+DROP CONSTRAINT IF EXISTS goals_current_score_check;
+
+ALTER TABLE public.goals
+DROP CONSTRAINT IF EXISTS goals_target_score_range_check,
+ADD CONSTRAINT goals_target_score_range_check
+  CHECK (target_score >= 0 AND (target_score <= 100 OR metric IN ('study_hours', 'streak'))),
+DROP CONSTRAINT IF EXISTS goals_current_score_range_check,
+ADD CONSTRAINT goals_current_score_range_check
+  CHECK (current_score >= 0 AND (current_score <= 100 OR metric IN ('study_hours', 'streak')));
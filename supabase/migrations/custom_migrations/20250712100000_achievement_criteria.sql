@@ -0,0 +1,82 @@
+-- Data-driven achievements
+-- achievements.criteria now follows a typed rule format (threshold, count,
+-- streak, improvement, all) that the app and Edge Functions evaluate with one
+-- engine (supabase/functions/_shared/achievement-criteria.ts). The SQL
+-- check_achievements() trigger, which only knew a few achievements by name,
+-- is retired. Admins listed in public.admins can add and edit achievements.
+
+-- Stop awarding achievements in SQL
+DROP TRIGGER IF EXISTS check_achievements_on_mark ON public.marks;
+DROP TRIGGER IF EXISTS check_achievements_on_study_session ON public.study_sessions;
+
+CREATE OR REPLACE FUNCTION check_achievements()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Achievements are evaluated from achievements.criteria by the app
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Convert the seeded criteria to the rule format. Criteria the format can't
+-- express (group and resource activity, time-of-day sessions) are left as they
+-- are and show as locked without progress until an admin rewrites them.
+UPDATE public.achievements
+SET criteria = CASE
+  WHEN criteria ? 'study_sessions' THEN
+    jsonb_build_object('type', 'count', 'of', 'study_sessions', 'min', criteria->'study_sessions')
+  WHEN criteria ? 'marks_count' THEN
+    jsonb_build_object('type', 'count', 'of', 'marks', 'min', criteria->'marks_count')
+  WHEN criteria ? 'high_scores' THEN
+    jsonb_build_object('type', 'count', 'of', 'marks', 'min', criteria->'high_scores', 'minPercentage', criteria->'threshold')
+  WHEN criteria ? 'perfect_scores' THEN
+    jsonb_build_object('type', 'count', 'of', 'marks', 'min', criteria->'perfect_scores', 'minPercentage', 100)
+  WHEN criteria ? 'perfect_score' THEN
+    jsonb_build_object('type', 'count', 'of', 'marks', 'min', 1, 'minPercentage', 100)
+  WHEN criteria ? 'completed_goals' THEN
+    jsonb_build_object('type', 'count', 'of', 'completed_goals', 'min', criteria->'completed_goals')
+  WHEN criteria ? 'notes_created' THEN
+    jsonb_build_object('type', 'count', 'of', 'notes', 'min', criteria->'notes_created')
+  WHEN criteria ? 'flashcards_created' THEN
+    jsonb_build_object('type', 'count', 'of', 'flashcards', 'min', criteria->'flashcards_created')
+  WHEN criteria ? 'flashcards_reviewed' THEN
+    jsonb_build_object('type', 'count', 'of', 'flashcard_reviews', 'min', criteria->'flashcards_reviewed')
+  WHEN criteria ? 'streak_days' THEN
+    jsonb_build_object('type', 'streak', 'days', criteria->'streak_days')
+  WHEN criteria ? 'study_streak' THEN
+    jsonb_build_object('type', 'streak', 'days', criteria->'study_streak')
+  WHEN criteria ? 'total_hours' THEN
+    jsonb_build_object('type', 'threshold', 'metric', 'study_hours', 'min', criteria->'total_hours')
+  WHEN criteria ? 'total_study_hours' THEN
+    jsonb_build_object('type', 'threshold', 'metric', 'study_hours', 'min', criteria->'total_study_hours')
+  WHEN criteria ? 'subject_average' THEN
+    jsonb_build_object('type', 'threshold', 'metric', 'average_percentage', 'min', criteria->'subject_average',
+      'scope', 'any_subject', 'minMarks', COALESCE(criteria->'min_tests', '1'::jsonb))
+  WHEN criteria ? 'grade_improvement' THEN
+    jsonb_build_object('type', 'improvement', 'points', criteria->'grade_improvement')
+  WHEN criteria ? 'improvement_percentage' THEN
+    jsonb_build_object('type', 'improvement', 'points', criteria->'improvement_percentage')
+  ELSE criteria
+END
+WHERE NOT criteria ? 'type';
+
+-- Admins manage the achievement catalogue. Rows are added with the service role,
+-- so users can't make themselves admins.
+CREATE TABLE IF NOT EXISTS public.admins (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.admins ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'admins' AND policyname = 'Users can see whether they are admins') THEN
+    CREATE POLICY "Users can see whether they are admins" ON public.admins FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'achievements' AND policyname = 'Admins can manage achievements') THEN
+    CREATE POLICY "Admins can manage achievements" ON public.achievements FOR ALL TO authenticated
+      USING (EXISTS (SELECT 1 FROM public.admins WHERE user_id = auth.uid()))
+      WITH CHECK (EXISTS (SELECT 1 FROM public.admins WHERE user_id = auth.uid()));
+  END IF;
+END $$;
@@ -0,0 +1,177 @@
+-- Timezone-aware study streaks with streak freezes
+-- Streaks are counted in calendar days of users.timezone rather than server (UTC)
+-- dates, and a day only counts once its sessions add up to at least
+-- users.streak_min_minutes. Every 7 counted days earns a streak freeze (up to
+-- 2 held at once). A freeze is spent automatically on a missed day so the streak
+-- survives; spent freezes are recorded in streak_freeze_days.
+--
+-- refresh_user_streak() recomputes a user's streak from their sessions. It runs
+-- whenever sessions change, and the app calls it on load so a missed day is
+-- noticed (and a freeze spent) without waiting for the next session.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'streak_min_minutes'
+  ) THEN
+    ALTER TABLE public.users
+    ADD COLUMN streak_min_minutes integer NOT NULL DEFAULT 1 CHECK (streak_min_minutes BETWEEN 1 AND 1440);
+
+    RAISE NOTICE 'Added streak_min_minutes column to users table';
+  ELSE
+    RAISE NOTICE 'streak_min_minutes column already exists in users table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'streak_freezes'
+  ) THEN
+    ALTER TABLE public.users
+    ADD COLUMN streak_freezes integer NOT NULL DEFAULT 0;
+
+    RAISE NOTICE 'Added streak_freezes column to users table';
+  ELSE
+    RAISE NOTICE 'streak_freezes column already exists in users table';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.streak_freeze_days (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE public.streak_freeze_days ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'streak_freeze_days' AND policyname = 'Users can view own streak freezes') THEN
+    CREATE POLICY "Users can view own streak freezes" ON public.streak_freeze_days FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_streak(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  freeze_every constant integer := 7;
+  max_freezes constant integer := 2;
+  tz text;
+  min_minutes integer;
+  today date;
+  first_day date;
+  d date;
+  studied date[];
+  frozen date[];
+  run integer := 0;
+  best integer := 0;
+  since_earned integer := 0;
+  held integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Cannot refresh another user''s streak';
+  END IF;
+
+  SELECT COALESCE(timezone, 'UTC'), COALESCE(streak_min_minutes, 1)
+  INTO tz, min_minutes
+  FROM public.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+    tz := 'UTC';
+  END IF;
+
+  today := (now() AT TIME ZONE tz)::date;
+
+  -- Local days whose sessions reach the daily minimum
+  SELECT COALESCE(array_agg(day ORDER BY day), '{}')
+  INTO studied
+  FROM (
+    SELECT (start_time AT TIME ZONE tz)::date AS day
+    FROM public.study_sessions
+    WHERE user_id = p_user_id
+    GROUP BY 1
+    HAVING SUM(COALESCE(duration_minutes, 0)) >= min_minutes
+  ) days;
+
+  -- A day that now counts on its own no longer needs its freeze
+  DELETE FROM public.streak_freeze_days
+  WHERE user_id = p_user_id AND day = ANY(studied);
+
+  SELECT COALESCE(array_agg(day), '{}') INTO frozen
+  FROM public.streak_freeze_days WHERE user_id = p_user_id;
+
+  first_day := studied[1];
+
+  IF first_day IS NOT NULL THEN
+    FOR d IN SELECT generate_series(first_day, today, interval '1 day')::date LOOP
+      IF d = ANY(studied) THEN
+        run := run + 1;
+        best := GREATEST(best, run);
+        since_earned := since_earned + 1;
+        IF since_earned >= freeze_every THEN
+          since_earned := 0;
+          held := LEAST(held + 1, max_freezes);
+        END IF;
+      ELSIF d = ANY(frozen) THEN
+        held := GREATEST(held - 1, 0);
+      ELSIF d = today THEN
+        -- Today isn't over, so not studying yet doesn't break the streak
+        NULL;
+      ELSIF run > 0 AND held > 0 THEN
+        INSERT INTO public.streak_freeze_days (user_id, day) VALUES (p_user_id, d)
+        ON CONFLICT DO NOTHING;
+        held := held - 1;
+      ELSE
+        run := 0;
+        since_earned := 0;
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE public.users
+  SET
+    current_streak = run,
+    longest_streak = GREATEST(COALESCE(longest_streak, 0), best),
+    streak_freezes = held
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.refresh_user_streak(uuid) TO authenticated;
+
+-- Replaces the old per-insert streak arithmetic, which used server dates and
+-- didn't see session lengths (timer sessions are inserted before they have one)
+CREATE OR REPLACE FUNCTION public.update_user_streak()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_user_streak(OLD.user_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.user_id IS DISTINCT FROM OLD.user_id) THEN
+    PERFORM public.refresh_user_streak(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_streak_on_study_session ON public.study_sessions;
+
+CREATE TRIGGER update_streak_on_study_session
+AFTER INSERT OR DELETE OR UPDATE OF start_time, duration_minutes, user_id ON public.study_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_user_streak();
+
+-- Recompute existing streaks in each user's timezone
+DO $$
+DECLARE
+  u record;
+BEGIN
+  FOR u IN SELECT id FROM public.users LOOP
+    PERFORM public.refresh_user_streak(u.id);
+  END LOOP;
+END $$;
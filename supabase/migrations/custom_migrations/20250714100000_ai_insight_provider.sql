@@ -0,0 +1,32 @@
+-- Record which LLM provider and model wrote each AI insight
+-- Edge Functions pick their provider from the environment (LLM_PROVIDER, LLM_MODEL),
+-- so the same deployment can move between OpenAI, Anthropic, a local model or the
+-- mock. Insights from the rule-based generators are recorded with provider 'rules'
+-- and no model.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_insights' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE public.ai_insights
+    ADD COLUMN provider text;
+
+    RAISE NOTICE 'Added provider column to ai_insights table';
+  ELSE
+    RAISE NOTICE 'provider column already exists in ai_insights table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_insights' AND column_name = 'model'
+  ) THEN
+    ALTER TABLE public.ai_insights
+    ADD COLUMN model text;
+
+    RAISE NOTICE 'Added model column to ai_insights table';
+  ELSE
+    RAISE NOTICE 'model column already exists in ai_insights table';
+  END IF;
+END $$;
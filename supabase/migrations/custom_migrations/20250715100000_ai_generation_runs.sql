@@ -0,0 +1,34 @@
+-- Record each AI insight generation, for caching and a daily budget
+-- generate-insights stores a fingerprint of the student data it analysed with
+-- each run. A request whose data has the same fingerprint as the last run is
+-- answered without calling the model, and runs in the last 24 hours count
+-- against a per-user budget. Users can read their own runs, so the app can show
+-- when insights were last generated and when the next run is allowed; there is
+-- no delete policy, so the budget can't be reset from the client.
+
+CREATE TABLE IF NOT EXISTS public.ai_generation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  fingerprint text NOT NULL,
+  provider text,
+  model text,
+  insights_count integer NOT NULL DEFAULT 0,
+  suggestions_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generation_runs_user_created
+  ON public.ai_generation_runs(user_id, created_at DESC);
+
+ALTER TABLE public.ai_generation_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'ai_generation_runs' AND policyname = 'Users can view own AI generation runs') THEN
+    CREATE POLICY "Users can view own AI generation runs" ON public.ai_generation_runs FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'ai_generation_runs' AND policyname = 'Users can insert own AI generation runs') THEN
+    CREATE POLICY "Users can insert own AI generation runs" ON public.ai_generation_runs FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
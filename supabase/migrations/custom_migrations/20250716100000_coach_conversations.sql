@@ -0,0 +1,56 @@
+-- Study coach conversations
+-- The coach-chat Edge Function answers a student's questions with a model that
+-- can query their marks, sessions, goals and plans. Each conversation keeps every
+-- message: the student's, the coach's (with any tool calls it made) and the
+-- result of each tool call, so the app can show what the coach looked at.
+
+CREATE TABLE IF NOT EXISTS public.coach_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.coach_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES coach_conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+  content text NOT NULL DEFAULT '',
+  -- Assistant messages: the tools called, as [{ id, name, arguments }]
+  tool_calls jsonb,
+  -- Tool messages: which call this is the result of
+  tool_call_id text,
+  tool_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_conversations_user_updated
+  ON public.coach_conversations(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_coach_messages_conversation_created
+  ON public.coach_messages(conversation_id, created_at);
+
+ALTER TABLE public.coach_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coach_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'coach_conversations' AND policyname = 'Users can manage own coach conversations') THEN
+    CREATE POLICY "Users can manage own coach conversations" ON public.coach_conversations FOR ALL TO authenticated
+      USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'coach_messages' AND policyname = 'Users can view own coach messages') THEN
+    CREATE POLICY "Users can view own coach messages" ON public.coach_messages FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'coach_messages' AND policyname = 'Users can insert own coach messages') THEN
+    CREATE POLICY "Users can insert own coach messages" ON public.coach_messages FOR INSERT TO authenticated
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.coach_conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+      );
+  END IF;
+END $$;
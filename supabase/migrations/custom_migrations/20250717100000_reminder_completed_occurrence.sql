@@ -0,0 +1,21 @@
+-- Track completed occurrences of recurring reminders
+-- Completing a recurring reminder used to move reminder_date on to the next
+-- occurrence, which lost the anchor: a reminder on the 31st clamped to the 28th
+-- in February and stayed there. reminder_date now stays the first occurrence and
+-- the latest occurrence marked done is kept here instead.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'reminders' AND column_name = 'last_completed_occurrence'
+  ) THEN
+    ALTER TABLE public.reminders
+    ADD COLUMN last_completed_occurrence timestamptz;
+
+    RAISE NOTICE 'Added last_completed_occurrence column to reminders table';
+  ELSE
+    RAISE NOTICE 'last_completed_occurrence column already exists in reminders table';
+  END IF;
+END $$;
@@ -0,0 +1,102 @@
+-- Import an account archive in one transaction
+-- The app plans the import (new ids, remapped foreign keys, rows the account
+-- already has left out) and hands every table's rows to import_user_archive(),
+-- so a failure part way leaves nothing behind instead of a half-imported account.
+--
+-- Subject codes are unique across every account, so a code another account
+-- already uses is given a numbered suffix (MATH101 -> MATH101-2). The renamed
+-- codes are returned so the app can say so.
+
+CREATE OR REPLACE FUNCTION public.import_user_archive(p_profile jsonb, p_tables jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  -- Dependency order: every table only references tables above it
+  archive_tables constant text[] := ARRAY[
+    'grade_scales', 'terms', 'subjects', 'goals', 'marks', 'study_sessions',
+    'study_plans', 'notes', 'flashcards', 'reminders', 'user_achievements'
+  ];
+  importing_user uuid := auth.uid();
+  t text;
+  table_rows jsonb;
+  cols text;
+  subject jsonb;
+  fixed jsonb;
+  code text;
+  candidate text;
+  n integer;
+  renamed jsonb := '{}';
+BEGIN
+  IF importing_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in to import data';
+  END IF;
+
+  IF p_profile IS NOT NULL AND jsonb_typeof(p_profile) = 'object' THEN
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO cols
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = 'users'
+      AND c.is_generated = 'NEVER'
+      AND c.column_name NOT IN ('id', 'email')
+      AND p_profile ? c.column_name;
+
+    IF cols IS NOT NULL THEN
+      EXECUTE format(
+        'UPDATE public.users SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.users, $1)) WHERE id = $2',
+        cols
+      ) USING p_profile, importing_user;
+    END IF;
+  END IF;
+
+  FOREACH t IN ARRAY archive_tables LOOP
+    table_rows := p_tables -> t;
+    CONTINUE WHEN table_rows IS NULL OR jsonb_typeof(table_rows) <> 'array' OR jsonb_array_length(table_rows) = 0;
+
+    -- Every row belongs to the importing account, whatever the archive says
+    SELECT jsonb_agg(r || jsonb_build_object('user_id', importing_user))
+    INTO table_rows
+    FROM jsonb_array_elements(table_rows) r;
+
+    IF t = 'subjects' THEN
+      fixed := '[]';
+      FOR subject IN SELECT value FROM jsonb_array_elements(table_rows) LOOP
+        code := subject ->> 'code';
+        candidate := code;
+        n := 1;
+        WHILE EXISTS (SELECT 1 FROM public.subjects s WHERE s.code = candidate)
+          OR fixed @> jsonb_build_array(jsonb_build_object('code', candidate)) LOOP
+          n := n + 1;
+          candidate := code || '-' || n;
+        END LOOP;
+
+        IF candidate IS DISTINCT FROM code THEN
+          renamed := renamed || jsonb_build_object(code, candidate);
+          subject := jsonb_set(subject, '{code}', to_jsonb(candidate));
+        END IF;
+        fixed := fixed || jsonb_build_array(subject);
+      END LOOP;
+      table_rows := fixed;
+    END IF;
+
+    -- Only columns the archive has and the table can take; generated columns are left out
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO cols
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = t
+      AND c.is_generated = 'NEVER'
+      AND EXISTS (SELECT 1 FROM jsonb_array_elements(table_rows) r WHERE r ? c.column_name);
+
+    IF cols IS NULL THEN
+      RAISE EXCEPTION 'Table % does not exist in this project', t;
+    END IF;
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+      t, cols
+    ) USING table_rows;
+  END LOOP;
+
+  RETURN jsonb_build_object('renamed_subject_codes', renamed);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.import_user_archive(jsonb, jsonb) TO authenticated;
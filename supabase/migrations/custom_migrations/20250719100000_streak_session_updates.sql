@@ -0,0 +1,59 @@
+-- Only refresh the streak when a session update can change which days count
+-- A running timer saves duration_minutes every minute, and each save used to
+-- recompute the user's whole streak. update_user_streak() now checks the one day
+-- an update touches and skips the refresh unless the update moves that day across
+-- the daily minimum. Inserts, deletes and moves to another day or user still
+-- refresh as before; the trigger itself is unchanged.
+
+CREATE OR REPLACE FUNCTION public.update_user_streak()
+RETURNS TRIGGER AS $$
+DECLARE
+  tz text;
+  min_minutes integer;
+  session_day date;
+  day_total integer;
+BEGIN
+  -- A running timer saves duration_minutes every minute. Such an update only
+  -- matters when it moves its day across the daily minimum, so check that one
+  -- day's total rather than recomputing the whole streak each time.
+  IF TG_OP = 'UPDATE' AND NEW.user_id = OLD.user_id THEN
+    SELECT COALESCE(timezone, 'UTC'), COALESCE(streak_min_minutes, 1)
+    INTO tz, min_minutes
+    FROM public.users WHERE id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      RETURN NULL;
+    END IF;
+
+    BEGIN
+      session_day := (NEW.start_time AT TIME ZONE tz)::date;
+    EXCEPTION WHEN invalid_parameter_value THEN
+      tz := 'UTC';
+      session_day := (NEW.start_time AT TIME ZONE tz)::date;
+    END;
+
+    IF (OLD.start_time AT TIME ZONE tz)::date = session_day THEN
+      SELECT COALESCE(SUM(COALESCE(duration_minutes, 0)), 0)
+      INTO day_total
+      FROM public.study_sessions
+      WHERE user_id = NEW.user_id
+        AND start_time >= (session_day::timestamp AT TIME ZONE tz)
+        AND start_time < ((session_day + 1)::timestamp AT TIME ZONE tz);
+
+      -- Whether the day counted before this update, against whether it does now
+      IF (day_total - COALESCE(NEW.duration_minutes, 0) + COALESCE(OLD.duration_minutes, 0) >= min_minutes)
+        = (day_total >= min_minutes) THEN
+        RETURN NULL;
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_user_streak(OLD.user_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.user_id IS DISTINCT FROM OLD.user_id) THEN
+    PERFORM public.refresh_user_streak(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,8 @@
+-- Record rule-based fallback runs in ai_generation_runs
+-- generate-insights now records a run when the model fails and it falls back to
+-- the rules, with provider 'rules'. Those runs don't count against the daily
+-- budget, and their fingerprint isn't matched, so the model is tried again on
+-- unchanged data. The table needs no change; this documents what provider means.
+
+COMMENT ON COLUMN public.ai_generation_runs.provider IS
+  'LLM provider that wrote the run, or ''rules'' for a rule-based fallback, which neither counts against the budget nor skips the next run';
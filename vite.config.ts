@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code shared with Edge Functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
   server: {